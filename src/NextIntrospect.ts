@@ -1,14 +1,41 @@
 import path from "path";
 import type {
+  AffectedRoute,
+  AnalysisWarning,
+  AppRouterRoute,
+  AppRoutingModel,
+  InterceptingRoute,
+  ParallelSlot,
+  RouteConflict,
   IntrospectionOptions,
+  LinkValidation,
+  ModuleDependents,
   ProjectInfo,
   RouteInfo,
   IntrospectionResult,
+  OrphanReport,
   OutputFormat,
   OutputMode,
+  RouteClientBundle,
+  RouteDependencies,
+  RouteMatch,
   RouteMetadata,
+  RouteSimulation,
+  RuleAnalysis,
+  RuleAnalysisOptions,
+  SimulationOptions,
+  RenderingStrategy,
+  ServerAction,
 } from "./types.js";
 import { NextJsAdapter } from "./adapters/NextJsAdapter.js";
+import { AppRouterParser } from "./parsers/AppRouterParser.js";
+import { ClientBoundaryAnalyzer } from "./analyzers/ClientBoundaryAnalyzer.js";
+import { ConflictDetector } from "./analyzers/ConflictDetector.js";
+import { LinkValidator } from "./analyzers/LinkValidator.js";
+import { ModuleGraph } from "./analyzers/ModuleGraph.js";
+import { OrphanRouteAnalyzer } from "./analyzers/OrphanRouteAnalyzer.js";
+import { RouteMatcher } from "./analyzers/RouteMatcher.js";
+import { RouteSimulator } from "./analyzers/RouteSimulator.js";
 import { ObjectFormatter } from "./formatters/ObjectFormatter.js";
 import { JsonFormatter } from "./formatters/JsonFormatter.js";
 import { MarkdownFormatter } from "./formatters/MarkdownFormatter.js";
@@ -17,10 +44,12 @@ import {
   isNextJsProject,
   formatPathForDisplay,
   routesToNested,
+  expandLocaleRoutes,
   routesToArray,
   parseMetadataFile,
   mergeRouteMetadata,
   filterExcludedFields,
+  traverseDirectory,
 } from "./utils.js";
 
 /**
@@ -34,6 +63,10 @@ export class NextIntrospect {
   private options: IntrospectionOptions;
   private projectInfo: ProjectInfo | null = null;
   private routes: RouteInfo[] = [];
+  private routingModel: AppRoutingModel | undefined;
+  private serverActions: ServerAction[] = [];
+  private moduleGraph: ModuleGraph | undefined;
+  private clientBundles: RouteClientBundle[] = [];
   private analyzed = false;
 
   // Formatters
@@ -77,6 +110,28 @@ export class NextIntrospect {
 
     // Get routes based on router type
     this.routes = await adapter.getRoutes(this.projectPath, this.options.mode!);
+    this.routingModel = await adapter.getRoutingModel(
+      this.projectPath,
+      this.options.mode!,
+      this.projectInfo.config?.pageExtensions,
+    );
+    this.serverActions = await adapter.getServerActions(
+      this.projectPath,
+      this.routes,
+      this.options.mode!,
+    );
+    this.moduleGraph = await adapter.getModuleGraph(
+      this.projectPath,
+      this.routes,
+      this.options.mode!,
+    );
+    this.clientBundles = this.moduleGraph
+      ? await ClientBoundaryAnalyzer.analyze(
+          this.moduleGraph,
+          this.routes,
+          Object.keys(this.projectInfo.config?.env || {}),
+        )
+      : [];
 
     // Load and merge metadata if specified
     if (this.options.metadata?.file) {
@@ -138,14 +193,17 @@ export class NextIntrospect {
       );
     }
 
+    const listedRoutes = this.options.outputFormat?.expandLocales
+      ? expandLocaleRoutes(this.routes)
+      : this.routes;
     const routes = this.options.outputFormat?.nested
       ? routesToNested(
-          this.routes,
+          listedRoutes,
           this.options.outputFormat.includeEmptySegments,
         )
-      : this.routes;
+      : listedRoutes;
 
-    const result = {
+    const result: IntrospectionResult = {
       project: this.projectInfo,
       routes: routes,
       metadata: {
@@ -156,6 +214,26 @@ export class NextIntrospect {
       },
     };
 
+    // Parallel and intercepting route model (App Router only)
+    if (this.routingModel?.parallelSlots.length) {
+      result.parallelSlots = this.routingModel.parallelSlots;
+    }
+    if (this.routingModel?.interceptingRoutes.length) {
+      result.interceptingRoutes = this.routingModel.interceptingRoutes;
+    }
+    if (this.routingModel?.warnings.length) {
+      result.warnings = this.routingModel.warnings;
+    }
+    if (this.serverActions.length) {
+      result.serverActions = this.serverActions;
+    }
+    if (this.clientBundles.length) {
+      result.clientBundles = this.clientBundles;
+    }
+    if (this.options.moduleGraph && this.moduleGraph) {
+      result.moduleGraph = this.moduleGraph.toJSON();
+    }
+
     // Apply field filtering if specified
     if (
       this.options.outputFormat?.excludeFields &&
@@ -247,12 +325,36 @@ export class NextIntrospect {
 
       // Format file path if showFilePaths is explicitly enabled
       if (this.options.pathDisplay!.showFilePaths === true) {
-        formattedRoute.filePath = formatPathForDisplay(
-          route.filePath,
-          projectInfo.rootDir,
-          projectInfo.sourceDirs || {},
-          this.options.pathDisplay,
-        );
+        const formatFilePath = (filePath: string) =>
+          formatPathForDisplay(
+            filePath,
+            projectInfo.rootDir,
+            projectInfo.sourceDirs || {},
+            this.options.pathDisplay,
+          );
+
+        formattedRoute.filePath = formatFilePath(route.filePath);
+
+        if (route.appRouter?.boundaries) {
+          formattedRoute.appRouter = {
+            ...route.appRouter,
+            boundaries: route.appRouter.boundaries.map((boundary) => ({
+              ...boundary,
+              filePath: formatFilePath(boundary.filePath),
+            })),
+          };
+        }
+
+        if (route.appRouter?.dynamicApis) {
+          formattedRoute.appRouter = {
+            ...formattedRoute.appRouter!,
+            dynamicApis: route.appRouter.dynamicApis.map((usage) => ({
+              ...usage,
+              filePath: formatFilePath(usage.filePath),
+              ...(usage.via && { via: usage.via.map(formatFilePath) }),
+            })),
+          };
+        }
       }
 
       // Format route path (the "path" field) - these are URL-style route paths starting with '/'
@@ -293,11 +395,22 @@ export class NextIntrospect {
   }
 
   /**
-   * Get API routes (Pages Router only)
+   * Get routes rendered with a strategy (detailed and comprehensive modes)
+   */
+  getRoutesByRendering(strategy: RenderingStrategy): RouteInfo[] {
+    return this.getRoutes().filter(
+      (route) => route.rendering?.strategy === strategy,
+    );
+  }
+
+  /**
+   * Get API routes (Pages Router API routes and App Router route handlers)
    */
   getApiRoutes(): RouteInfo[] {
     return this.getRoutes().filter(
-      (route) => route.router === "pages" && route.pagesRouter?.isApiRoute,
+      (route) =>
+        (route.router === "pages" && route.pagesRouter?.isApiRoute) ||
+        (route.router === "app" && route.appRouter?.specialFiles?.route),
     );
   }
 
@@ -310,6 +423,13 @@ export class NextIntrospect {
     );
   }
 
+  /**
+   * Get metadata file routes (App Router sitemap, robots, manifest, icons and OG images)
+   */
+  getMetadataRoutes(): RouteInfo[] {
+    return this.getRoutes().filter((route) => !!route.appRouter?.metadataRoute);
+  }
+
   /**
    * Get dynamic routes
    */
@@ -324,6 +444,223 @@ export class NextIntrospect {
     return this.getRoutes().filter((route) => route.pattern === "static");
   }
 
+  /**
+   * Get the App Router segment tree; each root-to-leaf path through
+   * `children` is the layout chain of a route
+   */
+  getRouteTree(): AppRouterRoute[] {
+    return AppRouterParser.buildRouteHierarchy(this.getRoutes());
+  }
+
+  /**
+   * Get route collisions that would make `next build` fail
+   */
+  getConflicts(): RouteConflict[] {
+    return ConflictDetector.detect(this.getRoutes());
+  }
+
+  /**
+   * Get parallel route slots (App Router)
+   */
+  getParallelSlots(): ParallelSlot[] {
+    if (!this.analyzed) {
+      throw new Error(
+        "Project must be analyzed first. Call analyze() before getParallelSlots().",
+      );
+    }
+    return this.routingModel?.parallelSlots ?? [];
+  }
+
+  /**
+   * Get intercepting routes with the routes they intercept (App Router)
+   */
+  getInterceptingRoutes(): InterceptingRoute[] {
+    if (!this.analyzed) {
+      throw new Error(
+        "Project must be analyzed first. Call analyze() before getInterceptingRoutes().",
+      );
+    }
+    return this.routingModel?.interceptingRoutes ?? [];
+  }
+
+  /**
+   * Get non-fatal issues found during analysis
+   */
+  getWarnings(): AnalysisWarning[] {
+    if (!this.analyzed) {
+      throw new Error(
+        "Project must be analyzed first. Call analyze() before getWarnings().",
+      );
+    }
+    return this.routingModel?.warnings ?? [];
+  }
+
+  /**
+   * Get Server Actions with the files and routes importing them
+   * (detailed and comprehensive modes)
+   */
+  getServerActions(): ServerAction[] {
+    if (!this.analyzed) {
+      throw new Error(
+        "Project must be analyzed first. Call analyze() before getServerActions().",
+      );
+    }
+    return this.serverActions;
+  }
+
+  /**
+   * Get the module import graph of the routes
+   * (detailed and comprehensive modes)
+   */
+  getModuleGraph(): ModuleGraph {
+    if (!this.analyzed) {
+      throw new Error(
+        "Project must be analyzed first. Call analyze() before getModuleGraph().",
+      );
+    }
+    if (!this.moduleGraph) {
+      throw new Error(
+        "The module graph is not built in basic mode. Use detailed or comprehensive mode.",
+      );
+    }
+    return this.moduleGraph;
+  }
+
+  /**
+   * Get the local modules and npm packages a route depends on, through
+   * its page or handler and the layouts wrapping it
+   */
+  getRouteDependencies(routePath: string): RouteDependencies | undefined {
+    return this.getModuleGraph().getRouteDependencies(routePath);
+  }
+
+  /**
+   * Get the modules and routes depending on a module
+   * (paths are resolved against the project root)
+   */
+  getModuleDependents(filePath: string): ModuleDependents {
+    return this.getModuleGraph().getDependents(
+      path.resolve(this.projectPath, filePath),
+    );
+  }
+
+  /**
+   * Get the modules each page ships to the browser, where the
+   * server-to-client boundaries sit, and server-only code or secrets
+   * reaching client modules (detailed and comprehensive modes)
+   */
+  getClientBundles(): RouteClientBundle[] {
+    if (!this.analyzed) {
+      throw new Error(
+        "Project must be analyzed first. Call analyze() before getClientBundles().",
+      );
+    }
+    return this.clientBundles;
+  }
+
+  /**
+   * Get the routes whose entry files, layouts or transitive imports include
+   * any of the changed files (paths are resolved against the project root)
+   */
+  getAffectedRoutes(changedFiles: string[]): AffectedRoute[] {
+    const graph = this.getModuleGraph();
+    const causes = new Map<string, string[]>();
+
+    for (const changedFile of changedFiles) {
+      const filePath = path.resolve(this.projectPath, changedFile);
+      for (const routePath of graph.getDependents(filePath).routes) {
+        causes.set(routePath, [...(causes.get(routePath) || []), filePath]);
+      }
+    }
+
+    const affected = new Map<string, AffectedRoute>();
+    for (const route of this.routes) {
+      const files = causes.get(route.path);
+      // Special pages (_app, _document, ...) are not URLs of their own
+      if (files && !route.pagesRouter?.isSpecialPage && !affected.has(route.path)) {
+        affected.set(route.path, {
+          path: route.path,
+          router: route.router,
+          ...(route.url && { url: route.url }),
+          filePath: route.filePath,
+          changedFiles: [...new Set(files)].sort(),
+        });
+      }
+    }
+
+    return [...affected.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Check the internal links (`<Link href>`, router navigation and
+   * `redirect()`) of the modules reachable from routes against the route
+   * table, next.config redirects and rewrites, and public files
+   */
+  async validateLinks(): Promise<LinkValidation> {
+    const graph = this.getModuleGraph();
+    return LinkValidator.validate(
+      graph.getModules().map((node) => node.filePath),
+      this.routes,
+      this.projectPath,
+      this.projectInfo?.config,
+    );
+  }
+
+  /**
+   * Find the page routes no link, navigation config, sitemap or next.config
+   * redirect or rewrite points to. Routes whose metadata sets
+   * `allowOrphan: true` are listed under `allowed`
+   */
+  async findOrphanRoutes(): Promise<OrphanReport> {
+    const graph = this.getModuleGraph();
+    return OrphanRouteAnalyzer.analyze(
+      graph.getModules().map((node) => node.filePath),
+      this.routes,
+      this.projectPath,
+      this.projectInfo?.config,
+    );
+  }
+
+  /**
+   * Find the route serving a concrete URL (`/blog/2024/hello?x=1`), with its
+   * params and layout chain; redirects and rewrites are applied as
+   * simulateRequest applies them
+   */
+  async match(url: string): Promise<RouteMatch> {
+    return RouteMatcher.match(url, this.getRoutes(), this.projectInfo!, {
+      publicFiles: await this.getPublicFiles(),
+    });
+  }
+
+  /**
+   * Trace a URL through the redirects and rewrites of next.config and
+   * vercel.json, the middleware matcher and the routes, following redirects
+   */
+  async simulateRequest(
+    url: string,
+    options: Omit<SimulationOptions, "publicFiles"> = {},
+  ): Promise<RouteSimulation> {
+    const routes = this.getRoutes();
+    return RouteSimulator.simulate(url, routes, this.projectInfo!, {
+      ...options,
+      publicFiles: await this.getPublicFiles(),
+    });
+  }
+
+  /**
+   * Check the redirects and rewrites of next.config and vercel.json for
+   * loops, long redirect chains and destinations nothing serves
+   */
+  async analyzeRules(
+    options: Omit<RuleAnalysisOptions, "publicFiles"> = {},
+  ): Promise<RuleAnalysis> {
+    const routes = this.getRoutes();
+    return RouteSimulator.analyzeRules(routes, this.projectInfo!, {
+      ...options,
+      publicFiles: await this.getPublicFiles(),
+    });
+  }
+
   /**
    * Export results to a file
    */
@@ -414,6 +751,24 @@ export class NextIntrospect {
     return routesToArray(nestedRoutes);
   }
 
+  /**
+   * Get the pathnames of the files in `public/`
+   */
+  private async getPublicFiles(): Promise<string[]> {
+    const fs = await import("fs/promises");
+    const publicDir = path.join(this.projectPath, "public");
+    try {
+      await fs.access(publicDir);
+    } catch {
+      return [];
+    }
+
+    const entries = await traverseDirectory(publicDir);
+    return entries
+      .filter((entry) => !entry.isDirectory)
+      .map((entry) => `/${path.relative(publicDir, entry.path).split(path.sep).join("/")}`);
+  }
+
   /**
    * Validate that the project path is a valid Next.js project
    */
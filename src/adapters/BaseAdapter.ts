@@ -1,5 +1,6 @@
 import type {
   FrameworkAdapter,
+  I18nConfig,
   ProjectInfo,
   RouteInfo,
   OutputMode,
@@ -45,6 +46,8 @@ export abstract class BaseAdapter implements FrameworkAdapter {
       include?: string[];
       exclude?: string[];
       maxDepth?: number;
+      pageExtensions?: string[];
+      i18n?: I18nConfig;
     }
   ): ParserConfig {
     return {
@@ -52,7 +55,9 @@ export abstract class BaseAdapter implements FrameworkAdapter {
       mode,
       include: options?.include || ['**/*'],
       exclude: options?.exclude || this.getDefaultExcludes(),
-      maxDepth: options?.maxDepth || 10
+      maxDepth: options?.maxDepth || 10,
+      ...(options?.pageExtensions && { pageExtensions: options.pageExtensions }),
+      ...(options?.i18n && { i18n: options.i18n })
     };
   }
 
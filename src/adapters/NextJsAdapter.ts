@@ -1,18 +1,32 @@
+import { createHash } from "crypto";
 import path from "path";
 import { BaseAdapter } from "./BaseAdapter.js";
 import type {
+  AppRoutingModel,
   ProjectInfo,
   RouteInfo,
+  ServerAction,
   OutputMode,
   NextConfig,
+  I18nConfig,
   IntrospectionOptions,
 } from "../types.js";
 import {
   isNextJsProject,
   getPackageInfo,
   detectRouterType,
-  traverseDirectory,
+  readFileContent,
+  resolveRouteUrl,
 } from "../utils.js";
+import { AppRouterParser } from "../parsers/AppRouterParser.js";
+import { ConfigParser } from "../parsers/ConfigParser.js";
+import { MiddlewareParser } from "../parsers/MiddlewareParser.js";
+import { PagesRouterParser } from "../parsers/PagesRouterParser.js";
+import { ServerActionParser } from "../parsers/ServerActionParser.js";
+import { VercelConfigParser } from "../parsers/VercelConfigParser.js";
+import { ModuleGraph } from "../analyzers/ModuleGraph.js";
+import { PrerenderAnalyzer } from "../analyzers/PrerenderAnalyzer.js";
+import { RenderingAnalyzer } from "../analyzers/RenderingAnalyzer.js";
 
 /**
  * Next.js framework adapter
@@ -57,6 +71,12 @@ export class NextJsAdapter extends BaseAdapter {
     // Parse Next.js config
     const config = await this.parseNextConfig(projectPath);
 
+    // Parse middleware matchers
+    const middleware = await MiddlewareParser.findAndParse(projectPath);
+
+    // Parse vercel.json redirects and rewrites
+    const vercel = await VercelConfigParser.findAndParse(projectPath);
+
     // Determine source directories
     const sourceDirs: ProjectInfo["sourceDirs"] = {};
     if (await this.directoryExists(path.join(projectPath, "app"))) {
@@ -78,6 +98,8 @@ export class NextJsAdapter extends BaseAdapter {
       router,
       rootDir: projectPath,
       config,
+      middleware,
+      vercel,
       packageInfo,
       sourceDirs,
     };
@@ -92,17 +114,78 @@ export class NextJsAdapter extends BaseAdapter {
 
     // Analyze App Router routes
     if (projectInfo.router === "app" || projectInfo.router === "both") {
-      const appRoutes = await this.getAppRouterRoutes(projectPath, mode);
+      const appRoutes = await this.getAppRouterRoutes(
+        projectPath,
+        mode,
+        projectInfo.config?.pageExtensions,
+      );
       routes.push(...appRoutes);
     }
 
     // Analyze Pages Router routes
     if (projectInfo.router === "pages" || projectInfo.router === "both") {
-      const pagesRoutes = await this.getPagesRouterRoutes(projectPath, mode);
+      const pagesRoutes = await this.getPagesRouterRoutes(
+        projectPath,
+        mode,
+        projectInfo.config?.pageExtensions,
+        projectInfo.config?.i18n,
+      );
       routes.push(...pagesRoutes);
     }
 
-    return routes;
+    const withUrls = this.addRouteUrls(routes, projectInfo.config);
+    const annotated = MiddlewareParser.annotateRoutes(withUrls, projectInfo.middleware);
+    if (mode === "basic") {
+      return annotated;
+    }
+
+    const rendered = await RenderingAnalyzer.annotateRoutes(annotated, projectInfo);
+    const prerendered = await PrerenderAnalyzer.annotateRoutes(rendered, projectInfo.rootDir);
+    return this.addContentHashes(prerendered);
+  }
+
+  /**
+   * Set the content hash of each route file
+   */
+  private async addContentHashes(routes: RouteInfo[]): Promise<RouteInfo[]> {
+    const hashes = new Map<string, string | undefined>();
+    const annotated: RouteInfo[] = [];
+
+    for (const route of routes) {
+      if (!hashes.has(route.filePath)) {
+        const content = await readFileContent(route.filePath);
+        hashes.set(
+          route.filePath,
+          content === null ? undefined : createHash("sha1").update(content).digest("hex"),
+        );
+      }
+      const contentHash = hashes.get(route.filePath);
+      annotated.push(contentHash ? { ...route, contentHash } : route);
+    }
+
+    return annotated;
+  }
+
+  /**
+   * Set the public URL of routes and their locale variants
+   */
+  private addRouteUrls(routes: RouteInfo[], config?: NextConfig): RouteInfo[] {
+    return routes.map((route) => {
+      const locales = route.pagesRouter?.locales;
+      return {
+        ...route,
+        url: resolveRouteUrl(route.path, config),
+        ...(locales && {
+          pagesRouter: {
+            ...route.pagesRouter!,
+            locales: locales.map((variant) => ({
+              ...variant,
+              url: resolveRouteUrl(variant.path, config),
+            })),
+          },
+        }),
+      };
+    });
   }
 
   /**
@@ -123,23 +206,7 @@ export class NextJsAdapter extends BaseAdapter {
       const configPath = path.join(projectPath, configFile);
       if (await this.fileExists(configPath)) {
         try {
-          // For now, return basic config detection
-          // In a full implementation, we'd need to safely evaluate the config file
-          return {
-            hasMiddleware:
-              (await this.fileExists(
-                path.join(projectPath, "middleware.js"),
-              )) ||
-              (await this.fileExists(
-                path.join(projectPath, "middleware.ts"),
-              )) ||
-              (await this.fileExists(
-                path.join(projectPath, "src/middleware.js"),
-              )) ||
-              (await this.fileExists(
-                path.join(projectPath, "src/middleware.ts"),
-              )),
-          };
+          return await ConfigParser.parse(configPath);
         } catch (error) {
           const errorMessage =
             error instanceof Error ? error.message : String(error);
@@ -159,246 +226,108 @@ export class NextJsAdapter extends BaseAdapter {
    */
   private async getAppRouterRoutes(
     projectPath: string,
-    _mode: OutputMode,
+    mode: OutputMode,
+    pageExtensions?: string[],
   ): Promise<RouteInfo[]> {
-    // This will be implemented when we create the AppRouterParser
-    // For now, return empty array
-    const routes: RouteInfo[] = [];
-
-    // Find app directory
-    let appDir: string | null = null;
-    if (await this.directoryExists(path.join(projectPath, "app"))) {
-      appDir = path.join(projectPath, "app");
-    } else if (
-      await this.directoryExists(path.join(projectPath, "src", "app"))
-    ) {
-      appDir = path.join(projectPath, "src", "app");
-    }
-
+    const appDir = await this.findSourceDir(projectPath, "app");
     if (!appDir) {
-      return routes;
+      return [];
     }
 
-    // Basic App Router route detection (simplified)
-    // This will be enhanced when we implement the full AppRouterParser
-    try {
-      const entries = await traverseDirectory(appDir, 10, 0, [
-        "node_modules/**",
-        ".next/**",
-        "**/*.test.*",
-        "**/*.spec.*",
-      ]);
-
-      for (const entry of entries) {
-        if (entry.isDirectory) {
-          continue;
-        }
-
-        // Check if it's a special Next.js file
-        if (this.isAppRouterSpecialFile(entry.name)) {
-          // Compute path relative to app directory
-          const relativeToApp = path.relative(appDir, entry.path);
-          const routePath = this.convertFilePathToRoute(relativeToApp);
-          routes.push({
-            path: routePath,
-            filePath: entry.path,
-            pattern: "static", // Will be determined by parser
-            router: "app",
-          });
-        }
-      }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      console.warn(
-        "Warning: Could not analyze App Router routes:",
-        errorMessage,
-      );
-    }
-
-    return routes;
+    return await AppRouterParser.parse(
+      appDir,
+      this.createParserConfig(projectPath, mode, { pageExtensions }),
+    );
   }
 
   /**
-   * Get Pages Router routes
+   * Get the parallel slots and intercepting routes of the App Router
    */
-  private async getPagesRouterRoutes(
+  async getRoutingModel(
     projectPath: string,
-    _mode: OutputMode,
-  ): Promise<RouteInfo[]> {
-    // This will be implemented when we create the PagesRouterParser
-    // For now, return empty array
-    const routes: RouteInfo[] = [];
-
-    // Find pages directory
-    let pagesDir: string | null = null;
-    if (await this.directoryExists(path.join(projectPath, "pages"))) {
-      pagesDir = path.join(projectPath, "pages");
-    } else if (
-      await this.directoryExists(path.join(projectPath, "src", "pages"))
-    ) {
-      pagesDir = path.join(projectPath, "src", "pages");
-    }
-
-    if (!pagesDir) {
-      return routes;
-    }
-
-    // Basic Pages Router route detection (simplified)
-    // This will be enhanced when we implement the full PagesRouterParser
-    try {
-      const entries = await traverseDirectory(pagesDir, 10, 0, [
-        "node_modules/**",
-        ".next/**",
-        "**/*.test.*",
-        "**/*.spec.*",
-      ]);
-
-      for (const entry of entries) {
-        if (entry.isDirectory) {
-          continue;
-        }
-
-        // Check if it's a valid page file
-        if (this.isPagesRouterFile(entry.name)) {
-          // Compute path relative to pages directory
-          const relativeToPages = path.relative(pagesDir, entry.path);
-          const routePath = this.convertPagesPathToRoute(relativeToPages);
-          routes.push({
-            path: routePath,
-            filePath: entry.path,
-            pattern: "static", // Will be determined by parser
-            router: "pages",
-            pagesRouter: {
-              isApiRoute: routePath.startsWith("/api/"),
-              isSpecialPage: false,
-            },
-          });
-        }
-      }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      console.warn(
-        "Warning: Could not analyze Pages Router routes:",
-        errorMessage,
-      );
+    mode: OutputMode,
+    pageExtensions?: string[],
+  ): Promise<AppRoutingModel | undefined> {
+    const appDir = await this.findSourceDir(projectPath, "app");
+    if (!appDir) {
+      return undefined;
     }
 
-    return routes;
+    return await AppRouterParser.parseRoutingModel(
+      appDir,
+      this.createParserConfig(projectPath, mode, { pageExtensions }),
+    );
   }
 
   /**
-   * Check if a file is a special App Router file
+   * Get the Server Actions of the project and the routes using them
+   * (scans every source file, so skipped in basic mode)
    */
-  private isAppRouterSpecialFile(filename: string): boolean {
-    const specialFiles = [
-      "page.tsx",
-      "page.jsx",
-      "page.js",
-      "page.ts",
-      "layout.tsx",
-      "layout.jsx",
-      "layout.js",
-      "layout.ts",
-      "loading.tsx",
-      "loading.jsx",
-      "loading.js",
-      "loading.ts",
-      "error.tsx",
-      "error.jsx",
-      "error.js",
-      "error.ts",
-      "not-found.tsx",
-      "not-found.jsx",
-      "not-found.js",
-      "not-found.ts",
-      "template.tsx",
-      "template.jsx",
-      "template.js",
-      "template.ts",
-      "default.tsx",
-      "default.jsx",
-      "default.js",
-      "default.ts",
-      "route.ts",
-      "route.js",
-    ];
+  async getServerActions(
+    projectPath: string,
+    routes: RouteInfo[],
+    mode: OutputMode,
+  ): Promise<ServerAction[]> {
+    if (mode === "basic") {
+      return [];
+    }
 
-    return specialFiles.includes(filename);
+    return await ServerActionParser.parse(
+      projectPath,
+      routes,
+      this.createParserConfig(projectPath, mode).maxDepth,
+    );
   }
 
   /**
-   * Check if a file is a valid Pages Router file
+   * Build the module import graph of the routes (reads every imported
+   * module, so skipped in basic mode)
    */
-  private isPagesRouterFile(filename: string): boolean {
-    // Exclude TypeScript declaration files and test files
-    if (
-      filename.endsWith(".d.ts") ||
-      filename.includes(".test.") ||
-      filename.includes(".spec.")
-    ) {
-      return false;
+  async getModuleGraph(
+    projectPath: string,
+    routes: RouteInfo[],
+    mode: OutputMode,
+  ): Promise<ModuleGraph | undefined> {
+    if (mode === "basic") {
+      return undefined;
     }
 
-    const validExtensions = [".tsx", ".jsx", ".js", ".ts"];
-    return validExtensions.some((ext) => filename.endsWith(ext));
+    return await ModuleGraph.build(projectPath, routes);
   }
 
   /**
-   * Convert App Router file path to route path
+   * Get Pages Router routes
    */
-  private convertFilePathToRoute(relativePath: string): string {
-    // The relativePath is already relative to the app directory
-    // Remove special file names and their extensions
-    const routePath = relativePath.replace(
-      /\/(page|route|layout|loading|error|not-found|template|default)(\..*)?$/,
-      "",
-    );
-
-    // Split into segments and filter out route groups (segments wrapped in parentheses)
-    const segments = routePath
-      .split("/")
-      .filter((segment) => segment.length > 0);
-    const filteredSegments = segments.filter(
-      (segment) => !(segment.startsWith("(") && segment.endsWith(")")),
-    );
-
-    // Join back into path
-    const finalRoutePath = filteredSegments.join("/");
-
-    // Convert directory structure to route
-    if (finalRoutePath === "") {
-      return "/";
+  private async getPagesRouterRoutes(
+    projectPath: string,
+    mode: OutputMode,
+    pageExtensions?: string[],
+    i18n?: I18nConfig,
+  ): Promise<RouteInfo[]> {
+    const pagesDir = await this.findSourceDir(projectPath, "pages");
+    if (!pagesDir) {
+      return [];
     }
 
-    return `/${finalRoutePath}`;
+    return await PagesRouterParser.parse(
+      pagesDir,
+      this.createParserConfig(projectPath, mode, { pageExtensions, i18n }),
+    );
   }
 
   /**
-   * Convert Pages Router file path to route path
+   * Locate the app/ or pages/ directory (root or src/)
    */
-  private convertPagesPathToRoute(relativePath: string): string {
-    // Remove pages directory prefix and file extension
-    let routePath = relativePath
-      .replace(/^pages\//, "")
-      .replace(/^src\/pages\//, "");
-
-    // Remove file extension
-    routePath = routePath.replace(/\..*$/, "");
-
-    // Handle index files
-    if (routePath.endsWith("/index")) {
-      routePath = routePath.slice(0, -6); // Remove '/index'
-    } else if (routePath === "index") {
-      routePath = "";
+  private async findSourceDir(
+    projectPath: string,
+    dirName: "app" | "pages",
+  ): Promise<string | null> {
+    if (await this.directoryExists(path.join(projectPath, dirName))) {
+      return path.join(projectPath, dirName);
     }
-
-    // Convert to route path
-    if (routePath === "") {
-      return "/";
+    if (await this.directoryExists(path.join(projectPath, "src", dirName))) {
+      return path.join(projectPath, "src", dirName);
     }
-
-    return `/${routePath}`;
+    return null;
   }
 }
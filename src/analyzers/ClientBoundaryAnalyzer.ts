@@ -0,0 +1,251 @@
+import path from 'path';
+import ts from 'typescript';
+import type { ClientBoundary, ClientIssue, RouteClientBundle, RouteInfo } from '../types.js';
+import { readFileContent } from '../utils.js';
+import { ImportParser } from '../parsers/ImportParser.js';
+import { ModuleGraph } from './ModuleGraph.js';
+
+/**
+ * Packages that throw when bundled for the client
+ */
+const SERVER_ONLY_PACKAGES = ['server-only'];
+
+/**
+ * Environment variables Next.js inlines into client bundles besides `NEXT_PUBLIC_*`
+ */
+const INLINED_ENV_VARS = ['NODE_ENV', 'NEXT_RUNTIME'];
+
+/**
+ * Analyzer for the client bundle of each page
+ *
+ * Walks the module graph from a route's entry files. In the App Router,
+ * modules are server components until a `'use client'` module is imported;
+ * that import is the server-to-client boundary and everything the client
+ * module imports is bundled for the browser (`'use server'` modules only
+ * contribute action references). Pages Router pages and `_app` are client
+ * code throughout, except for `getServerSideProps`, `getStaticProps`,
+ * `getStaticPaths` and the code only they use, which Next.js strips from the
+ * client bundle.
+ */
+export class ClientBoundaryAnalyzer {
+  /**
+   * Analyze the client bundle of every page and layout-wrapped route
+   *
+   * @param publicEnv - Extra environment variables exposed to the browser
+   *   (the `env` keys of next.config)
+   */
+  static async analyze(
+    graph: ModuleGraph,
+    routes: RouteInfo[],
+    publicEnv: string[] = []
+  ): Promise<RouteClientBundle[]> {
+    const issueCache = new Map<string, ClientIssue[]>();
+    const entriesByPath = new Map<string, { route: RouteInfo; entryFiles: string[] }>();
+
+    for (const route of routes.filter(candidate => this.hasClientBundle(candidate))) {
+      const entryFiles = route.router === 'pages'
+        ? ModuleGraph.getEntryFiles(route, routes.filter(candidate => candidate.pagesRouter?.specialPageType !== 'document'))
+        : ModuleGraph.getEntryFiles(route, routes);
+
+      // Parallel slot pages render into the same URL
+      const existing = entriesByPath.get(route.path);
+      entriesByPath.set(route.path, {
+        route: existing?.route ?? route,
+        entryFiles: [...new Set([...(existing?.entryFiles || []), ...entryFiles])]
+      });
+    }
+
+    const bundles: RouteClientBundle[] = [];
+    for (const { route, entryFiles } of entriesByPath.values()) {
+      const isPages = route.router === 'pages';
+      const { boundaries, clientModules } = this.walk(graph, entryFiles, isPages);
+
+      const issues: ClientIssue[] = [];
+      for (const filePath of clientModules) {
+        const stripDataFetching = isPages && entryFiles.includes(filePath);
+        const cacheKey = `${stripDataFetching ? 'page:' : ''}${filePath}`;
+        if (!issueCache.has(cacheKey)) {
+          issueCache.set(cacheKey, await this.findIssues(filePath, publicEnv, stripDataFetching));
+        }
+        issues.push(...issueCache.get(cacheKey)!);
+      }
+
+      const nodes = clientModules.map(filePath => graph.getModule(filePath));
+      bundles.push({
+        path: route.path,
+        router: route.router,
+        boundaries,
+        clientModules,
+        clientPackages: [...new Set(nodes.flatMap(node => node?.packages || []))].sort(),
+        clientSize: nodes.reduce((total, node) => total + (node?.size || 0), 0),
+        issues
+      });
+    }
+
+    return bundles.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Check whether a route renders a page (route handlers, API routes,
+   * metadata routes, `_app` and `_document` do not)
+   */
+  private static hasClientBundle(route: RouteInfo): boolean {
+    if (route.router === 'pages') {
+      const specialPageType = route.pagesRouter?.specialPageType;
+      return !route.pagesRouter?.isApiRoute && specialPageType !== 'app' && specialPageType !== 'document';
+    }
+    return !route.appRouter?.specialFiles.route && !route.appRouter?.metadataRoute;
+  }
+
+  /**
+   * Find the client boundaries and client modules reachable from entry files
+   */
+  private static walk(
+    graph: ModuleGraph,
+    entryFiles: string[],
+    allClient: boolean
+  ): { boundaries: ClientBoundary[]; clientModules: string[] } {
+    const boundaries = new Map<string, Set<string>>();
+    const serverPending: string[] = [];
+    const clientPending: string[] = [];
+
+    const entryImports = new Map<string, string[]>();
+    for (const entryFile of entryFiles) {
+      if (allClient) {
+        // Pages Router entries lose their data fetching imports
+        const node = graph.getModule(entryFile);
+        entryImports.set(entryFile, (node?.imports || []).filter(imported => !node?.dataFetchingImports?.includes(imported)));
+      }
+      if (allClient || graph.getModule(entryFile)?.directive === 'use client') {
+        boundaries.set(entryFile, new Set());
+        clientPending.push(entryFile);
+      } else {
+        serverPending.push(entryFile);
+      }
+    }
+
+    const serverModules = new Set<string>();
+    while (serverPending.length > 0) {
+      const filePath = serverPending.pop()!;
+      if (serverModules.has(filePath)) {
+        continue;
+      }
+      serverModules.add(filePath);
+
+      for (const imported of graph.getModule(filePath)?.imports || []) {
+        if (graph.getModule(imported)?.directive === 'use client') {
+          boundaries.set(imported, (boundaries.get(imported) || new Set()).add(filePath));
+          clientPending.push(imported);
+        } else {
+          serverPending.push(imported);
+        }
+      }
+    }
+
+    const clientModules = new Set<string>();
+    while (clientPending.length > 0) {
+      const filePath = clientPending.pop()!;
+      const node = graph.getModule(filePath);
+      // Server Actions imported by client code stay on the server
+      if (clientModules.has(filePath) || node?.directive === 'use server') {
+        continue;
+      }
+      clientModules.add(filePath);
+      clientPending.push(...(entryImports.get(filePath) ?? node?.imports ?? []));
+    }
+
+    return {
+      boundaries: [...boundaries]
+        .map(([filePath, importers]) => ({ filePath, importedBy: [...importers].sort() }))
+        .sort((a, b) => a.filePath.localeCompare(b.filePath)),
+      clientModules: [...clientModules].sort()
+    };
+  }
+
+  /**
+   * Find server-only imports and private environment variables in a client module
+   *
+   * @param stripDataFetching - Skip the data fetching code of a Pages Router page
+   */
+  private static async findIssues(
+    filePath: string,
+    publicEnv: string[],
+    stripDataFetching: boolean
+  ): Promise<ClientIssue[]> {
+    const content = await readFileContent(filePath);
+    if (content === null) {
+      return [];
+    }
+
+    const sourceFile = ts.createSourceFile(path.basename(filePath), content, ts.ScriptTarget.Latest, true);
+    const issues: ClientIssue[] = [];
+    const skip = stripDataFetching ? ImportParser.getDataFetchingCode(sourceFile) : new Set<ts.Node>();
+
+    for (const entry of ImportParser.parseSourceFile(sourceFile, skip)) {
+      if (SERVER_ONLY_PACKAGES.includes(entry.specifier)) {
+        issues.push({
+          type: 'server-only-import',
+          filePath,
+          line: entry.line,
+          message: `Client module imports '${entry.specifier}'`
+        });
+      }
+    }
+
+    const addEnvIssue = (name: string, node: ts.Node) => {
+      if (name.startsWith('NEXT_PUBLIC_') || INLINED_ENV_VARS.includes(name) || publicEnv.includes(name)) {
+        return;
+      }
+      issues.push({
+        type: 'secret-env',
+        filePath,
+        line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+        message: `Client module reads process.env.${name}, which is not exposed to the browser`
+      });
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (skip.has(node)) {
+        return;
+      } else if (ts.isPropertyAccessExpression(node) && this.isProcessEnv(node.expression)) {
+        // process.env.SECRET
+        addEnvIssue(node.name.text, node);
+      } else if (
+        ts.isElementAccessExpression(node) &&
+        this.isProcessEnv(node.expression) &&
+        ts.isStringLiteralLike(node.argumentExpression)
+      ) {
+        // process.env['SECRET']
+        addEnvIssue(node.argumentExpression.text, node);
+      } else if (
+        ts.isVariableDeclaration(node) &&
+        ts.isObjectBindingPattern(node.name) &&
+        node.initializer &&
+        this.isProcessEnv(node.initializer)
+      ) {
+        // const { SECRET } = process.env
+        for (const element of node.name.elements) {
+          const name = element.propertyName ?? element.name;
+          if (ts.isIdentifier(name) || ts.isStringLiteral(name)) {
+            addEnvIssue(name.text, element);
+          }
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return issues;
+  }
+
+  /**
+   * Check whether an expression is `process.env`
+   */
+  private static isProcessEnv(node: ts.Expression): boolean {
+    return ts.isPropertyAccessExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'process' &&
+      node.name.text === 'env';
+  }
+}
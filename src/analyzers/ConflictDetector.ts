@@ -0,0 +1,195 @@
+import type { RouteConflict, RouteInfo } from '../types.js';
+import { normalizeRouteParams } from '../utils.js';
+
+/**
+ * Kind of a URL segment, for comparing dynamic segments at the same position
+ */
+type SegmentKind = 'dynamic' | 'catch-all' | 'optional-catch-all';
+
+/**
+ * Detector for route collisions that make `next build` fail
+ *
+ * Finds URLs served by two App Router files (e.g. from different route
+ * groups), URLs defined in both app/ and pages/, sibling dynamic segments
+ * with different param names, and routes shadowed by an optional catch-all.
+ */
+export class ConflictDetector {
+  /**
+   * Detect conflicts between routes
+   */
+  static detect(routes: RouteInfo[]): RouteConflict[] {
+    // Parallel slot pages and intercepting routes share URLs by design
+    const candidates = routes.filter(route =>
+      !route.appRouter?.slot &&
+      !route.appRouter?.isInterceptingRoute &&
+      !route.pagesRouter?.isSpecialPage
+    );
+
+    const appRoutes = candidates.filter(route => route.router === 'app');
+    const pagesRoutes = candidates.filter(route => route.router === 'pages');
+
+    return [
+      ...this.findDuplicates(appRoutes),
+      ...this.findRouterCollisions(appRoutes, pagesRoutes),
+      ...this.findParamMismatches(appRoutes),
+      ...this.findParamMismatches(pagesRoutes),
+      ...this.findOptionalCatchAllCollisions(appRoutes),
+      ...this.findOptionalCatchAllCollisions(pagesRoutes)
+    ];
+  }
+
+  /**
+   * App Router files that resolve to the same URL
+   */
+  private static findDuplicates(routes: RouteInfo[]): RouteConflict[] {
+    const conflicts: RouteConflict[] = [];
+    const seen = new Map<string, RouteInfo>();
+
+    // Same paths with different param names are reported as param mismatches
+    for (const route of routes) {
+      const existing = seen.get(route.path);
+      if (!existing) {
+        seen.set(route.path, route);
+        continue;
+      }
+
+      conflicts.push({
+        type: 'duplicate-route',
+        path: route.path,
+        message: `You cannot have two parallel pages that resolve to the same path: ${route.path}`,
+        files: [existing.filePath, route.filePath]
+      });
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * URLs defined in both app/ and pages/
+   */
+  private static findRouterCollisions(appRoutes: RouteInfo[], pagesRoutes: RouteInfo[]): RouteConflict[] {
+    const appByPath = new Map<string, RouteInfo>();
+    for (const route of appRoutes) {
+      const key = normalizeRouteParams(route.path);
+      if (!appByPath.has(key)) {
+        appByPath.set(key, route);
+      }
+    }
+
+    return pagesRoutes.flatMap(route => {
+      const appRoute = appByPath.get(normalizeRouteParams(route.path));
+      if (!appRoute) {
+        return [];
+      }
+
+      return [{
+        type: 'app-pages-collision' as const,
+        path: route.path,
+        message: `Conflicting app and page file was found: ${route.path}`,
+        files: [appRoute.filePath, route.filePath] as [string, string]
+      }];
+    });
+  }
+
+  /**
+   * Sibling dynamic segments with different param names, or a required and
+   * an optional catch-all at the same level
+   */
+  private static findParamMismatches(routes: RouteInfo[]): RouteConflict[] {
+    const conflicts: RouteConflict[] = [];
+    const reported = new Set<string>();
+    // normalized parent path -> kind -> first segment seen
+    const siblings = new Map<string, Map<SegmentKind, { name: string; filePath: string }>>();
+
+    for (const route of routes) {
+      const segments = route.path.split('/').filter(Boolean);
+
+      segments.forEach((segment, index) => {
+        const parsed = this.parseSegment(segment);
+        if (!parsed) {
+          return;
+        }
+
+        const parentPath = normalizeRouteParams(`/${segments.slice(0, index).join('/')}`);
+        if (!siblings.has(parentPath)) {
+          siblings.set(parentPath, new Map());
+        }
+        const kinds = siblings.get(parentPath)!;
+
+        // Next.js compares param names per kind, and rejects mixing catch-all kinds
+        const comparable: SegmentKind[] = parsed.kind === 'dynamic'
+          ? ['dynamic']
+          : ['catch-all', 'optional-catch-all'];
+
+        for (const kind of comparable) {
+          const existing = kinds.get(kind);
+          if (!existing || (existing.name === parsed.name && kind === parsed.kind)) {
+            continue;
+          }
+
+          const key = `${parentPath}|${[existing.name, kind, parsed.name, parsed.kind].join('|')}`;
+          if (reported.has(key)) {
+            continue;
+          }
+          reported.add(key);
+
+          const message = kind === parsed.kind
+            ? `You cannot use different slug names for the same dynamic path ('${existing.name}' !== '${parsed.name}')`
+            : `You cannot use both a required and optional catch-all route at the same level ('${existing.name}' and '${parsed.name}')`;
+          conflicts.push({
+            type: 'param-mismatch',
+            path: parentPath,
+            message,
+            files: [existing.filePath, route.filePath]
+          });
+        }
+
+        if (!kinds.has(parsed.kind)) {
+          kinds.set(parsed.kind, { name: parsed.name, filePath: route.filePath });
+        }
+      });
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Routes with the same specificity as an optional catch-all (`/docs` and `/docs/[[...slug]]`)
+   */
+  private static findOptionalCatchAllCollisions(routes: RouteInfo[]): RouteConflict[] {
+    const byPath = new Map(routes.map(route => [normalizeRouteParams(route.path), route]));
+
+    return routes.flatMap(route => {
+      const match = /^(.*)\/\[\[\.\.\.[^\]]+\]\]$/.exec(route.path);
+      if (!match) {
+        return [];
+      }
+
+      const basePath = match[1] || '/';
+      const shadowed = byPath.get(normalizeRouteParams(basePath));
+      if (!shadowed) {
+        return [];
+      }
+
+      return [{
+        type: 'optional-catch-all-collision' as const,
+        path: basePath,
+        message: `You cannot define a route with the same specificity as an optional catch-all route ("${basePath}" and "${route.path}")`,
+        files: [shadowed.filePath, route.filePath] as [string, string]
+      }];
+    });
+  }
+
+  /**
+   * Parse a dynamic URL segment
+   */
+  private static parseSegment(segment: string): { kind: SegmentKind; name: string } | undefined {
+    const match = /^\[(\[)?(\.\.\.)?([^\]]+)\]\]?$/.exec(segment);
+    if (!match) {
+      return undefined;
+    }
+
+    const kind: SegmentKind = match[1] ? 'optional-catch-all' : match[2] ? 'catch-all' : 'dynamic';
+    return { kind, name: match[3] };
+  }
+}
@@ -0,0 +1,200 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BrokenLink, InternalLink, LinkValidation, NextConfig, RouteInfo } from '../types.js';
+import { matchPathPattern, readFileContent } from '../utils.js';
+import { LinkParser } from '../parsers/LinkParser.js';
+
+/**
+ * Stand-in for a template literal substitution, which can be any segment
+ */
+const PLACEHOLDER = '\u0000';
+
+/**
+ * Validator for internal links
+ *
+ * Checks the links found by LinkParser against the routes (dynamic,
+ * catch-all and optional catch-all segments included), the `redirects` and
+ * `rewrites` sources of next.config and the files in `public/`. Template
+ * literal substitutions match any segment. `<Link>`, the router and
+ * `redirect()` add `basePath` themselves, so a link that only resolves once
+ * `basePath` is removed is reported; with i18n, a leading locale segment is
+ * ignored. Relative and external URLs are not checked.
+ */
+export class LinkValidator {
+  /**
+   * Find the internal links in files and the ones that do not resolve
+   */
+  static async validate(
+    files: string[],
+    routes: RouteInfo[],
+    rootDir: string,
+    config?: NextConfig
+  ): Promise<LinkValidation> {
+    const links = await this.collectLinks(files);
+
+    const routeSegments = routes
+      .filter(route => !['app', 'document', 'error'].includes(route.pagesRouter?.specialPageType || ''))
+      .map(route => route.path.split('/').filter(Boolean));
+    const ruleSources = [
+      ...(config?.redirects || []),
+      ...(config?.rewrites?.beforeFiles || []),
+      ...(config?.rewrites?.afterFiles || []),
+      ...(config?.rewrites?.fallback || [])
+    ].map(rule => rule.source);
+    const publicFiles = new Map<string, boolean>();
+
+    const isServed = async (pathname: string): Promise<boolean> => {
+      const segments = pathname.split('/').filter(Boolean);
+      if (routeSegments.some(route => this.matchSegments(route, segments))) {
+        return true;
+      }
+
+      const concrete = pathname.split(PLACEHOLDER).join('x');
+      if (ruleSources.some(source => matchPathPattern(source, concrete) !== null)) {
+        return true;
+      }
+
+      if (pathname.includes(PLACEHOLDER)) {
+        return false;
+      }
+      if (!publicFiles.has(pathname)) {
+        publicFiles.set(pathname, await this.isPublicFile(rootDir, pathname));
+      }
+      return publicFiles.get(pathname)!;
+    };
+
+    const locales = config?.i18n?.locales || [];
+    const basePath = config?.basePath;
+    const broken: BrokenLink[] = [];
+
+    for (const link of links) {
+      let pathname = this.getPathname(link.href);
+
+      // /fr/about and /${locale}/about render /about
+      const [first] = pathname.split('/').filter(Boolean);
+      if (locales.length > 0 && first && (locales.includes(first) || first === PLACEHOLDER)) {
+        const withoutLocale = pathname.slice(first.length + 1) || '/';
+        if (!(await isServed(pathname))) {
+          pathname = withoutLocale;
+        }
+      }
+
+      if (await isServed(pathname)) {
+        continue;
+      }
+
+      const display = pathname.split(PLACEHOLDER).join('*');
+      if (basePath && (pathname === basePath || pathname.startsWith(`${basePath}/`))) {
+        const withoutBasePath = pathname.slice(basePath.length) || '/';
+        if (await isServed(withoutBasePath)) {
+          broken.push({ ...link, reason: `${display} includes basePath ${basePath}, which is added automatically` });
+          continue;
+        }
+      }
+      broken.push({ ...link, reason: `no route matches ${display}` });
+    }
+
+    return { links, broken };
+  }
+
+  /**
+   * Find the absolute internal links (`/...`) in files
+   */
+  static async collectLinks(files: string[]): Promise<InternalLink[]> {
+    const links: InternalLink[] = [];
+    for (const filePath of [...files].sort()) {
+      const content = await readFileContent(filePath);
+      if (content === null) {
+        continue;
+      }
+      for (const usage of LinkParser.parse(content, path.basename(filePath))) {
+        if (usage.href.startsWith('/') && !usage.href.startsWith('//')) {
+          links.push({ ...usage, filePath });
+        }
+      }
+    }
+    return links;
+  }
+
+  /**
+   * Check whether an href can render a route path (`/blog/[slug]`); a
+   * leading locale segment is ignored
+   */
+  static linksTo(href: string, routePath: string, locales: string[] = []): boolean {
+    const route = routePath.split('/').filter(Boolean);
+    const segments = this.getPathname(href).split('/').filter(Boolean);
+    if (this.matchSegments(route, segments)) {
+      return true;
+    }
+
+    const [first, ...rest] = segments;
+    return locales.length > 0 && !!first && (locales.includes(first) || first === PLACEHOLDER) &&
+      this.matchSegments(route, rest);
+  }
+
+  /**
+   * Get the pathname of an href: substitutions become placeholders, the
+   * query, hash and trailing slash are dropped
+   */
+  private static getPathname(href: string): string {
+    // Substitutions rarely contain braces; `${fn({ a })}` is cut short but still yields a placeholder
+    const withPlaceholders = href.replace(/\$\{[^}]*\}/g, PLACEHOLDER);
+    const pathname = withPlaceholders.split(/[?#]/)[0];
+    return pathname.length > 1 ? pathname.replace(/\/+$/, '') || '/' : pathname;
+  }
+
+  /**
+   * Match URL segments against route segments (`[id]`, `[...slug]`, `[[...slug]]`)
+   */
+  private static matchSegments(route: string[], segments: string[]): boolean {
+    const [routeSegment, ...routeRest] = route;
+    if (routeSegment === undefined) {
+      return segments.length === 0;
+    }
+    if (/^\[\[\.\.\..+\]\]$/.test(routeSegment)) {
+      return true;
+    }
+    if (/^\[\.\.\..+\]$/.test(routeSegment)) {
+      return segments.length > 0;
+    }
+
+    const [segment, ...rest] = segments;
+    if (segment === undefined) {
+      return false;
+    }
+
+    const matches = /^\[.+\]$/.test(routeSegment) ||
+      segment.includes(PLACEHOLDER) ||
+      segment === routeSegment ||
+      this.decode(segment) === routeSegment;
+    return matches && this.matchSegments(routeRest, rest);
+  }
+
+  /**
+   * Check whether a pathname is a file in `public/`
+   */
+  private static async isPublicFile(rootDir: string, pathname: string): Promise<boolean> {
+    const publicDir = path.join(rootDir, 'public');
+    const filePath = path.join(publicDir, this.decode(pathname));
+    if (!filePath.startsWith(publicDir + path.sep)) {
+      return false;
+    }
+
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Decode a URL component, keeping malformed escapes as written
+   */
+  private static decode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import path from 'path';
+import ts from 'typescript';
+import type {
+  ModuleDependencies,
+  ModuleDependents,
+  ModuleGraphData,
+  ModuleImport,
+  ModuleNode,
+  RouteDependencies,
+  RouteInfo
+} from '../types.js';
+import { SOURCE_EXTENSIONS, readFileContent } from '../utils.js';
+import { ImportParser } from '../parsers/ImportParser.js';
+import { ModuleResolver } from '../parsers/ModuleResolver.js';
+
+/**
+ * Entry files of a route
+ */
+type RouteEntry = Omit<RouteDependencies, keyof ModuleDependencies>;
+
+/**
+ * Import graph of the modules reachable from route entry files
+ *
+ * Starts from each route's handler, or its page and the layouts and boundaries
+ * wrapping it (`_app` and `_document` for Pages Router pages), then follows
+ * relative imports, tsconfig `paths` aliases and workspace packages, recording
+ * the npm packages imported along the way and each module's directive.
+ */
+export class ModuleGraph {
+  private modules = new Map<string, ModuleNode>();
+  private routeEntries: RouteEntry[] = [];
+  private importers: Map<string, string[]> | undefined;
+
+  /**
+   * Build the import graph of a project's routes
+   */
+  static async build(projectRoot: string, routes: RouteInfo[]): Promise<ModuleGraph> {
+    const resolver = new ModuleResolver(projectRoot);
+    const graph = new ModuleGraph();
+
+    graph.routeEntries = routes.map(route => ({
+      path: route.path,
+      router: route.router,
+      entryFiles: this.getEntryFiles(route, routes)
+    }));
+
+    const pending = graph.routeEntries.flatMap(entry => entry.entryFiles);
+    while (pending.length > 0) {
+      const filePath = pending.pop()!;
+      if (graph.modules.has(filePath)) {
+        continue;
+      }
+
+      const node = await this.parseModule(filePath, resolver);
+      graph.modules.set(filePath, node);
+      pending.push(...node.imports);
+    }
+
+    return graph;
+  }
+
+  /**
+   * Get the files a route is built from: its page plus the layouts and
+   * boundaries (or `_app` and `_document`) wrapping it, or its handler alone
+   */
+  static getEntryFiles(route: RouteInfo, routes: RouteInfo[]): string[] {
+    const files = [route.filePath, ...(route.appRouter?.boundaries || []).map(boundary => boundary.filePath)];
+
+    if (route.router === 'pages' && !route.pagesRouter?.isApiRoute && !route.pagesRouter?.isSpecialPage) {
+      const wrappers = routes.filter(candidate =>
+        candidate.pagesRouter?.specialPageType === 'app' || candidate.pagesRouter?.specialPageType === 'document'
+      );
+      files.push(...wrappers.map(wrapper => wrapper.filePath));
+    }
+
+    return [...new Set(files.map(file => path.resolve(file)))];
+  }
+
+  /**
+   * Get a module by file path
+   */
+  getModule(filePath: string): ModuleNode | undefined {
+    return this.modules.get(path.resolve(filePath));
+  }
+
+  /**
+   * Get every module in the graph, sorted by file path
+   */
+  getModules(): ModuleNode[] {
+    return [...this.modules.values()].sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+
+  /**
+   * Get the modules and packages files depend on, transitively
+   */
+  getDependencies(filePaths: string[]): ModuleDependencies {
+    const entries = new Set(filePaths.map(file => path.resolve(file)));
+    const visited = new Set<string>();
+    const packages = new Set<string>();
+
+    const pending = [...entries];
+    while (pending.length > 0) {
+      const filePath = pending.pop()!;
+      if (visited.has(filePath)) {
+        continue;
+      }
+      visited.add(filePath);
+
+      const node = this.modules.get(filePath);
+      if (node) {
+        pending.push(...node.imports);
+        node.packages.forEach(name => packages.add(name));
+      }
+    }
+
+    return {
+      modules: [...visited].filter(file => !entries.has(file)).sort(),
+      packages: [...packages].sort()
+    };
+  }
+
+  /**
+   * Get the dependencies of a route; parallel slot pages sharing the
+   * route's path are merged
+   */
+  getRouteDependencies(routePath: string): RouteDependencies | undefined {
+    const entries = this.routeEntries.filter(entry => entry.path === routePath);
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    const entryFiles = [...new Set(entries.flatMap(entry => entry.entryFiles))];
+    return { path: routePath, router: entries[0].router, entryFiles, ...this.getDependencies(entryFiles) };
+  }
+
+  /**
+   * Get the modules and routes depending on a file, transitively
+   */
+  getDependents(filePath: string): ModuleDependents {
+    const target = path.resolve(filePath);
+    const importers = this.getImporters();
+
+    const dependents = new Set<string>([target]);
+    const pending = [target];
+    while (pending.length > 0) {
+      for (const importer of importers.get(pending.pop()!) || []) {
+        if (!dependents.has(importer)) {
+          dependents.add(importer);
+          pending.push(importer);
+        }
+      }
+    }
+
+    const routes = this.routeEntries
+      .filter(entry => entry.entryFiles.some(file => dependents.has(file)))
+      .map(entry => entry.path);
+
+    dependents.delete(target);
+    return {
+      modules: [...dependents].sort(),
+      routes: [...new Set(routes)].sort()
+    };
+  }
+
+  /**
+   * Export the graph and the dependencies of every route
+   */
+  toJSON(): ModuleGraphData {
+    return {
+      modules: this.getModules(),
+      routes: this.routeEntries.map(entry => ({ ...entry, ...this.getDependencies(entry.entryFiles) }))
+    };
+  }
+
+  /**
+   * Map each module to the modules importing it directly
+   */
+  private getImporters(): Map<string, string[]> {
+    if (!this.importers) {
+      this.importers = new Map();
+      for (const node of this.modules.values()) {
+        for (const imported of node.imports) {
+          this.importers.set(imported, [...(this.importers.get(imported) || []), node.filePath]);
+        }
+      }
+    }
+    return this.importers;
+  }
+
+  /**
+   * Read a module's imports and directive; non-source modules (JSON, etc.)
+   * are leaves
+   */
+  private static async parseModule(filePath: string, resolver: ModuleResolver): Promise<ModuleNode> {
+    const imports = new Set<string>();
+    const packages = new Set<string>();
+
+    const content = SOURCE_EXTENSIONS.includes(path.extname(filePath)) ? await readFileContent(filePath) : null;
+    if (content === null) {
+      return { filePath, imports: [], packages: [], size: 0 };
+    }
+
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    const resolveModules = (entries: ModuleImport[]) => entries.flatMap(entry => {
+      const resolved = resolver.resolveImport(entry.specifier, filePath);
+      return resolved?.type === 'module' && resolved.filePath !== filePath ? [resolved.filePath] : [];
+    });
+
+    for (const entry of ImportParser.parseSourceFile(sourceFile)) {
+      const resolved = resolver.resolveImport(entry.specifier, filePath);
+      if (resolved?.type === 'module' && resolved.filePath !== filePath) {
+        imports.add(resolved.filePath);
+      } else if (resolved?.type === 'package') {
+        packages.add(resolved.name);
+      }
+    }
+
+    const dataFetchingCode = ImportParser.getDataFetchingCode(sourceFile);
+    const clientImports = dataFetchingCode.size > 0
+      ? new Set(resolveModules(ImportParser.parseSourceFile(sourceFile, dataFetchingCode)))
+      : imports;
+    const dataFetchingImports = [...imports].filter(imported => !clientImports.has(imported)).sort();
+
+    const directive = this.getDirective(sourceFile);
+    return {
+      filePath,
+      imports: [...imports].sort(),
+      ...(dataFetchingImports.length > 0 && { dataFetchingImports }),
+      packages: [...packages].sort(),
+      ...(directive && { directive }),
+      size: Buffer.byteLength(content)
+    };
+  }
+
+  /**
+   * Get the 'use client' or 'use server' directive of a module's prologue
+   */
+  private static getDirective(sourceFile: ts.SourceFile): ModuleNode['directive'] {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) {
+        return undefined; // Directives only appear in the prologue
+      }
+      if (statement.expression.text === 'use client' || statement.expression.text === 'use server') {
+        return statement.expression.text;
+      }
+    }
+    return undefined;
+  }
+}
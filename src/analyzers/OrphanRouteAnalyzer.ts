@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { NextConfig, OrphanReport, OrphanRoute, RouteInfo, RouteReference } from '../types.js';
+import { readFileContent } from '../utils.js';
+import { LinkParser } from '../parsers/LinkParser.js';
+import { LinkValidator } from './LinkValidator.js';
+
+/**
+ * Analyzer for page routes nothing points to
+ *
+ * A route is referenced when a link, router call or `redirect()` (see
+ * LinkParser), an `href` in a navigation config, a sitemap (`sitemap.ts`,
+ * `sitemap.xml` or `public/sitemap*.xml`) or the destination of a next.config
+ * redirect or rewrite can render it. Template literal substitutions match any
+ * segment, so `/${slug}` references every single-segment route. API routes,
+ * route handlers, special pages, metadata files, intercepting and slot pages
+ * and the home page are not checked; routes whose metadata sets
+ * `allowOrphan: true` are reported separately.
+ */
+export class OrphanRouteAnalyzer {
+  /**
+   * Find the page routes no reference in files, sitemaps or config points to
+   */
+  static async analyze(
+    files: string[],
+    routes: RouteInfo[],
+    rootDir: string,
+    config?: NextConfig
+  ): Promise<OrphanReport> {
+    const links: RouteReference[] = (await LinkValidator.collectLinks(files)).map(({ href, filePath, line }) => ({
+      href,
+      source: 'link',
+      filePath,
+      line
+    }));
+    // `<Link href>` attributes are found again as navigation hrefs
+    const linkKeys = new Set(links.map(link => `${link.filePath}:${link.line}:${link.href}`));
+    const navigation = (await this.collectNavigation(files)).filter(
+      reference => !linkKeys.has(`${reference.filePath}:${reference.line}:${reference.href}`)
+    );
+
+    const references: RouteReference[] = [
+      ...links,
+      ...navigation,
+      ...(await this.collectSitemaps(routes, rootDir)),
+      ...this.collectConfig(config, rootDir)
+    ];
+
+    const locales = config?.i18n?.locales || [];
+    const orphans: OrphanRoute[] = [];
+    const allowed: OrphanRoute[] = [];
+
+    for (const route of routes) {
+      if (!this.isCheckedPage(route) || references.some(reference => LinkValidator.linksTo(reference.href, route.path, locales))) {
+        continue;
+      }
+
+      const orphan: OrphanRoute = { path: route.path, router: route.router, filePath: route.filePath };
+      if (route.metadata?.allowOrphan === true) {
+        allowed.push(orphan);
+      } else {
+        orphans.push(orphan);
+      }
+    }
+
+    const byPath = (a: OrphanRoute, b: OrphanRoute) => a.path.localeCompare(b.path);
+    return { references, orphans: orphans.sort(byPath), allowed: allowed.sort(byPath) };
+  }
+
+  /**
+   * Check whether a route is a page users are expected to navigate to
+   */
+  private static isCheckedPage(route: RouteInfo): boolean {
+    if (route.path === '/') {
+      return false;
+    }
+    if (route.router === 'pages') {
+      return !route.pagesRouter?.isApiRoute && !route.pagesRouter?.isSpecialPage;
+    }
+    return !route.appRouter?.specialFiles?.route &&
+      !route.appRouter?.metadataRoute &&
+      !route.appRouter?.interception &&
+      !route.appRouter?.slot;
+  }
+
+  /**
+   * Find the absolute `href` values of navigation configs in files
+   */
+  private static async collectNavigation(files: string[]): Promise<RouteReference[]> {
+    const references: RouteReference[] = [];
+    for (const filePath of [...files].sort()) {
+      const content = await readFileContent(filePath);
+      if (content === null) {
+        continue;
+      }
+      for (const { href, line } of LinkParser.parseHrefs(content, path.basename(filePath))) {
+        if (href.startsWith('/') && !href.startsWith('//')) {
+          references.push({ href, source: 'navigation', filePath, line });
+        }
+      }
+    }
+    return references;
+  }
+
+  /**
+   * Find the paths listed by App Router sitemap files and `public/sitemap*.xml`
+   */
+  private static async collectSitemaps(routes: RouteInfo[], rootDir: string): Promise<RouteReference[]> {
+    const sitemapFiles = routes
+      .filter(route => route.appRouter?.metadataRoute?.type === 'sitemap')
+      .map(route => route.filePath);
+
+    const publicDir = path.join(rootDir, 'public');
+    try {
+      const entries = await fs.readdir(publicDir);
+      sitemapFiles.push(
+        ...entries.filter(entry => /^sitemap.*\.xml$/.test(entry)).map(entry => path.join(publicDir, entry))
+      );
+    } catch {
+      // No public directory
+    }
+
+    const references: RouteReference[] = [];
+    for (const filePath of sitemapFiles) {
+      const content = await readFileContent(filePath);
+      if (content === null) {
+        continue;
+      }
+      const targets = filePath.endsWith('.xml')
+        ? LinkParser.parseSitemapXml(content)
+        : LinkParser.parseSitemap(content, path.basename(filePath));
+      references.push(...targets.map(({ href, line }) => ({ href, source: 'sitemap' as const, filePath, line })));
+    }
+    return references;
+  }
+
+  /**
+   * Get the internal destinations of next.config redirects and rewrites;
+   * parameters (`:slug`, `:path*`) match any segment and the query is dropped
+   */
+  private static collectConfig(config: NextConfig | undefined, rootDir: string): RouteReference[] {
+    const rules = [
+      ...(config?.redirects || []),
+      ...(config?.rewrites?.beforeFiles || []),
+      ...(config?.rewrites?.afterFiles || []),
+      ...(config?.rewrites?.fallback || [])
+    ];
+    const filePath = path.join(rootDir, config?.configFile || 'next.config.js');
+
+    return rules
+      .filter(rule => rule.destination.startsWith('/') && !rule.destination.startsWith('//'))
+      .map(rule => ({
+        href: rule.destination
+          .split(/[?#]/)[0]
+          .split('/')
+          .map(segment => (/[:(*]/.test(segment) ? `\${${segment}}` : segment))
+          .join('/'),
+        source: 'config' as const,
+        filePath
+      }));
+  }
+}
@@ -0,0 +1,247 @@
+import type { LiteralValue, PrerenderedUrls, RouteInfo } from '../types.js';
+import { getRelativePath, readFileContent } from '../utils.js';
+import { StaticEvaluator, UNRESOLVED } from '../parsers/StaticEvaluator.js';
+
+/**
+ * Params of one prerendered page, keyed by segment name
+ */
+type SegmentParams = Record<string, LiteralValue>;
+
+/**
+ * A params function that could not be evaluated
+ */
+interface UnresolvedEvaluation {
+  status: 'unresolved';
+  filePath: string;
+  evaluator: StaticEvaluator;
+}
+
+/**
+ * Result of evaluating a params function
+ */
+type Evaluation = { status: 'resolved'; value: LiteralValue | undefined } | UnresolvedEvaluation;
+
+/**
+ * Analyzer for the concrete URLs dynamic routes are prerendered at
+ *
+ * Evaluates `generateStaticParams` (App Router, calling the functions of
+ * parent layouts first and passing their params down, as Next.js does) and
+ * `getStaticPaths` (Pages Router) with the StaticEvaluator, then fills the
+ * route's dynamic segments. Literal arrays, local constants, pure array
+ * methods and local JSON imports resolve; functions that fetch data or call
+ * imported code are reported as unresolved.
+ */
+export class PrerenderAnalyzer {
+  /**
+   * Annotate dynamic routes that export a params function with their URLs
+   */
+  static async annotateRoutes(routes: RouteInfo[], rootDir: string): Promise<RouteInfo[]> {
+    const evaluators = new Map<string, StaticEvaluator | undefined>();
+    const load = async (filePath: string) => {
+      if (!evaluators.has(filePath)) {
+        const content = await readFileContent(filePath);
+        evaluators.set(filePath, content === null ? undefined : new StaticEvaluator(content, filePath, rootDir));
+      }
+      return evaluators.get(filePath);
+    };
+
+    const annotated: RouteInfo[] = [];
+    for (const route of routes) {
+      const prerendered = route.pattern === 'static' || route.appRouter?.metadataRoute
+        ? undefined
+        : route.router === 'app'
+          ? await this.resolveAppRoute(route, rootDir, load)
+          : await this.resolvePagesRoute(route, rootDir, load);
+      annotated.push(prerendered ? { ...route, prerendered } : route);
+    }
+    return annotated;
+  }
+
+  /**
+   * Resolve the URLs of an App Router page or handler from the
+   * `generateStaticParams` of its layouts and its own file
+   */
+  private static async resolveAppRoute(
+    route: RouteInfo,
+    rootDir: string,
+    load: (filePath: string) => Promise<StaticEvaluator | undefined>
+  ): Promise<PrerenderedUrls | undefined> {
+    const layouts = (route.appRouter?.boundaries || []).filter(boundary => boundary.type === 'layout').map(boundary => boundary.filePath);
+
+    const files: Array<{ filePath: string; evaluator: StaticEvaluator }> = [];
+    for (const filePath of [...layouts, route.filePath]) {
+      const evaluator = await load(filePath);
+      if (evaluator?.getNamedExport('generateStaticParams')) {
+        files.push({ filePath, evaluator });
+      }
+    }
+    if (files.length === 0) {
+      return undefined;
+    }
+
+    // Each function is called once per params set generated above it
+    let paramSets: SegmentParams[] = [{}];
+    for (const { filePath, evaluator } of files) {
+      const next: SegmentParams[] = [];
+      for (const params of paramSets) {
+        const result = this.evaluateExport(evaluator, filePath, 'generateStaticParams', [{ params }]);
+        if (result.status === 'unresolved') {
+          return this.unresolved('generateStaticParams', result, rootDir);
+        }
+        if (!Array.isArray(result.value)) {
+          const invalid = this.invalidResult(evaluator, filePath, 'generateStaticParams', 'an array');
+          return this.unresolved('generateStaticParams', invalid, rootDir);
+        }
+        for (const entry of result.value) {
+          if (this.isParams(entry)) {
+            next.push({ ...params, ...entry });
+          }
+        }
+      }
+      paramSets = next;
+    }
+
+    return this.buildUrls('generateStaticParams', route, paramSets, rootDir);
+  }
+
+  /**
+   * Resolve the URLs of a Pages Router page from its `getStaticPaths`
+   */
+  private static async resolvePagesRoute(
+    route: RouteInfo,
+    rootDir: string,
+    load: (filePath: string) => Promise<StaticEvaluator | undefined>
+  ): Promise<PrerenderedUrls | undefined> {
+    const evaluator = await load(route.filePath);
+    if (!evaluator?.getNamedExport('getStaticPaths')) {
+      return undefined;
+    }
+
+    const result = this.evaluateExport(evaluator, route.filePath, 'getStaticPaths', [{}]);
+    if (result.status === 'unresolved') {
+      return this.unresolved('getStaticPaths', result, rootDir);
+    }
+
+    const paths = this.isParams(result.value) ? result.value.paths : undefined;
+    if (!Array.isArray(paths)) {
+      const invalid = this.invalidResult(evaluator, route.filePath, 'getStaticPaths', 'an object with `paths`');
+      return this.unresolved('getStaticPaths', invalid, rootDir);
+    }
+
+    // Entries are either URLs or { params, locale }
+    const urls: string[] = [];
+    for (const entry of paths) {
+      if (typeof entry === 'string') {
+        urls.push(entry);
+        continue;
+      }
+
+      const params = this.isParams(entry) && this.isParams(entry.params) ? entry.params : {};
+      const built = this.buildUrls('getStaticPaths', route, [params], rootDir);
+      if (built.status === 'unresolved') {
+        return built;
+      }
+      urls.push(...built.urls);
+    }
+
+    return { source: 'getStaticPaths', status: 'resolved', urls: [...new Set(urls)] };
+  }
+
+  /**
+   * Call an exported function with the evaluator
+   */
+  private static evaluateExport(
+    evaluator: StaticEvaluator,
+    filePath: string,
+    name: string,
+    args: unknown[]
+  ): Evaluation {
+    const node = evaluator.getNamedExport(name)!;
+    const fn = evaluator.evaluate(node, name);
+    const value = StaticEvaluator.isFunction(fn) ? evaluator.call(fn, args, name) : fn;
+
+    if (value === UNRESOLVED || evaluator.hasUnresolved(name)) {
+      return { status: 'unresolved', filePath, evaluator };
+    }
+    return { status: 'resolved', value: value as LiteralValue | undefined };
+  }
+
+  /**
+   * Record a function result that is not of the expected shape
+   */
+  private static invalidResult(
+    evaluator: StaticEvaluator,
+    filePath: string,
+    name: string,
+    expected: string
+  ): UnresolvedEvaluation {
+    evaluator.unresolved.push({ path: name, reason: `${name} does not return ${expected}` });
+    return { status: 'unresolved', filePath, evaluator };
+  }
+
+  /**
+   * Fill a route's dynamic segments with each params set
+   */
+  private static buildUrls(
+    source: PrerenderedUrls['source'],
+    route: RouteInfo,
+    paramSets: SegmentParams[],
+    rootDir: string
+  ): PrerenderedUrls {
+    const urls: string[] = [];
+
+    for (const params of paramSets) {
+      const segments: string[] = [];
+      for (const segment of route.path.split('/').filter(Boolean)) {
+        const match = /^\[(\[)?(\.\.\.)?([^\]]+)\]?\]$/.exec(segment);
+        if (!match) {
+          segments.push(segment);
+          continue;
+        }
+
+        const [, optional, catchAll, name] = match;
+        const value = params[name];
+        if (catchAll && Array.isArray(value)) {
+          segments.push(...value.map(part => encodeURIComponent(String(part))));
+        } else if (!catchAll && (typeof value === 'string' || typeof value === 'number')) {
+          segments.push(encodeURIComponent(String(value)));
+        } else if (!(optional && (value === undefined || value === null))) {
+          return {
+            source,
+            status: 'unresolved',
+            urls: [],
+            unresolvedFile: getRelativePath(rootDir, route.filePath),
+            unresolved: [{ path: source, reason: `no value for segment \`${segment}\` in ${JSON.stringify(params)}` }]
+          };
+        }
+      }
+      urls.push(`/${segments.join('/')}`);
+    }
+
+    return { source, status: 'resolved', urls: [...new Set(urls)] };
+  }
+
+  /**
+   * Describe an unresolved params function
+   */
+  private static unresolved(
+    source: PrerenderedUrls['source'],
+    evaluation: UnresolvedEvaluation,
+    rootDir: string
+  ): PrerenderedUrls {
+    return {
+      source,
+      status: 'unresolved',
+      urls: [],
+      unresolvedFile: getRelativePath(rootDir, evaluation.filePath),
+      unresolved: evaluation.evaluator.unresolved.filter(entry => entry.path.startsWith(source))
+    };
+  }
+
+  /**
+   * Check whether a value is a plain object
+   */
+  private static isParams(value: unknown): value is SegmentParams {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,395 @@
+import path from 'path';
+import ts from 'typescript';
+import type {
+  DynamicApi,
+  DynamicApiUsage,
+  ModuleExport,
+  ProjectInfo,
+  RouteDynamicApiUsage,
+  RouteInfo,
+  RouteRendering,
+  RouteSegmentConfig
+} from '../types.js';
+import { getRelativePath, readFileContent } from '../utils.js';
+import { AppRouterParser } from '../parsers/AppRouterParser.js';
+import { DynamicApiParser } from '../parsers/DynamicApiParser.js';
+import { ExportParser } from '../parsers/ExportParser.js';
+
+/**
+ * Route handler methods that are never prerendered
+ */
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * How each dynamic API is named in reasons
+ */
+const DYNAMIC_API_LABELS: Record<DynamicApi, string> = {
+  cookies: 'cookies()',
+  headers: 'headers()',
+  draftMode: 'draftMode()',
+  connection: 'connection()',
+  unstable_noStore: 'unstable_noStore()',
+  searchParams: 'searchParams',
+  useSearchParams: 'useSearchParams()',
+  'fetch-no-store': 'uncached fetch()'
+};
+
+/**
+ * What the classification needs to know about a route file
+ */
+interface ModuleFacts {
+  filePath: string;
+  exports: ModuleExport[];
+  config: RouteSegmentConfig;
+  dynamicApis: DynamicApiUsage[];
+  /** Line of a `Page.getInitialProps` assignment or static method */
+  getInitialPropsLine?: number;
+  /** Lowest `revalidate` returned by getStaticProps */
+  staticPropsRevalidate?: { value: number; line: number };
+}
+
+/**
+ * A segment config value and where it was set
+ */
+interface Setting<T> {
+  value: T;
+  reason: string;
+}
+
+/**
+ * Project-wide inputs of the classification
+ */
+interface RenderingContext {
+  rootDir: string;
+  nextMajor?: number;
+  ppr?: unknown;
+  pagesApp?: ModuleFacts;
+  load: (filePath: string) => Promise<ModuleFacts>;
+}
+
+/**
+ * Analyzer for how each route is rendered
+ *
+ * App Router routes combine the segment config of the page (or handler) and
+ * its layouts, `generateStaticParams` and the dynamic APIs the files call;
+ * the innermost segment wins, except `revalidate` where the lowest value
+ * does. Pages Router pages are classified by their data fetching methods
+ * and `config.runtime`. Dynamic APIs called from imported helpers are only
+ * seen in comprehensive mode, where AppRouterParser follows local imports;
+ * otherwise only the route files themselves are read. `useSearchParams`
+ * bails out to client rendering rather than opting into dynamic rendering
+ * and is not a reason.
+ */
+export class RenderingAnalyzer {
+  /**
+   * Annotate routes with their rendering strategy
+   */
+  static async annotateRoutes(routes: RouteInfo[], projectInfo: ProjectInfo): Promise<RouteInfo[]> {
+    const cache = new Map<string, Promise<ModuleFacts>>();
+    const load = (filePath: string): Promise<ModuleFacts> => {
+      if (!cache.has(filePath)) {
+        cache.set(filePath, this.readModule(filePath));
+      }
+      return cache.get(filePath)!;
+    };
+
+    const major = /\d+/.exec(projectInfo.version)?.[0];
+    const pagesApp = routes.find(route => route.pagesRouter?.specialPageType === 'app');
+    const context: RenderingContext = {
+      rootDir: projectInfo.rootDir,
+      nextMajor: major ? Number(major) : undefined,
+      ppr: projectInfo.config?.experimental?.ppr,
+      pagesApp: pagesApp ? await load(pagesApp.filePath) : undefined,
+      load
+    };
+
+    const annotated: RouteInfo[] = [];
+    for (const route of routes) {
+      const rendering = route.router === 'app'
+        ? await this.classifyAppRoute(route, context)
+        : await this.classifyPagesRoute(route, context);
+      annotated.push(rendering ? { ...route, rendering } : route);
+    }
+    return annotated;
+  }
+
+  /**
+   * Classify an App Router page, route handler or metadata route
+   */
+  private static async classifyAppRoute(route: RouteInfo, context: RenderingContext): Promise<RouteRendering> {
+    const metadataRoute = route.appRouter?.metadataRoute;
+    if (metadataRoute?.source === 'static') {
+      return { strategy: 'static', reasons: ['static metadata file'] };
+    }
+
+    const isHandler = !!route.appRouter?.specialFiles.route || !!metadataRoute;
+    // Handlers have no layouts, so only their own segment config applies
+    const layouts = (route.appRouter?.boundaries || []).filter(boundary => boundary.type === 'layout').map(boundary => boundary.filePath);
+    const modules = await Promise.all([...layouts, route.filePath].map(context.load));
+
+    const setting = <K extends keyof RouteSegmentConfig>(key: K): Setting<RouteSegmentConfig[K]> | undefined => {
+      const module = [...modules].reverse().find(candidate => candidate.config[key] !== undefined);
+      return module && { value: module.config[key], reason: this.describeExport(module, key, context) };
+    };
+    const revalidate = modules
+      .filter(module => typeof module.config.revalidate === 'number')
+      .map(module => ({ value: module.config.revalidate as number, reason: this.describeExport(module, 'revalidate', context) }))
+      .sort((a, b) => a.value - b.value)[0];
+
+    const runtime = setting('runtime');
+    if (runtime && runtime.value !== 'nodejs') {
+      return { strategy: 'edge', reasons: [runtime.reason] };
+    }
+
+    const dynamic = setting('dynamic');
+    if (dynamic?.value === 'force-static') {
+      return revalidate && revalidate.value > 0
+        ? { strategy: 'isr', revalidate: revalidate.value, reasons: [dynamic.reason, revalidate.reason] }
+        : { strategy: 'static', reasons: [dynamic.reason] };
+    }
+
+    const dynamicReasons: string[] = [];
+    if (dynamic?.value === 'force-dynamic') {
+      dynamicReasons.push(dynamic.reason);
+    }
+    if (revalidate?.value === 0) {
+      dynamicReasons.push(revalidate.reason);
+    }
+    const fetchCache = setting('fetchCache');
+    if (fetchCache?.value === 'force-no-store') {
+      dynamicReasons.push(fetchCache.reason);
+    }
+
+    // dynamic = 'error' fails the build instead of opting into dynamic rendering
+    if (dynamic?.value !== 'error') {
+      dynamicReasons.push(...this.getDynamicApiReasons(route, modules, context));
+    }
+
+    if (isHandler) {
+      const handler = modules[modules.length - 1];
+      for (const method of MUTATING_METHODS) {
+        const line = this.getExportLine(handler, method);
+        if (line !== undefined) {
+          dynamicReasons.push(`${method} handler (${this.describeLocation(handler, line, context)})`);
+        }
+      }
+      if (
+        !metadataRoute &&
+        (context.nextMajor ?? 0) >= 15 &&
+        !revalidate &&
+        this.getExportLine(handler, 'GET') !== undefined
+      ) {
+        dynamicReasons.push('GET handlers are not cached by default since Next.js 15');
+      }
+    }
+
+    const staticParams = modules.find(module => module.exports.some(exported => exported.name === 'generateStaticParams'));
+    if (route.pattern !== 'static' && !staticParams) {
+      dynamicReasons.push('dynamic segments without generateStaticParams');
+    }
+
+    if (dynamicReasons.length > 0) {
+      const ppr = isHandler ? undefined : this.getPprReason(setting('experimental_ppr'), context);
+      return ppr
+        ? { strategy: 'ppr', reasons: [ppr, ...dynamicReasons] }
+        : { strategy: 'dynamic', reasons: dynamicReasons };
+    }
+
+    if (revalidate && revalidate.value > 0) {
+      return { strategy: 'isr', revalidate: revalidate.value, reasons: [revalidate.reason] };
+    }
+
+    return {
+      strategy: 'static',
+      reasons: staticParams ? [this.describeExport(staticParams, 'generateStaticParams', context)] : []
+    };
+  }
+
+  /**
+   * Classify a Pages Router page or API route; `_app` and `_document` are
+   * not rendered on their own
+   */
+  private static async classifyPagesRoute(
+    route: RouteInfo,
+    context: RenderingContext
+  ): Promise<RouteRendering | undefined> {
+    const specialPageType = route.pagesRouter?.specialPageType;
+    if (specialPageType === 'app' || specialPageType === 'document') {
+      return undefined;
+    }
+
+    const page = await context.load(route.filePath);
+    const config = page.exports.find(exported => exported.name === 'config')?.value;
+    const runtime = config && typeof config === 'object' && !Array.isArray(config) ? config.runtime : undefined;
+    if (runtime === 'edge' || runtime === 'experimental-edge') {
+      return {
+        strategy: 'edge',
+        reasons: [`config.runtime = '${runtime}' (${this.describeLocation(page, this.getExportLine(page, 'config'), context)})`]
+      };
+    }
+
+    if (route.pagesRouter?.isApiRoute) {
+      return { strategy: 'dynamic', reasons: ['API route'] };
+    }
+
+    if (page.exports.some(exported => exported.name === 'getServerSideProps')) {
+      return { strategy: 'dynamic', reasons: [this.describeExport(page, 'getServerSideProps', context)] };
+    }
+
+    if (page.getInitialPropsLine !== undefined) {
+      return {
+        strategy: 'dynamic',
+        reasons: [`getInitialProps (${this.describeLocation(page, page.getInitialPropsLine, context)})`]
+      };
+    }
+
+    if (page.exports.some(exported => exported.name === 'getStaticProps')) {
+      const revalidate = page.staticPropsRevalidate;
+      return revalidate && revalidate.value > 0
+        ? {
+            strategy: 'isr',
+            revalidate: revalidate.value,
+            reasons: [`getStaticProps with revalidate: ${revalidate.value} (${this.describeLocation(page, revalidate.line, context)})`]
+          }
+        : { strategy: 'static', reasons: [this.describeExport(page, 'getStaticProps', context)] };
+    }
+
+    // A custom _app with getInitialProps disables automatic static optimization
+    const app = context.pagesApp;
+    if (app?.getInitialPropsLine !== undefined) {
+      return {
+        strategy: 'dynamic',
+        reasons: [`getInitialProps in _app (${this.describeLocation(app, app.getInitialPropsLine, context)})`]
+      };
+    }
+
+    return { strategy: 'static', reasons: [] };
+  }
+
+  /**
+   * Get the PPR opt-in for a route: `experimental.ppr: true` in next.config,
+   * or `experimental_ppr = true` in a segment with `ppr: 'incremental'`
+   */
+  private static getPprReason(segment: Setting<boolean | undefined> | undefined, context: RenderingContext): string | undefined {
+    if (segment?.value === false) {
+      return undefined;
+    }
+    if (context.ppr === true) {
+      return 'experimental.ppr = true (next.config)';
+    }
+    return context.ppr === 'incremental' && segment?.value ? segment.reason : undefined;
+  }
+
+  /**
+   * Describe an export with its value and location (`revalidate = 60 (app/page.tsx:3)`)
+   */
+  private static describeExport(module: ModuleFacts, name: string, context: RenderingContext): string {
+    const exported = module.exports.find(candidate => candidate.name === name);
+    const value = exported?.value;
+    const assignment = value === undefined ? '' : ` = ${typeof value === 'string' ? `'${value}'` : JSON.stringify(value)}`;
+    return `${name}${assignment} (${this.describeLocation(module, exported?.line, context)})`;
+  }
+
+  /**
+   * Format a file location relative to the project root
+   */
+  private static describeLocation(module: ModuleFacts, line: number | undefined, context: RenderingContext): string {
+    const relativePath = getRelativePath(context.rootDir, module.filePath);
+    return line === undefined ? relativePath : `${relativePath}:${line}`;
+  }
+
+  /**
+   * Describe the dynamic APIs that opt a route into dynamic rendering: those
+   * found by following local imports when the route has them, otherwise
+   * those in the route files
+   */
+  private static getDynamicApiReasons(route: RouteInfo, modules: ModuleFacts[], context: RenderingContext): string[] {
+    const found = route.appRouter?.dynamicApis;
+    const usages = found
+      ? found.map(usage => ({ ...usage, location: this.describeUsage(usage, context) }))
+      : modules.flatMap(module =>
+          module.dynamicApis.map(usage => ({ ...usage, location: this.describeLocation(module, usage.line, context) }))
+        );
+
+    return usages
+      .filter(usage => usage.api !== 'useSearchParams')
+      .map(usage => `${DYNAMIC_API_LABELS[usage.api]} (${usage.location})`);
+  }
+
+  /**
+   * Describe where a dynamic API found through imports is used
+   */
+  private static describeUsage(usage: RouteDynamicApiUsage, context: RenderingContext): string {
+    const location = `${getRelativePath(context.rootDir, usage.filePath)}:${usage.line}`;
+    return usage.via ? `${location} via ${getRelativePath(context.rootDir, usage.via[0])}` : location;
+  }
+
+  /**
+   * Get the line of a named export
+   */
+  private static getExportLine(module: ModuleFacts, name: string): number | undefined {
+    return module.exports.find(exported => exported.name === name)?.line;
+  }
+
+  /**
+   * Read the exports, segment config, dynamic API usage and Pages Router
+   * data fetching of a route file
+   */
+  private static async readModule(filePath: string): Promise<ModuleFacts> {
+    const content = await readFileContent(filePath);
+    if (content === null) {
+      return { filePath, exports: [], config: {}, dynamicApis: [] };
+    }
+
+    const fileName = path.basename(filePath);
+    const exports = ExportParser.parse(content, fileName);
+    const sourceFile = ExportParser.createSourceFile(content, fileName);
+    const getLine = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+    // Page.getInitialProps = ... / static async getInitialProps()
+    let getInitialPropsLine: number | undefined;
+    const visit = (node: ts.Node): void => {
+      const isAssignment = ts.isBinaryExpression(node) &&
+        node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        ts.isPropertyAccessExpression(node.left) &&
+        node.left.name.text === 'getInitialProps';
+      const isStaticMember = (ts.isMethodDeclaration(node) || ts.isPropertyDeclaration(node)) &&
+        ExportParser.getPropertyName(node.name) === 'getInitialProps' &&
+        !!node.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.StaticKeyword);
+      if ((isAssignment || isStaticMember) && getInitialPropsLine === undefined) {
+        getInitialPropsLine = getLine(node);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    // return { props, revalidate: 60 }
+    let staticPropsRevalidate: ModuleFacts['staticPropsRevalidate'];
+    const getStaticProps = ExportParser.collectDeclarations(sourceFile).get('getStaticProps');
+    const findRevalidate = (node: ts.Node): void => {
+      if (
+        ts.isPropertyAssignment(node) &&
+        ExportParser.getPropertyName(node.name) === 'revalidate' &&
+        ts.isNumericLiteral(node.initializer)
+      ) {
+        const value = Number(node.initializer.text);
+        if (!staticPropsRevalidate || value < staticPropsRevalidate.value) {
+          staticPropsRevalidate = { value, line: getLine(node) };
+        }
+      }
+      ts.forEachChild(node, findRevalidate);
+    };
+    if (getStaticProps) {
+      findRevalidate(getStaticProps);
+    }
+
+    return {
+      filePath,
+      exports,
+      config: AppRouterParser.extractSegmentConfig(exports),
+      dynamicApis: DynamicApiParser.parse(content, fileName),
+      ...(getInitialPropsLine !== undefined && { getInitialPropsLine }),
+      ...(staticPropsRevalidate && { staticPropsRevalidate })
+    };
+  }
+}
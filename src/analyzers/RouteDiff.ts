@@ -0,0 +1,204 @@
+import path from 'path';
+import type {
+  IntrospectionResult,
+  RouteDiffEntry,
+  RouteDiffKind,
+  RouteDiffResult,
+  RouteFieldChange,
+  RouteInfo
+} from '../types.js';
+import { getRelativePath, normalizeRouteParams, routesToArray, SEGMENT_CONFIG_KEYS } from '../utils.js';
+
+/**
+ * Route with its diff identity
+ */
+interface KeyedRoute {
+  key: string;
+  route: RouteInfo;
+  entry: RouteDiffEntry;
+}
+
+/**
+ * Comparison of two introspection results
+ *
+ * Routes are matched by router and path. Unmatched routes are only paired
+ * as renames on positive evidence: they share a file, their files have the
+ * same content (`contentHash`, so a moved file), or their paths differ only
+ * in param names. Anything else is reported as removed and added, so a
+ * removed page is never hidden behind an unrelated new one.
+ */
+export class RouteDiff {
+  /**
+   * Compare two introspection results
+   */
+  static diff(oldResult: IntrospectionResult, newResult: IntrospectionResult): RouteDiffResult {
+    const oldRoutes = this.keyRoutes(oldResult);
+    const newRoutes = this.keyRoutes(newResult);
+
+    const diff: RouteDiffResult = { added: [], removed: [], renamed: [], changed: [] };
+    const pairs: Array<[KeyedRoute, KeyedRoute]> = [];
+
+    let removed = oldRoutes.filter(oldRoute => {
+      const newRoute = newRoutes.find(candidate => candidate.key === oldRoute.key);
+      if (newRoute) {
+        pairs.push([oldRoute, newRoute]);
+      }
+      return !newRoute;
+    });
+    let added = newRoutes.filter(newRoute => !oldRoutes.some(candidate => candidate.key === newRoute.key));
+
+    const renameMatchers: Array<(from: KeyedRoute, to: KeyedRoute) => boolean> = [
+      (from, to) => from.entry.filePath === to.entry.filePath,
+      (from, to) => !!from.route.contentHash && from.route.contentHash === to.route.contentHash,
+      (from, to) => normalizeRouteParams(from.entry.path) === normalizeRouteParams(to.entry.path)
+    ];
+
+    for (const matches of renameMatchers) {
+      for (const [from, to] of this.pairUnambiguous(removed, added, matches)) {
+        diff.renamed.push({ from: from.entry, to: to.entry });
+        pairs.push([from, to]);
+        removed = removed.filter(route => route !== from);
+        added = added.filter(route => route !== to);
+      }
+    }
+
+    diff.added = added.map(route => route.entry);
+    diff.removed = removed.map(route => route.entry);
+
+    for (const [from, to] of pairs) {
+      const changes = this.compareRoutes(from.route, to.route);
+      if (changes.length > 0) {
+        diff.changed.push({
+          ...to.entry,
+          ...(from.entry.path !== to.entry.path && { previousPath: from.entry.path }),
+          changes
+        });
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Whether the diff has differences of the given kinds (all kinds by default)
+   */
+  static hasChanges(
+    diff: RouteDiffResult,
+    kinds: RouteDiffKind[] = ['added', 'removed', 'renamed', 'changed']
+  ): boolean {
+    return kinds.some(kind => diff[kind].length > 0);
+  }
+
+  /**
+   * Compare the pattern, component types and segment config of a route
+   */
+  private static compareRoutes(oldRoute: RouteInfo, newRoute: RouteInfo): RouteFieldChange[] {
+    const changes: RouteFieldChange[] = [];
+
+    if (oldRoute.pattern !== newRoute.pattern) {
+      changes.push({ kind: 'pattern', field: 'pattern', before: oldRoute.pattern, after: newRoute.pattern });
+    }
+
+    // Component types are only compared for files present in both results,
+    // so an added loading.tsx is not reported as a flip
+    const oldTypes: Record<string, unknown> = oldRoute.appRouter?.componentTypes ??
+      (oldRoute.pagesRouter?.componentType ? { page: oldRoute.pagesRouter.componentType } : {});
+    const newTypes: Record<string, unknown> = newRoute.appRouter?.componentTypes ??
+      (newRoute.pagesRouter?.componentType ? { page: newRoute.pagesRouter.componentType } : {});
+    for (const [file, before] of Object.entries(oldTypes)) {
+      const after = newTypes[file];
+      if (before !== undefined && after !== undefined && before !== after) {
+        changes.push({ kind: 'component-type', field: file, before, after });
+      }
+    }
+
+    // Segment config is only available in comprehensive mode
+    const oldExports = oldRoute.appRouter?.exports as Record<string, unknown> | undefined;
+    const newExports = newRoute.appRouter?.exports as Record<string, unknown> | undefined;
+    if (oldExports && newExports) {
+      for (const option of SEGMENT_CONFIG_KEYS) {
+        const before = oldExports[option];
+        const after = newExports[option];
+        if (JSON.stringify(before) !== JSON.stringify(after)) {
+          changes.push({
+            kind: 'segment-config',
+            field: option,
+            ...(before !== undefined && { before }),
+            ...(after !== undefined && { after })
+          });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Pair routes that have exactly one matching candidate on each side
+   */
+  private static pairUnambiguous(
+    removed: KeyedRoute[],
+    added: KeyedRoute[],
+    matches: (from: KeyedRoute, to: KeyedRoute) => boolean
+  ): Array<[KeyedRoute, KeyedRoute]> {
+    return removed.flatMap(from => {
+      const targets = added.filter(to => from.entry.router === to.entry.router && matches(from, to));
+      if (targets.length !== 1) {
+        return [];
+      }
+
+      const sources = removed.filter(other =>
+        other.entry.router === targets[0].entry.router && matches(other, targets[0])
+      );
+      return sources.length === 1 ? [[from, targets[0]] as [KeyedRoute, KeyedRoute]] : [];
+    });
+  }
+
+  /**
+   * Flatten a result's routes and compute their identity
+   *
+   * Parallel slot pages and intercepting routes share URLs with other
+   * routes, so their segment path is part of the key.
+   */
+  private static keyRoutes(result: IntrospectionResult): KeyedRoute[] {
+    const routes = Array.isArray(result.routes) ? result.routes : routesToArray(result.routes);
+    const seen = new Set<string>();
+
+    return routes.flatMap(route => {
+      if (route.router !== 'app' && route.router !== 'pages') {
+        return [];
+      }
+
+      const appRouter = route.appRouter;
+      const variant = appRouter?.slot || appRouter?.isInterceptingRoute
+        ? ` ${appRouter.segmentPath ?? route.filePath}`
+        : '';
+      const key = `${route.router} ${route.path}${variant}`;
+      if (seen.has(key)) {
+        return [];
+      }
+      seen.add(key);
+
+      return [{
+        key,
+        route,
+        entry: {
+          path: route.path,
+          router: route.router,
+          filePath: this.relativeFilePath(result.project?.rootDir, route.filePath)
+        }
+      }];
+    });
+  }
+
+  /**
+   * Make a file path relative to the project root, so results from
+   * different checkouts compare equal
+   */
+  private static relativeFilePath(rootDir: string | undefined, filePath: string): string {
+    if (rootDir && path.isAbsolute(filePath) && filePath.startsWith(rootDir)) {
+      return getRelativePath(rootDir, filePath);
+    }
+    return filePath;
+  }
+}
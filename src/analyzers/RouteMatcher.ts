@@ -0,0 +1,72 @@
+import type { ProjectInfo, RouteInfo, RouteMatch, SimulationOptions } from '../types.js';
+import { getServableRoutes, matchRoutePath } from '../utils.js';
+import { RouteSimulator } from './RouteSimulator.js';
+
+/**
+ * Matcher resolving a concrete URL to the route that serves it
+ *
+ * The URL goes through RouteSimulator, so `basePath`, i18n locales,
+ * redirects (followed to the final response), rewrites with their `has` /
+ * `missing` conditions, vercel.json rules and public files are applied
+ * exactly as `simulate` applies them. Routes take precedence segment by
+ * segment: static over dynamic over catch-all over optional catch-all, App
+ * Router before Pages Router.
+ */
+export class RouteMatcher {
+  /**
+   * Find the route serving a URL, its params and layout chain
+   */
+  static match(
+    url: string,
+    routes: RouteInfo[],
+    project: Pick<ProjectInfo, 'config' | 'middleware' | 'vercel'> = {},
+    options: SimulationOptions = {}
+  ): RouteMatch {
+    const simulation = RouteSimulator.simulate(url, routes, project, options);
+    const hop = simulation.hops[simulation.hops.length - 1];
+    const route = hop.route && routes.find(candidate =>
+      candidate.path === hop.route!.path && candidate.filePath === hop.route!.filePath
+    );
+
+    return {
+      url,
+      pathname: hop.pathname,
+      ...(hop.locale && { locale: hop.locale }),
+      ...(route && { route }),
+      params: hop.params || {},
+      layouts: route ? this.getLayouts(route, routes) : [],
+      rules: simulation.hops.flatMap(step => step.steps),
+      ...(hop.publicFile && { publicFile: hop.publicFile }),
+      ...(hop.outcome === 'external' && { external: hop.location })
+    };
+  }
+
+  /**
+   * Match a pathname against a route path, returning the params or null
+   */
+  static matchRoute(routePath: string, pathname: string): Record<string, string | string[]> | null {
+    return matchRoutePath(routePath, pathname);
+  }
+
+  /**
+   * Get the routes that serve URLs of their own, sorted so the first match is
+   * the one Next.js serves; parallel slots, intercepting routes and special
+   * pages are left out
+   */
+  static getServableRoutes(routes: RouteInfo[]): RouteInfo[] {
+    return getServableRoutes(routes);
+  }
+
+  /**
+   * Get the layouts wrapping a route: its App Router layouts, or `_app` for
+   * Pages Router pages
+   */
+  private static getLayouts(route: RouteInfo, routes: RouteInfo[]): string[] {
+    if (route.router === 'app') {
+      return (route.appRouter?.boundaries || []).filter(boundary => boundary.type === 'layout').map(boundary => boundary.filePath);
+    }
+
+    const app = routes.find(candidate => candidate.pagesRouter?.specialPageType === 'app');
+    return app && !route.pagesRouter?.isApiRoute ? [app.filePath] : [];
+  }
+}
@@ -0,0 +1,513 @@
+import type {
+  HopOutcome,
+  ProjectInfo,
+  Redirect,
+  Rewrite,
+  RouteInfo,
+  RouteSimulation,
+  RuleAnalysis,
+  RuleAnalysisOptions,
+  RuleIssue,
+  RuleOrigin,
+  RulePhase,
+  SimulatedRequest,
+  SimulationHop,
+  SimulationOptions,
+  SimulationStep
+} from '../types.js';
+import { fillPathPattern, getServableRoutes, matchConditions, matchPathPattern, matchRoutePath } from '../utils.js';
+
+/**
+ * A redirect or rewrite rule with where it comes from
+ */
+interface RuleEntry {
+  origin: RuleOrigin;
+  phase: RulePhase;
+  rule: Redirect | Rewrite;
+}
+
+/**
+ * A request as the rules see it
+ */
+interface RequestState {
+  /** Pathname with basePath, without locale */
+  fullPathname: string;
+  /** Pathname without basePath and locale; undefined outside basePath */
+  pathname: string | undefined;
+  locale?: string;
+  query: Record<string, string>;
+  host?: string;
+}
+
+/**
+ * What serves a pathname
+ */
+type Served = Pick<SimulationHop, 'route' | 'params' | 'publicFile'>;
+
+/**
+ * Simulator for the path of a URL through redirects, middleware, rewrites
+ * and routes
+ *
+ * Each request goes through redirects (vercel.json first, then next.config),
+ * the middleware matcher, `beforeFiles` rewrites, public files and static
+ * routes, `afterFiles` rewrites (vercel.json rewrites first, since Vercel only
+ * applies them when no file matches), dynamic routes and `fallback` rewrites.
+ * `has` / `missing` conditions are checked against the simulated request.
+ * Internal redirects start a new request, with `basePath` and the locale
+ * added back, until a page, file or external URL is reached, a URL repeats or
+ * the hop limit is hit. Rewrites and redirects done by the middleware itself
+ * are not known statically.
+ */
+export class RouteSimulator {
+  /**
+   * Simulate a request for a URL
+   */
+  static simulate(
+    url: string,
+    routes: RouteInfo[],
+    project: Pick<ProjectInfo, 'config' | 'middleware' | 'vercel'>,
+    options: SimulationOptions = {}
+  ): RouteSimulation {
+    const maxHops = options.maxHops ?? 10;
+    const rules = this.getRules(project);
+    const candidates = getServableRoutes(routes);
+    const publicFiles = new Set(options.publicFiles || []);
+
+    const hops: SimulationHop[] = [];
+    const visited = new Set<string>();
+    let current = url;
+
+    for (;;) {
+      visited.add(this.getRequestKey(current));
+      const hop = this.resolveHop(current, candidates, rules, project, options.request || {}, publicFiles);
+      hops.push(hop);
+
+      if (hop.outcome !== 'redirect') {
+        return { url, hops, outcome: hop.outcome };
+      }
+      if (visited.has(this.getRequestKey(hop.location!))) {
+        return { url, hops, outcome: 'loop' };
+      }
+      if (hops.length >= maxHops) {
+        return { url, hops, outcome: 'too-many-hops' };
+      }
+      current = hop.location!;
+    }
+  }
+
+  /**
+   * Check every redirect and rewrite for loops, redirect chains longer than
+   * `maxChain` and destinations no route, public file or rule serves
+   *
+   * Each rule is checked with a sample URL built from its source (parameters
+   * become `sample`) and a request satisfying its `has` conditions. Rules
+   * whose source cannot be sampled, or that an earlier rule shadows for the
+   * sample, are skipped.
+   */
+  static analyzeRules(
+    routes: RouteInfo[],
+    project: Pick<ProjectInfo, 'config' | 'middleware' | 'vercel'>,
+    options: RuleAnalysisOptions = {}
+  ): RuleAnalysis {
+    const maxChain = options.maxChain ?? 1;
+    const rules = this.getRules(project);
+    const candidates = getServableRoutes(routes);
+    const publicFiles = new Set(options.publicFiles || []);
+    const basePath = project.config?.basePath || '';
+    const issues: RuleIssue[] = [];
+
+    for (const entry of rules) {
+      const { rule, origin, phase } = entry;
+      const sample = this.getSample(rule);
+      if (!sample) {
+        continue;
+      }
+
+      const prefix = rule.basePath === false ? '' : basePath;
+      const simulation = this.simulate(`${prefix}${sample.path}${sample.search}`, routes, project, {
+        request: sample.request,
+        maxHops: Math.max(maxChain + 2, 10),
+        publicFiles: options.publicFiles
+      });
+      // The rule must be the first of its phase to apply, or it is shadowed
+      const step = simulation.hops[0].steps.find(applied => applied.phase === phase);
+      if (!step || step.origin !== origin || step.source !== rule.source) {
+        continue;
+      }
+
+      const issue = { origin, phase, source: rule.source, destination: rule.destination };
+      const chain = simulation.hops.map(hop => hop.url);
+      if (simulation.outcome === 'loop') {
+        chain.push(simulation.hops[simulation.hops.length - 1].location!);
+      }
+      const redirects = simulation.hops.filter(hop => hop.outcome === 'redirect').length;
+
+      if (phase === 'redirect') {
+        if (simulation.outcome === 'loop' || simulation.outcome === 'too-many-hops') {
+          issues.push({ ...issue, type: 'redirect-loop', message: `Redirects never settle: ${chain.join(' → ')}`, chain });
+          continue;
+        }
+        if (redirects > maxChain) {
+          issues.push({
+            ...issue,
+            type: 'redirect-chain',
+            message: `${redirects} redirects before a response (more than ${maxChain}): ${chain.join(' → ')}`,
+            chain
+          });
+        }
+        if (simulation.outcome === 'not-found' && !this.isDestinationServed(rule.destination, candidates, publicFiles)) {
+          issues.push({ ...issue, type: 'unmatched-destination', message: `No route serves ${rule.destination}` });
+        }
+        continue;
+      }
+
+      // A rewrite destination must be served without help from later rules
+      if (this.isInternal(rule.destination) && !this.isDestinationServed(rule.destination, candidates, publicFiles)) {
+        issues.push({ ...issue, type: 'unmatched-destination', message: `No route serves ${rule.destination}` });
+      }
+    }
+
+    return { rules: rules.length, issues };
+  }
+
+  /**
+   * Resolve a single request
+   */
+  private static resolveHop(
+    url: string,
+    candidates: RouteInfo[],
+    rules: RuleEntry[],
+    project: Pick<ProjectInfo, 'config' | 'middleware' | 'vercel'>,
+    request: SimulatedRequest,
+    publicFiles: Set<string>
+  ): SimulationHop {
+    const state = this.parseRequest(url, project, request);
+    const hop: SimulationHop = {
+      url,
+      pathname: state.pathname ?? state.fullPathname,
+      ...(state.locale && { locale: state.locale }),
+      steps: [],
+      outcome: 'not-found'
+    };
+
+    const end = (outcome: HopOutcome, served: Served = {}): SimulationHop => {
+      Object.assign(hop, served, { outcome });
+      return hop;
+    };
+
+    // Redirects end the request
+    const redirect = this.findRule(rules, 'redirect', state, request);
+    if (redirect) {
+      const { entry, destination } = redirect;
+      const statusCode = (entry.rule as Redirect).statusCode ?? ((entry.rule as Redirect).permanent ? 308 : 307);
+      hop.steps.push(this.toStep(entry, destination, statusCode));
+      hop.location = this.isInternal(destination) ? this.toPublicUrl(destination, entry.rule, state, project) : destination;
+      return end(this.isInternal(destination) ? 'redirect' : 'external');
+    }
+
+    hop.middleware = this.matchMiddleware(state, project, request);
+
+    if (state.pathname === undefined) {
+      return end('not-found');
+    }
+
+    // Returns true once the request is served or leaves the app
+    const rewrite = (phase: RulePhase, check: (pathname: string) => Served | undefined): boolean => {
+      for (const entry of rules.filter(candidate => candidate.phase === phase)) {
+        const match = this.matchRule(entry, state, request);
+        if (!match) {
+          continue;
+        }
+
+        hop.steps.push(this.toStep(entry, match));
+        if (!this.isInternal(match)) {
+          hop.location = match;
+          end('external');
+          return true;
+        }
+
+        state.pathname = this.normalizePathname(match.split(/[?#]/)[0]);
+        hop.pathname = state.pathname;
+        const served = check(state.pathname);
+        if (served) {
+          end(served.publicFile ? 'public-file' : 'route', served);
+          return true;
+        }
+      }
+      return false;
+    };
+
+    const staticRoutes = candidates.filter(route => route.pattern === 'static');
+    const anyRoute = (pathname: string) => this.findServed(pathname, candidates, publicFiles);
+    const staticOnly = (pathname: string) => this.findServed(pathname, staticRoutes, publicFiles);
+
+    if (rewrite('beforeFiles', anyRoute)) {
+      return hop;
+    }
+
+    const file = staticOnly(state.pathname);
+    if (file) {
+      return end(file.publicFile ? 'public-file' : 'route', file);
+    }
+
+    if (rewrite('afterFiles', anyRoute)) {
+      return hop;
+    }
+
+    const dynamic = anyRoute(state.pathname);
+    if (dynamic) {
+      return end('route', dynamic);
+    }
+
+    if (rewrite('fallback', anyRoute)) {
+      return hop;
+    }
+    return end('not-found');
+  }
+
+  /**
+   * Collect the rules in the order they run
+   */
+  private static getRules(project: Pick<ProjectInfo, 'config' | 'vercel'>): RuleEntry[] {
+    const entries = (origin: RuleOrigin, phase: RulePhase, rules: Array<Redirect | Rewrite> | undefined) =>
+      (rules || []).map(rule => ({ origin, phase, rule }));
+    const rewrites = project.config?.rewrites;
+
+    return [
+      ...entries('vercel.json', 'redirect', project.vercel?.redirects),
+      ...entries('next.config', 'redirect', project.config?.redirects),
+      ...entries('next.config', 'beforeFiles', rewrites?.beforeFiles),
+      ...entries('vercel.json', 'afterFiles', project.vercel?.rewrites),
+      ...entries('next.config', 'afterFiles', rewrites?.afterFiles),
+      ...entries('next.config', 'fallback', rewrites?.fallback)
+    ];
+  }
+
+  /**
+   * Find the first rule of a phase that matches a request
+   */
+  private static findRule(
+    rules: RuleEntry[],
+    phase: RulePhase,
+    state: RequestState,
+    request: SimulatedRequest
+  ): { entry: RuleEntry; destination: string } | undefined {
+    for (const entry of rules.filter(candidate => candidate.phase === phase)) {
+      const destination = this.matchRule(entry, state, request);
+      if (destination !== undefined) {
+        return { entry, destination };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Match a rule against a request, returning its destination with the
+   * captured params filled in
+   */
+  private static matchRule(entry: RuleEntry, state: RequestState, request: SimulatedRequest): string | undefined {
+    const { rule } = entry;
+    const subject = rule.basePath === false
+      ? state.fullPathname
+      : state.pathname !== undefined && rule.locale === false && state.locale
+        ? `/${state.locale}${state.pathname === '/' ? '' : state.pathname}`
+        : state.pathname;
+    if (subject === undefined) {
+      return undefined;
+    }
+
+    const params = matchPathPattern(rule.source, subject);
+    const conditions = params && matchConditions(rule.has, rule.missing, { ...request, query: state.query, host: state.host });
+    if (!params || !conditions) {
+      return undefined;
+    }
+    return fillPathPattern(rule.destination, { ...params, ...conditions });
+  }
+
+  /**
+   * Check whether the middleware runs for a request
+   */
+  private static matchMiddleware(
+    state: RequestState,
+    project: Pick<ProjectInfo, 'middleware'>,
+    request: SimulatedRequest
+  ): SimulationHop['middleware'] {
+    const middleware = project.middleware;
+    if (!middleware || middleware.unresolved?.some(entry => entry.path.startsWith('config'))) {
+      return undefined;
+    }
+    if (middleware.matchers.length === 0) {
+      return { matched: true };
+    }
+
+    const matcher = middleware.matchers.find(candidate => {
+      const subject = candidate.locale === false && state.locale
+        ? `/${state.locale}${state.pathname === '/' ? '' : state.pathname}`
+        : state.pathname ?? state.fullPathname;
+      return matchPathPattern(candidate.source, subject) !== null &&
+        matchConditions(candidate.has, candidate.missing, { ...request, query: state.query, host: state.host }) !== null;
+    });
+    return matcher ? { matched: true, matcher: matcher.source } : { matched: false };
+  }
+
+  /**
+   * Find the route or public file serving a pathname
+   */
+  private static findServed(pathname: string, routes: RouteInfo[], publicFiles: Set<string>): Served | undefined {
+    if (publicFiles.has(pathname)) {
+      return { publicFile: pathname };
+    }
+    for (const route of routes) {
+      const params = matchRoutePath(route.path, pathname);
+      if (params) {
+        return {
+          route: { path: route.path, router: route.router, filePath: route.filePath },
+          ...(Object.keys(params).length > 0 && { params })
+        };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check whether any URL a destination pattern produces is served; repeated
+   * parameters (`:path*`) are tried with up to three segments
+   */
+  private static isDestinationServed(destination: string, routes: RouteInfo[], publicFiles: Set<string>): boolean {
+    const pathname = destination.split(/[?#]/)[0];
+    return [0, 1, 2, 3].some(count => {
+      const sample = pathname
+        .replace(/\/:\w+(?:\([^)]*\))?\*/g, '/sample'.repeat(count))
+        .replace(/:\w+(?:\([^)]*\))?\+/g, Array(Math.max(count, 1)).fill('sample').join('/'))
+        .replace(/:\w+(?:\([^)]*\))?\??/g, 'sample');
+      return !!this.findServed(this.normalizePathname(sample || '/'), routes, publicFiles);
+    });
+  }
+
+  /**
+   * Split a URL into what the rules match against
+   */
+  private static parseRequest(
+    url: string,
+    project: Pick<ProjectInfo, 'config'>,
+    request: SimulatedRequest
+  ): RequestState {
+    const parsed = new URL(url, 'http://localhost');
+    const isAbsolute = /^[a-z][a-z\d+.-]*:\/\//i.test(url);
+    const fullPathname = this.normalizePathname(parsed.pathname);
+
+    const basePath = project.config?.basePath;
+    let pathname: string | undefined = fullPathname;
+    if (basePath) {
+      pathname = fullPathname === basePath || fullPathname.startsWith(`${basePath}/`)
+        ? fullPathname.slice(basePath.length) || '/'
+        : undefined;
+    }
+
+    const state: RequestState = {
+      fullPathname,
+      pathname,
+      query: Object.fromEntries(parsed.searchParams),
+      host: isAbsolute ? parsed.hostname : request.host
+    };
+
+    const [first] = (pathname || '').split('/').filter(Boolean);
+    if (pathname && first && project.config?.i18n?.locales.includes(first)) {
+      state.locale = first;
+      state.pathname = pathname.slice(first.length + 1) || '/';
+    }
+    return state;
+  }
+
+  /**
+   * Get the URL an internal redirect sends the browser to: `basePath` and
+   * the request locale are added back unless the rule opts out
+   */
+  private static toPublicUrl(
+    destination: string,
+    rule: Redirect | Rewrite,
+    state: RequestState,
+    project: Pick<ProjectInfo, 'config'>
+  ): string {
+    const basePath = rule.basePath === false ? '' : project.config?.basePath || '';
+    const prefix = `${basePath}${rule.locale !== false && state.locale ? `/${state.locale}` : ''}`;
+    return prefix && destination === '/' ? prefix : `${prefix}${destination}`;
+  }
+
+  /**
+   * Build the trace step of an applied rule
+   */
+  private static toStep(entry: RuleEntry, destination: string, statusCode?: number): SimulationStep {
+    return {
+      phase: entry.phase,
+      origin: entry.origin,
+      source: entry.rule.source,
+      destination,
+      ...(statusCode !== undefined && { statusCode })
+    };
+  }
+
+  /**
+   * Build a URL and request that match a rule's source and `has` conditions
+   */
+  private static getSample(rule: Redirect | Rewrite): { path: string; search: string; request: SimulatedRequest } | undefined {
+    let path: string | undefined;
+    for (const value of ['sample', '1']) {
+      const candidate = rule.source
+        .replace(/:(\w+)(\((?:[^()]|\([^()]*\))*\))?[*+?]?/g, value)
+        .replace(/\((?:[^()]|\([^()]*\))*\)[*+?]?/g, value);
+      if (matchPathPattern(rule.source, candidate) !== null) {
+        path = candidate;
+        break;
+      }
+    }
+    if (path === undefined) {
+      return undefined;
+    }
+
+    // Literal condition values are used as they are, patterns get a placeholder
+    const valueOf = (value: string | undefined, fallback: string) =>
+      value !== undefined && !/[\\^$.*+?()[\]{}|]/.test(value) ? value : fallback;
+    const request: SimulatedRequest = {};
+    const query = new URLSearchParams();
+
+    for (const condition of rule.has || []) {
+      const key = condition.key || '';
+      const value = valueOf(condition.value, 'sample');
+      if (condition.type === 'header') {
+        request.headers = { ...request.headers, [key]: value };
+      } else if (condition.type === 'cookie') {
+        request.cookies = { ...request.cookies, [key]: value };
+      } else if (condition.type === 'query') {
+        query.set(key, value);
+      } else {
+        request.host = valueOf(condition.value, 'example.com');
+      }
+    }
+
+    const search = query.toString();
+    return { path, search: search ? `?${search}` : '', request };
+  }
+
+  /**
+   * Identify a request for loop detection; the trailing slash is ignored
+   */
+  private static getRequestKey(url: string): string {
+    const parsed = new URL(url, 'http://localhost');
+    return `${parsed.host}${this.normalizePathname(parsed.pathname)}${parsed.search}`;
+  }
+
+  /**
+   * Remove the trailing slash of a pathname
+   */
+  private static normalizePathname(pathname: string): string {
+    return pathname.length > 1 ? pathname.replace(/\/+$/, '') || '/' : pathname || '/';
+  }
+
+  /**
+   * Check whether a destination stays in the app
+   */
+  private static isInternal(destination: string): boolean {
+    return destination.startsWith('/') && !destination.startsWith('//');
+  }
+}
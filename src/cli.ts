@@ -5,7 +5,15 @@ import chalk from "chalk";
 import path from "path";
 import fs from "fs";
 import { NextIntrospect } from "./NextIntrospect.js";
-import type { OutputFormat, OutputMode } from "./types.js";
+import { RouteDiff } from "./analyzers/RouteDiff.js";
+import { RouteDiffFormatter } from "./formatters/RouteDiffFormatter.js";
+import { getChangedFiles } from "./utils.js";
+import type {
+  IntrospectionResult,
+  OutputFormat,
+  OutputMode,
+  RouteDiffKind,
+} from "./types.js";
 
 /**
  * CLI Options interface for type safety
@@ -25,8 +33,10 @@ interface CLIOptions {
   includeDeps: boolean;
   nested: boolean;
   includeEmptySegments: boolean;
+  expandLocales: boolean;
   excludeFields?: string;
   metadata?: string;
+  moduleGraph: boolean;
   watch: boolean;
 }
 
@@ -142,11 +152,15 @@ async function runAnalysisOnce(
     includeEmptySegments?: boolean;
     excludeFields?: string[];
     stripPrefixes?: string[];
+    expandLocales?: boolean;
   } = {};
   if (options.nested) {
     outputFormat.nested = true;
     outputFormat.includeEmptySegments = options.includeEmptySegments || false;
   }
+  if (options.expandLocales) {
+    outputFormat.expandLocales = true;
+  }
 
   // Parse exclude fields
   if (options.excludeFields) {
@@ -188,6 +202,7 @@ async function runAnalysisOnce(
     packageDisplay,
     outputFormat,
     metadata,
+    moduleGraph: options.moduleGraph || false,
   });
 
   // Analyze project
@@ -449,6 +464,10 @@ program
     "--include-empty-segments",
     "Include empty path segments in nested structure (only works with --nested)",
   )
+  .option(
+    "--expand-locales",
+    "List Pages Router routes once per i18n locale (e.g. /about, /fr/about)",
+  )
   .option(
     "--exclude-fields <fields>",
     "Comma-separated list of fields to exclude from route objects (e.g., 'filePath,pattern,router')",
@@ -457,6 +476,10 @@ program
     "--metadata <file>",
     "Path to metadata file (JSON or TOML) with titles and descriptions for routes",
   )
+  .option(
+    "--module-graph",
+    "Include the module import graph of each route (detailed and comprehensive modes)",
+  )
   .option(
     "-w, --watch",
     "Watch mode: continuously monitor for file changes and re-run analysis",
@@ -681,6 +704,519 @@ program
     }
   });
 
+// Check command
+program
+  .command("check <projectPath>")
+  .description(
+    "Check a Next.js project for route conflicts that would fail next build",
+  )
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .option("--quiet", "Only print conflicts")
+  .action(async (projectPath: string, options: any) => {
+    try {
+      const validatedProjectPath = validateFilePath(projectPath, 'project path');
+      validateProjectDirectory(validatedProjectPath);
+
+      if (!["text", "json"].includes(options.format)) {
+        throw new Error(`Invalid format '${options.format}'. Valid formats: text, json`);
+      }
+
+      const introspect = new NextIntrospect(validatedProjectPath, {
+        mode: "basic",
+      });
+      await introspect.analyze();
+
+      const conflicts = introspect.getConflicts();
+      const warnings = introspect.getWarnings();
+
+      if (options.format === "json") {
+        console.log(JSON.stringify({ conflicts, warnings }, null, 2));
+      } else {
+        const relative = (filePath: string) =>
+          path.relative(validatedProjectPath, filePath) || filePath;
+
+        for (const conflict of conflicts) {
+          console.error(chalk.red(`✖ ${conflict.message}`));
+          console.error(chalk.gray(`    ${relative(conflict.files[0])}`));
+          console.error(chalk.gray(`    ${relative(conflict.files[1])}`));
+        }
+
+        if (!options.quiet) {
+          for (const warning of warnings) {
+            console.warn(chalk.yellow(`⚠ ${warning.message}`));
+          }
+        }
+
+        if (conflicts.length > 0) {
+          console.error(
+            chalk.red(`\n❌ Found ${conflicts.length} route conflict(s)`),
+          );
+        } else if (!options.quiet) {
+          console.log(chalk.green("✅ No route conflicts found"));
+        }
+      }
+
+      if (conflicts.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(chalk.red("❌ Error:"), errorMessage);
+      process.exit(1);
+    }
+  });
+
+// Diff command
+program
+  .command("diff <oldJson> <newJson>")
+  .description("Compare two introspection JSON files and report route changes")
+  .option("-f, --format <format>", "Output format (text, json, markdown)", "text")
+  .option("-o, --output <file>", "Write the diff to file instead of console")
+  .option(
+    "--fail-on <kinds>",
+    "Comma-separated changes that exit with code 1 (added, removed, renamed, changed, none)",
+    "added,removed,renamed,changed",
+  )
+  .action(async (oldJson: string, newJson: string, options: any) => {
+    try {
+      if (!["text", "json", "markdown"].includes(options.format)) {
+        throw new Error(
+          `Invalid format '${options.format}'. Valid formats: text, json, markdown`,
+        );
+      }
+
+      const validKinds = ["added", "removed", "renamed", "changed"];
+      const failOn = String(options.failOn)
+        .split(",")
+        .map((kind: string) => kind.trim())
+        .filter((kind: string) => kind.length > 0 && kind !== "none");
+      const invalidKind = failOn.find((kind: string) => !validKinds.includes(kind));
+      if (invalidKind) {
+        throw new Error(
+          `Invalid --fail-on value '${invalidKind}'. Valid values: ${validKinds.join(", ")}, none`,
+        );
+      }
+
+      if (options.output) {
+        options.output = validateOutputPath(options.output);
+      }
+
+      const readResult = (file: string, description: string): IntrospectionResult => {
+        const validatedFile = validateFilePath(file, description);
+        if (!fs.existsSync(validatedFile)) {
+          throw new Error(`${description} does not exist: ${validatedFile}`);
+        }
+        try {
+          return JSON.parse(fs.readFileSync(validatedFile, "utf-8"));
+        } catch {
+          throw new Error(`${description} is not valid JSON: ${validatedFile}`);
+        }
+      };
+
+      const diff = RouteDiff.diff(
+        readResult(oldJson, "Old JSON file"),
+        readResult(newJson, "New JSON file"),
+      );
+
+      const formatter = new RouteDiffFormatter();
+      const output =
+        options.format === "json"
+          ? JSON.stringify(diff, null, 2)
+          : options.format === "markdown"
+            ? formatter.formatMarkdown(diff)
+            : formatter.formatText(diff);
+
+      if (options.output) {
+        fs.writeFileSync(options.output, output, "utf-8");
+        console.error(chalk.green(`✅ Route diff written to: ${options.output}`));
+      } else {
+        console.log(output);
+      }
+
+      if (failOn.length > 0 && RouteDiff.hasChanges(diff, failOn as RouteDiffKind[])) {
+        process.exit(1);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(chalk.red("❌ Error:"), errorMessage);
+      process.exit(2);
+    }
+  });
+
+// Affected command
+program
+  .command("affected <projectPath> [files...]")
+  .description(
+    "List the routes whose entry files, layouts or imports include changed files (relative to the project path)",
+  )
+  .option("--since <ref>", "Use the files changed since a git ref (e.g. origin/main)")
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .action(async (projectPath: string, files: string[], options: any) => {
+    try {
+      const validatedProjectPath = validateFilePath(projectPath, 'project path');
+      validateProjectDirectory(validatedProjectPath);
+
+      if (!["text", "json"].includes(options.format)) {
+        throw new Error(`Invalid format '${options.format}'. Valid formats: text, json`);
+      }
+      if (files.length === 0 && !options.since) {
+        throw new Error("Pass changed files or --since <ref>");
+      }
+
+      // Changed files are relative to the project, as in getAffectedRoutes()
+      const changedFiles = [
+        ...files.map((file) => path.resolve(validatedProjectPath, file)),
+        ...(options.since
+          ? await getChangedFiles(validatedProjectPath, options.since)
+          : []),
+      ];
+
+      const introspect = new NextIntrospect(validatedProjectPath, {
+        mode: "detailed",
+      });
+      await introspect.analyze();
+
+      const routes = introspect.getAffectedRoutes(changedFiles);
+
+      if (options.format === "json") {
+        console.log(JSON.stringify({ changedFiles, routes }, null, 2));
+      } else {
+        for (const route of routes) {
+          console.log(route.url ?? route.path);
+        }
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(chalk.red("❌ Error:"), errorMessage);
+      process.exit(1);
+    }
+  });
+
+// Links command
+program
+  .command("links <projectPath>")
+  .description(
+    "Check internal links, router navigation and redirects against the routes",
+  )
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .option("--quiet", "Only print broken links")
+  .action(async (projectPath: string, options: any) => {
+    try {
+      const validatedProjectPath = validateFilePath(projectPath, 'project path');
+      validateProjectDirectory(validatedProjectPath);
+
+      if (!["text", "json"].includes(options.format)) {
+        throw new Error(`Invalid format '${options.format}'. Valid formats: text, json`);
+      }
+
+      const introspect = new NextIntrospect(validatedProjectPath, {
+        mode: "detailed",
+      });
+      await introspect.analyze();
+
+      const { links, broken } = await introspect.validateLinks();
+
+      if (options.format === "json") {
+        console.log(JSON.stringify({ links, broken }, null, 2));
+      } else {
+        const relative = (filePath: string) =>
+          path.relative(validatedProjectPath, filePath) || filePath;
+
+        for (const link of broken) {
+          console.error(
+            chalk.red(`✖ ${relative(link.filePath)}:${link.line}`) +
+              ` ${link.href} ` +
+              chalk.gray(`(${link.kind}: ${link.reason})`),
+          );
+        }
+
+        if (broken.length > 0) {
+          console.error(
+            chalk.red(`\n❌ Found ${broken.length} broken link(s) out of ${links.length}`),
+          );
+        } else if (!options.quiet) {
+          console.log(chalk.green(`✅ All ${links.length} internal link(s) resolve`));
+        }
+      }
+
+      if (broken.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(chalk.red("❌ Error:"), errorMessage);
+      process.exit(1);
+    }
+  });
+
+// Orphans command
+program
+  .command("orphans <projectPath>")
+  .description(
+    "Report page routes no link, navigation config, sitemap or redirect points to",
+  )
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .option(
+    "--metadata <file>",
+    "Metadata file (JSON or TOML); routes with allowOrphan: true are not reported",
+  )
+  .option("--quiet", "Only print orphan routes")
+  .action(async (projectPath: string, options: any) => {
+    try {
+      const validatedProjectPath = validateFilePath(projectPath, 'project path');
+      validateProjectDirectory(validatedProjectPath);
+
+      if (!["text", "json"].includes(options.format)) {
+        throw new Error(`Invalid format '${options.format}'. Valid formats: text, json`);
+      }
+
+      const introspect = new NextIntrospect(validatedProjectPath, {
+        mode: "detailed",
+        ...(options.metadata && {
+          metadata: { file: validateFilePath(options.metadata, 'metadata file') },
+        }),
+      });
+      await introspect.analyze();
+
+      const { references, orphans, allowed } = await introspect.findOrphanRoutes();
+
+      if (options.format === "json") {
+        console.log(JSON.stringify({ orphans, allowed }, null, 2));
+      } else {
+        const relative = (filePath: string) =>
+          path.relative(validatedProjectPath, filePath) || filePath;
+
+        for (const route of orphans) {
+          console.error(
+            chalk.yellow(`○ ${route.path}`) + chalk.gray(` (${relative(route.filePath)})`),
+          );
+        }
+
+        if (!options.quiet && allowed.length > 0) {
+          console.log(chalk.gray(`Allowlisted: ${allowed.map((route) => route.path).join(", ")}`));
+        }
+
+        if (orphans.length > 0) {
+          console.error(
+            chalk.red(`\n❌ Found ${orphans.length} orphan route(s)`),
+          );
+        } else if (!options.quiet) {
+          console.log(
+            chalk.green(`✅ Every page route is referenced (${references.length} reference(s) found)`),
+          );
+        }
+      }
+
+      if (orphans.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(chalk.red("❌ Error:"), errorMessage);
+      process.exit(1);
+    }
+  });
+
+// Match command
+program
+  .command("match <projectPath> <url>")
+  .description(
+    "Find the route file serving a URL, with its params and layouts",
+  )
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .action(async (projectPath: string, url: string, options: any) => {
+    try {
+      const validatedProjectPath = validateFilePath(projectPath, 'project path');
+      validateProjectDirectory(validatedProjectPath);
+
+      if (!["text", "json"].includes(options.format)) {
+        throw new Error(`Invalid format '${options.format}'. Valid formats: text, json`);
+      }
+
+      const introspect = new NextIntrospect(validatedProjectPath, { mode: "detailed" });
+      await introspect.analyze();
+
+      const match = await introspect.match(url);
+
+      if (options.format === "json") {
+        console.log(JSON.stringify(match, null, 2));
+      } else {
+        const relative = (filePath: string) =>
+          path.relative(validatedProjectPath, filePath) || filePath;
+
+        for (const rule of match.rules) {
+          const kind = rule.phase === "redirect" ? `redirect ${rule.statusCode}` : `rewrite (${rule.phase})`;
+          console.log(chalk.gray(`↪ ${kind}: ${rule.source} → ${rule.destination}`));
+        }
+
+        if (match.external) {
+          console.log(chalk.cyan(`→ External: ${match.external}`));
+        } else if (match.publicFile) {
+          console.log(chalk.green(`✅ public${match.publicFile}`) + chalk.gray(" (public file)"));
+        } else if (match.route) {
+          console.log(chalk.green(`✅ ${match.route.path}`) + chalk.gray(` (${match.route.router} router)`));
+          console.log(`File: ${relative(match.route.filePath)}`);
+          if (match.locale) {
+            console.log(`Locale: ${match.locale}`);
+          }
+          if (Object.keys(match.params).length > 0) {
+            console.log(`Params: ${JSON.stringify(match.params)}`);
+          }
+          if (match.layouts.length > 0) {
+            console.log("Layouts:");
+            for (const layout of match.layouts) {
+              console.log(`  ${relative(layout)}`);
+            }
+          }
+        } else {
+          console.error(chalk.red(`❌ No route matches ${match.pathname}`));
+        }
+      }
+
+      if (!match.route && !match.external && !match.publicFile) {
+        process.exit(1);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(chalk.red("❌ Error:"), errorMessage);
+      process.exit(1);
+    }
+  });
+
+// Simulate command
+program
+  .command("simulate <projectPath> [url]")
+  .description(
+    "Trace a URL through redirects, rewrites and middleware, or check every rule when no URL is given",
+  )
+  .option("-f, --format <format>", "Output format (text, json)", "text")
+  .option("-H, --header <header...>", "Request header for has/missing conditions (name: value)")
+  .option("--cookie <cookie...>", "Request cookie for has/missing conditions (name=value)")
+  .option("--host <host>", "Request host for has/missing conditions")
+  .option("--max-hops <number>", "Redirects to follow before giving up", "10")
+  .option("--max-chain <number>", "Redirects allowed before a chain is reported", "1")
+  .action(async (projectPath: string, url: string | undefined, options: any) => {
+    try {
+      const validatedProjectPath = validateFilePath(projectPath, 'project path');
+      validateProjectDirectory(validatedProjectPath);
+
+      if (!["text", "json"].includes(options.format)) {
+        throw new Error(`Invalid format '${options.format}'. Valid formats: text, json`);
+      }
+      const maxHops = Number.parseInt(options.maxHops, 10);
+      const maxChain = Number.parseInt(options.maxChain, 10);
+      if (!(maxHops > 0) || !(maxChain >= 0)) {
+        throw new Error("--max-hops must be a positive number and --max-chain a non-negative number");
+      }
+
+      const introspect = new NextIntrospect(validatedProjectPath, { mode: "basic" });
+      await introspect.analyze();
+
+      if (!url) {
+        const { rules, issues } = await introspect.analyzeRules({ maxChain });
+
+        if (options.format === "json") {
+          console.log(JSON.stringify({ rules, issues }, null, 2));
+        } else {
+          for (const issue of issues) {
+            console.error(
+              chalk.yellow(`⚠️  [${issue.type}] ${issue.source} → ${issue.destination}`) +
+                chalk.gray(` (${issue.origin}, ${issue.phase})`),
+            );
+            console.error(chalk.gray(`   ${issue.message}`));
+          }
+          if (issues.length > 0) {
+            console.error(chalk.red(`\n❌ Found ${issues.length} issue(s) in ${rules} rule(s)`));
+          } else {
+            console.log(chalk.green(`✅ No loops, long chains or unmatched destinations in ${rules} rule(s)`));
+          }
+        }
+
+        if (issues.length > 0) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      const headers: Record<string, string> = {};
+      for (const header of options.header || []) {
+        const separator = header.indexOf(":");
+        if (separator <= 0) {
+          throw new Error(`Invalid header '${header}'. Expected name: value`);
+        }
+        headers[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+      }
+      const cookies: Record<string, string> = {};
+      for (const cookie of options.cookie || []) {
+        const separator = cookie.indexOf("=");
+        if (separator <= 0) {
+          throw new Error(`Invalid cookie '${cookie}'. Expected name=value`);
+        }
+        cookies[cookie.slice(0, separator).trim()] = cookie.slice(separator + 1).trim();
+      }
+
+      const simulation = await introspect.simulateRequest(url, {
+        maxHops,
+        request: { headers, cookies, ...(options.host && { host: options.host }) },
+      });
+
+      if (options.format === "json") {
+        console.log(JSON.stringify(simulation, null, 2));
+      } else {
+        const relative = (filePath: string) =>
+          path.relative(validatedProjectPath, filePath) || filePath;
+
+        simulation.hops.forEach((hop, index) => {
+          console.log(chalk.bold(`Hop ${index + 1}: ${hop.url}`));
+          if (hop.middleware) {
+            console.log(
+              chalk.gray(
+                hop.middleware.matched
+                  ? `  middleware runs${hop.middleware.matcher ? ` (matcher ${hop.middleware.matcher})` : ""}`
+                  : "  middleware skipped",
+              ),
+            );
+          }
+          for (const step of hop.steps) {
+            const kind = step.phase === "redirect" ? `redirect ${step.statusCode}` : `rewrite (${step.phase})`;
+            console.log(chalk.gray(`  ↪ ${kind}, ${step.origin}: ${step.source} → ${step.destination}`));
+          }
+          if (hop.route) {
+            const params = hop.params ? ` ${JSON.stringify(hop.params)}` : "";
+            console.log(chalk.green(`  ✅ ${hop.route.path}`) + chalk.gray(` (${relative(hop.route.filePath)})${params}`));
+          } else if (hop.publicFile) {
+            console.log(chalk.green(`  ✅ public${hop.publicFile}`));
+          } else if (hop.outcome === "external") {
+            console.log(chalk.cyan(`  → External: ${hop.location}`));
+          } else if (hop.outcome === "not-found") {
+            console.log(chalk.red(`  ❌ No route matches ${hop.pathname}`));
+          }
+        });
+
+        if (simulation.outcome === "loop") {
+          console.error(chalk.red("\n❌ Redirect loop"));
+        } else if (simulation.outcome === "too-many-hops") {
+          console.error(chalk.red(`\n❌ Still redirecting after ${maxHops} hop(s)`));
+        }
+      }
+
+      if (["loop", "too-many-hops", "not-found"].includes(simulation.outcome)) {
+        process.exit(1);
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(chalk.red("❌ Error:"), errorMessage);
+      process.exit(1);
+    }
+  });
+
 // Add examples to help
 program.addHelpText(
   "after",
@@ -694,6 +1230,7 @@ Examples:
   $ next-introspect introspect /path/to/nextjs/project --path-style strip-prefix --strip-prefix "/../../apps/app/src/"
   $ next-introspect introspect /path/to/nextjs/project --package-summary
   $ next-introspect introspect /path/to/nextjs/project --nested --format json
+  $ next-introspect introspect /path/to/nextjs/project --expand-locales --format markdown
   $ next-introspect introspect /path/to/nextjs/project --exclude-fields "filePath,pattern,router" --format json
   $ next-introspect introspect /path/to/nextjs/project --metadata metadata.json --format markdown
   $ next-introspect introspect /path/to/nextjs/project --format json --indent 4 --quiet
@@ -702,9 +1239,38 @@ Examples:
   $ next-introspect merge routes.json metadata.json --exclude-fields "filePath" --output clean.json
   $ next-introspect merge routes.json metadata.json --format markdown --output merged.md
 
+  $ next-introspect check /path/to/nextjs/project
+  $ next-introspect check /path/to/nextjs/project --format json
+
+  $ next-introspect diff main.json branch.json
+  $ next-introspect diff main.json branch.json --format markdown --output ROUTE_CHANGES.md
+  $ next-introspect diff main.json branch.json --fail-on removed,renamed
+
+  $ next-introspect affected /path/to/nextjs/project src/lib/db.ts src/components/Header.tsx
+  $ next-introspect affected /path/to/nextjs/project --since origin/main --format json
+
+  $ next-introspect links /path/to/nextjs/project
+  $ next-introspect links /path/to/nextjs/project --format json
+
+  $ next-introspect orphans /path/to/nextjs/project
+  $ next-introspect orphans /path/to/nextjs/project --metadata metadata.json --format json
+
+  $ next-introspect match /path/to/nextjs/project "/blog/2024/hello?x=1"
+  $ next-introspect match /path/to/nextjs/project /fr/docs/intro --format json
+
+  $ next-introspect simulate /path/to/nextjs/project /old-blog/hello -H "x-beta: 1" --format json
+  $ next-introspect simulate /path/to/nextjs/project --max-chain 2
+
 Commands:
   introspect <projectPath>    Analyze a Next.js project
   merge <jsonFile> <metadataFile>    Merge existing JSON with metadata
+  check <projectPath>         Report route conflicts (exits 1 when found)
+  diff <oldJson> <newJson>    Compare two JSON results (exits 1 on changes)
+  affected <projectPath> [files...]    List routes affected by changed files
+  links <projectPath>         Report broken internal links (exits 1 when found)
+  orphans <projectPath>       Report unreferenced page routes (exits 1 when found)
+  match <projectPath> <url>   Find the route serving a URL (exits 1 when none)
+  simulate <projectPath> [url]    Trace a URL through redirects and rewrites, or check all rules (exits 1 on loops and issues)
 
 Output Formats:
   object     Raw JavaScript object (default)
@@ -731,6 +1297,7 @@ Package Display Options:
 Output Format Options:
   --nested                    Output routes in nested hierarchical structure
   --include-empty-segments    Include empty path segments in nested structure
+  --expand-locales            List Pages Router routes once per i18n locale
   --exclude-fields <fields>   Exclude specified fields from route objects
 
 Metadata Options:
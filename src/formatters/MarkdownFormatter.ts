@@ -2,8 +2,26 @@ import type {
   Formatter,
   IntrospectionResult,
   OutputFormat,
+  ParallelSlot,
+  RenderingStrategy,
+  RouteBoundary,
+  RouteClientBundle,
+  RouteDynamicApiUsage,
   RouteInfo,
+  ServerAction,
 } from "../types.js";
+import { getRelativePath, SEGMENT_CONFIG_KEYS } from "../utils.js";
+
+/**
+ * Display names of rendering strategies
+ */
+const RENDERING_LABELS: Record<RenderingStrategy, string> = {
+  static: "Static",
+  isr: "ISR",
+  dynamic: "Dynamic",
+  edge: "Edge",
+  ppr: "Partial Prerendering",
+};
 
 /**
  * Markdown Formatter - Generates documentation in Markdown format
@@ -70,13 +88,16 @@ export class MarkdownFormatter implements Formatter {
     lines.push(`- **Pages Router Routes**: ${routeStats.pagesRouter}`);
     lines.push(`- **API Routes**: ${routeStats.apiRoutes}`);
     lines.push(`- **Dynamic Routes**: ${routeStats.dynamicRoutes}`);
+    if (routeStats.metadataRoutes > 0) {
+      lines.push(`- **Metadata Routes**: ${routeStats.metadataRoutes}`);
+    }
     lines.push("");
 
     // App Router Routes
     if (routeStats.appRouter > 0) {
       lines.push("## App Router Routes");
       lines.push("");
-      this.addAppRouterRoutes(lines, routesArray);
+      this.addAppRouterRoutes(lines, routesArray, result.project.rootDir);
       lines.push("");
     }
 
@@ -96,6 +117,54 @@ export class MarkdownFormatter implements Formatter {
       lines.push("");
     }
 
+    // Parallel routes
+    if (result.parallelSlots?.length) {
+      lines.push("## Parallel Routes");
+      lines.push("");
+      this.addParallelSlots(lines, result.parallelSlots);
+    }
+
+    // Intercepting routes
+    if (result.interceptingRoutes?.length) {
+      lines.push("## Intercepting Routes");
+      lines.push("");
+      for (const route of result.interceptingRoutes) {
+        const slot = route.slot ? ` in \`@${route.slot}\`` : "";
+        const target = route.interceptedFilePath ? "" : " (no matching page)";
+        lines.push(
+          `- \`${route.path}\`${target} intercepted from \`${route.fromPath}\` via \`${route.marker}\`${slot}`,
+        );
+      }
+      lines.push("");
+    }
+
+    // Server Actions
+    if (result.serverActions?.length) {
+      lines.push("## Server Actions");
+      lines.push("");
+      this.addServerActions(lines, result.serverActions, result.project.rootDir);
+    }
+
+    // Client bundles
+    const clientBundles = (result.clientBundles || []).filter(
+      (bundle) => bundle.clientModules.length > 0,
+    );
+    if (clientBundles.length) {
+      lines.push("## Client Bundles");
+      lines.push("");
+      this.addClientBundles(lines, clientBundles, result.project.rootDir);
+    }
+
+    // Warnings
+    if (result.warnings?.length) {
+      lines.push("## Warnings");
+      lines.push("");
+      for (const warning of result.warnings) {
+        lines.push(`- ${warning.message}`);
+      }
+      lines.push("");
+    }
+
     return lines.join("\n");
   }
 
@@ -129,6 +198,9 @@ export class MarkdownFormatter implements Formatter {
     if (config.basePath) {
       lines.push(`- **Base Path**: \`${config.basePath}\``);
     }
+    if (config.assetPrefix) {
+      lines.push(`- **Asset Prefix**: \`${config.assetPrefix}\``);
+    }
     if (config.distDir) {
       lines.push(`- **Distribution Directory**: \`${config.distDir}\``);
     }
@@ -137,6 +209,14 @@ export class MarkdownFormatter implements Formatter {
         `- **Trailing Slash**: ${config.trailingSlash ? "Enabled" : "Disabled"}`,
       );
     }
+    if (config.i18n?.locales?.length) {
+      const locales = config.i18n.locales
+        .map((locale: string) =>
+          locale === config.i18n.defaultLocale ? `\`${locale}\` (default)` : `\`${locale}\``,
+        )
+        .join(", ");
+      lines.push(`- **Locales**: ${locales}`);
+    }
     if (config.images?.domains?.length) {
       lines.push(
         `- **Image Domains**: ${config.images.domains.map((d: string) => `\`${d}\``).join(", ")}`,
@@ -158,15 +238,23 @@ export class MarkdownFormatter implements Formatter {
     pagesRouter: number;
     apiRoutes: number;
     dynamicRoutes: number;
+    metadataRoutes: number;
   } {
     let appRouter = 0;
     let pagesRouter = 0;
     let apiRoutes = 0;
     let dynamicRoutes = 0;
+    let metadataRoutes = 0;
 
     for (const route of routes) {
       if (route.router === "app") {
         appRouter++;
+        if (route.appRouter?.specialFiles?.route) {
+          apiRoutes++;
+        }
+        if (route.appRouter?.metadataRoute) {
+          metadataRoutes++;
+        }
       } else if (route.router === "pages") {
         pagesRouter++;
         if (route.pagesRouter?.isApiRoute) {
@@ -179,13 +267,13 @@ export class MarkdownFormatter implements Formatter {
       }
     }
 
-    return { appRouter, pagesRouter, apiRoutes, dynamicRoutes };
+    return { appRouter, pagesRouter, apiRoutes, dynamicRoutes, metadataRoutes };
   }
 
   /**
    * Add App Router routes section
    */
-  private addAppRouterRoutes(lines: string[], routes: RouteInfo[]): void {
+  private addAppRouterRoutes(lines: string[], routes: RouteInfo[], rootDir: string): void {
     const appRoutes = routes.filter((r) => r.router === "app");
 
     for (const route of appRoutes) {
@@ -201,7 +289,21 @@ export class MarkdownFormatter implements Formatter {
       if (route.catchAllSegment) {
         lines.push(`- **Catch-all Segment**: \`${route.catchAllSegment}\``);
       }
+      this.addUrlLine(lines, route);
       lines.push(`- **Pattern**: ${this.formatRoutePattern(route.pattern)}`);
+      this.addMiddlewareLine(lines, route);
+      this.addRenderingLine(lines, route);
+      this.addPrerenderedLine(lines, route);
+
+      const metadataRoute = route.appRouter?.metadataRoute;
+      if (metadataRoute) {
+        const details = [
+          metadataRoute.source,
+          ...(metadataRoute.generateSitemaps ? ["`generateSitemaps`"] : []),
+          ...(metadataRoute.generateImageMetadata ? ["`generateImageMetadata`"] : []),
+        ];
+        lines.push(`- **Metadata Route**: \`${metadataRoute.type}\` (${details.join(", ")})`);
+      }
 
       // Special files
       if (route.appRouter?.specialFiles) {
@@ -214,6 +316,20 @@ export class MarkdownFormatter implements Formatter {
         }
       }
 
+      if (route.appRouter?.httpMethods?.length) {
+        lines.push(
+          `- **HTTP Methods**: ${route.appRouter.httpMethods.map((m) => `\`${m}\``).join(", ")}`,
+        );
+      }
+
+      if (route.appRouter?.boundaries?.length) {
+        this.addBoundaryLines(lines, route.appRouter.boundaries);
+      }
+
+      if (route.appRouter?.dynamicApis?.length) {
+        this.addDynamicApiLine(lines, route.appRouter.dynamicApis, rootDir);
+      }
+
       // Route group/intercepting/parallel
       if (route.appRouter?.isRouteGroup) {
         lines.push("- **Route Group**: Yes");
@@ -238,12 +354,20 @@ export class MarkdownFormatter implements Formatter {
 
       if (route.appRouter?.exports) {
         const exports = Object.entries(route.appRouter.exports)
-          .filter(([_, present]) => present)
+          .filter(([exp, present]) => !SEGMENT_CONFIG_KEYS.includes(exp) && present)
           .map(([exp, _]) => `\`${exp}\``);
 
         if (exports.length > 0) {
           lines.push(`- **Exports**: ${exports.join(", ")}`);
         }
+
+        const segmentConfig = Object.entries(route.appRouter.exports)
+          .filter(([option, value]) => SEGMENT_CONFIG_KEYS.includes(option) && value !== undefined)
+          .map(([option, value]) => `\`${option}: ${Array.isArray(value) ? value.join(", ") : value}\``);
+
+        if (segmentConfig.length > 0) {
+          lines.push(`- **Segment Config**: ${segmentConfig.join(", ")}`);
+        }
       }
 
       // Metadata
@@ -269,6 +393,209 @@ export class MarkdownFormatter implements Formatter {
     }
   }
 
+  /**
+   * Add parallel slots section
+   */
+  private addParallelSlots(lines: string[], slots: ParallelSlot[]): void {
+    for (const slot of slots) {
+      lines.push(`### \`@${slot.name}\``);
+      lines.push("");
+      lines.push(`- **Layout**: \`${slot.layoutSegmentPath}\``);
+      lines.push(`- **Default**: ${slot.hasDefault ? "Yes" : "Missing"}`);
+      if (slot.routes.length > 0) {
+        lines.push(
+          `- **Routes**: ${slot.routes.map((r) => `\`${r}\``).join(", ")}`,
+        );
+      }
+      lines.push("");
+    }
+  }
+
+  /**
+   * Add Server Actions with the files and routes importing them
+   */
+  private addServerActions(lines: string[], actions: ServerAction[], rootDir: string): void {
+    const relative = (filePath: string) =>
+      rootDir && filePath.startsWith(rootDir) ? getRelativePath(rootDir, filePath) : filePath;
+
+    for (const action of actions) {
+      lines.push(`### \`${action.name}\``);
+      lines.push("");
+      lines.push(
+        `- **Defined In**: \`${relative(action.filePath)}:${action.line}\` (${action.scope === "module" ? "'use server' module" : "inline"})`,
+      );
+      if (action.importedBy.length > 0) {
+        lines.push(
+          `- **Imported By**: ${action.importedBy.map((f) => `\`${relative(f)}\``).join(", ")}`,
+        );
+      }
+      lines.push(
+        `- **Routes**: ${action.routes.length > 0 ? action.routes.map((r) => `\`${r}\``).join(", ") : "None"}`,
+      );
+      lines.push("");
+    }
+  }
+
+  /**
+   * Add the client modules, boundaries and issues of each page
+   */
+  private addClientBundles(lines: string[], bundles: RouteClientBundle[], rootDir: string): void {
+    const relative = (filePath: string) =>
+      rootDir && filePath.startsWith(rootDir) ? getRelativePath(rootDir, filePath) : filePath;
+    const size = (bytes: number) =>
+      bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+    for (const bundle of bundles) {
+      lines.push(`### \`${bundle.path}\``);
+      lines.push("");
+      lines.push(
+        `- **Client Modules**: ${bundle.clientModules.length} (${size(bundle.clientSize)})`,
+      );
+
+      const boundaries = bundle.boundaries.map((boundary) =>
+        boundary.importedBy.length > 0
+          ? `\`${relative(boundary.filePath)}\` (from ${boundary.importedBy.map((f) => `\`${relative(f)}\``).join(", ")})`
+          : `\`${relative(boundary.filePath)}\``,
+      );
+      lines.push(`- **Client Boundaries**: ${boundaries.join(", ")}`);
+
+      if (bundle.clientPackages.length > 0) {
+        lines.push(
+          `- **Client Packages**: ${bundle.clientPackages.map((p) => `\`${p}\``).join(", ")}`,
+        );
+      }
+      if (bundle.issues.length > 0) {
+        lines.push("- **Issues**:");
+        for (const issue of bundle.issues) {
+          lines.push(`  - \`${relative(issue.filePath)}:${issue.line}\`: ${issue.message}`);
+        }
+      }
+      lines.push("");
+    }
+  }
+
+  /**
+   * Add the layout chain and the boundaries that apply to a route
+   */
+  private addBoundaryLines(lines: string[], boundaries: RouteBoundary[]): void {
+    const layouts = boundaries
+      .filter((b) => b.type === "layout")
+      .map((b) => `\`${b.segmentPath}\``);
+    if (layouts.length > 0) {
+      lines.push(`- **Layouts**: ${layouts.join(" → ")}`);
+    }
+
+    // The innermost boundary of each type is the one that applies
+    const applied = new Map<string, string>();
+    for (const boundary of boundaries) {
+      if (boundary.type !== "layout") {
+        applied.set(boundary.type, boundary.segmentPath);
+      }
+    }
+    if (applied.size > 0) {
+      const entries = [...applied].map(
+        ([type, segmentPath]) => `${type}: \`${segmentPath}\``,
+      );
+      lines.push(`- **Boundaries**: ${entries.join(", ")}`);
+    }
+  }
+
+  /**
+   * Add the dynamic APIs a route uses and where
+   */
+  private addDynamicApiLine(lines: string[], usages: RouteDynamicApiUsage[], rootDir: string): void {
+    const relative = (filePath: string) =>
+      rootDir && filePath.startsWith(rootDir) ? getRelativePath(rootDir, filePath) : filePath;
+    const entries = usages.map((usage) => {
+      const via = usage.via ? ` via \`${relative(usage.via[0])}\`` : "";
+      return `\`${usage.api}\` (\`${relative(usage.filePath)}:${usage.line}\`${via})`;
+    });
+    lines.push(`- **Dynamic APIs**: ${entries.join(", ")}`);
+  }
+
+  /**
+   * Add the rendering strategy line for a route
+   */
+  private addRenderingLine(lines: string[], route: RouteInfo): void {
+    if (!route.rendering) {
+      return;
+    }
+
+    const { strategy, revalidate, reasons } = route.rendering;
+    const label = RENDERING_LABELS[strategy] + (revalidate !== undefined ? ` (${revalidate}s)` : "");
+    const details = reasons.length > 0 ? ` — ${reasons.join("; ")}` : "";
+    lines.push(`- **Rendering**: ${label}${details}`);
+  }
+
+  /**
+   * Add the prerendered URLs of a dynamic route
+   */
+  private addPrerenderedLine(lines: string[], route: RouteInfo): void {
+    const prerendered = route.prerendered;
+    if (!prerendered) {
+      return;
+    }
+
+    if (prerendered.status === "resolved") {
+      const urls = prerendered.urls.map((url) => `\`${url}\``).join(", ");
+      lines.push(`- **Prerendered URLs**: ${urls || "none"}`);
+      return;
+    }
+
+    const [first] = prerendered.unresolved || [];
+    const location = first?.line
+      ? `${prerendered.unresolvedFile}:${first.line}`
+      : prerendered.unresolvedFile;
+    const reason = first ? `: ${first.reason}` : "";
+    lines.push(
+      `- **Prerendered URLs**: unresolved (\`${prerendered.source}\` in \`${location}\`${reason})`,
+    );
+  }
+
+  /**
+   * Add the public URL of a route when basePath or trailingSlash changes it
+   */
+  private addUrlLine(lines: string[], route: RouteInfo): void {
+    if (route.url && route.url !== route.path) {
+      lines.push(`- **URL**: \`${route.url}\``);
+    }
+  }
+
+  /**
+   * Add the locale of an expanded route, or the locale variants of a page
+   */
+  private addLocaleLine(lines: string[], route: RouteInfo): void {
+    const onDomain = (domain?: string) => (domain ? ` on ${domain}` : "");
+
+    if (route.locale) {
+      lines.push(`- **Locale**: \`${route.locale}\`${onDomain(route.domain)}`);
+      return;
+    }
+
+    const variants = route.pagesRouter?.locales;
+    if (variants?.length) {
+      const list = variants
+        .map((variant) => `${variant.locale} (\`${variant.path}\`${onDomain(variant.domain)})`)
+        .join(", ");
+      lines.push(`- **Locales**: ${list}`);
+    }
+  }
+
+  /**
+   * Add the middleware coverage line for a route
+   */
+  private addMiddlewareLine(lines: string[], route: RouteInfo): void {
+    if (!route.middleware?.matched) {
+      return;
+    }
+    const matcher = route.middleware.matcher
+      ? `\`${route.middleware.matcher}\``
+      : "all paths";
+    const conditional = route.middleware.conditional ? " (conditional)" : "";
+    const partial = route.middleware.partial ? " (some params)" : "";
+    lines.push(`- **Middleware**: ${matcher}${conditional}${partial}`);
+  }
+
   /**
    * Add Pages Router routes section
    */
@@ -292,7 +619,12 @@ export class MarkdownFormatter implements Formatter {
       if (route.catchAllSegment) {
         lines.push(`- **Catch-all Segment**: \`${route.catchAllSegment}\``);
       }
+      this.addUrlLine(lines, route);
       lines.push(`- **Pattern**: ${this.formatRoutePattern(route.pattern)}`);
+      this.addLocaleLine(lines, route);
+      this.addMiddlewareLine(lines, route);
+      this.addRenderingLine(lines, route);
+      this.addPrerenderedLine(lines, route);
 
       if (
         route.pagesRouter?.componentType &&
@@ -338,7 +670,9 @@ export class MarkdownFormatter implements Formatter {
    * Add API routes section
    */
   private addApiRoutes(lines: string[], routes: RouteInfo[]): void {
-    const apiRoutes = routes.filter((r) => r.pagesRouter?.isApiRoute);
+    const apiRoutes = routes.filter(
+      (r) => r.pagesRouter?.isApiRoute || r.appRouter?.specialFiles?.route,
+    );
 
     for (const route of apiRoutes) {
       lines.push(`### \`${route.path}\``);
@@ -349,7 +683,20 @@ export class MarkdownFormatter implements Formatter {
           `- **Dynamic Segments**: ${route.dynamicSegments.map((s) => `\`${s}\``).join(", ")}`,
         );
       }
+      this.addUrlLine(lines, route);
       lines.push(`- **Pattern**: ${this.formatRoutePattern(route.pattern)}`);
+      this.addMiddlewareLine(lines, route);
+      this.addRenderingLine(lines, route);
+      this.addPrerenderedLine(lines, route);
+
+      if (route.appRouter) {
+        lines.push("- **Handler**: App Router route handler");
+        if (route.appRouter.httpMethods?.length) {
+          lines.push(
+            `- **HTTP Methods**: ${route.appRouter.httpMethods.map((m) => `\`${m}\``).join(", ")}`,
+          );
+        }
+      }
 
       if (
         route.pagesRouter?.componentType &&
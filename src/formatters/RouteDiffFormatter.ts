@@ -0,0 +1,172 @@
+import type {
+  RouteChange,
+  RouteDiffEntry,
+  RouteDiffResult,
+  RouteFieldChange,
+} from "../types.js";
+
+/**
+ * Route Diff Formatter - Renders route diffs as plain text or Markdown
+ */
+export class RouteDiffFormatter {
+  /**
+   * Format a route diff as plain text
+   */
+  formatText(diff: RouteDiffResult): string {
+    if (this.isEmpty(diff)) {
+      return "No route changes";
+    }
+
+    const lines: string[] = [`Route changes: ${this.summarize(diff)}`];
+
+    if (diff.added.length > 0) {
+      lines.push("", "Added:");
+      for (const route of diff.added) {
+        lines.push(`  + ${route.path} (${route.router}, ${route.filePath})`);
+      }
+    }
+
+    if (diff.removed.length > 0) {
+      lines.push("", "Removed:");
+      for (const route of diff.removed) {
+        lines.push(`  - ${route.path} (${route.router}, ${route.filePath})`);
+      }
+    }
+
+    if (diff.renamed.length > 0) {
+      lines.push("", "Renamed:");
+      for (const { from, to } of diff.renamed) {
+        lines.push(`  ~ ${from.path} → ${to.path} (${to.router}, ${to.filePath})`);
+      }
+    }
+
+    if (diff.changed.length > 0) {
+      lines.push("", "Changed:");
+      for (const route of diff.changed) {
+        lines.push(`  * ${route.path} (${route.router})`);
+        for (const change of route.changes) {
+          lines.push(`      ${this.describeChange(change, (value) => this.formatValue(value))}`);
+        }
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Format a route diff as Markdown, e.g. for a pull request comment
+   */
+  formatMarkdown(diff: RouteDiffResult): string {
+    const lines: string[] = ["# Route Changes", ""];
+
+    if (this.isEmpty(diff)) {
+      lines.push("No route changes.");
+      return lines.join("\n");
+    }
+
+    lines.push(`**${this.summarize(diff)}**`, "");
+
+    if (diff.added.length > 0) {
+      lines.push("## Added Routes", "");
+      this.addEntries(lines, diff.added);
+    }
+
+    if (diff.removed.length > 0) {
+      lines.push("## Removed Routes", "");
+      this.addEntries(lines, diff.removed);
+    }
+
+    if (diff.renamed.length > 0) {
+      lines.push("## Renamed Routes", "");
+      for (const { from, to } of diff.renamed) {
+        lines.push(
+          `- \`${from.path}\` → \`${to.path}\` (${this.formatRouterType(to.router)}) — \`${to.filePath}\``,
+        );
+      }
+      lines.push("");
+    }
+
+    if (diff.changed.length > 0) {
+      lines.push("## Changed Routes", "");
+      for (const route of diff.changed) {
+        this.addChange(lines, route);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Add a Markdown list of routes
+   */
+  private addEntries(lines: string[], routes: RouteDiffEntry[]): void {
+    for (const route of routes) {
+      lines.push(
+        `- \`${route.path}\` (${this.formatRouterType(route.router)}) — \`${route.filePath}\``,
+      );
+    }
+    lines.push("");
+  }
+
+  /**
+   * Add a Markdown subsection for a changed route
+   */
+  private addChange(lines: string[], route: RouteChange): void {
+    lines.push(`### \`${route.path}\` (${this.formatRouterType(route.router)})`, "");
+    if (route.previousPath) {
+      lines.push(`- Renamed from \`${route.previousPath}\``);
+    }
+    for (const change of route.changes) {
+      lines.push(`- ${this.describeChange(change, (value) => `\`${this.formatValue(value)}\``)}`);
+    }
+    lines.push("");
+  }
+
+  /**
+   * Describe a single field change
+   */
+  private describeChange(change: RouteFieldChange, format: (value: unknown) => string): string {
+    const transition = `${format(change.before)} → ${format(change.after)}`;
+    switch (change.kind) {
+      case "pattern":
+        return `Pattern: ${transition}`;
+      case "component-type":
+        return `Component type (${change.field}): ${transition}`;
+      case "segment-config":
+        return `Segment config ${change.field}: ${transition}`;
+    }
+  }
+
+  /**
+   * Format a changed value
+   */
+  private formatValue(value: unknown): string {
+    return value === undefined ? "(unset)" : typeof value === "string" ? value : JSON.stringify(value);
+  }
+
+  /**
+   * Count differences per category
+   */
+  private summarize(diff: RouteDiffResult): string {
+    return [
+      `${diff.added.length} added`,
+      `${diff.removed.length} removed`,
+      `${diff.renamed.length} renamed`,
+      `${diff.changed.length} changed`,
+    ].join(", ");
+  }
+
+  /**
+   * Whether the diff has no differences
+   */
+  private isEmpty(diff: RouteDiffResult): boolean {
+    return !diff.added.length && !diff.removed.length && !diff.renamed.length && !diff.changed.length;
+  }
+
+  /**
+   * Format router type for display
+   */
+  private formatRouterType(router: string): string {
+    return router === "app" ? "App Router" : "Pages Router";
+  }
+}
@@ -4,7 +4,9 @@ import type {
   OutputFormat,
   RouteInfo,
   ProjectInfo,
+  NextConfig,
 } from "../types.js";
+import { getSpecialFileType, resolveRouteUrl } from "../utils.js";
 
 /**
  * TypeScript Formatter - Generates type-safe route access via dot notation
@@ -15,6 +17,7 @@ import type {
 export class TypeScriptFormatter implements Formatter {
   private indent: number;
   private stripPrefixes: string[];
+  private config?: NextConfig;
 
   constructor(options: { indent?: number; stripPrefixes?: string[] } = {}) {
     this.indent = options.indent ?? 2;
@@ -26,7 +29,11 @@ export class TypeScriptFormatter implements Formatter {
    */
   format(result: IntrospectionResult): string {
     const routes = Array.isArray(result.routes) ? result.routes : [];
-    const routeStructure = this.buildRouteStructure(routes);
+    this.config = result.project.config;
+    const routeStructure = this.buildRouteStructure(
+      routes,
+      result.project.config?.pageExtensions,
+    );
 
     let output = "";
 
@@ -46,6 +53,15 @@ export class TypeScriptFormatter implements Formatter {
     return "typescript";
   }
 
+  /**
+   * Get the URL of a route path relative to `basePath`, as `<Link>`,
+   * `router.push()` and `redirect()` expect it: prefixes are stripped, then
+   * `trailingSlash` is applied
+   */
+  private toUrl(path: string): string {
+    return resolveRouteUrl(this.stripPathPrefixes(path), { trailingSlash: this.config?.trailingSlash });
+  }
+
   /**
    * Strip prefixes from a route path
    */
@@ -84,7 +100,10 @@ export class TypeScriptFormatter implements Formatter {
   /**
    * Build nested route structure from flat routes array
    */
-  private buildRouteStructure(routes: RouteInfo[]): Record<string, any> {
+  private buildRouteStructure(
+    routes: RouteInfo[],
+    pageExtensions?: string[],
+  ): Record<string, any> {
     const structure: Record<string, any> = {};
 
     // Sort routes by path length (longest first) to build nested structure properly
@@ -101,11 +120,7 @@ export class TypeScriptFormatter implements Formatter {
       // Only include actual route files (page.tsx files), not special Next.js files
       const fileName = route.filePath.split("/").pop()?.toLowerCase();
       const isPageFile =
-        fileName &&
-        (fileName === "page.tsx" ||
-          fileName === "page.ts" ||
-          fileName === "page.jsx" ||
-          fileName === "page.js");
+        fileName && getSpecialFileType(fileName, pageExtensions) === "page";
 
       if (!isPageFile) {
         continue;
@@ -224,6 +239,15 @@ export class TypeScriptFormatter implements Formatter {
       ` * Generated route types for ${project.framework} project`,
       ` * Framework: ${project.framework} ${project.version}`,
       ` * Root directory: ${project.rootDir}`,
+      ...(project.config?.basePath
+        ? [
+            ` * Base path: ${project.config.basePath} (added by <Link>, router.push() and redirect();`,
+            " * use withBasePath() for plain <a> elements, fetch() and other full URLs)",
+          ]
+        : []),
+      ...(project.config?.assetPrefix
+        ? [` * Asset prefix: ${project.config.assetPrefix} (applies to /_next/ assets only)`]
+        : []),
       " *",
       " * This file provides type-safe access to your application routes.",
       " * Use the Routes object to access route paths with dot notation.",
@@ -260,6 +284,17 @@ export class TypeScriptFormatter implements Formatter {
     output += this.generateGetterObjectRecursive(routeStructure, []);
     output += " as const;\n\n";
 
+    const basePath = this.config?.basePath?.replace(/\/+$/, "");
+    if (basePath) {
+      // Without trailingSlash, the root URL is the basePath itself
+      const fullUrl = this.config?.trailingSlash
+        ? "`${BASE_PATH}${url}`"
+        : '(url === "/" ? BASE_PATH : `${BASE_PATH}${url}`)';
+      output += "// Full URLs for plain <a> elements, fetch() and links shared outside the app\n";
+      output += `export const BASE_PATH = "${basePath}";\n`;
+      output += `export const withBasePath = (url: string): string => ${fullUrl};\n\n`;
+    }
+
     // Generate default export
     output += "// Default export for convenience\n";
     output += "export default routes;\n";
@@ -387,7 +422,7 @@ export class TypeScriptFormatter implements Formatter {
         const paramNames = params.join(", ");
         const paramTypes = params.map((p) => `${p}: string`).join(", ");
 
-        const strippedPath = this.stripPathPrefixes(value);
+        const strippedPath = this.toUrl(value);
 
         // Create JSDoc comment for better IDE experience
         const templateExample = this.buildTemplateExample(strippedPath, params);
@@ -404,7 +439,7 @@ export class TypeScriptFormatter implements Formatter {
         return result;
       } else {
         // Regular string route
-        return `"${this.stripPathPrefixes(value)}"`;
+        return `"${this.toUrl(value)}"`;
       }
     }
 
@@ -423,7 +458,7 @@ export class TypeScriptFormatter implements Formatter {
       ) {
         // This is a simple route object with index/base and possibly get
         const routePath = value.index || value.base;
-        const strippedPath = this.stripPathPrefixes(routePath);
+        const strippedPath = this.toUrl(routePath);
         if (value.get) {
           // For parameterized routes, make the object callable
           // Extract parameters from the route path
@@ -467,11 +502,11 @@ export class TypeScriptFormatter implements Formatter {
       for (const [key, val] of sortedEntries) {
         if (key === "index") {
           // Handle index properties specially - use "index" as property name
-          result += `  index: "${this.stripPathPrefixes(val as string)}"`;
+          result += `  index: "${this.toUrl(val as string)}"`;
         } else {
           result += `  ${key}: `;
           if (typeof val === "string") {
-            result += `"${this.stripPathPrefixes(val)}"`;
+            result += `"${this.toUrl(val)}"`;
           } else if (typeof val === "object" && val !== null) {
             result += this.generateValueRecursive(val);
           } else {
@@ -588,7 +623,7 @@ export class TypeScriptFormatter implements Formatter {
 
       // Handle index property specially - use "base" as property name
       if (key === "index" && typeof value === "string") {
-        result += `${currentIndent}base: "${this.stripPathPrefixes(value)}",\n`;
+        result += `${currentIndent}base: "${this.toUrl(value)}",\n`;
         continue;
       }
 
@@ -600,7 +635,7 @@ export class TypeScriptFormatter implements Formatter {
           const paramNames = params.join(", ");
           const paramTypes = params.map((p) => `${p}: string`).join(", ");
 
-          const strippedPath = this.stripPathPrefixes(value);
+          const strippedPath = this.toUrl(value);
           result += `${currentIndent}${key}: {\n`;
           result += `${currentIndent}${indentStr}index: "${strippedPath}",\n`;
           result += `${currentIndent}${indentStr}get: ({ ${paramNames} }: { ${paramTypes} }) => \`${this.buildTemplateString(strippedPath, params)}\`,\n`;
@@ -608,7 +643,7 @@ export class TypeScriptFormatter implements Formatter {
         } else {
           // Regular route - still wrap in object for consistency
           result += `${currentIndent}${key}: {\n`;
-          result += `${currentIndent}${indentStr}index: "${this.stripPathPrefixes(value)}",\n`;
+          result += `${currentIndent}${indentStr}index: "${this.toUrl(value)}",\n`;
           result += `${currentIndent}},\n`;
         }
       } else if (typeof value === "object") {
@@ -616,7 +651,7 @@ export class TypeScriptFormatter implements Formatter {
         if (value.index && Object.keys(value).length === 1) {
           // This is purely an index route (shorter route that conflicts with nested routes)
           result += `${currentIndent}${key}: {\n`;
-          result += `${currentIndent}${indentStr}base: "${this.stripPathPrefixes(value.index)}",\n`;
+          result += `${currentIndent}${indentStr}base: "${this.toUrl(value.index)}",\n`;
           result += `${currentIndent}},\n`;
         } else {
           // This is a nested object (may contain index + other properties)
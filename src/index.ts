@@ -9,6 +9,7 @@ export type {
   RouterType,
   ComponentType,
   RoutePattern,
+  HttpMethod,
 
   // Configuration
   IntrospectionOptions,
@@ -17,12 +18,42 @@ export type {
   ProjectInfo,
   NextConfig,
   PackageInfo,
+  Redirect,
+  Rewrite,
+  NextRewrites,
+  HeaderRule,
+  RouteCondition,
+  I18nConfig,
+  RemotePattern,
+  MiddlewareInfo,
+  MiddlewareMatcher,
+  RouteMiddleware,
 
   // Route information
   BaseRoute,
   RouteInfo,
   AppRouterRoute,
+  AppRouterExports,
+  RouteBoundary,
+  RouteBoundaryType,
+  InterceptMarker,
+  MetadataRoute,
+  MetadataRouteType,
+  ParallelSlot,
+  InterceptingRoute,
+  AnalysisWarning,
+  AppRoutingModel,
+  RouteConflict,
+  RouteConflictType,
+  RouteDiffEntry,
+  RouteChangeKind,
+  RouteFieldChange,
+  RouteChange,
+  RouteDiffResult,
+  RouteDiffKind,
+  RouteSegmentConfig,
   PagesRouterRoute,
+  LocaleVariant,
 
   // Results
   IntrospectionResult,
@@ -40,7 +71,66 @@ export type {
   FileEntry,
 
   // Route parsing
-  RouteSegment
+  RouteSegment,
+
+  // Export analysis
+  ExportKind,
+  LiteralValue,
+  ModuleExport,
+  ImportKind,
+  ModuleImport,
+  ResolvedImport,
+  UnresolvedValue,
+  ServerAction,
+
+  // Module graph
+  ModuleNode,
+  ModuleDependencies,
+  ModuleDependents,
+  RouteDependencies,
+  ModuleGraphData,
+  AffectedRoute,
+
+  // Client bundles
+  ClientBoundary,
+  ClientIssue,
+  ClientIssueType,
+  RouteClientBundle,
+
+  // Rendering
+  RenderingStrategy,
+  RouteRendering,
+  PrerenderedUrls,
+
+  // Links
+  LinkKind,
+  LinkUsage,
+  InternalLink,
+  BrokenLink,
+  LinkValidation,
+  RouteReferenceSource,
+  RouteReference,
+  OrphanRoute,
+  OrphanReport,
+  RulePhase,
+  AppliedRule,
+  RouteMatch,
+  VercelConfig,
+  RuleOrigin,
+  SimulatedRequest,
+  SimulationOptions,
+  RuleAnalysisOptions,
+  SimulationStep,
+  HopOutcome,
+  SimulationHop,
+  SimulationOutcome,
+  RouteSimulation,
+  RuleIssueType,
+  RuleIssue,
+  RuleAnalysis,
+  DynamicApi,
+  DynamicApiUsage,
+  RouteDynamicApiUsage
 } from './types.js';
 
 // Adapters
@@ -51,11 +141,33 @@ export { NextJsAdapter } from './adapters/NextJsAdapter.js';
 export { AppRouterParser } from './parsers/AppRouterParser.js';
 export { PagesRouterParser } from './parsers/PagesRouterParser.js';
 export { ConfigParser } from './parsers/ConfigParser.js';
+export { ExportParser } from './parsers/ExportParser.js';
+export { StaticEvaluator } from './parsers/StaticEvaluator.js';
+export { MiddlewareParser } from './parsers/MiddlewareParser.js';
+export { ImportParser } from './parsers/ImportParser.js';
+export { ModuleResolver } from './parsers/ModuleResolver.js';
+export { ServerActionParser } from './parsers/ServerActionParser.js';
+export { DynamicApiParser } from './parsers/DynamicApiParser.js';
+export { LinkParser } from './parsers/LinkParser.js';
+export { VercelConfigParser } from './parsers/VercelConfigParser.js';
+
+// Analyzers
+export { ConflictDetector } from './analyzers/ConflictDetector.js';
+export { RouteDiff } from './analyzers/RouteDiff.js';
+export { ModuleGraph } from './analyzers/ModuleGraph.js';
+export { ClientBoundaryAnalyzer } from './analyzers/ClientBoundaryAnalyzer.js';
+export { RenderingAnalyzer } from './analyzers/RenderingAnalyzer.js';
+export { PrerenderAnalyzer } from './analyzers/PrerenderAnalyzer.js';
+export { LinkValidator } from './analyzers/LinkValidator.js';
+export { OrphanRouteAnalyzer } from './analyzers/OrphanRouteAnalyzer.js';
+export { RouteMatcher } from './analyzers/RouteMatcher.js';
+export { RouteSimulator } from './analyzers/RouteSimulator.js';
 
 // Formatters
 export { ObjectFormatter } from './formatters/ObjectFormatter.js';
 export { JsonFormatter } from './formatters/JsonFormatter.js';
 export { MarkdownFormatter } from './formatters/MarkdownFormatter.js';
+export { RouteDiffFormatter } from './formatters/RouteDiffFormatter.js';
 
 // Utility functions (most commonly used ones)
 export {
@@ -63,6 +175,12 @@ export {
   detectRouterType,
   parseRouteSegment,
   formatRoutePath,
-  detectComponentType
+  compilePathPattern,
+  matchPathPattern,
+  fillPathPattern,
+  getMetadataFileInfo,
+  getChangedFiles,
+  detectComponentType,
+  expandLocaleRoutes
 } from './utils.js';
 
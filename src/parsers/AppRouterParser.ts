@@ -1,6 +1,18 @@
 import path from 'path';
+import ts from 'typescript';
 import type {
   AppRouterRoute,
+  AppRoutingModel,
+  DynamicApiUsage,
+  HttpMethod,
+  InterceptMarker,
+  MetadataRoute,
+  ParallelSlot,
+  RouteBoundary,
+  RouteBoundaryType,
+  ModuleExport,
+  RouteDynamicApiUsage,
+  RouteSegmentConfig,
   RouteInfo,
   RouteSegment,
   ParserConfig
@@ -10,11 +22,74 @@ import {
   parseRouteSegment,
   formatRoutePath,
   detectComponentType,
-  extractExports,
   readFileContent,
   getSpecialFileType,
-  isSpecialNextJsFile
+  getMetadataFileInfo,
+  isSpecialNextJsFile,
+  SOURCE_EXTENSIONS
 } from '../utils.js';
+import { DynamicApiParser } from './DynamicApiParser.js';
+import { ExportParser } from './ExportParser.js';
+import { ImportParser } from './ImportParser.js';
+import { ModuleResolver } from './ModuleResolver.js';
+
+/**
+ * Maps special file types (as returned by getSpecialFileType) to their
+ * AppRouterRoute['specialFiles'] keys
+ */
+const SPECIAL_FILE_KEYS: Record<string, keyof AppRouterRoute['specialFiles'] & string> = {
+  'page': 'page',
+  'layout': 'layout',
+  'loading': 'loading',
+  'error': 'error',
+  'not-found': 'notFound',
+  'template': 'template',
+  'default': 'default',
+  'route': 'route'
+};
+
+/**
+ * Boundary file types in the order Next.js nests them within a segment
+ */
+const BOUNDARY_TYPES: RouteBoundaryType[] = ['layout', 'template', 'error', 'loading', 'notFound'];
+
+/**
+ * Metadata files only honoured at the root of the app directory
+ */
+const ROOT_METADATA_TYPES = ['robots', 'manifest', 'favicon'];
+
+/**
+ * URL file names of generated metadata files that aren't served under their own name
+ */
+const GENERATED_METADATA_NAMES: Record<string, string> = {
+  'sitemap': 'sitemap.xml',
+  'robots': 'robots.txt',
+  'manifest': 'manifest.webmanifest'
+};
+
+/**
+ * HTTP methods supported by route handlers, in display order
+ */
+const HTTP_METHODS: HttpMethod[] = ['GET', 'HEAD', 'OPTIONS', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * What the dynamic API scan needs to know about a module
+ */
+interface ScannedModule {
+  usages: DynamicApiUsage[];
+  /** Local modules imported and the names bound from each */
+  imports: Array<{ filePath: string; locals: string[] }>;
+  /** Local names of the components rendered inside `<Suspense>` */
+  suspended: Set<string>;
+}
+
+/**
+ * Modules scanned for dynamic APIs, shared by the routes of an app directory
+ */
+interface DynamicApiScan {
+  resolver: ModuleResolver;
+  modules: Map<string, Promise<ScannedModule>>;
+}
 
 /**
  * Parser for Next.js App Router (app/ directory)
@@ -33,22 +108,34 @@ export class AppRouterParser {
     const routes: RouteInfo[] = [];
 
     try {
-      // Get all files in the app directory
-      const entries = await traverseDirectory(
-        appDir,
-        config.maxDepth,
-        0,
-        ['node_modules/**', '.next/**', 'dist/**', '**/*.test.*', '**/*.spec.*']
-      );
-
-      // Group files by their directory (route segment)
-      const routeGroups = this.groupFilesByRoute(entries, appDir);
+      const routeGroups = await this.collectSegments(appDir, config);
+      const scan: DynamicApiScan | undefined = config.mode === 'comprehensive'
+        ? { resolver: new ModuleResolver(config.rootDir), modules: new Map() }
+        : undefined;
 
       // Process each route group
       for (const [routePath, files] of routeGroups.entries()) {
-        const route = await this.parseRouteSegment(routePath, files, config);
-        if (route) {
-          routes.push(route);
+        // Only segments with a page or route handler are reachable URLs
+        if (this.isRoutable(files, config.pageExtensions)) {
+          const route = await this.parseRouteSegment(routePath, files, config);
+          if (route) {
+            // Route handlers are never wrapped in layouts or boundaries
+            if (route.appRouter!.specialFiles.page) {
+              route.appRouter!.boundaries = this.resolveBoundaries(routePath, routeGroups, config.pageExtensions);
+            }
+            if (scan) {
+              route.appRouter!.dynamicApis = await this.findDynamicApis(route, scan);
+            }
+            routes.push(route);
+          }
+        }
+
+        // Metadata files serve URLs of their own
+        for (const file of files) {
+          const route = await this.parseMetadataRoute(routePath, file, config);
+          if (route) {
+            routes.push(route);
+          }
         }
       }
     } catch (error) {
@@ -59,12 +146,150 @@ export class AppRouterParser {
     return routes;
   }
 
+  /**
+   * Parse the parallel slots and intercepting routes of an app directory
+   */
+  static async parseRoutingModel(appDir: string, config: ParserConfig): Promise<AppRoutingModel> {
+    const model: AppRoutingModel = { parallelSlots: [], interceptingRoutes: [], warnings: [] };
+
+    try {
+      const routeGroups = await this.collectSegments(appDir, config);
+      const routablePaths = [...routeGroups.keys()].filter(
+        routePath => this.isRoutable(routeGroups.get(routePath)!, config.pageExtensions)
+      );
+      const findFile = (segmentPath: string, type: string) =>
+        routeGroups.get(segmentPath)?.find(file => getSpecialFileType(file.name, config.pageExtensions) === type);
+
+      // Every @slot directory that appears above a special file
+      const slotPaths = new Set<string>();
+      for (const routePath of routeGroups.keys()) {
+        const parts = routePath.split('/').filter(Boolean);
+        parts.forEach((part, index) => {
+          if (part.startsWith('@')) {
+            slotPaths.add(`/${parts.slice(0, index + 1).join('/')}`);
+          }
+        });
+      }
+
+      for (const segmentPath of [...slotPaths].sort()) {
+        const layoutSegmentPath = path.posix.dirname(segmentPath);
+        const defaultFile = findFile(segmentPath, 'default');
+        const slotRoutes = routablePaths
+          .filter(routePath => routePath === segmentPath || routePath.startsWith(`${segmentPath}/`))
+          .map(routePath => this.analyzeRouteSegments(this.parseRoutePath(routePath)).path);
+
+        const slot: ParallelSlot = {
+          name: path.posix.basename(segmentPath).slice(1),
+          segmentPath,
+          layoutSegmentPath,
+          layoutFilePath: findFile(layoutSegmentPath, 'layout')?.path,
+          hasDefault: !!defaultFile,
+          defaultFilePath: defaultFile?.path,
+          routes: [...new Set(slotRoutes)].sort()
+        };
+        model.parallelSlots.push(slot);
+
+        if (!defaultFile) {
+          model.warnings.push({
+            code: 'missing-default',
+            message: `Parallel slot @${slot.name} in ${layoutSegmentPath} has no default file; ` +
+              'URLs it does not match will render a 404 on hard navigation',
+            segmentPath
+          });
+        }
+      }
+
+      // Pages of regular routes, to resolve what an interception targets
+      const pagesByPath = new Map<string, string>();
+      for (const routePath of routablePaths) {
+        const segments = this.parseRoutePath(routePath);
+        const page = findFile(routePath, 'page');
+        if (page && !segments.some(segment => segment.isIntercepting || segment.isParallel)) {
+          pagesByPath.set(this.analyzeRouteSegments(segments).path, page.path);
+        }
+      }
+
+      for (const routePath of routablePaths) {
+        const segments = this.parseRoutePath(routePath);
+        const page = findFile(routePath, 'page');
+        if (!page || !segments.some(segment => segment.isIntercepting)) {
+          continue;
+        }
+
+        const routeProps = this.analyzeRouteSegments(segments);
+        model.interceptingRoutes.push({
+          path: routeProps.path,
+          segmentPath: routePath,
+          filePath: page.path,
+          ...this.getInterception(segments)!,
+          interceptedFilePath: pagesByPath.get(routeProps.path),
+          slot: this.getSlot(segments)
+        });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`Warning: Could not parse App Router directory ${appDir}:`, errorMessage);
+    }
+
+    return model;
+  }
+
+  /**
+   * Traverse an app directory and group its special files by segment
+   */
+  private static async collectSegments(
+    appDir: string,
+    config: ParserConfig
+  ): Promise<Map<string, Array<{ path: string; relativePath: string; name: string; isDirectory: boolean }>>> {
+    // Get all files in the app directory
+    const entries = await traverseDirectory(
+      appDir,
+      config.maxDepth,
+      0,
+      ['node_modules/**', '.next/**', 'dist/**', '**/*.test.*', '**/*.spec.*']
+    );
+
+    // Group files by their directory (route segment)
+    return this.groupFilesByRoute(entries, appDir, config.pageExtensions);
+  }
+
+  /**
+   * Check whether a segment serves a URL (has a page or route handler)
+   */
+  private static isRoutable(files: Array<{ name: string }>, pageExtensions?: string[]): boolean {
+    return files.some(file => ['page', 'route'].includes(getSpecialFileType(file.name, pageExtensions) || ''));
+  }
+
+  /**
+   * Get the innermost parallel slot of a segment path
+   */
+  private static getSlot(segments: RouteSegment[]): string | undefined {
+    const slot = [...segments].reverse().find(segment => segment.isParallel);
+    return slot?.name.slice(1);
+  }
+
+  /**
+   * Get the interception marker and originating URL of a segment path
+   */
+  private static getInterception(segments: RouteSegment[]): AppRouterRoute['interception'] {
+    const index = segments.map(segment => segment.isIntercepting).lastIndexOf(true);
+    if (index === -1) {
+      return undefined;
+    }
+
+    return {
+      marker: segments[index].interceptMarker as InterceptMarker,
+      fromPath: this.analyzeRouteSegments(segments.slice(0, index)).path
+    };
+  }
+
   /**
    * Group files by their route segments
    */
   private static groupFilesByRoute(
     entries: Array<{ path: string; relativePath: string; name: string; isDirectory: boolean }>,
-    appDir: string
+    appDir: string,
+    pageExtensions?: string[]
   ): Map<string, Array<{ path: string; relativePath: string; name: string; isDirectory: boolean }>> {
     const groups = new Map<string, typeof entries>();
 
@@ -74,12 +299,17 @@ export class AppRouterParser {
       }
 
       // Only process files that could be part of App Router
-      if (!this.isAppRouterFile(entry.name)) {
+      if (!this.isAppRouterFile(entry.name, pageExtensions)) {
         continue;
       }
 
       // Get the route path (directory containing the file)
-      const routePath = this.getRoutePathForFile(entry.relativePath, appDir);
+      const routePath = this.getRoutePathForFile(entry.path, appDir);
+
+      // Private folders (_folder) and everything below them are opted out of routing
+      if (routePath.split('/').some(segment => segment.startsWith('_'))) {
+        continue;
+      }
 
       if (!groups.has(routePath)) {
         groups.set(routePath, []);
@@ -94,20 +324,21 @@ export class AppRouterParser {
   /**
    * Check if a file is part of App Router
    */
-  private static isAppRouterFile(filename: string): boolean {
-    return isSpecialNextJsFile(filename) || filename.endsWith('.tsx') || filename.endsWith('.jsx') ||
-           filename.endsWith('.js') || filename.endsWith('.ts');
+  private static isAppRouterFile(filename: string, pageExtensions?: string[]): boolean {
+    if (!isSpecialNextJsFile(filename, pageExtensions) || filename.startsWith('_')) {
+      return false;
+    }
+
+    const specialType = getSpecialFileType(filename, pageExtensions);
+    return !!specialType && (specialType in SPECIAL_FILE_KEYS || getMetadataFileInfo(filename) !== undefined);
   }
 
   /**
    * Get the route path for a file (its directory)
    */
-  private static getRoutePathForFile(relativePath: string, appDir: string): string {
-    // Remove the app directory prefix
-    const withoutApp = relativePath.replace(new RegExp(`^${appDir}/?`), '');
-
-    // Remove the filename to get the directory
-    const dirPath = path.dirname(withoutApp);
+  private static getRoutePathForFile(filePath: string, appDir: string): string {
+    // Directory of the file relative to the app directory
+    const dirPath = path.relative(appDir, path.dirname(filePath)).replace(/\\/g, '/');
 
     // If it's in the root of app, return '/'
     if (dirPath === '.' || dirPath === '') {
@@ -144,30 +375,54 @@ export class AppRouterParser {
         specialFiles: AppRouterRoute['specialFiles'];
         componentTypes: AppRouterRoute['componentTypes'];
         exports?: AppRouterRoute['exports'];
+        httpMethods?: AppRouterRoute['httpMethods'];
+        segmentPath?: string;
+        boundaries?: RouteBoundary[];
+        slot?: string;
+        interception?: AppRouterRoute['interception'];
         children?: AppRouterRoute[];
       } = {
         segment: path.basename(routePath) || '',
+        segmentPath: routePath,
         isRouteGroup: segments.some(s => s.isRouteGroup),
         isInterceptingRoute: segments.some(s => s.isIntercepting),
         isParallelRoute: segments.some(s => s.isParallel),
         specialFiles,
         componentTypes: {},
-        exports: config.mode === 'comprehensive' ? {} : undefined
+        exports: config.mode === 'comprehensive' ? {} : undefined,
+        slot: this.getSlot(segments),
+        interception: this.getInterception(segments)
       };
 
-      // Add component types and exports for comprehensive mode
-      if (config.mode === 'comprehensive') {
-        const componentAnalysis = await this.analyzeComponents(files);
+      // Add component types (detailed) and exports (comprehensive)
+      if (config.mode !== 'basic') {
+        const componentAnalysis = await this.analyzeComponents(
+          files,
+          config.mode === 'comprehensive',
+          config.pageExtensions
+        );
         appRouterData.componentTypes = componentAnalysis.componentTypes;
-        appRouterData.exports = componentAnalysis.exports;
+        if (componentAnalysis.httpMethods) {
+          appRouterData.httpMethods = componentAnalysis.httpMethods;
+        }
+        if (config.mode === 'comprehensive') {
+          appRouterData.exports = componentAnalysis.exports;
+        }
       }
 
+      // The page (or route handler) is the file that serves the URL
+      const entryFile =
+        files.find(file => getSpecialFileType(file.name, config.pageExtensions) === 'page') ||
+        files.find(file => getSpecialFileType(file.name, config.pageExtensions) === 'route') ||
+        files[0];
+
       // Build the route info
       const routeInfo: RouteInfo = {
         path: routeProps.path,
-        filePath: files[0]?.path || '', // Use first file as representative
+        filePath: entryFile?.path || '',
         pattern: routeProps.pattern,
         dynamicSegments: routeProps.dynamicSegments,
+        catchAllSegment: routeProps.catchAllSegment,
         router: 'app',
         appRouter: appRouterData
       };
@@ -180,6 +435,199 @@ export class AppRouterParser {
     }
   }
 
+  /**
+   * Parse a metadata file (sitemap, robots, manifest, icons, OG images) into
+   * the route serving it
+   */
+  private static async parseMetadataRoute(
+    routePath: string,
+    file: { path: string; name: string },
+    config: ParserConfig
+  ): Promise<RouteInfo | null> {
+    const metadataFile = getMetadataFileInfo(file.name);
+    if (!metadataFile || (routePath !== '/' && ROOT_METADATA_TYPES.includes(metadataFile.type))) {
+      return null;
+    }
+
+    const segments = this.parseRoutePath(routePath);
+    const routeProps = this.analyzeRouteSegments(segments);
+    const metadataRoute: MetadataRoute = { ...metadataFile };
+    let exports: AppRouterRoute['exports'];
+
+    // Generated files can produce several URLs, and export segment config
+    if (metadataFile.source === 'generated') {
+      const content = await readFileContent(file.path);
+      const fileExports = content ? ExportParser.parse(content, file.name) : [];
+      const exportNames = new Set(fileExports.map(exported => exported.name));
+      if (metadataFile.type === 'sitemap') {
+        if (exportNames.has('generateSitemaps')) metadataRoute.generateSitemaps = true;
+      } else if (exportNames.has('generateImageMetadata')) {
+        metadataRoute.generateImageMetadata = true;
+      }
+      if (config.mode === 'comprehensive') {
+        exports = this.extractSegmentConfig(fileExports);
+      }
+    }
+
+    // Static files keep their name; generated ones drop the extension
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    let urlPath = metadataFile.source === 'static'
+      ? file.name
+      : GENERATED_METADATA_NAMES[metadataFile.type] ?? baseName;
+    if (metadataRoute.generateSitemaps) {
+      urlPath = 'sitemap/[id].xml';
+    } else if (metadataRoute.generateImageMetadata) {
+      urlPath = `${baseName}/[id]`;
+    }
+
+    const isMultiple = metadataRoute.generateSitemaps || metadataRoute.generateImageMetadata;
+    const dynamicSegments = [...(routeProps.dynamicSegments || []), ...(isMultiple ? ['id'] : [])];
+
+    return {
+      path: `${routeProps.path === '/' ? '' : routeProps.path}/${urlPath}`,
+      filePath: file.path,
+      pattern: isMultiple && routeProps.pattern === 'static' ? 'dynamic' : routeProps.pattern,
+      dynamicSegments: dynamicSegments.length > 0 ? dynamicSegments : undefined,
+      catchAllSegment: routeProps.catchAllSegment,
+      router: 'app',
+      appRouter: {
+        segment: path.basename(routePath) || '',
+        segmentPath: routePath,
+        isRouteGroup: segments.some(s => s.isRouteGroup),
+        isInterceptingRoute: segments.some(s => s.isIntercepting),
+        isParallelRoute: segments.some(s => s.isParallel),
+        specialFiles: {},
+        componentTypes: {},
+        ...(exports && { exports }),
+        slot: this.getSlot(segments),
+        metadataRoute
+      }
+    };
+  }
+
+  /**
+   * Resolve the layouts, templates and boundaries wrapping a segment,
+   * walking its ancestor directories (route groups included) from the root
+   */
+  private static resolveBoundaries(
+    routePath: string,
+    routeGroups: Map<string, Array<{ path: string; name: string }>>,
+    pageExtensions?: string[]
+  ): RouteBoundary[] {
+    const parts = routePath.split('/').filter(Boolean);
+    const boundaries: RouteBoundary[] = [];
+
+    for (let depth = 0; depth <= parts.length; depth++) {
+      const segmentPath = `/${parts.slice(0, depth).join('/')}`;
+      const files = routeGroups.get(segmentPath) || [];
+
+      for (const type of BOUNDARY_TYPES) {
+        const file = files.find(entry => SPECIAL_FILE_KEYS[getSpecialFileType(entry.name, pageExtensions) || ''] === type);
+        if (file) {
+          boundaries.push({ type, segmentPath, filePath: file.path });
+        }
+      }
+    }
+
+    return boundaries;
+  }
+
+  /**
+   * Find the dynamic APIs a route uses in its page (or handler), layouts and
+   * templates and the local modules they import, transitively. A
+   * `useSearchParams()` call is left out when a loading boundary wraps the
+   * file it is reached from, or a `<Suspense>` wraps a component on every
+   * import chain it is reached through. Only the page receives `searchParams`.
+   */
+  private static async findDynamicApis(route: RouteInfo, scan: DynamicApiScan): Promise<RouteDynamicApiUsage[]> {
+    const boundaries = route.appRouter?.boundaries || [];
+    const loadings = boundaries.filter(boundary => boundary.type === 'loading');
+    const entries = [
+      ...boundaries.filter(boundary => boundary.type === 'layout' || boundary.type === 'template'),
+      { type: 'page', segmentPath: route.appRouter?.segmentPath || '/', filePath: route.filePath }
+    ];
+
+    const usages: RouteDynamicApiUsage[] = [];
+    // Whether each visited module was only reached under a Suspense boundary
+    const visited = new Map<string, boolean>();
+
+    for (const entry of entries) {
+      // A loading boundary wraps the page of its segment and everything below, but not its layout or template
+      const isLoading = loadings.some(loading =>
+        entry.type === 'page' || loading.segmentPath.length < entry.segmentPath.length
+      );
+      const pending = [{ filePath: path.resolve(entry.filePath), chain: [] as string[], suspended: isLoading }];
+
+      while (pending.length > 0) {
+        const { filePath, chain, suspended } = pending.shift()!;
+        // A module reached unsuspended after a suspended visit is scanned again for useSearchParams()
+        const revisit = visited.get(filePath) === true && !suspended;
+        if (visited.has(filePath) && !revisit) {
+          continue;
+        }
+        visited.set(filePath, suspended);
+
+        const module = await this.scanModule(filePath, scan);
+        for (const usage of module.usages) {
+          if (revisit && usage.api !== 'useSearchParams') {
+            continue;
+          }
+          // Only the page file receives the searchParams prop; reads anywhere else are not props
+          const isOutsidePageProps = usage.api === 'searchParams' && (entry.type !== 'page' || chain.length > 0);
+          if (!isOutsidePageProps && !(usage.api === 'useSearchParams' && suspended)) {
+            usages.push({ ...usage, filePath, ...(chain.length > 0 && { via: chain }) });
+          }
+        }
+
+        for (const imported of module.imports) {
+          pending.push({
+            filePath: imported.filePath,
+            chain: [...chain, filePath],
+            suspended: suspended || imported.locals.some(local => module.suspended.has(local))
+          });
+        }
+      }
+    }
+
+    return usages;
+  }
+
+  /**
+   * Scan a module for dynamic APIs, local imports and suspended components,
+   * reading each module once
+   */
+  private static scanModule(filePath: string, scan: DynamicApiScan): Promise<ScannedModule> {
+    if (!scan.modules.has(filePath)) {
+      scan.modules.set(filePath, this.readScannedModule(filePath, scan.resolver));
+    }
+    return scan.modules.get(filePath)!;
+  }
+
+  /**
+   * Read a module for the dynamic API scan
+   */
+  private static async readScannedModule(filePath: string, resolver: ModuleResolver): Promise<ScannedModule> {
+    const content = SOURCE_EXTENSIONS.includes(path.extname(filePath)) ? await readFileContent(filePath) : null;
+    if (content === null) {
+      return { usages: [], imports: [], suspended: new Set() };
+    }
+
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    const imports: ScannedModule['imports'] = [];
+    for (const entry of ImportParser.parseSourceFile(sourceFile)) {
+      const resolved = resolver.resolve(entry.specifier, filePath);
+      if (resolved && resolved !== filePath) {
+        imports.push({ filePath: resolved, locals: entry.bindings.map(binding => binding.local) });
+      }
+    }
+
+    return {
+      usages: DynamicApiParser.parseSourceFile(sourceFile),
+      imports,
+      suspended: DynamicApiParser.getSuspendedComponents(sourceFile)
+    };
+  }
+
   /**
    * Parse a route path into segments
    */
@@ -207,11 +655,26 @@ export class AppRouterParser {
     let hasOptionalCatchAll = false;
 
     for (const segment of segments) {
-      if (segment.isRouteGroup || segment.isIntercepting || segment.isParallel) {
+      if (segment.isRouteGroup || segment.isParallel) {
         continue; // Skip these in URL generation
       }
 
-      urlSegments.push(segment);
+      // Intercepting segments replace the URL levels they climb out of
+      if (segment.isIntercepting) {
+        const marker = segment.interceptMarker || '';
+        const levels = marker === '(...)'
+          ? urlSegments.length
+          : Math.min((marker.match(/\(\.\.\)/g) || []).length, urlSegments.length);
+        const removed = urlSegments.splice(urlSegments.length - levels, levels);
+        for (const removedSegment of removed) {
+          if (removedSegment.isDynamic && !removedSegment.isCatchAll) {
+            dynamicSegments.splice(dynamicSegments.indexOf(removedSegment.paramName!), 1);
+          }
+        }
+        urlSegments.push({ ...segment, name: segment.name.slice(marker.length), isIntercepting: false });
+      } else {
+        urlSegments.push(segment);
+      }
 
       if (segment.isDynamic) {
         if (segment.isOptionalCatchAll) {
@@ -248,7 +711,7 @@ export class AppRouterParser {
    */
   private static async analyzeSpecialFiles(
     files: Array<{ path: string; relativePath: string; name: string; isDirectory: boolean }>,
-    _config: ParserConfig
+    config: ParserConfig
   ): Promise<AppRouterRoute['specialFiles']> {
     const specialFiles: AppRouterRoute['specialFiles'] = {
       page: false,
@@ -262,9 +725,9 @@ export class AppRouterParser {
     };
 
     for (const file of files) {
-      const specialType = getSpecialFileType(file.name);
-      if (specialType && specialType in specialFiles) {
-        (specialFiles as any)[specialType] = true;
+      const specialType = getSpecialFileType(file.name, config.pageExtensions);
+      if (specialType && specialType in SPECIAL_FILE_KEYS) {
+        specialFiles[SPECIAL_FILE_KEYS[specialType]] = true;
       }
     }
 
@@ -275,17 +738,27 @@ export class AppRouterParser {
    * Analyze components for comprehensive mode
    */
   private static async analyzeComponents(
-    files: Array<{ path: string; relativePath: string; name: string; isDirectory: boolean }>
+    files: Array<{ path: string; relativePath: string; name: string; isDirectory: boolean }>,
+    includeExports: boolean = true,
+    pageExtensions?: string[]
   ): Promise<{
     componentTypes: AppRouterRoute['componentTypes'];
     exports: AppRouterRoute['exports'];
+    httpMethods?: AppRouterRoute['httpMethods'];
   }> {
     const componentTypes: AppRouterRoute['componentTypes'] = {};
-    const exports: AppRouterRoute['exports'] = {};
-
-    for (const file of files) {
-      const specialType = getSpecialFileType(file.name);
-      if (!specialType) {
+    const exports: NonNullable<AppRouterRoute['exports']> = {};
+    let httpMethods: AppRouterRoute['httpMethods'];
+
+    // Layouts first, so that page and route handler segment config overrides theirs
+    const orderedFiles = [...files].sort((a, b) =>
+      Number(getSpecialFileType(b.name, pageExtensions) === 'layout') -
+        Number(getSpecialFileType(a.name, pageExtensions) === 'layout')
+    );
+
+    for (const file of orderedFiles) {
+      const specialType = getSpecialFileType(file.name, pageExtensions);
+      if (!specialType || !(specialType in SPECIAL_FILE_KEYS)) {
         continue;
       }
 
@@ -294,40 +767,174 @@ export class AppRouterParser {
         continue;
       }
 
-      // Detect component type
-      const componentType = detectComponentType(content);
-      componentTypes[specialType as keyof typeof componentTypes] = componentType;
+      const fileKey = SPECIAL_FILE_KEYS[specialType];
+      const needsExports = fileKey === 'route' || (includeExports && (fileKey === 'page' || fileKey === 'layout'));
+      const fileExports = needsExports ? ExportParser.parse(content, file.name) : [];
+      const exportNames = new Set(fileExports.map(exported => exported.name));
+
+      // Detect component type (route handlers export HTTP methods instead)
+      if (fileKey !== 'route') {
+        componentTypes[fileKey] = detectComponentType(content);
+      } else {
+        httpMethods = HTTP_METHODS.filter(method => exportNames.has(method));
+      }
 
       // Extract exports for special files
-      if (specialType === 'page' || specialType === 'layout') {
-        const fileExports = extractExports(content);
-
-        if (fileExports.metadata) exports.metadata = true;
-        if (fileExports.generateMetadata) exports.generateMetadata = true;
-        if (fileExports.generateStaticParams) exports.generateStaticParams = true;
-        if (fileExports.generateViewport) exports.generateViewport = true;
-
-        // Check for revalidate export (number)
-        const revalidateMatch = content.match(/export\s+(?:const\s+)?revalidate\s*=\s*(\d+)/);
-        if (revalidateMatch) {
-          exports.revalidate = parseInt(revalidateMatch[1]);
-        }
+      if (includeExports && ['page', 'layout', 'route'].includes(fileKey)) {
+        if (exportNames.has('metadata')) exports.metadata = true;
+        if (exportNames.has('generateMetadata')) exports.generateMetadata = true;
+        if (exportNames.has('generateStaticParams')) exports.generateStaticParams = true;
+        if (exportNames.has('generateViewport')) exports.generateViewport = true;
+
+        Object.assign(exports, this.extractSegmentConfig(fileExports));
       }
     }
 
-    return { componentTypes, exports };
+    return { componentTypes, exports, httpMethods };
+  }
+
+  /**
+   * Extract route segment config options from a file's exports
+   *
+   * Only statically known values of the expected type are kept.
+   */
+  static extractSegmentConfig(fileExports: ModuleExport[]): RouteSegmentConfig {
+    const config: RouteSegmentConfig = {};
+    const values = new Map(fileExports.map(exported => [exported.name, exported.value]));
+    const isOneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T =>
+      typeof value === 'string' && (allowed as readonly string[]).includes(value);
+
+    const dynamic = values.get('dynamic');
+    if (isOneOf(dynamic, ['auto', 'force-dynamic', 'error', 'force-static'] as const)) {
+      config.dynamic = dynamic;
+    }
+
+    const dynamicParams = values.get('dynamicParams');
+    if (typeof dynamicParams === 'boolean') {
+      config.dynamicParams = dynamicParams;
+    }
+
+    // revalidate is either a number of seconds or false
+    const revalidate = values.get('revalidate');
+    if (typeof revalidate === 'number' || revalidate === false) {
+      config.revalidate = revalidate;
+    }
+
+    const fetchCache = values.get('fetchCache');
+    if (isOneOf(fetchCache, [
+      'auto',
+      'default-cache',
+      'only-cache',
+      'force-cache',
+      'force-no-store',
+      'default-no-store',
+      'only-no-store'
+    ] as const)) {
+      config.fetchCache = fetchCache;
+    }
+
+    const runtime = values.get('runtime');
+    if (isOneOf(runtime, ['nodejs', 'edge', 'experimental-edge'] as const)) {
+      config.runtime = runtime;
+    }
+
+    const preferredRegion = values.get('preferredRegion');
+    if (
+      typeof preferredRegion === 'string' ||
+      (Array.isArray(preferredRegion) && preferredRegion.every(region => typeof region === 'string'))
+    ) {
+      config.preferredRegion = preferredRegion as string | string[];
+    }
+
+    const maxDuration = values.get('maxDuration');
+    if (typeof maxDuration === 'number') {
+      config.maxDuration = maxDuration;
+    }
+
+    const experimentalPpr = values.get('experimental_ppr');
+    if (typeof experimentalPpr === 'boolean') {
+      config.experimental_ppr = experimentalPpr;
+    }
+
+    return config;
   }
 
   /**
    * Build hierarchical route structure
-   * TODO: Implement hierarchical route building
+   *
+   * Nests App Router routes by segment directory under the root segment,
+   * creating intermediate nodes (layouts, route groups) from the routes'
+   * boundaries so every root-to-leaf path through `children` is a layout chain.
+   * Handlers carry no boundaries, so a segment first reached through one is
+   * filled in from the pages below it.
    */
-  static buildRouteHierarchy(routes: RouteInfo[]): any[] {
-    // TODO: Implement proper hierarchical route building
-    // For now, return routes without hierarchy
-    return routes
-      .filter(route => route.appRouter)
-      .map(route => route.appRouter);
+  static buildRouteHierarchy(routes: RouteInfo[]): AppRouterRoute[] {
+    const nodes = new Map<string, AppRouterRoute>();
+
+    const getNode = (segmentPath: string, boundaries: RouteBoundary[]): AppRouterRoute => {
+      const segmentBoundaries = boundaries.filter(boundary => boundary.segmentPath === segmentPath);
+      let node = nodes.get(segmentPath);
+      const isNew = !node;
+      if (!node) {
+        const segments = this.parseRoutePath(segmentPath);
+        const routeProps = this.analyzeRouteSegments(segments);
+
+        node = {
+          path: routeProps.path,
+          filePath: '',
+          pattern: routeProps.pattern,
+          dynamicSegments: routeProps.dynamicSegments,
+          catchAllSegment: routeProps.catchAllSegment,
+          segment: path.posix.basename(segmentPath),
+          segmentPath,
+          isRouteGroup: segments.some(s => s.isRouteGroup),
+          isInterceptingRoute: segments.some(s => s.isIntercepting),
+          isParallelRoute: segments.some(s => s.isParallel),
+          specialFiles: {},
+          componentTypes: {},
+          children: []
+        };
+        nodes.set(segmentPath, node);
+      }
+
+      const parentPath = this.getParentPath(segmentPath);
+      if (parentPath !== null) {
+        const parent = getNode(parentPath, boundaries);
+        if (isNew) {
+          parent.children!.push(node);
+        }
+      }
+
+      // Segments without a route of their own take their files from the boundaries
+      if (!node.filePath) {
+        for (const boundary of segmentBoundaries) {
+          node.specialFiles[boundary.type] = true;
+        }
+        node.filePath = segmentBoundaries.find(boundary => boundary.type === 'layout')?.filePath || '';
+      }
+      return node;
+    };
+
+    for (const route of routes) {
+      // Metadata routes are files within a segment, not segments
+      if (!route.appRouter || route.appRouter.metadataRoute) {
+        continue;
+      }
+
+      const { appRouter } = route;
+      const node = getNode(appRouter.segmentPath || route.path, appRouter.boundaries || []);
+      Object.assign(node, appRouter, {
+        path: route.path,
+        filePath: route.filePath,
+        pattern: route.pattern,
+        dynamicSegments: route.dynamicSegments,
+        catchAllSegment: route.catchAllSegment,
+        children: node.children
+      });
+    }
+
+    const root = nodes.get('/');
+    return root ? [root] : [];
   }
 
   /**
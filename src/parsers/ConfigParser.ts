@@ -1,12 +1,24 @@
 import path from "path";
-import type { NextConfig } from "../types.js";
+import ts from "typescript";
+import type {
+  HeaderRule,
+  I18nConfig,
+  NextConfig,
+  NextRewrites,
+  Redirect,
+  RemotePattern,
+  Rewrite,
+} from "../types.js";
 import { readFileContent } from "../utils.js";
+import { MiddlewareParser } from "./MiddlewareParser.js";
+import { StaticEvaluator, getStaticMethod } from "./StaticEvaluator.js";
 
 /**
  * Parser for Next.js configuration files
  *
  * Safely extracts configuration information from next.config.js/mjs/ts files
- * without executing potentially unsafe code.
+ * without executing potentially unsafe code. The config is evaluated
+ * statically; values that depend on runtime state are listed in `unresolved`.
  */
 export class ConfigParser {
   /**
@@ -18,151 +30,359 @@ export class ConfigParser {
       return undefined;
     }
 
-    const config: NextConfig = {};
-
-    // Extract basic configuration properties
-    config.basePath = this.extractStringProperty(content, "basePath");
-    config.distDir = this.extractStringProperty(content, "distDir");
-    config.trailingSlash = this.extractBooleanProperty(
-      content,
-      "trailingSlash",
-    );
-
-    // Extract images configuration
-    config.images = this.extractImagesConfig(content);
-
-    // Extract environment variables
-    config.env = this.extractEnvConfig(content);
+    const evaluator = new StaticEvaluator(content, configPath);
+    const raw = this.evaluateConfig(evaluator);
+
+    const config: NextConfig = { configFile: path.basename(configPath) };
+
+    if (raw) {
+      config.basePath = this.getString(raw.basePath);
+      config.assetPrefix = this.getString(raw.assetPrefix);
+      config.distDir = this.getString(raw.distDir);
+      config.pageExtensions = this.extractPageExtensions(raw.pageExtensions);
+      config.trailingSlash =
+        typeof raw.trailingSlash === "boolean" ? raw.trailingSlash : undefined;
+      config.images = this.extractImagesConfig(raw.images);
+      config.env = this.extractEnvConfig(raw.env);
+      config.i18n = this.extractI18nConfig(raw.i18n);
+      config.experimental = this.isObject(raw.experimental)
+        ? raw.experimental
+        : undefined;
+
+      const redirects = this.evaluateRules(evaluator, raw, "redirects");
+      if (Array.isArray(redirects)) {
+        config.redirects = this.filterRules<Redirect>(
+          evaluator,
+          redirects,
+          "redirects",
+          ["source", "destination"],
+        );
+      }
 
-    // Check for experimental features
-    config.experimental = this.extractExperimentalConfig(content);
+      config.rewrites = this.extractRewrites(
+        evaluator,
+        this.evaluateRules(evaluator, raw, "rewrites"),
+      );
+
+      const headers = this.evaluateRules(evaluator, raw, "headers");
+      if (Array.isArray(headers)) {
+        config.headers = this.filterRules<HeaderRule>(
+          evaluator,
+          headers,
+          "headers",
+          ["source", "headers"],
+        );
+      }
+    }
 
     // Check for middleware
     config.hasMiddleware = await this.checkMiddlewareExists(
       path.dirname(configPath),
     );
 
-    return config;
+    if (evaluator.unresolved.length > 0) {
+      config.unresolved = evaluator.unresolved;
+    }
+
+    return this.removeUndefined(config);
+  }
+
+  /**
+   * Evaluate the exported config object
+   *
+   * Handles `module.exports` / `export default`, config functions
+   * (`(phase) => ({...})`) and plugin wrappers such as `withMDX(config)`,
+   * whose own changes are reported as unresolved.
+   */
+  private static evaluateConfig(
+    evaluator: StaticEvaluator,
+  ): Record<string, unknown> | undefined {
+    const exported = evaluator.getDefaultExport();
+    if (!exported) {
+      evaluator.unresolved.push({
+        path: "(root)",
+        reason: "no default export or module.exports found",
+      });
+      return undefined;
+    }
+
+    let value = ts.isFunctionDeclaration(exported)
+      ? evaluator.evaluate(exported)
+      : this.evaluateConfigExpression(evaluator, exported);
+
+    if (StaticEvaluator.isFunction(value)) {
+      value = evaluator.call(
+        value,
+        ["phase-production-build", { defaultConfig: {} }],
+        "(root)",
+      );
+    }
+
+    return this.isObject(value) ? value : undefined;
+  }
+
+  /**
+   * Evaluate a config expression, unwrapping imported plugin wrappers
+   */
+  private static evaluateConfigExpression(
+    evaluator: StaticEvaluator,
+    expression: ts.Expression,
+  ): unknown {
+    let node = expression;
+    while (
+      ts.isParenthesizedExpression(node) ||
+      ts.isAsExpression(node) ||
+      ts.isSatisfiesExpression(node)
+    ) {
+      node = node.expression;
+    }
+
+    const wrapper = ts.isCallExpression(node)
+      ? this.getImportedCallee(evaluator, node.expression)
+      : undefined;
+    if (!ts.isCallExpression(node) || !wrapper) {
+      return evaluator.evaluate(node);
+    }
+
+    const sourceFile = evaluator.getSourceFile();
+    evaluator.unresolved.push({
+      path: "(root)",
+      reason: `wrapped by ${wrapper}(); changes made by the plugin are not evaluated`,
+      line:
+        sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile))
+          .line + 1,
+    });
+
+    // The wrapped config is the first argument that looks like a config object
+    for (const argument of node.arguments) {
+      if (
+        ts.isObjectLiteralExpression(argument) ||
+        ts.isIdentifier(argument) ||
+        ts.isCallExpression(argument)
+      ) {
+        const value = this.evaluateConfigExpression(evaluator, argument);
+        if (this.isObject(value) || StaticEvaluator.isFunction(value)) {
+          return value;
+        }
+      }
+    }
+
+    return undefined;
   }
 
   /**
-   * Extract a string property from config content
+   * Get the name of an imported wrapper function, including curried
+   * wrappers such as `withBundleAnalyzer({ enabled })(config)` and wrappers
+   * created by an imported factory (`const withMDX = createMDX({ ... })`)
    */
-  private static extractStringProperty(
-    content: string,
-    property: string,
+  private static getImportedCallee(
+    evaluator: StaticEvaluator,
+    callee: ts.Expression,
   ): string | undefined {
-    const regex = new RegExp(`${property}\\s*:\\s*['"]([^'"]+)['"]`, "g");
-    const match = regex.exec(content);
-    return match ? match[1] : undefined;
+    let node = callee;
+    while (ts.isCallExpression(node) || ts.isPropertyAccessExpression(node)) {
+      node = node.expression;
+    }
+    const isWrapper =
+      ts.isIdentifier(node) &&
+      (evaluator.isImported(node.text) ||
+        evaluator.isImportedFactoryResult(node.text));
+    return isWrapper
+      ? callee.getText(evaluator.getSourceFile()).split("(")[0]
+      : undefined;
   }
 
   /**
-   * Extract a boolean property from config content
+   * Evaluate `redirects()`, `rewrites()` or `headers()`
    */
-  private static extractBooleanProperty(
-    content: string,
-    property: string,
-  ): boolean | undefined {
-    const regex = new RegExp(`${property}\\s*:\\s*(true|false)`, "g");
-    const match = regex.exec(content);
-    return match ? match[1] === "true" : undefined;
+  private static evaluateRules(
+    evaluator: StaticEvaluator,
+    raw: Record<string, unknown>,
+    key: "redirects" | "rewrites" | "headers",
+  ): unknown {
+    const method = getStaticMethod(raw, key);
+    if (method) {
+      return evaluator.call(method, [], key);
+    }
+    return raw[key];
+  }
+
+  /**
+   * Normalize rewrites into beforeFiles/afterFiles/fallback
+   */
+  private static extractRewrites(
+    evaluator: StaticEvaluator,
+    value: unknown,
+  ): NextRewrites | undefined {
+    if (Array.isArray(value)) {
+      return {
+        beforeFiles: [],
+        afterFiles: this.filterRules<Rewrite>(
+          evaluator,
+          value,
+          "rewrites",
+          ["source", "destination"],
+        ),
+        fallback: [],
+      };
+    }
+
+    if (!this.isObject(value)) {
+      return undefined;
+    }
+
+    const phases = ["beforeFiles", "afterFiles", "fallback"] as const;
+    const rewrites = {} as NextRewrites;
+    for (const phase of phases) {
+      const rules = value[phase];
+      rewrites[phase] = Array.isArray(rules)
+        ? this.filterRules<Rewrite>(
+            evaluator,
+            rules,
+            `rewrites.${phase}`,
+            ["source", "destination"],
+          )
+        : [];
+    }
+    return rewrites;
+  }
+
+  /**
+   * Keep rules that have the required string properties
+   */
+  private static filterRules<T>(
+    evaluator: StaticEvaluator,
+    rules: unknown[],
+    rulePath: string,
+    required: string[],
+  ): T[] {
+    return rules.filter((rule, index): rule is T => {
+      const valid =
+        this.isObject(rule) && required.every((key) => rule[key] !== undefined);
+      if (!valid && !evaluator.hasUnresolved(`${rulePath}[${index}]`)) {
+        evaluator.unresolved.push({
+          path: `${rulePath}[${index}]`,
+          reason: `rule is missing ${required.join(" or ")}`,
+        });
+      }
+      return valid;
+    });
   }
 
   /**
    * Extract images configuration
    */
   private static extractImagesConfig(
-    content: string,
+    value: unknown,
   ): NextConfig["images"] | undefined {
-    const imagesSection = this.extractObjectProperty(content, "images");
-    if (!imagesSection) {
+    if (!this.isObject(value)) {
       return undefined;
     }
 
     const images: NonNullable<NextConfig["images"]> = {};
 
-    // Extract domains
-    const domainsMatch = imagesSection.match(/domains\s*:\s*\[([^\]]*)\]/);
-    if (domainsMatch) {
-      images.domains = domainsMatch[1]
-        .split(",")
-        .map((d) => d.trim().replace(/['"]/g, ""))
-        .filter((d) => d);
+    if (Array.isArray(value.domains)) {
+      images.domains = value.domains.filter(
+        (domain: unknown): domain is string => typeof domain === "string",
+      );
+    }
+
+    if (Array.isArray(value.remotePatterns)) {
+      images.remotePatterns = value.remotePatterns.filter(
+        (pattern: unknown): pattern is RemotePattern =>
+          this.isObject(pattern) && typeof pattern.hostname === "string",
+      );
     }
 
-    return images;
+    return Object.keys(images).length > 0 ? images : undefined;
   }
 
   /**
    * Extract environment variables configuration
    */
   private static extractEnvConfig(
-    content: string,
+    value: unknown,
   ): Record<string, string> | undefined {
-    const envSection = this.extractObjectProperty(content, "env");
-    if (!envSection) {
+    if (!this.isObject(value)) {
       return undefined;
     }
 
     const env: Record<string, string> = {};
-
-    // Extract string properties from env object
-    const stringMatches = envSection.matchAll(/(\w+)\s*:\s*['"]([^'"]+)['"]/g);
-    for (const match of stringMatches) {
-      env[match[1]] = match[2];
+    for (const [key, envValue] of Object.entries(value)) {
+      if (typeof envValue === "string") {
+        env[key] = envValue;
+      }
     }
 
     return Object.keys(env).length > 0 ? env : undefined;
   }
 
   /**
-   * Extract experimental features configuration
+   * Extract i18n configuration
    */
-  private static extractExperimentalConfig(
-    content: string,
-  ): Record<string, any> | undefined {
-    const experimentalSection = this.extractObjectProperty(
-      content,
-      "experimental",
-    );
-    if (!experimentalSection) {
+  private static extractI18nConfig(value: unknown): I18nConfig | undefined {
+    if (
+      !this.isObject(value) ||
+      !Array.isArray(value.locales) ||
+      typeof value.defaultLocale !== "string"
+    ) {
       return undefined;
     }
 
-    const experimental: Record<string, any> = {};
-
-    // Look for common experimental features
-    const booleanFeatures = [
-      "serverComponentsExternalPackages",
-      "optimizeCss",
-      "serverMinification",
-      "webVitalsAttribution",
-    ];
+    const i18n: I18nConfig = {
+      locales: value.locales.filter(
+        (locale: unknown): locale is string => typeof locale === "string",
+      ),
+      defaultLocale: value.defaultLocale,
+    };
+    if (value.localeDetection === false) {
+      i18n.localeDetection = false;
+    }
+    if (Array.isArray(value.domains)) {
+      i18n.domains = value.domains.filter(
+        (domain: unknown) =>
+          this.isObject(domain) && typeof domain.domain === "string",
+      );
+    }
+    return i18n;
+  }
 
-    for (const feature of booleanFeatures) {
-      const value = this.extractBooleanProperty(experimentalSection, feature);
-      if (value !== undefined) {
-        experimental[feature] = value;
-      }
+  /**
+   * Extract page extensions, without leading dots
+   */
+  private static extractPageExtensions(value: unknown): string[] | undefined {
+    if (!Array.isArray(value)) {
+      return undefined;
     }
 
-    return Object.keys(experimental).length > 0 ? experimental : undefined;
+    const extensions = value
+      .filter((extension): extension is string => typeof extension === "string")
+      .map((extension) => extension.replace(/^\./, ""))
+      .filter(Boolean);
+    return extensions.length > 0 ? extensions : undefined;
   }
 
   /**
-   * Extract an object property from config content
+   * Get a value if it is a string
    */
-  private static extractObjectProperty(
-    content: string,
-    property: string,
-  ): string | undefined {
-    const regex = new RegExp(
-      `${property}\\s*:\\s*({[^{}]*(?:{[^{}]*}[^{}]*)*})`,
-      "g",
-    );
-    const match = regex.exec(content);
-    return match ? match[1] : undefined;
+  private static getString(value: unknown): string | undefined {
+    return typeof value === "string" ? value : undefined;
+  }
+
+  /**
+   * Check if a value is a plain object
+   */
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+  }
+
+  /**
+   * Drop keys whose value is undefined
+   */
+  private static removeUndefined(config: NextConfig): NextConfig {
+    return Object.fromEntries(
+      Object.entries(config).filter(([, value]) => value !== undefined),
+    ) as NextConfig;
   }
 
   /**
@@ -171,29 +391,7 @@ export class ConfigParser {
   private static async checkMiddlewareExists(
     projectRoot: string,
   ): Promise<boolean> {
-    const fs = await import("fs/promises");
-
-    const possibleMiddlewarePaths = [
-      path.join(projectRoot, "middleware.js"),
-      path.join(projectRoot, "middleware.ts"),
-      path.join(projectRoot, "middleware.mjs"),
-      path.join(projectRoot, "middleware.mts"),
-      path.join(projectRoot, "src", "middleware.js"),
-      path.join(projectRoot, "src", "middleware.ts"),
-      path.join(projectRoot, "src", "middleware.mjs"),
-      path.join(projectRoot, "src", "middleware.mts"),
-    ];
-
-    for (const middlewarePath of possibleMiddlewarePaths) {
-      try {
-        await fs.access(middlewarePath);
-        return true;
-      } catch {
-        // Continue checking other paths
-      }
-    }
-
-    return false;
+    return !!(await MiddlewareParser.findMiddlewareFile(projectRoot));
   }
 
   /**
@@ -240,10 +438,15 @@ export class ConfigParser {
 
     return !!(
       config.basePath ||
+      config.assetPrefix ||
       config.distDir ||
       config.trailingSlash !== undefined ||
       config.images ||
       config.env ||
+      config.i18n ||
+      config.redirects ||
+      config.rewrites ||
+      config.headers ||
       config.experimental ||
       config.hasMiddleware
     );
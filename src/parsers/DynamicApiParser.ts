@@ -0,0 +1,325 @@
+import ts from 'typescript';
+import type { DynamicApi, DynamicApiUsage } from '../types.js';
+
+/**
+ * Request-time functions by module they are imported from
+ */
+const DYNAMIC_FUNCTIONS: Record<string, DynamicApi[]> = {
+  'next/headers': ['cookies', 'headers', 'draftMode'],
+  'next/server': ['connection'],
+  'next/cache': ['unstable_noStore'],
+  'next/navigation': ['useSearchParams']
+};
+
+/**
+ * Parser for dynamic API usage
+ *
+ * Finds the calls and accesses that opt a route into dynamic rendering:
+ * `cookies()`, `headers()`, `draftMode()`, `connection()` and
+ * `unstable_noStore()` (matched through their imports, so aliases count and
+ * unrelated functions with the same name do not), `searchParams` read from
+ * the props of the default export or `generateMetadata`, and `fetch()`
+ * calls with `cache: 'no-store'` or `next: { revalidate: 0 }`. Calls to the
+ * `useSearchParams()` hook are reported too, along with the components a
+ * module renders inside `<Suspense>`.
+ */
+export class DynamicApiParser {
+  /**
+   * Parse the dynamic API usage of a module
+   */
+  static parse(content: string, fileName: string = 'module.tsx'): DynamicApiUsage[] {
+    return this.parseSourceFile(ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true));
+  }
+
+  /**
+   * Parse the dynamic API usage of an already parsed source file
+   */
+  static parseSourceFile(sourceFile: ts.SourceFile): DynamicApiUsage[] {
+    const functions = this.getImportedFunctions(sourceFile);
+    const propsReaders = this.getPropsReaders(sourceFile);
+    const usages: DynamicApiUsage[] = [];
+
+    const add = (api: DynamicApi, node: ts.Node) => {
+      usages.push({ api, line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1 });
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node)) {
+        const api = ts.isIdentifier(node.expression) ? functions.get(node.expression.text) : undefined;
+        if (api) {
+          add(api, node);
+        } else if (this.isUncachedFetch(node)) {
+          add('fetch-no-store', node);
+        }
+      }
+
+      // function Page({ searchParams }) / function Page(props) { props.searchParams }
+      if (this.isFunctionLike(node) && propsReaders.has(node)) {
+        const [props] = node.parameters;
+        if (props && ts.isObjectBindingPattern(props.name)) {
+          const element = props.name.elements.find(candidate =>
+            this.getBindingKey(candidate) === 'searchParams'
+          );
+          if (element) {
+            add('searchParams', element);
+          }
+        } else if (props && ts.isIdentifier(props.name) && node.body) {
+          this.findPropertyAccesses(node.body, props.name.text, 'searchParams').forEach(access => add('searchParams', access));
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return usages.sort((a, b) => a.line - b.line);
+  }
+
+  /**
+   * Get the local names of the components a module renders inside
+   * `<Suspense>` (`<Nav.Menu />` counts as `Nav`)
+   */
+  static getSuspendedComponents(sourceFile: ts.SourceFile): Set<string> {
+    const suspense = this.getSuspenseNames(sourceFile);
+    const components = new Set<string>();
+
+    const collect = (node: ts.Node): void => {
+      if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        const name = this.getRootName(node.tagName);
+        if (name) {
+          components.add(name);
+        }
+      }
+      ts.forEachChild(node, collect);
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isJsxElement(node) && this.isSuspense(node.openingElement.tagName, suspense)) {
+        node.children.forEach(collect);
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return components;
+  }
+
+  /**
+   * Get the local names `Suspense` is imported under from `react`, and the
+   * default or namespace imports of `react` (for `<React.Suspense>`)
+   */
+  private static getSuspenseNames(sourceFile: ts.SourceFile): { names: Set<string>; namespaces: Set<string> } {
+    const names = new Set<string>();
+    const namespaces = new Set<string>();
+
+    for (const statement of sourceFile.statements) {
+      if (
+        !ts.isImportDeclaration(statement) ||
+        !ts.isStringLiteral(statement.moduleSpecifier) ||
+        statement.moduleSpecifier.text !== 'react'
+      ) {
+        continue;
+      }
+
+      const importClause = statement.importClause;
+      if (importClause?.name) {
+        namespaces.add(importClause.name.text);
+      }
+      const bindings = importClause?.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        namespaces.add(bindings.name.text);
+      } else if (bindings) {
+        for (const element of bindings.elements) {
+          if ((element.propertyName ?? element.name).text === 'Suspense') {
+            names.add(element.name.text);
+          }
+        }
+      }
+    }
+
+    return { names, namespaces };
+  }
+
+  /**
+   * Check whether a JSX tag is `Suspense` imported from `react`
+   */
+  private static isSuspense(
+    tagName: ts.JsxTagNameExpression,
+    suspense: { names: Set<string>; namespaces: Set<string> }
+  ): boolean {
+    if (ts.isIdentifier(tagName)) {
+      return suspense.names.has(tagName.text);
+    }
+    return (
+      ts.isPropertyAccessExpression(tagName) &&
+      ts.isIdentifier(tagName.expression) &&
+      suspense.namespaces.has(tagName.expression.text) &&
+      tagName.name.text === 'Suspense'
+    );
+  }
+
+  /**
+   * Get the identifier a JSX tag name starts with
+   */
+  private static getRootName(tagName: ts.JsxTagNameExpression): string | undefined {
+    let expression: ts.Node = tagName;
+    while (ts.isPropertyAccessExpression(expression)) {
+      expression = expression.expression;
+    }
+    return ts.isIdentifier(expression) ? expression.text : undefined;
+  }
+
+  /**
+   * Map local names of imported request-time functions to the API they are
+   */
+  private static getImportedFunctions(sourceFile: ts.SourceFile): Map<string, DynamicApi> {
+    const functions = new Map<string, DynamicApi>();
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+        continue;
+      }
+
+      const apis = DYNAMIC_FUNCTIONS[statement.moduleSpecifier.text];
+      const bindings = statement.importClause?.namedBindings;
+      if (!apis || !bindings || !ts.isNamedImports(bindings)) {
+        continue;
+      }
+
+      for (const element of bindings.elements) {
+        const imported = (element.propertyName ?? element.name).text as DynamicApi;
+        if (apis.includes(imported)) {
+          functions.set(element.name.text, imported);
+        }
+      }
+    }
+
+    return functions;
+  }
+
+  /**
+   * Get the functions receiving page props: the default export and
+   * `generateMetadata`
+   */
+  private static getPropsReaders(sourceFile: ts.SourceFile): Set<ts.Node> {
+    const readers = new Set<ts.Node>();
+    const locals = new Map<string, ts.Node>();
+    let defaultExport: string | undefined;
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isFunctionDeclaration(statement)) {
+        const isDefault = statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+        if (isDefault || statement.name?.text === 'generateMetadata') {
+          readers.add(statement);
+        } else if (statement.name) {
+          locals.set(statement.name.text, statement);
+        }
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          const initializer = declaration.initializer;
+          if (ts.isIdentifier(declaration.name) && initializer && this.isFunctionLike(initializer)) {
+            if (declaration.name.text === 'generateMetadata') {
+              readers.add(initializer);
+            } else {
+              locals.set(declaration.name.text, initializer);
+            }
+          }
+        }
+      } else if (ts.isExportAssignment(statement)) {
+        // export default async ({ searchParams }) => ... / export default Page
+        if (this.isFunctionLike(statement.expression)) {
+          readers.add(statement.expression);
+        } else if (ts.isIdentifier(statement.expression)) {
+          defaultExport = statement.expression.text;
+        }
+      }
+    }
+
+    const exported = defaultExport ? locals.get(defaultExport) : undefined;
+    if (exported) {
+      readers.add(exported);
+    }
+    return readers;
+  }
+
+  /**
+   * Check whether a call is `fetch()` opting out of the data cache
+   */
+  private static isUncachedFetch(node: ts.CallExpression): boolean {
+    if (!ts.isIdentifier(node.expression) || node.expression.text !== 'fetch') {
+      return false;
+    }
+
+    const options = node.arguments[1];
+    if (!options || !ts.isObjectLiteralExpression(options)) {
+      return false;
+    }
+
+    const cache = this.getProperty(options, 'cache');
+    if (cache && ts.isStringLiteralLike(cache) && cache.text === 'no-store') {
+      return true;
+    }
+
+    const next = this.getProperty(options, 'next');
+    const revalidate = next && ts.isObjectLiteralExpression(next) ? this.getProperty(next, 'revalidate') : undefined;
+    return !!revalidate && ts.isNumericLiteral(revalidate) && Number(revalidate.text) === 0;
+  }
+
+  /**
+   * Get the value of a property in an object literal
+   */
+  private static getProperty(object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+    for (const property of object.properties) {
+      if (ts.isPropertyAssignment(property) && this.getPropertyName(property.name) === name) {
+        return property.initializer;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the text of a property name
+   */
+  private static getPropertyName(name: ts.PropertyName): string | undefined {
+    return ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : undefined;
+  }
+
+  /**
+   * Get the property a binding element reads (`{ searchParams: query }` reads `searchParams`)
+   */
+  private static getBindingKey(element: ts.BindingElement): string | undefined {
+    if (element.propertyName) {
+      return this.getPropertyName(element.propertyName);
+    }
+    return ts.isIdentifier(element.name) ? element.name.text : undefined;
+  }
+
+  /**
+   * Find `object.property` accesses in a function body
+   */
+  private static findPropertyAccesses(body: ts.Node, object: string, property: string): ts.Node[] {
+    const accesses: ts.Node[] = [];
+    const visit = (node: ts.Node): void => {
+      if (
+        ts.isPropertyAccessExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === object &&
+        node.name.text === property
+      ) {
+        accesses.push(node);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(body);
+    return accesses;
+  }
+
+  /**
+   * Check whether a node is a function that could be a component
+   */
+  private static isFunctionLike(node: ts.Node): node is
+    ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction {
+    return ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node);
+  }
+}
@@ -0,0 +1,429 @@
+import ts from 'typescript';
+import type { ExportKind, LiteralValue, ModuleExport } from '../types.js';
+
+/**
+ * Parser for module exports
+ *
+ * Uses the TypeScript compiler API to find every export of a module, so
+ * exports inside comments or strings are ignored and aliased exports,
+ * re-exports and async functions are all recognized. Literal values
+ * (e.g. `export const revalidate = 60`) are resolved when statically known.
+ */
+export class ExportParser {
+  /**
+   * Parse all exports from file content
+   */
+  static parse(content: string, fileName: string = 'module.tsx'): ModuleExport[] {
+    const sourceFile = this.createSourceFile(content, fileName);
+    const declarations = this.collectDeclarations(sourceFile);
+    const exports: ModuleExport[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isExportDeclaration(statement)) {
+        exports.push(...this.parseExportDeclaration(statement, sourceFile, declarations));
+        continue;
+      }
+
+      if (ts.isExportAssignment(statement)) {
+        // export default <expression> / export = <expression>
+        const value = this.evaluateLiteral(statement.expression, declarations);
+        exports.push({
+          name: 'default',
+          kind: this.getExpressionKind(statement.expression, declarations),
+          ...(this.isAsyncExpression(statement.expression) && { isAsync: true }),
+          ...(value !== undefined && { value }),
+          line: this.getLine(statement, sourceFile)
+        });
+        continue;
+      }
+
+      if (!this.hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+        continue;
+      }
+
+      const isDefault = this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+      const line = this.getLine(statement, sourceFile);
+
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          for (const name of this.getBindingNames(declaration.name)) {
+            const initializer = ts.isIdentifier(declaration.name) ? declaration.initializer : undefined;
+            const value = initializer ? this.evaluateLiteral(initializer, declarations) : undefined;
+            exports.push({
+              name,
+              kind: initializer ? this.getExpressionKind(initializer, declarations) : 'variable',
+              ...(initializer && this.isAsyncExpression(initializer) && { isAsync: true }),
+              ...(value !== undefined && { value }),
+              line
+            });
+          }
+        }
+        continue;
+      }
+
+      const declarationName = this.getDeclarationName(statement);
+      exports.push({
+        name: isDefault ? 'default' : declarationName || 'default',
+        kind: this.getDeclarationKind(statement),
+        ...(isDefault && declarationName && { localName: declarationName }),
+        ...(this.hasModifier(statement, ts.SyntaxKind.AsyncKeyword) && { isAsync: true }),
+        ...(this.isTypeDeclaration(statement) && { isTypeOnly: true }),
+        line
+      });
+    }
+
+    return exports;
+  }
+
+  /**
+   * Create a TypeScript source file for the given content
+   */
+  static createSourceFile(content: string, fileName: string = 'module.tsx'): ts.SourceFile {
+    return ts.createSourceFile(
+      fileName,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(fileName)
+    );
+  }
+
+  /**
+   * Resolve an expression to a literal value, if statically known
+   *
+   * Identifiers are resolved through module-level `const` declarations.
+   */
+  static evaluateLiteral(
+    expression: ts.Expression,
+    declarations: Map<string, ts.Node> = new Map(),
+    seen: Set<string> = new Set()
+  ): LiteralValue | undefined {
+    const node = this.unwrapExpression(expression);
+
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      return node.text;
+    }
+    if (ts.isNumericLiteral(node)) {
+      return Number(node.text);
+    }
+    if (node.kind === ts.SyntaxKind.TrueKeyword) {
+      return true;
+    }
+    if (node.kind === ts.SyntaxKind.FalseKeyword) {
+      return false;
+    }
+    if (node.kind === ts.SyntaxKind.NullKeyword) {
+      return null;
+    }
+    if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken) {
+      const operand = this.evaluateLiteral(node.operand, declarations, seen);
+      return typeof operand === 'number' ? -operand : undefined;
+    }
+    if (ts.isIdentifier(node)) {
+      if (node.text === 'Infinity') {
+        return Infinity;
+      }
+      const declaration = declarations.get(node.text);
+      if (
+        declaration &&
+        !seen.has(node.text) &&
+        ts.isVariableDeclaration(declaration) &&
+        declaration.initializer &&
+        ts.isIdentifier(declaration.name) &&
+        (ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const) !== 0
+      ) {
+        return this.evaluateLiteral(declaration.initializer, declarations, new Set([...seen, node.text]));
+      }
+      return undefined;
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+      const values: LiteralValue[] = [];
+      for (const element of node.elements) {
+        const value = this.evaluateLiteral(element, declarations, seen);
+        if (value === undefined) {
+          return undefined;
+        }
+        values.push(value);
+      }
+      return values;
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+      const result: Record<string, LiteralValue> = {};
+      for (const property of node.properties) {
+        if (!ts.isPropertyAssignment(property)) {
+          return undefined;
+        }
+        const key = this.getPropertyName(property.name);
+        const value = this.evaluateLiteral(property.initializer, declarations, seen);
+        if (key === undefined || value === undefined) {
+          return undefined;
+        }
+        result[key] = value;
+      }
+      return result;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Collect module-level declarations by local name
+   */
+  static collectDeclarations(sourceFile: ts.SourceFile): Map<string, ts.Node> {
+    const declarations = new Map<string, ts.Node>();
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name)) {
+            declarations.set(declaration.name.text, declaration);
+          }
+        }
+        continue;
+      }
+
+      const name = this.getDeclarationName(statement);
+      if (name) {
+        declarations.set(name, statement);
+      }
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Get a static property name (identifier, string or numeric literal)
+   */
+  static getPropertyName(name: ts.PropertyName): string | undefined {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    if (ts.isComputedPropertyName(name) && ts.isStringLiteral(name.expression)) {
+      return name.expression.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Parse `export { a, b as c }` and `export * from '...'` declarations
+   */
+  private static parseExportDeclaration(
+    statement: ts.ExportDeclaration,
+    sourceFile: ts.SourceFile,
+    declarations: Map<string, ts.Node>
+  ): ModuleExport[] {
+    const line = this.getLine(statement, sourceFile);
+    const source = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+      ? statement.moduleSpecifier.text
+      : undefined;
+
+    // export * from './module' / export * as ns from './module'
+    if (!statement.exportClause || ts.isNamespaceExport(statement.exportClause)) {
+      return [{
+        name: statement.exportClause ? statement.exportClause.name.text : '*',
+        kind: 're-export',
+        ...(statement.isTypeOnly && { isTypeOnly: true }),
+        ...(source && { source }),
+        line
+      }];
+    }
+
+    return statement.exportClause.elements.map(element => {
+      const name = element.name.text;
+      const localName = element.propertyName?.text ?? name;
+      const isTypeOnly = statement.isTypeOnly || element.isTypeOnly;
+
+      if (source) {
+        return {
+          name,
+          kind: 're-export' as ExportKind,
+          ...(localName !== name && { localName }),
+          ...(isTypeOnly && { isTypeOnly: true }),
+          source,
+          line
+        };
+      }
+
+      const declaration = declarations.get(localName);
+      const exported: ModuleExport = {
+        name,
+        kind: declaration ? this.getLocalKind(declaration, declarations) : 'unknown',
+        ...(localName !== name && { localName }),
+        line
+      };
+
+      if (isTypeOnly || (declaration && this.isTypeDeclaration(declaration))) {
+        exported.isTypeOnly = true;
+      }
+      if (declaration && this.isAsyncDeclaration(declaration)) {
+        exported.isAsync = true;
+      }
+      if (declaration && ts.isVariableDeclaration(declaration) && declaration.initializer) {
+        const value = this.evaluateLiteral(declaration.initializer, declarations);
+        if (value !== undefined) {
+          exported.value = value;
+        }
+      }
+
+      return exported;
+    });
+  }
+
+  /**
+   * Get the kind of a local declaration
+   */
+  private static getLocalKind(declaration: ts.Node, declarations: Map<string, ts.Node>): ExportKind {
+    if (ts.isVariableDeclaration(declaration)) {
+      return declaration.initializer
+        ? this.getExpressionKind(declaration.initializer, declarations)
+        : 'variable';
+    }
+    return this.getDeclarationKind(declaration);
+  }
+
+  /**
+   * Get the kind of a declaration statement
+   */
+  private static getDeclarationKind(statement: ts.Node): ExportKind {
+    if (ts.isFunctionDeclaration(statement)) return 'function';
+    if (ts.isClassDeclaration(statement)) return 'class';
+    if (ts.isInterfaceDeclaration(statement)) return 'interface';
+    if (ts.isTypeAliasDeclaration(statement)) return 'type';
+    if (ts.isEnumDeclaration(statement)) return 'enum';
+    if (ts.isModuleDeclaration(statement)) return 'namespace';
+    return 'unknown';
+  }
+
+  /**
+   * Get the kind of an expression (functions are reported as such)
+   */
+  private static getExpressionKind(expression: ts.Expression, declarations: Map<string, ts.Node>): ExportKind {
+    const node = this.unwrapExpression(expression);
+
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+      return 'function';
+    }
+    if (ts.isClassExpression(node)) {
+      return 'class';
+    }
+    if (ts.isIdentifier(node)) {
+      const declaration = declarations.get(node.text);
+      if (declaration && !ts.isVariableDeclaration(declaration)) {
+        return this.getDeclarationKind(declaration);
+      }
+    }
+    return 'variable';
+  }
+
+  /**
+   * Check whether an expression is an async function
+   */
+  private static isAsyncExpression(expression: ts.Expression): boolean {
+    const node = this.unwrapExpression(expression);
+    return (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) &&
+      this.hasModifier(node, ts.SyntaxKind.AsyncKeyword);
+  }
+
+  /**
+   * Check whether a local declaration is an async function
+   */
+  private static isAsyncDeclaration(declaration: ts.Node): boolean {
+    if (ts.isVariableDeclaration(declaration)) {
+      return !!declaration.initializer && this.isAsyncExpression(declaration.initializer);
+    }
+    return this.hasModifier(declaration, ts.SyntaxKind.AsyncKeyword);
+  }
+
+  /**
+   * Check whether a declaration only exists at the type level
+   */
+  private static isTypeDeclaration(statement: ts.Node): boolean {
+    return ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement);
+  }
+
+  /**
+   * Strip parentheses, `as`, `satisfies` and non-null assertions
+   */
+  private static unwrapExpression(expression: ts.Expression): ts.Expression {
+    let node = expression;
+    while (
+      ts.isParenthesizedExpression(node) ||
+      ts.isAsExpression(node) ||
+      ts.isSatisfiesExpression(node) ||
+      ts.isNonNullExpression(node) ||
+      ts.isTypeAssertionExpression(node)
+    ) {
+      node = node.expression;
+    }
+    return node;
+  }
+
+  /**
+   * Get the declared name of a statement, if any
+   */
+  private static getDeclarationName(statement: ts.Node): string | undefined {
+    if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isModuleDeclaration(statement)) &&
+      statement.name &&
+      ts.isIdentifier(statement.name)
+    ) {
+      return statement.name.text;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get all names bound by a (possibly destructuring) binding
+   */
+  private static getBindingNames(name: ts.BindingName): string[] {
+    if (ts.isIdentifier(name)) {
+      return [name.text];
+    }
+
+    const names: string[] = [];
+    for (const element of name.elements) {
+      if (ts.isBindingElement(element)) {
+        names.push(...this.getBindingNames(element.name));
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Check if a node carries a modifier
+   */
+  private static hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    if (!ts.canHaveModifiers(node)) {
+      return false;
+    }
+    return ts.getModifiers(node)?.some(modifier => modifier.kind === kind) ?? false;
+  }
+
+  /**
+   * Get the 1-based line of a node
+   */
+  private static getLine(node: ts.Node, sourceFile: ts.SourceFile): number {
+    return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+  }
+
+  /**
+   * Pick the script kind from the file extension
+   */
+  private static getScriptKind(fileName: string): ts.ScriptKind {
+    if (fileName.endsWith('.ts') || fileName.endsWith('.mts') || fileName.endsWith('.cts')) {
+      return ts.ScriptKind.TS;
+    }
+    if (fileName.endsWith('.jsx')) {
+      return ts.ScriptKind.JSX;
+    }
+    if (fileName.endsWith('.js') || fileName.endsWith('.mjs') || fileName.endsWith('.cjs')) {
+      return ts.ScriptKind.JS;
+    }
+    return ts.ScriptKind.TSX;
+  }
+}
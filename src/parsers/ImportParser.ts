@@ -0,0 +1,253 @@
+import ts from 'typescript';
+import type { ModuleImport } from '../types.js';
+
+/**
+ * Pages Router exports Next.js strips from the client bundle of a page
+ */
+const DATA_FETCHING_EXPORTS = ['getServerSideProps', 'getStaticProps', 'getStaticPaths'];
+
+/**
+ * Parser for module imports
+ *
+ * Finds static imports, `export ... from` re-exports, dynamic `import()`
+ * and `require()` calls with a string literal specifier. Type-only imports
+ * are skipped since they are erased at build time.
+ */
+export class ImportParser {
+  /**
+   * Parse all runtime imports from file content
+   */
+  static parse(content: string, fileName: string = 'module.tsx'): ModuleImport[] {
+    return this.parseSourceFile(ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true));
+  }
+
+  /**
+   * Parse all runtime imports from an already parsed source file
+   *
+   * @param skip - Nodes whose imports are left out (see `getDataFetchingCode`)
+   */
+  static parseSourceFile(sourceFile: ts.SourceFile, skip: Set<ts.Node> = new Set()): ModuleImport[] {
+    const imports: ModuleImport[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (skip.has(statement)) {
+        continue;
+      } else if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        if (!statement.importClause?.isTypeOnly) {
+          imports.push({
+            specifier: statement.moduleSpecifier.text,
+            kind: 'import',
+            bindings: this.getImportBindings(statement.importClause),
+            line: this.getLine(statement, sourceFile)
+          });
+        }
+      } else if (
+        ts.isExportDeclaration(statement) &&
+        statement.moduleSpecifier &&
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        !statement.isTypeOnly
+      ) {
+        imports.push({
+          specifier: statement.moduleSpecifier.text,
+          kind: 'reexport',
+          bindings: this.getReexportBindings(statement),
+          line: this.getLine(statement, sourceFile)
+        });
+      }
+    }
+
+    const visit = (node: ts.Node): void => {
+      if (skip.has(node)) {
+        return;
+      }
+      if (ts.isCallExpression(node)) {
+        const [specifier] = node.arguments;
+        const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+        const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+
+        if ((isDynamicImport || isRequire) && specifier && ts.isStringLiteralLike(specifier)) {
+          imports.push({
+            specifier: specifier.text,
+            kind: isDynamicImport ? 'dynamic' : 'require',
+            bindings: [{ imported: '*', local: '*' }],
+            line: this.getLine(node, sourceFile)
+          });
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return imports;
+  }
+
+  /**
+   * Get the top-level code Next.js strips from a Pages Router page: the
+   * `getServerSideProps`, `getStaticProps` and `getStaticPaths` exports, plus
+   * the declarations and imports that only they use
+   */
+  static getDataFetchingCode(sourceFile: ts.SourceFile): Set<ts.Node> {
+    const stripped = new Set<ts.Node>();
+    const units: { node: ts.Node; names: string[]; refs: Set<string> }[] = [];
+    const imports: { statement: ts.ImportDeclaration; nodes: ts.Node[] }[] = [];
+    const roots = new Set<string>();
+
+    for (const statement of sourceFile.statements) {
+      const exported = ts.canHaveModifiers(statement) &&
+        ts.getModifiers(statement)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+
+      if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+        const name = statement.name?.text;
+        units.push({ node: statement, names: name ? [name] : [], refs: this.getReferences(statement) });
+        if (exported && name && DATA_FETCHING_EXPORTS.includes(name)) {
+          roots.add(name);
+        }
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          const names = this.getBoundNames(declaration.name);
+          units.push({ node: declaration, names, refs: this.getReferences(declaration) });
+          if (exported) {
+            names.filter(name => DATA_FETCHING_EXPORTS.includes(name)).forEach(name => roots.add(name));
+          }
+        }
+      } else if (ts.isImportDeclaration(statement) && statement.importClause && !statement.importClause.isTypeOnly) {
+        const { name, namedBindings } = statement.importClause;
+        const nodes: ts.Node[] = [
+          ...(name ? [statement.importClause] : []),
+          ...(namedBindings && ts.isNamespaceImport(namedBindings) ? [namedBindings] : []),
+          ...(namedBindings && ts.isNamedImports(namedBindings) ? namedBindings.elements.filter(element => !element.isTypeOnly) : [])
+        ];
+        for (const node of nodes) {
+          const local = ts.isImportClause(node) ? node.name! : (node as ts.NamespaceImport | ts.ImportSpecifier).name;
+          units.push({ node, names: [local.text], refs: new Set() });
+        }
+        imports.push({ statement, nodes });
+      } else if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        const elements = statement.exportClause.elements;
+        const dataFetching = elements.filter(element => DATA_FETCHING_EXPORTS.includes(element.name.text));
+        if (statement.moduleSpecifier && dataFetching.length > 0 && dataFetching.length === elements.length) {
+          // export { getStaticProps } from './data'
+          stripped.add(statement);
+        } else if (!statement.moduleSpecifier) {
+          // export { loadProps as getStaticProps }
+          dataFetching.forEach(element => roots.add((element.propertyName ?? element.name).text));
+          const kept = elements.filter(element => !dataFetching.includes(element));
+          units.push({ node: statement, names: [], refs: new Set(kept.map(element => (element.propertyName ?? element.name).text)) });
+        }
+      } else if (!ts.isInterfaceDeclaration(statement) && !ts.isTypeAliasDeclaration(statement)) {
+        units.push({ node: statement, names: [], refs: this.getReferences(statement) });
+      }
+    }
+
+    if (roots.size === 0 && stripped.size === 0) {
+      return stripped;
+    }
+
+    // Strip the data fetching exports, then every declaration left referenced
+    // by stripped code only, until nothing changes
+    units.filter(unit => unit.names.some(name => roots.has(name))).forEach(unit => stripped.add(unit.node));
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const unit of units) {
+        if (stripped.has(unit.node) || unit.names.length === 0) {
+          continue;
+        }
+        const users = units.filter(other => other !== unit && unit.names.some(name => other.refs.has(name)));
+        if (users.length > 0 && users.every(user => stripped.has(user.node))) {
+          stripped.add(unit.node);
+          changed = true;
+        }
+      }
+    }
+
+    for (const { statement, nodes } of imports) {
+      if (nodes.length > 0 && nodes.every(node => stripped.has(node))) {
+        stripped.add(statement);
+      }
+    }
+
+    return stripped;
+  }
+
+  /**
+   * Get the names bound by a declaration name
+   */
+  private static getBoundNames(name: ts.BindingName): string[] {
+    if (ts.isIdentifier(name)) {
+      return [name.text];
+    }
+    return name.elements.flatMap(element => ts.isBindingElement(element) ? this.getBoundNames(element.name) : []);
+  }
+
+  /**
+   * Get the identifiers a node references; property names are left out
+   */
+  private static getReferences(node: ts.Node): Set<string> {
+    const references = new Set<string>();
+    const visit = (child: ts.Node): void => {
+      if (ts.isIdentifier(child)) {
+        references.add(child.text);
+      } else if (ts.isPropertyAccessExpression(child)) {
+        visit(child.expression);
+      } else {
+        ts.forEachChild(child, visit);
+      }
+    };
+    ts.forEachChild(node, visit);
+    return references;
+  }
+
+  /**
+   * Get the bindings of an import clause
+   */
+  private static getImportBindings(importClause: ts.ImportClause | undefined): ModuleImport['bindings'] {
+    if (!importClause) {
+      return []; // Side-effect import
+    }
+
+    const bindings: ModuleImport['bindings'] = [];
+    if (importClause.name) {
+      bindings.push({ imported: 'default', local: importClause.name.text });
+    }
+
+    const namedBindings = importClause.namedBindings;
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+      bindings.push({ imported: '*', local: namedBindings.name.text });
+    } else if (namedBindings) {
+      for (const element of namedBindings.elements) {
+        if (!element.isTypeOnly) {
+          bindings.push({ imported: (element.propertyName ?? element.name).text, local: element.name.text });
+        }
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Get the bindings re-exported by `export ... from`
+   */
+  private static getReexportBindings(statement: ts.ExportDeclaration): ModuleImport['bindings'] {
+    const clause = statement.exportClause;
+    if (!clause) {
+      return [{ imported: '*', local: '*' }];
+    }
+
+    if (ts.isNamespaceExport(clause)) {
+      return [{ imported: '*', local: clause.name.text }];
+    }
+
+    return clause.elements
+      .filter(element => !element.isTypeOnly)
+      .map(element => ({ imported: (element.propertyName ?? element.name).text, local: element.name.text }));
+  }
+
+  /**
+   * Get the 1-based line of a node
+   */
+  private static getLine(node: ts.Node, sourceFile: ts.SourceFile): number {
+    return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+  }
+}
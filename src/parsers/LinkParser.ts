@@ -0,0 +1,312 @@
+import ts from 'typescript';
+import type { LinkKind, LinkUsage } from '../types.js';
+
+/**
+ * A URL found in a navigation config or sitemap
+ */
+type LinkTarget = Omit<LinkUsage, 'kind'>;
+
+/**
+ * Router methods that navigate to a URL
+ */
+const ROUTER_METHODS: LinkKind[] = ['push', 'replace', 'prefetch'];
+
+/**
+ * Functions from next/navigation that redirect to a URL
+ */
+const REDIRECT_FUNCTIONS: LinkKind[] = ['redirect', 'permanentRedirect'];
+
+/**
+ * Names bound to Next.js navigation APIs in a module
+ */
+interface NavigationBindings {
+  /** Local names of the next/link component */
+  linkComponents: Set<string>;
+  /** Local names of useRouter from next/navigation or next/router */
+  useRouter: Set<string>;
+  /** Router objects: `useRouter()` results and the next/router singleton */
+  routers: Set<string>;
+  /** Functions that navigate by themselves (`redirect`, destructured `push`) */
+  functions: Map<string, LinkKind>;
+}
+
+/**
+ * Parser for internal link targets
+ *
+ * Finds the `href` of next/link `<Link>` elements, the URL passed to
+ * `router.push()`, `router.replace()` and `router.prefetch()` (on
+ * `useRouter()` results, destructured methods and the next/router
+ * singleton) and to `redirect()` and `permanentRedirect()`. Components and
+ * functions are matched through their imports. Only string literals, template
+ * literals and `{ pathname }` objects are collected; other expressions cannot
+ * be checked statically.
+ */
+export class LinkParser {
+  /**
+   * Parse the link targets of a module
+   */
+  static parse(content: string, fileName: string = 'module.tsx'): LinkUsage[] {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+    const bindings = this.getBindings(sourceFile);
+    const links: LinkUsage[] = [];
+
+    const add = (kind: LinkKind, expression: ts.Expression | undefined, node: ts.Node) => {
+      const href = expression && this.getHref(expression, sourceFile);
+      if (href !== undefined) {
+        links.push({ href, kind, line: this.getLine(node, sourceFile) });
+      }
+    };
+
+    const visit = (node: ts.Node): void => {
+      // <Link href="/about">
+      if (
+        (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) &&
+        ts.isIdentifier(node.tagName) &&
+        bindings.linkComponents.has(node.tagName.text)
+      ) {
+        const href = node.attributes.properties.find(
+          (attribute): attribute is ts.JsxAttribute =>
+            ts.isJsxAttribute(attribute) && attribute.name.getText(sourceFile) === 'href'
+        );
+        const initializer = href?.initializer;
+        if (initializer && ts.isStringLiteral(initializer)) {
+          add('link', initializer, href);
+        } else if (initializer && ts.isJsxExpression(initializer)) {
+          add('link', initializer.expression, href);
+        }
+      }
+
+      if (ts.isCallExpression(node)) {
+        const kind = this.getCallKind(node, bindings);
+        if (kind) {
+          add(kind, node.arguments[0], node);
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return links;
+  }
+
+  /**
+   * Parse the URLs a navigation config points to: string `href` properties
+   * of object literals (`{ label: 'Pricing', href: '/pricing' }`) and `href`
+   * attributes of any element
+   */
+  static parseHrefs(content: string, fileName: string = 'module.tsx'): LinkTarget[] {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+    const targets: LinkTarget[] = [];
+
+    const visit = (node: ts.Node): void => {
+      const isHref = (ts.isPropertyAssignment(node) || ts.isJsxAttribute(node)) &&
+        node.name.getText(sourceFile) === 'href';
+      let initializer = isHref ? node.initializer : undefined;
+      if (initializer && ts.isJsxExpression(initializer)) {
+        initializer = initializer.expression;
+      }
+
+      const href = initializer && this.getHref(initializer, sourceFile);
+      if (href !== undefined) {
+        targets.push({ href, line: this.getLine(node, sourceFile) });
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return targets;
+  }
+
+  /**
+   * Parse the paths listed by a `sitemap.ts`: every string or template
+   * literal that is a path or an absolute URL. The origin of absolute URLs
+   * and a substitution leading a template literal (`${baseUrl}/about`) are
+   * dropped.
+   */
+  static parseSitemap(content: string, fileName: string = 'sitemap.ts'): LinkTarget[] {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true);
+    const targets: LinkTarget[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+        return;
+      }
+
+      if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) {
+        const href = this.getSitemapPath(this.getHref(node, sourceFile)!);
+        if (href !== undefined) {
+          targets.push({ href, line: this.getLine(node, sourceFile) });
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return targets;
+  }
+
+  /**
+   * Parse the `<loc>` URLs of a sitemap.xml as paths
+   */
+  static parseSitemapXml(content: string): LinkTarget[] {
+    const targets: LinkTarget[] = [];
+    const locPattern = /<loc>\s*([^<]*?)\s*<\/loc>/g;
+    let match: RegExpExecArray | null;
+    while ((match = locPattern.exec(content)) !== null) {
+      const href = this.getSitemapPath(match[1].replace(/&amp;/g, '&'));
+      if (href !== undefined) {
+        targets.push({ href, line: content.slice(0, match.index).split('\n').length });
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Get the path of a sitemap entry, if it is a path or an absolute URL
+   */
+  private static getSitemapPath(value: string): string | undefined {
+    const withoutBase = value.replace(/^\$\{[^}]*\}/, '');
+    const withoutOrigin = withoutBase.replace(/^https?:\/\/[^/]*/, '');
+    if (withoutOrigin !== withoutBase && withoutOrigin === '') {
+      return '/';
+    }
+    return withoutOrigin.startsWith('/') && !withoutOrigin.startsWith('//') ? withoutOrigin : undefined;
+  }
+
+  /**
+   * Get the 1-based line a node starts on
+   */
+  private static getLine(node: ts.Node, sourceFile: ts.SourceFile): number {
+    return sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+  }
+
+  /**
+   * Collect the local names of next/link, next/navigation and next/router APIs
+   */
+  private static getBindings(sourceFile: ts.SourceFile): NavigationBindings {
+    const bindings: NavigationBindings = {
+      linkComponents: new Set(),
+      useRouter: new Set(),
+      routers: new Set(),
+      functions: new Map()
+    };
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+        continue;
+      }
+
+      const specifier = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (!clause || clause.isTypeOnly) {
+        continue;
+      }
+
+      if (clause.name && specifier === 'next/link') {
+        bindings.linkComponents.add(clause.name.text);
+      }
+      // import Router from 'next/router'
+      if (clause.name && specifier === 'next/router') {
+        bindings.routers.add(clause.name.text);
+      }
+
+      const namedBindings = clause.namedBindings;
+      if (!namedBindings || !ts.isNamedImports(namedBindings)) {
+        continue;
+      }
+
+      for (const element of namedBindings.elements) {
+        const imported = (element.propertyName ?? element.name).text;
+        if (imported === 'useRouter' && (specifier === 'next/navigation' || specifier === 'next/router')) {
+          bindings.useRouter.add(element.name.text);
+        } else if (specifier === 'next/navigation' && REDIRECT_FUNCTIONS.includes(imported as LinkKind)) {
+          bindings.functions.set(element.name.text, imported as LinkKind);
+        }
+      }
+    }
+
+    // const router = useRouter() / const { push } = useRouter()
+    const visit = (node: ts.Node): void => {
+      if (ts.isVariableDeclaration(node) && node.initializer && this.isUseRouterCall(node.initializer, bindings)) {
+        if (ts.isIdentifier(node.name)) {
+          bindings.routers.add(node.name.text);
+        } else if (ts.isObjectBindingPattern(node.name)) {
+          for (const element of node.name.elements) {
+            const property = element.propertyName ?? element.name;
+            const method = ts.isIdentifier(property) ? property.text : undefined;
+            if (method && ROUTER_METHODS.includes(method as LinkKind) && ts.isIdentifier(element.name)) {
+              bindings.functions.set(element.name.text, method as LinkKind);
+            }
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return bindings;
+  }
+
+  /**
+   * Get how a call navigates, if it is a router method or redirect
+   */
+  private static getCallKind(node: ts.CallExpression, bindings: NavigationBindings): LinkKind | undefined {
+    const callee = node.expression;
+    if (ts.isIdentifier(callee)) {
+      return bindings.functions.get(callee.text);
+    }
+
+    if (!ts.isPropertyAccessExpression(callee) || !ROUTER_METHODS.includes(callee.name.text as LinkKind)) {
+      return undefined;
+    }
+
+    // router.push(...) / useRouter().push(...)
+    const receiver = callee.expression;
+    const isRouter = (ts.isIdentifier(receiver) && bindings.routers.has(receiver.text)) ||
+      this.isUseRouterCall(receiver, bindings);
+    return isRouter ? callee.name.text as LinkKind : undefined;
+  }
+
+  /**
+   * Check whether an expression is a `useRouter()` call
+   */
+  private static isUseRouterCall(expression: ts.Expression, bindings: NavigationBindings): boolean {
+    return ts.isCallExpression(expression) &&
+      ts.isIdentifier(expression.expression) &&
+      bindings.useRouter.has(expression.expression.text);
+  }
+
+  /**
+   * Get the URL an href expression points to; template literal
+   * substitutions are kept as written
+   */
+  private static getHref(expression: ts.Expression, sourceFile: ts.SourceFile): string | undefined {
+    if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+      return expression.text;
+    }
+
+    if (ts.isTemplateExpression(expression)) {
+      return expression.head.text + expression.templateSpans
+        .map(span => `\${${span.expression.getText(sourceFile)}}${span.literal.text}`)
+        .join('');
+    }
+
+    // { pathname: '/posts/[id]', query: { id } }
+    if (ts.isObjectLiteralExpression(expression)) {
+      const pathname = expression.properties.find(
+        (property): property is ts.PropertyAssignment =>
+          ts.isPropertyAssignment(property) && property.name.getText(sourceFile) === 'pathname'
+      );
+      return pathname ? this.getHref(pathname.initializer, sourceFile) : undefined;
+    }
+
+    if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+      return this.getHref(expression.expression, sourceFile);
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,218 @@
+import path from 'path';
+import type {
+  MiddlewareInfo,
+  MiddlewareMatcher,
+  RouteCondition,
+  RouteInfo,
+  RouteMiddleware,
+} from '../types.js';
+import { getRelativePath, matchPathPattern, readFileContent } from '../utils.js';
+import { StaticEvaluator } from './StaticEvaluator.js';
+
+/**
+ * Middleware file names, in the order Next.js resolves them
+ */
+const MIDDLEWARE_FILES = ['middleware.ts', 'middleware.js', 'middleware.mts', 'middleware.mjs'];
+
+/**
+ * Parser for Next.js middleware files
+ *
+ * Reads the `config.matcher` export statically and maps it onto routes.
+ */
+export class MiddlewareParser {
+  /**
+   * Find the middleware file in the project root or `src/`
+   */
+  static async findMiddlewareFile(projectRoot: string): Promise<string | undefined> {
+    const fs = await import('fs/promises');
+
+    for (const dir of [projectRoot, path.join(projectRoot, 'src')]) {
+      for (const fileName of MIDDLEWARE_FILES) {
+        const filePath = path.join(dir, fileName);
+        try {
+          await fs.access(filePath);
+          return filePath;
+        } catch {
+          // Continue checking other paths
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find and parse the project's middleware file
+   */
+  static async findAndParse(projectRoot: string): Promise<MiddlewareInfo | undefined> {
+    const filePath = await this.findMiddlewareFile(projectRoot);
+    return filePath ? await this.parse(filePath, projectRoot) : undefined;
+  }
+
+  /**
+   * Parse a middleware file's `config.matcher`
+   */
+  static async parse(filePath: string, projectRoot: string): Promise<MiddlewareInfo> {
+    const middleware: MiddlewareInfo = {
+      filePath: getRelativePath(projectRoot, filePath),
+      matchers: [],
+    };
+
+    const content = await readFileContent(filePath);
+    if (!content) {
+      return middleware;
+    }
+
+    const evaluator = new StaticEvaluator(content, filePath, projectRoot);
+    const configExpression = evaluator.getNamedExport('config');
+    if (configExpression) {
+      const config = evaluator.evaluate(configExpression, 'config');
+      if (config && typeof config === 'object' && !Array.isArray(config)) {
+        middleware.matchers = this.normalizeMatchers((config as Record<string, unknown>).matcher, evaluator);
+      }
+    }
+
+    if (evaluator.unresolved.length > 0) {
+      middleware.unresolved = evaluator.unresolved;
+    }
+
+    return middleware;
+  }
+
+  /**
+   * Determine whether the middleware runs for a route
+   *
+   * Returns undefined when the matcher could not be resolved, since coverage
+   * is then unknown.
+   */
+  static matchRoute(routePath: string, middleware: MiddlewareInfo | undefined): RouteMiddleware | undefined {
+    if (!middleware) {
+      return { matched: false };
+    }
+
+    if (middleware.unresolved?.some(entry => entry.path.startsWith('config'))) {
+      return undefined;
+    }
+
+    // Without a matcher the middleware runs on every path
+    if (middleware.matchers.length === 0) {
+      return { matched: true };
+    }
+
+    // Prefer a matcher covering every URL of the route over one covering some
+    const samples = this.getSamplePaths(routePath);
+    const coverages = middleware.matchers.map(m => this.getCoverage(m.source, samples));
+    const index = coverages.includes('full') ? coverages.indexOf('full') : coverages.indexOf('partial');
+
+    if (index === -1) {
+      return { matched: false };
+    }
+
+    const matcher = middleware.matchers[index];
+    return {
+      matched: true,
+      matcher: matcher.source,
+      ...((matcher.has || matcher.missing) && { conditional: true }),
+      ...(coverages[index] === 'partial' && { partial: true }),
+    };
+  }
+
+  /**
+   * Annotate routes with their middleware coverage
+   */
+  static annotateRoutes(routes: RouteInfo[], middleware: MiddlewareInfo | undefined): RouteInfo[] {
+    return routes.map(route => {
+      const coverage = this.matchRoute(route.path, middleware);
+      return coverage ? { ...route, middleware: coverage } : route;
+    });
+  }
+
+  /**
+   * Normalize the supported `matcher` shapes into matcher objects
+   */
+  private static normalizeMatchers(value: unknown, evaluator: StaticEvaluator): MiddlewareMatcher[] {
+    if (value === undefined) {
+      return [];
+    }
+
+    const entries = Array.isArray(value) ? value : [value];
+    const matchers: MiddlewareMatcher[] = [];
+
+    entries.forEach((entry, index) => {
+      if (typeof entry === 'string') {
+        matchers.push({ source: entry });
+        return;
+      }
+
+      if (entry && typeof entry === 'object' && typeof entry.source === 'string') {
+        const matcher: MiddlewareMatcher = { source: entry.source };
+        if (Array.isArray(entry.has)) matcher.has = entry.has as RouteCondition[];
+        if (Array.isArray(entry.missing)) matcher.missing = entry.missing as RouteCondition[];
+        if (entry.locale === false) matcher.locale = false;
+        matchers.push(matcher);
+        return;
+      }
+
+      evaluator.unresolved.push({
+        path: `config.matcher[${index}]`,
+        reason: 'matcher must be a string or an object with a source',
+      });
+    });
+
+    return matchers;
+  }
+
+  /**
+   * Get concrete paths to test a route against matchers
+   *
+   * Dynamic segments are kept as-is (e.g. `/blog/[slug]`), so an
+   * unconstrained parameter (`:slug`) matches them and a constrained one
+   * (`:id(\\d+)`) does not (see `getCoverage`). Catch-all routes are also
+   * tested with two segments, optional catch-all routes without any.
+   */
+  private static getSamplePaths(routePath: string): string[] {
+    const catchAll = /\/(\[\[?\.\.\.[^\]]+\]\]?)$/;
+    const match = catchAll.exec(routePath);
+    if (!match) {
+      return [routePath];
+    }
+
+    const samples = [routePath, `${routePath}/${match[1]}`];
+    return match[1].startsWith('[[') ? [routePath.replace(catchAll, '') || '/', ...samples] : samples;
+  }
+
+  /**
+   * Check how much of a route a matcher covers, given the route's sample paths
+   *
+   * A matcher covering only some samples, or covering them once its
+   * constrained parameters are relaxed (`/blog/:id(\\d+)` for `/blog/[slug]`),
+   * applies to some of the route's URLs only: `partial`.
+   */
+  private static getCoverage(source: string, samples: string[]): 'full' | 'partial' | 'none' {
+    const matches = samples.filter(sample => matchPathPattern(source, sample) !== null);
+    if (matches.length > 0) {
+      return matches.length === samples.length ? 'full' : 'partial';
+    }
+
+    const constrainedParam = /(:\w+)\((?:[^()\\]|\\.)*\)/g;
+    const constraints = [...source.matchAll(constrainedParam)].map(m => ({
+      name: m[1].slice(1),
+      pattern: new RegExp(`^(?:${m[0].slice(m[1].length + 1, -1)})$`),
+    }));
+    if (constraints.length === 0) {
+      return 'none';
+    }
+
+    // Static segments captured by a constrained parameter must still satisfy it
+    const relaxed = source.replace(constrainedParam, '$1');
+    const partial = samples.some(sample => {
+      const params = matchPathPattern(relaxed, sample);
+      return params !== null && constraints.every(({ name, pattern }) => {
+        const value = params[name];
+        const text = Array.isArray(value) ? value.join('/') : value;
+        return text === undefined || text.includes('[') || pattern.test(text);
+      });
+    });
+    return partial ? 'partial' : 'none';
+  }
+}
@@ -0,0 +1,362 @@
+import { builtinModules } from 'module';
+import path from 'path';
+import ts from 'typescript';
+import type { ResolvedImport } from '../types.js';
+
+/**
+ * Config files Next.js reads import aliases from, in priority order
+ */
+const CONFIG_FILES = ['tsconfig.json', 'jsconfig.json'];
+
+/**
+ * Export conditions tried for workspace package entry points, in priority order
+ */
+const EXPORT_CONDITIONS = ['source', 'import', 'module', 'default', 'require', 'node'];
+
+/**
+ * Package name at the start of a bare specifier (`react`, `@scope/pkg/sub`)
+ */
+const PACKAGE_NAME_PATTERN = /^((?:@[\w.-]+\/)?[\w][\w.-]*)(?:\/|$)/;
+
+/**
+ * Fields of a package.json relevant to workspace resolution
+ */
+interface PackageManifest {
+  name?: unknown;
+  exports?: unknown;
+  module?: unknown;
+  main?: unknown;
+  types?: unknown;
+  workspaces?: unknown;
+}
+
+/**
+ * Resolver for import specifiers within a project
+ *
+ * Uses TypeScript module resolution with the project's tsconfig.json (or
+ * jsconfig.json), so relative imports, `baseUrl` and `paths` aliases
+ * (e.g. `@/lib/db`) and index files resolve the way the bundler sees them.
+ * Packages of the surrounding monorepo (npm/yarn `workspaces` or
+ * pnpm-workspace.yaml) resolve to their sources; anything else outside the
+ * project is reported as an npm package.
+ */
+export class ModuleResolver {
+  private options: ts.CompilerOptions;
+  private cache: ts.ModuleResolutionCache;
+  private projectRoot: string;
+  private workspacePackages: Map<string, string>;
+  private workspaceCache = new Map<string, string | undefined>();
+
+  constructor(projectRoot: string) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.options = this.loadCompilerOptions();
+    this.cache = ts.createModuleResolutionCache(this.projectRoot, fileName => fileName, this.options);
+    this.workspacePackages = this.findWorkspacePackages();
+  }
+
+  /**
+   * Resolve a specifier imported from a file to a local source file
+   */
+  resolve(specifier: string, fromFile: string): string | undefined {
+    const resolved = this.resolveImport(specifier, fromFile);
+    return resolved?.type === 'module' ? resolved.filePath : undefined;
+  }
+
+  /**
+   * Resolve a specifier imported from a file to a local source file or an
+   * npm package. Node.js built-ins and unresolvable local paths yield
+   * undefined.
+   */
+  resolveImport(specifier: string, fromFile: string): ResolvedImport | undefined {
+    const workspaceFile = this.resolveWorkspaceImport(specifier);
+    if (workspaceFile) {
+      return { type: 'module', filePath: workspaceFile };
+    }
+
+    const { resolvedModule } = ts.resolveModuleName(specifier, fromFile, this.options, ts.sys, this.cache);
+    if (resolvedModule && !resolvedModule.isExternalLibraryImport) {
+      const resolved = path.resolve(resolvedModule.resolvedFileName);
+      if (this.isLocal(resolved)) {
+        return resolved.endsWith('.d.ts') ? undefined : { type: 'module', filePath: resolved };
+      }
+    }
+
+    const packageName = this.getPackageName(specifier);
+    return packageName ? { type: 'package', name: packageName } : undefined;
+  }
+
+  /**
+   * Read compiler options from the project's tsconfig.json or jsconfig.json
+   */
+  private loadCompilerOptions(): ts.CompilerOptions {
+    const defaults: ts.CompilerOptions = {
+      allowJs: true,
+      jsx: ts.JsxEmit.Preserve,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      module: ts.ModuleKind.ESNext,
+      resolveJsonModule: true
+    };
+
+    for (const configFile of CONFIG_FILES) {
+      const configPath = path.join(this.projectRoot, configFile);
+      if (!ts.sys.fileExists(configPath)) {
+        continue;
+      }
+
+      const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+      if (error) {
+        continue;
+      }
+
+      // Resolves `extends` chains; file lists and errors are irrelevant here
+      const parsed = ts.parseJsonConfigFileContent(config, ts.sys, this.projectRoot, undefined, configPath);
+      return {
+        ...defaults,
+        baseUrl: parsed.options.baseUrl,
+        paths: parsed.options.paths,
+        pathsBasePath: parsed.options.pathsBasePath,
+        customConditions: parsed.options.customConditions
+      };
+    }
+
+    return defaults;
+  }
+
+  /**
+   * Find the workspace root above the project and map its packages by name
+   */
+  private findWorkspacePackages(): Map<string, string> {
+    const packages = new Map<string, string>();
+
+    let dir = this.projectRoot;
+    let patterns = this.readWorkspacePatterns(dir);
+    while (!patterns) {
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return packages;
+      }
+      dir = parent;
+      patterns = this.readWorkspacePatterns(dir);
+    }
+
+    const excluded = new Set(
+      patterns.filter(pattern => pattern.startsWith('!')).flatMap(pattern => this.expandPattern(dir, pattern.slice(1)))
+    );
+    for (const packageDir of patterns.filter(pattern => !pattern.startsWith('!')).flatMap(pattern => this.expandPattern(dir, pattern))) {
+      const manifest = excluded.has(packageDir) ? undefined : this.readManifest(packageDir);
+      if (typeof manifest?.name === 'string' && !packages.has(manifest.name)) {
+        packages.set(manifest.name, packageDir);
+      }
+    }
+
+    return packages;
+  }
+
+  /**
+   * Read the workspace globs declared in a directory, if it is a workspace root
+   */
+  private readWorkspacePatterns(dir: string): string[] | undefined {
+    const pnpmWorkspace = ts.sys.readFile(path.join(dir, 'pnpm-workspace.yaml'));
+    if (pnpmWorkspace !== undefined) {
+      const patterns: string[] = [];
+      let inPackages = false;
+      for (const line of pnpmWorkspace.split('\n')) {
+        if (/^\S/.test(line)) {
+          inPackages = /^packages\s*:/.test(line);
+          continue;
+        }
+        const item = inPackages && /^\s+-\s*['"]?([^'"#\s]+)['"]?/.exec(line);
+        if (item) {
+          patterns.push(item[1]);
+        }
+      }
+      return patterns;
+    }
+
+    // npm/yarn: `"workspaces": [...]` or `"workspaces": { "packages": [...] }`
+    const workspaces = this.readManifest(dir)?.workspaces;
+    const patterns = Array.isArray(workspaces) ? workspaces : (workspaces as { packages?: unknown } | undefined)?.packages;
+    return Array.isArray(patterns) ? patterns.filter((pattern): pattern is string => typeof pattern === 'string') : undefined;
+  }
+
+  /**
+   * Expand a workspace glob (`packages/*`, `apps/**`) to directories
+   */
+  private expandPattern(rootDir: string, pattern: string): string[] {
+    let dirs = [rootDir];
+
+    for (const segment of pattern.replace(/^\.\//, '').replace(/\/$/, '').split('/')) {
+      if (segment === '**') {
+        const all: string[] = [];
+        const pending = [...dirs];
+        while (pending.length > 0) {
+          const dir = pending.pop()!;
+          all.push(dir);
+          pending.push(...this.getSubdirectories(dir));
+        }
+        dirs = all;
+      } else if (segment.includes('*')) {
+        const matcher = new RegExp(`^${segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+        dirs = dirs.flatMap(dir => this.getSubdirectories(dir).filter(subdir => matcher.test(path.basename(subdir))));
+      } else {
+        dirs = dirs.map(dir => path.join(dir, segment)).filter(dir => ts.sys.directoryExists(dir));
+      }
+    }
+
+    return dirs;
+  }
+
+  /**
+   * List the subdirectories of a directory, skipping dependencies and hidden folders
+   */
+  private getSubdirectories(dir: string): string[] {
+    return ts.sys.getDirectories(dir)
+      .filter(name => name !== 'node_modules' && !name.startsWith('.'))
+      .map(name => path.join(dir, name));
+  }
+
+  /**
+   * Resolve an import of a workspace package to a file in its sources
+   */
+  private resolveWorkspaceImport(specifier: string): string | undefined {
+    if (this.workspaceCache.has(specifier)) {
+      return this.workspaceCache.get(specifier);
+    }
+
+    let resolved: string | undefined;
+    for (const [name, packageDir] of this.workspacePackages) {
+      if (specifier !== name && !specifier.startsWith(`${name}/`)) {
+        continue;
+      }
+
+      const subpath = specifier.slice(name.length + 1);
+      const manifest = this.readManifest(packageDir) || {};
+      const candidates = [
+        ...this.getExportTargets(manifest.exports, subpath ? `./${subpath}` : '.'),
+        ...(subpath ? [subpath] : [manifest.module, manifest.main, manifest.types, 'index', 'src/index'])
+      ].filter((candidate): candidate is string => typeof candidate === 'string');
+
+      for (const candidate of candidates) {
+        const { resolvedModule } = ts.resolveModuleName(
+          `./${candidate.replace(/^\.\//, '')}`,
+          path.join(packageDir, 'package.json'),
+          this.options,
+          ts.sys,
+          this.cache
+        );
+        if (resolvedModule && !resolvedModule.resolvedFileName.endsWith('.d.ts')) {
+          resolved = path.resolve(resolvedModule.resolvedFileName);
+          break;
+        }
+      }
+      break;
+    }
+
+    this.workspaceCache.set(specifier, resolved);
+    return resolved;
+  }
+
+  /**
+   * Get the files a package.json `exports` field maps a subpath to
+   */
+  private getExportTargets(exports: unknown, subpath: string): string[] {
+    if (!exports) {
+      return [];
+    }
+
+    // Exports without subpath keys only describe the package root
+    const isSubpathMap = typeof exports === 'object' && !Array.isArray(exports) &&
+      Object.keys(exports).some(key => key.startsWith('.'));
+    if (!isSubpathMap) {
+      return subpath === '.' ? this.getConditionTargets(exports) : [];
+    }
+
+    const map = exports as Record<string, unknown>;
+    if (subpath in map) {
+      return this.getConditionTargets(map[subpath]);
+    }
+
+    for (const [key, target] of Object.entries(map)) {
+      const [prefix, suffix] = key.split('*');
+      if (key.includes('*') && subpath.startsWith(prefix) && subpath.endsWith(suffix ?? '')) {
+        const match = subpath.slice(prefix.length, subpath.length - (suffix ?? '').length);
+        return this.getConditionTargets(target).map(file => file.replace('*', match));
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Flatten an export target (string, fallback array or conditions object)
+   */
+  private getConditionTargets(target: unknown): string[] {
+    if (typeof target === 'string') {
+      return [target];
+    }
+    if (Array.isArray(target)) {
+      return target.flatMap(entry => this.getConditionTargets(entry));
+    }
+    if (target && typeof target === 'object') {
+      const conditions = target as Record<string, unknown>;
+      return EXPORT_CONDITIONS.filter(condition => condition in conditions)
+        .flatMap(condition => this.getConditionTargets(conditions[condition]));
+    }
+    return [];
+  }
+
+  /**
+   * Get the npm package name of a bare specifier, skipping Node.js built-ins
+   * and unresolved `paths` aliases
+   */
+  private getPackageName(specifier: string): string | undefined {
+    if (specifier.startsWith('node:') || this.matchesPathAlias(specifier)) {
+      return undefined;
+    }
+
+    const match = PACKAGE_NAME_PATTERN.exec(specifier);
+    if (!match || builtinModules.includes(match[1])) {
+      return undefined;
+    }
+    return match[1];
+  }
+
+  /**
+   * Check whether a specifier matches a tsconfig `paths` pattern
+   */
+  private matchesPathAlias(specifier: string): boolean {
+    return Object.keys(this.options.paths || {}).some(pattern => {
+      const [prefix, suffix] = pattern.split('*');
+      return pattern.includes('*')
+        ? specifier.startsWith(prefix) && specifier.endsWith(suffix ?? '')
+        : specifier === pattern;
+    });
+  }
+
+  /**
+   * Read a directory's package.json
+   */
+  private readManifest(dir: string): PackageManifest | undefined {
+    const content = ts.sys.readFile(path.join(dir, 'package.json'));
+    if (content === undefined) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Check whether a file is a project or workspace source, not a dependency
+   */
+  private isLocal(filePath: string): boolean {
+    return [this.projectRoot, ...this.workspacePackages.values()].some(root => {
+      const relative = path.relative(root, filePath);
+      return !relative.startsWith('..') && !path.isAbsolute(relative) &&
+        !relative.split(path.sep).includes('node_modules');
+    });
+  }
+}
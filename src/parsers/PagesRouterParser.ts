@@ -1,4 +1,7 @@
+import path from 'path';
 import type {
+  I18nConfig,
+  LocaleVariant,
   PagesRouterRoute,
   RouteInfo,
   RouteSegment,
@@ -11,7 +14,9 @@ import {
   formatRoutePath,
   detectComponentType,
   extractExports,
-  readFileContent
+  readFileContent,
+  stripPageExtension,
+  DEFAULT_PAGE_EXTENSIONS
 } from '../utils.js';
 
 /**
@@ -29,6 +34,7 @@ export class PagesRouterParser {
     config: ParserConfig
   ): Promise<RouteInfo[]> {
     const routes: RouteInfo[] = [];
+    const pageExtensions = config.pageExtensions || DEFAULT_PAGE_EXTENSIONS;
 
     try {
       // Get all files in the pages directory
@@ -46,7 +52,7 @@ export class PagesRouterParser {
         }
 
         // Skip non-page files
-        if (!this.isPagesRouterFile(entry.name)) {
+        if (!this.isPagesRouterFile(entry.name, pageExtensions)) {
           continue;
         }
 
@@ -66,15 +72,14 @@ export class PagesRouterParser {
   /**
    * Check if a file is a valid Pages Router file
    */
-  private static isPagesRouterFile(filename: string): boolean {
+  private static isPagesRouterFile(filename: string, pageExtensions: string[]): boolean {
     // Exclude TypeScript declaration files and test files
     if (filename.endsWith('.d.ts') || filename.includes('.test.') || filename.includes('.spec.')) {
       return false;
     }
 
-    // Include common Next.js file extensions
-    const validExtensions = ['.tsx', '.jsx', '.js', '.ts'];
-    return validExtensions.some(ext => filename.endsWith(ext));
+    // Only files with one of the configured page extensions are pages
+    return stripPageExtension(filename, pageExtensions) !== undefined;
   }
 
   /**
@@ -87,13 +92,14 @@ export class PagesRouterParser {
   ): Promise<RouteInfo | null> {
     try {
       // Get the route path from the file path
-      const routePath = this.getRoutePathFromFile(entry.relativePath, pagesDir);
+      const pageExtensions = config.pageExtensions || DEFAULT_PAGE_EXTENSIONS;
+      const routePath = this.getRoutePathFromFile(entry.path, pagesDir, pageExtensions);
 
       // Check if it's an API route
-      const isApiRoute = routePath.startsWith('/api/');
+      const isApiRoute = routePath === '/api' || routePath.startsWith('/api/');
 
       // Check if it's a special page
-      const specialPageInfo = this.getSpecialPageInfo(entry.name);
+      const specialPageInfo = this.getSpecialPageInfo(entry.name, pageExtensions);
 
       // Parse route segments to determine pattern
       const segments = this.parseRoutePath(routePath);
@@ -106,19 +112,27 @@ export class PagesRouterParser {
         specialPageType?: PagesRouterRoute['specialPageType'];
         componentType?: ComponentType;
         dataFetching?: PagesRouterRoute['dataFetching'];
+        locales?: LocaleVariant[];
       } = {
         isApiRoute,
         isSpecialPage: !!specialPageInfo,
         specialPageType: specialPageInfo?.type,
-        componentType: config.mode === 'comprehensive' ? undefined : 'unknown'
+        componentType: 'unknown'
       };
 
-      // Add comprehensive analysis
-      if (config.mode === 'comprehensive') {
+      // Pages (not API routes or special pages) are served once per locale
+      if (config.i18n && !isApiRoute && !specialPageInfo) {
+        pagesRouterData.locales = this.getLocaleVariants(routeProps.path, config.i18n);
+      }
+
+      // Add component type (detailed) and data fetching (comprehensive)
+      if (config.mode !== 'basic') {
         const content = await readFileContent(entry.path);
         if (content) {
           pagesRouterData.componentType = detectComponentType(content);
-          pagesRouterData.dataFetching = this.extractDataFetchingMethods(content);
+          if (config.mode === 'comprehensive') {
+            pagesRouterData.dataFetching = this.extractDataFetchingMethods(content, entry.name);
+          }
         }
       }
 
@@ -144,12 +158,12 @@ export class PagesRouterParser {
   /**
    * Convert a file path to a route path
    */
-  private static getRoutePathFromFile(relativePath: string, pagesDir: string): string {
-    // Remove the pages directory prefix
-    const withoutPages = relativePath.replace(new RegExp(`^${pagesDir}/?`), '');
+  private static getRoutePathFromFile(filePath: string, pagesDir: string, pageExtensions: string[]): string {
+    // Path of the file relative to the pages directory
+    const withoutPages = path.relative(pagesDir, filePath).replace(/\\/g, '/');
 
-    // Remove file extension
-    const withoutExtension = withoutPages.replace(/\.(tsx|jsx|js|ts)$/, '');
+    // Remove the page extension
+    const withoutExtension = stripPageExtension(withoutPages, pageExtensions) ?? withoutPages;
 
     // Handle index files
     if (withoutExtension === 'index') {
@@ -224,39 +238,60 @@ export class PagesRouterParser {
   /**
    * Get information about special pages
    */
-  private static getSpecialPageInfo(filename: string): { type: PagesRouterRoute['specialPageType'] } | null {
+  private static getSpecialPageInfo(
+    filename: string,
+    pageExtensions: string[]
+  ): { type: PagesRouterRoute['specialPageType'] } | null {
     const specialPages: Record<string, PagesRouterRoute['specialPageType']> = {
-      '_app.tsx': 'app',
-      '_app.jsx': 'app',
-      '_app.js': 'app',
-      '_app.ts': 'app',
-      '_document.tsx': 'document',
-      '_document.jsx': 'document',
-      '_document.js': 'document',
-      '_document.ts': 'document',
-      '_error.tsx': 'error',
-      '_error.jsx': 'error',
-      '_error.js': 'error',
-      '_error.ts': 'error',
-      '404.tsx': '404',
-      '404.jsx': '404',
-      '404.js': '404',
-      '404.ts': '404',
-      '500.tsx': '500',
-      '500.jsx': '500',
-      '500.js': '500',
-      '500.ts': '500'
+      '_app': 'app',
+      '_document': 'document',
+      '_error': 'error',
+      '404': '404',
+      '500': '500'
     };
 
-    const type = specialPages[filename];
+    const baseName = stripPageExtension(filename, pageExtensions);
+    const type = baseName !== undefined && Object.hasOwn(specialPages, baseName) ? specialPages[baseName] : undefined;
     return type ? { type } : null;
   }
 
+  /**
+   * Get the URLs of a page for each locale: the default locale is served
+   * without a prefix, other locales under `/{locale}`. With domain routing, a
+   * locale is served by each domain listing it, unprefixed on the domain it
+   * is the default locale of.
+   */
+  static getLocaleVariants(routePath: string, i18n: I18nConfig): LocaleVariant[] {
+    const prefixed = (locale: string) => (routePath === '/' ? `/${locale}` : `/${locale}${routePath}`);
+    const variants: LocaleVariant[] = [];
+
+    for (const locale of i18n.locales) {
+      const domains = (i18n.domains || []).filter(
+        domain => domain.defaultLocale === locale || domain.locales?.includes(locale)
+      );
+
+      if (domains.length === 0) {
+        variants.push({ locale, path: locale === i18n.defaultLocale ? routePath : prefixed(locale) });
+        continue;
+      }
+
+      for (const domain of domains) {
+        variants.push({
+          locale,
+          path: domain.defaultLocale === locale ? routePath : prefixed(locale),
+          domain: domain.domain
+        });
+      }
+    }
+
+    return variants;
+  }
+
   /**
    * Extract data fetching methods from file content
    */
-  private static extractDataFetchingMethods(content: string): PagesRouterRoute['dataFetching'] {
-    const exports = extractExports(content);
+  private static extractDataFetchingMethods(content: string, fileName?: string): PagesRouterRoute['dataFetching'] {
+    const exports = extractExports(content, fileName);
 
     const dataFetching: PagesRouterRoute['dataFetching'] = {};
 
@@ -0,0 +1,260 @@
+import path from 'path';
+import ts from 'typescript';
+import type { RouteInfo, ServerAction } from '../types.js';
+import { SOURCE_EXTENSIONS, readFileContent, traverseDirectory } from '../utils.js';
+import { ExportParser } from './ExportParser.js';
+import { ImportParser } from './ImportParser.js';
+import { ModuleResolver } from './ModuleResolver.js';
+
+/**
+ * Directories that never contain project sources
+ */
+const IGNORE_PATTERNS = ['(^|/)(node_modules|\\.next|\\.git|dist|out|build|coverage)$'];
+
+/**
+ * Imports and Server Actions of a source file
+ */
+interface SourceModule {
+  filePath: string;
+  actions: Array<Pick<ServerAction, 'name' | 'line' | 'scope'>>;
+  /** Imported modules with the names taken from them (`*` for namespace, dynamic and require imports) */
+  imports: Array<{ filePath: string; names: string[] }>;
+  /** Re-exported bindings (`*` for `export * from`) */
+  reexports: Array<{ filePath: string; name: string; exportedAs: string }>;
+}
+
+/**
+ * Parser for Server Actions
+ *
+ * Finds modules with a top-level 'use server' directive (every export is an
+ * action) and functions with their own 'use server' directive, then follows
+ * imports (tsconfig aliases and re-exports included) to the components and
+ * routes that use each action.
+ */
+export class ServerActionParser {
+  /**
+   * Find the Server Actions of a project and the routes using them
+   */
+  static async parse(projectRoot: string, routes: RouteInfo[], maxDepth: number = 10): Promise<ServerAction[]> {
+    const resolver = new ModuleResolver(projectRoot);
+    const modules = new Map<string, SourceModule>();
+
+    for (const filePath of await this.findSourceFiles(projectRoot, maxDepth)) {
+      const content = await readFileContent(filePath);
+      if (content !== null) {
+        modules.set(filePath, this.parseModule(filePath, content, resolver));
+      }
+    }
+
+    const reachable = this.getRouteReachability(routes, modules);
+    const actions: ServerAction[] = [];
+
+    for (const module of modules.values()) {
+      for (const action of module.actions) {
+        const importedBy = action.scope === 'module'
+          ? [...this.findImporters(module.filePath, action.name, modules, new Set())].sort()
+          : [];
+        const users = action.scope === 'module' ? importedBy : [module.filePath];
+
+        const routePaths = [...reachable.entries()]
+          .filter(([, files]) => users.some(file => files.has(file)))
+          .map(([routePath]) => routePath);
+
+        actions.push({
+          ...action,
+          filePath: module.filePath,
+          importedBy,
+          routes: [...new Set(routePaths)].sort()
+        });
+      }
+    }
+
+    return actions.sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line);
+  }
+
+  /**
+   * List the project's source files
+   */
+  private static async findSourceFiles(projectRoot: string, maxDepth: number): Promise<string[]> {
+    const entries = await traverseDirectory(projectRoot, maxDepth, 0, IGNORE_PATTERNS);
+    return entries
+      .filter(entry => !entry.isDirectory && SOURCE_EXTENSIONS.includes(path.extname(entry.name)))
+      .filter(entry => !entry.name.endsWith('.d.ts'))
+      .map(entry => path.resolve(entry.path));
+  }
+
+  /**
+   * Collect the actions and imports of a source file
+   */
+  private static parseModule(filePath: string, content: string, resolver: ModuleResolver): SourceModule {
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    const module: SourceModule = { filePath, actions: [], imports: [], reexports: [] };
+    const isServerModule = this.hasUseServerDirective(sourceFile.statements);
+
+    // Every export of a 'use server' module is an action
+    if (isServerModule) {
+      for (const exported of ExportParser.parse(content, path.basename(filePath))) {
+        if (!exported.isTypeOnly && exported.name !== '*' && !exported.source) {
+          module.actions.push({ name: exported.name, line: exported.line, scope: 'module' });
+        }
+      }
+    }
+
+    for (const entry of ImportParser.parseSourceFile(sourceFile)) {
+      const resolved = resolver.resolve(entry.specifier, filePath);
+      if (!resolved) {
+        continue;
+      }
+
+      if (entry.kind === 'reexport') {
+        module.reexports.push(...entry.bindings.map(binding => ({
+          filePath: resolved,
+          name: binding.imported,
+          exportedAs: binding.local
+        })));
+      } else {
+        module.imports.push({ filePath: resolved, names: entry.bindings.map(binding => binding.imported) });
+      }
+    }
+
+    const visit = (node: ts.Node): void => {
+      // Functions with their own directive (redundant inside a 'use server' module)
+      if (!isServerModule && this.isFunctionLike(node) && node.body && ts.isBlock(node.body) &&
+        this.hasUseServerDirective(node.body.statements)) {
+        module.actions.push({
+          name: this.getFunctionName(node),
+          line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+          scope: 'inline'
+        });
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return module;
+  }
+
+  /**
+   * Map each route to the files its modules (handler, or page plus the
+   * layouts and boundaries wrapping it) import, transitively
+   */
+  private static getRouteReachability(
+    routes: RouteInfo[],
+    modules: Map<string, SourceModule>
+  ): Map<string, Set<string>> {
+    const reachability = new Map<string, Set<string>>();
+
+    for (const route of routes) {
+      const entryFiles = [
+        route.filePath,
+        ...(route.appRouter?.boundaries || []).map(boundary => boundary.filePath)
+      ].map(file => path.resolve(file));
+
+      const files = reachability.get(route.path) || new Set<string>();
+      const pending = [...entryFiles];
+      while (pending.length > 0) {
+        const file = pending.pop()!;
+        if (files.has(file)) {
+          continue;
+        }
+        files.add(file);
+
+        const module = modules.get(file);
+        if (module) {
+          pending.push(...module.imports.map(entry => entry.filePath));
+          pending.push(...module.reexports.map(entry => entry.filePath));
+        }
+      }
+      reachability.set(route.path, files);
+    }
+
+    return reachability;
+  }
+
+  /**
+   * Find the files importing an export of a module, following re-exports
+   * through barrel files
+   */
+  private static findImporters(
+    filePath: string,
+    name: string,
+    modules: Map<string, SourceModule>,
+    seen: Set<string>
+  ): Set<string> {
+    const importers = new Set<string>();
+    const key = `${filePath}#${name}`;
+    if (seen.has(key)) {
+      return importers;
+    }
+    seen.add(key);
+
+    for (const module of modules.values()) {
+      if (module.imports.some(entry => entry.filePath === filePath && (entry.names.includes(name) || entry.names.includes('*')))) {
+        importers.add(module.filePath);
+      }
+
+      for (const reexport of module.reexports) {
+        if (reexport.filePath !== filePath || (reexport.name !== name && reexport.name !== '*')) {
+          continue;
+        }
+
+        // `export * as ns from` exposes the action as a member of `ns`
+        const exportedAs = reexport.name === '*' && reexport.exportedAs === '*' ? name : reexport.exportedAs;
+        for (const importer of this.findImporters(module.filePath, exportedAs, modules, seen)) {
+          importers.add(importer);
+        }
+      }
+    }
+
+    return importers;
+  }
+
+  /**
+   * Check whether a statement list starts with a 'use server' directive
+   */
+  private static hasUseServerDirective(statements: ts.NodeArray<ts.Statement>): boolean {
+    for (const statement of statements) {
+      if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) {
+        return false; // Directives only appear in the prologue
+      }
+      if (statement.expression.text === 'use server') {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check whether a node is a function with a body
+   */
+  private static isFunctionLike(node: ts.Node): node is
+    ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction | ts.MethodDeclaration {
+    return ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) ||
+      ts.isArrowFunction(node) || ts.isMethodDeclaration(node);
+  }
+
+  /**
+   * Get the name of an inline action from its declaration or binding
+   */
+  private static getFunctionName(
+    node: ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction | ts.MethodDeclaration
+  ): string {
+    if ((ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node)) && node.name) {
+      return node.name.text;
+    }
+    if (ts.isMethodDeclaration(node) && ts.isIdentifier(node.name)) {
+      return node.name.text;
+    }
+
+    const parent = node.parent;
+    if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent)) && ts.isIdentifier(parent.name)) {
+      return parent.name.text;
+    }
+    if (ts.isJsxExpression(parent) && ts.isJsxAttribute(parent.parent)) {
+      return `(${parent.parent.name.getText()} prop)`;
+    }
+
+    return '(anonymous)';
+  }
+}
@@ -0,0 +1,914 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import type { LiteralValue, UnresolvedValue } from '../types.js';
+import { ExportParser } from './ExportParser.js';
+
+/**
+ * Marker for values that could not be resolved statically
+ */
+export const UNRESOLVED: unique symbol = Symbol('unresolved');
+
+/**
+ * Non-enumerable key under which evaluated objects keep their function-valued properties
+ */
+const FUNCTIONS = Symbol('functions');
+
+/**
+ * Deepest chain of nested calls evaluated before giving up (guards against recursion)
+ */
+const MAX_CALL_DEPTH = 50;
+
+/**
+ * Calls evaluated per module before giving up (guards against branching recursion)
+ */
+const MAX_CALLS = 100_000;
+
+/**
+ * A function found in source code, evaluated lazily when called
+ */
+class StaticFunction {
+  constructor(
+    readonly node: ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration | ts.MethodDeclaration,
+    readonly scope: Map<string, unknown>
+  ) {}
+}
+
+/**
+ * Result of evaluating an expression
+ */
+type EvaluatedValue = LiteralValue | undefined | StaticFunction | typeof UNRESOLVED;
+
+/**
+ * Static evaluator for JavaScript/TypeScript modules
+ *
+ * Resolves literals, object and array literals (including spreads),
+ * module-level constants, template literals, simple operators, local JSON
+ * imports (within the project root) and calls to functions defined in the
+ * module whose body is a single return statement. No project code is ever
+ * executed: anything else (imported modules, process.env, arbitrary calls,
+ * runaway recursion) is reported as unresolved with its path and source line.
+ */
+export class StaticEvaluator {
+  /** Values that could not be resolved, in evaluation order */
+  readonly unresolved: UnresolvedValue[] = [];
+
+  private readonly sourceFile: ts.SourceFile;
+  private readonly baseDir: string;
+  private readonly rootDir: string;
+  private readonly moduleScope = new Map<string, unknown>();
+  private readonly declarations: Map<string, ts.Node>;
+  private readonly resolving = new Set<string>();
+  private callDepth = 0;
+  private callCount = 0;
+
+  /**
+   * @param rootDir Directory local JSON imports must stay within (defaults to the module's directory)
+   */
+  constructor(content: string, filePath: string, rootDir: string = path.dirname(filePath)) {
+    this.sourceFile = ExportParser.createSourceFile(content, path.basename(filePath));
+    this.baseDir = path.dirname(filePath);
+    this.rootDir = path.resolve(rootDir);
+    this.declarations = this.collectModuleDeclarations();
+  }
+
+  /**
+   * Get the parsed source file
+   */
+  getSourceFile(): ts.SourceFile {
+    return this.sourceFile;
+  }
+
+  /**
+   * Find the expression the module exports as default
+   * (`export default x` or `module.exports = x`)
+   */
+  getDefaultExport(): ts.Expression | ts.FunctionDeclaration | undefined {
+    for (const statement of this.sourceFile.statements) {
+      if (ts.isExportAssignment(statement)) {
+        return statement.expression;
+      }
+
+      if (
+        ts.isFunctionDeclaration(statement) &&
+        ts.getModifiers(statement)?.some(m => m.kind === ts.SyntaxKind.DefaultKeyword)
+      ) {
+        return statement;
+      }
+
+      if (
+        ts.isExpressionStatement(statement) &&
+        ts.isBinaryExpression(statement.expression) &&
+        statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        statement.expression.left.getText(this.sourceFile) === 'module.exports'
+      ) {
+        return statement.expression.right;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the initializer of an exported `const` (e.g. `export const config = {...}`)
+   */
+  getNamedExport(name: string): ts.Expression | ts.FunctionDeclaration | undefined {
+    for (const statement of this.sourceFile.statements) {
+      // export { local as name }
+      if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause &&
+          ts.isNamedExports(statement.exportClause)) {
+        const element = statement.exportClause.elements.find(e => e.name.text === name);
+        if (element) {
+          const declaration = this.declarations.get(element.propertyName?.text ?? name);
+          return declaration ? this.getDeclarationValue(declaration) : undefined;
+        }
+      }
+    }
+
+    const declaration = this.declarations.get(name);
+    if (declaration && this.isExported(declaration)) {
+      return this.getDeclarationValue(declaration);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Evaluate an expression (or function declaration) to a plain value
+   *
+   * Functions are returned as-is for callers to invoke with `call`.
+   */
+  evaluate(node: ts.Expression | ts.FunctionDeclaration, valuePath: string = ''): EvaluatedValue {
+    if (ts.isFunctionDeclaration(node)) {
+      return new StaticFunction(node, this.moduleScope);
+    }
+    return this.evaluateExpression(node, valuePath, this.moduleScope);
+  }
+
+  /**
+   * Call a statically known function and evaluate its return value
+   */
+  call(fn: unknown, args: unknown[], valuePath: string, line?: number): EvaluatedValue {
+    if (!(fn instanceof StaticFunction)) {
+      this.report(valuePath, 'value is not a function that can be evaluated', line);
+      return UNRESOLVED;
+    }
+    if (this.callDepth >= MAX_CALL_DEPTH) {
+      this.report(valuePath, `calls nest deeper than ${MAX_CALL_DEPTH} levels`, line);
+      return UNRESOLVED;
+    }
+    if (this.callCount >= MAX_CALLS) {
+      if (this.callCount++ === MAX_CALLS) {
+        this.report(valuePath, `more than ${MAX_CALLS} calls`, line);
+      }
+      return UNRESOLVED;
+    }
+
+    this.callCount++;
+    this.callDepth++;
+    try {
+      return this.callFunction(fn, args, valuePath);
+    } finally {
+      this.callDepth--;
+    }
+  }
+
+  /**
+   * Bind the arguments of a function and evaluate its body
+   */
+  private callFunction(fn: StaticFunction, args: unknown[], valuePath: string): EvaluatedValue {
+    const scope = new Map(fn.scope);
+    fn.node.parameters.forEach((parameter, index) => {
+      this.bindPattern(parameter.name, args[index], scope);
+    });
+
+    const body = fn.node.body;
+    if (!body) {
+      this.report(valuePath, 'function has no body', this.getLine(fn.node));
+      return UNRESOLVED;
+    }
+
+    // Expression-bodied arrow function
+    if (!ts.isBlock(body)) {
+      return this.evaluateExpression(body, valuePath, scope);
+    }
+
+    // Block body: local const declarations followed by a single return
+    for (const statement of body.statements) {
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (declaration.initializer) {
+            const value = this.evaluateExpression(declaration.initializer, valuePath, scope);
+            this.bindPattern(declaration.name, value, scope);
+          }
+        }
+        continue;
+      }
+
+      if (ts.isReturnStatement(statement)) {
+        return statement.expression
+          ? this.evaluateExpression(statement.expression, valuePath, scope)
+          : undefined;
+      }
+
+      // Type declarations and empty statements do not affect the result
+      if (
+        ts.isEmptyStatement(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isInterfaceDeclaration(statement)
+      ) {
+        continue;
+      }
+
+      this.report(valuePath, 'function body contains statements that cannot be evaluated statically', this.getLine(statement));
+      return UNRESOLVED;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check whether any value under the given path was unresolved
+   */
+  hasUnresolved(valuePath: string): boolean {
+    return this.unresolved.some(entry =>
+      entry.path === valuePath ||
+      entry.path.startsWith(`${valuePath}.`) ||
+      entry.path.startsWith(`${valuePath}[`)
+    );
+  }
+
+  /**
+   * Check whether a module-level name comes from another module
+   */
+  isImported(name: string): boolean {
+    const declaration = this.declarations.get(name);
+    if (!declaration) {
+      return false;
+    }
+    if (ts.isImportClause(declaration) || ts.isImportSpecifier(declaration) || ts.isNamespaceImport(declaration)) {
+      return true;
+    }
+    return ts.isVariableDeclaration(declaration) && this.getRequireSpecifier(declaration.initializer) !== undefined;
+  }
+
+  /**
+   * Check whether a module-level const is created by calling an imported
+   * function, like `const withMDX = createMDX({ ... })`
+   */
+  isImportedFactoryResult(name: string): boolean {
+    const declaration = this.declarations.get(name);
+    if (
+      !declaration ||
+      !ts.isVariableDeclaration(declaration) ||
+      (ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const) === 0 ||
+      !declaration.initializer
+    ) {
+      return false;
+    }
+
+    let node = this.unwrap(declaration.initializer);
+    if (!ts.isCallExpression(node)) {
+      return false;
+    }
+    while (ts.isCallExpression(node) || ts.isPropertyAccessExpression(node)) {
+      node = node.expression;
+    }
+    return ts.isIdentifier(node) && node.text !== name && this.isImported(node.text);
+  }
+
+  /**
+   * Get the module specifier of `require('x')`, including curried calls like `require('x')(options)`
+   */
+  private getRequireSpecifier(expression: ts.Expression | undefined): string | undefined {
+    let node = expression;
+    while (node && ts.isCallExpression(node)) {
+      if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+        const [argument] = node.arguments;
+        return argument && ts.isStringLiteral(argument) ? argument.text : undefined;
+      }
+      node = node.expression;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check if a value is a function that can be called statically
+   */
+  static isFunction(value: unknown): boolean {
+    return value instanceof StaticFunction;
+  }
+
+  /**
+   * Evaluate an expression within a scope
+   */
+  private evaluateExpression(expression: ts.Expression, valuePath: string, scope: Map<string, unknown>): EvaluatedValue {
+    const node = this.unwrap(expression);
+    const line = this.getLine(node);
+
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      return node.text;
+    }
+    if (ts.isNumericLiteral(node)) {
+      return Number(node.text);
+    }
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+
+    if (ts.isTemplateExpression(node)) {
+      let text = node.head.text;
+      for (const span of node.templateSpans) {
+        const value = this.evaluateExpression(span.expression, valuePath, scope);
+        if (value === UNRESOLVED) {
+          return UNRESOLVED;
+        }
+        text += String(value) + span.literal.text;
+      }
+      return text;
+    }
+
+    if (ts.isIdentifier(node)) {
+      return this.resolveIdentifier(node.text, valuePath, scope, line);
+    }
+
+    if (ts.isArrayLiteralExpression(node)) {
+      const values: LiteralValue[] = [];
+      node.elements.forEach((element, index) => {
+        const elementPath = `${valuePath}[${index}]`;
+        if (ts.isSpreadElement(element)) {
+          const spread = this.evaluateExpression(element.expression, elementPath, scope);
+          if (Array.isArray(spread)) {
+            values.push(...spread);
+          }
+          return;
+        }
+        const value = this.evaluateExpression(element, elementPath, scope);
+        if (value !== UNRESOLVED && value !== undefined && !(value instanceof StaticFunction)) {
+          values.push(value);
+        }
+      });
+      return values;
+    }
+
+    if (ts.isObjectLiteralExpression(node)) {
+      return this.evaluateObject(node, valuePath, scope);
+    }
+
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+      return new StaticFunction(node, scope);
+    }
+
+    if (ts.isPrefixUnaryExpression(node)) {
+      const operand = this.evaluateExpression(node.operand, valuePath, scope);
+      if (operand === UNRESOLVED) return UNRESOLVED;
+      switch (node.operator) {
+        case ts.SyntaxKind.MinusToken:
+          return typeof operand === 'number' ? -operand : UNRESOLVED;
+        case ts.SyntaxKind.PlusToken:
+          return Number(operand);
+        case ts.SyntaxKind.ExclamationToken:
+          return !operand;
+      }
+    }
+
+    if (ts.isBinaryExpression(node)) {
+      return this.evaluateBinary(node, valuePath, scope);
+    }
+
+    if (ts.isConditionalExpression(node)) {
+      const condition = this.evaluateExpression(node.condition, valuePath, scope);
+      if (condition === UNRESOLVED) return UNRESOLVED;
+      return this.evaluateExpression(condition ? node.whenTrue : node.whenFalse, valuePath, scope);
+    }
+
+    if (ts.isAwaitExpression(node)) {
+      return this.evaluateExpression(node.expression, valuePath, scope);
+    }
+
+    if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+      return this.evaluateAccess(node, valuePath, scope);
+    }
+
+    if (ts.isCallExpression(node)) {
+      return this.evaluateCall(node, valuePath, scope);
+    }
+
+    this.report(valuePath, `unsupported expression \`${this.getSnippet(node)}\``, line);
+    return UNRESOLVED;
+  }
+
+  /**
+   * Evaluate an object literal; unresolved properties are skipped
+   */
+  private evaluateObject(
+    node: ts.ObjectLiteralExpression,
+    valuePath: string,
+    scope: Map<string, unknown>
+  ): EvaluatedValue {
+    const result: Record<string, LiteralValue> = {};
+    const functions: Record<string, StaticFunction> = {};
+
+    for (const property of node.properties) {
+      if (ts.isSpreadAssignment(property)) {
+        const spread = this.evaluateExpression(property.expression, valuePath, scope);
+        if (spread && typeof spread === 'object' && !Array.isArray(spread) && !(spread instanceof StaticFunction)) {
+          Object.assign(result, spread);
+          Object.assign(functions, (spread as Record<string | symbol, unknown>)[FUNCTIONS] ?? {});
+        }
+        continue;
+      }
+
+      const key = property.name ? this.getPropertyName(property.name, scope) : undefined;
+      if (key === undefined) {
+        this.report(valuePath, 'computed property name cannot be resolved', this.getLine(property));
+        continue;
+      }
+      const propertyPath = valuePath ? `${valuePath}.${key}` : key;
+
+      let value: EvaluatedValue;
+      if (ts.isPropertyAssignment(property)) {
+        value = this.evaluateExpression(property.initializer, propertyPath, scope);
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        value = this.resolveIdentifier(property.name.text, propertyPath, scope, this.getLine(property));
+      } else if (ts.isMethodDeclaration(property)) {
+        value = new StaticFunction(property, scope);
+      } else {
+        this.report(propertyPath, 'accessors cannot be evaluated statically', this.getLine(property));
+        continue;
+      }
+
+      if (value instanceof StaticFunction) {
+        functions[key] = value;
+        delete result[key];
+      } else if (value !== UNRESOLVED && value !== undefined) {
+        result[key] = value;
+        delete functions[key];
+      }
+    }
+
+    if (Object.keys(functions).length > 0) {
+      Object.defineProperty(result, FUNCTIONS, { value: functions, enumerable: false });
+    }
+
+    return result;
+  }
+
+  /**
+   * Evaluate a binary expression
+   */
+  private evaluateBinary(node: ts.BinaryExpression, valuePath: string, scope: Map<string, unknown>): EvaluatedValue {
+    const operator = node.operatorToken.kind;
+    const left = this.evaluateExpression(node.left, valuePath, scope);
+    if (left === UNRESOLVED) return UNRESOLVED;
+
+    // Short-circuit operators only evaluate the right side when needed
+    if (operator === ts.SyntaxKind.BarBarToken) {
+      return left ? left : this.evaluateExpression(node.right, valuePath, scope);
+    }
+    if (operator === ts.SyntaxKind.AmpersandAmpersandToken) {
+      return left ? this.evaluateExpression(node.right, valuePath, scope) : left;
+    }
+    if (operator === ts.SyntaxKind.QuestionQuestionToken) {
+      return left ?? this.evaluateExpression(node.right, valuePath, scope);
+    }
+
+    const right = this.evaluateExpression(node.right, valuePath, scope);
+    if (right === UNRESOLVED) return UNRESOLVED;
+
+    const l = left as unknown as number;
+    const r = right as unknown as number;
+    switch (operator) {
+      case ts.SyntaxKind.PlusToken: return (l + r) as LiteralValue;
+      case ts.SyntaxKind.MinusToken: return l - r;
+      case ts.SyntaxKind.AsteriskToken: return l * r;
+      case ts.SyntaxKind.SlashToken: return l / r;
+      case ts.SyntaxKind.EqualsEqualsEqualsToken: return left === right;
+      case ts.SyntaxKind.ExclamationEqualsEqualsToken: return left !== right;
+      case ts.SyntaxKind.EqualsEqualsToken: return left == right;
+      case ts.SyntaxKind.ExclamationEqualsToken: return left != right;
+      case ts.SyntaxKind.LessThanToken: return l < r;
+      case ts.SyntaxKind.GreaterThanToken: return l > r;
+    }
+
+    this.report(valuePath, `unsupported operator \`${node.operatorToken.getText(this.sourceFile)}\``, this.getLine(node));
+    return UNRESOLVED;
+  }
+
+  /**
+   * Evaluate `a.b` / `a['b']`
+   */
+  private evaluateAccess(
+    node: ts.PropertyAccessExpression | ts.ElementAccessExpression,
+    valuePath: string,
+    scope: Map<string, unknown>
+  ): EvaluatedValue {
+    const text = node.getText(this.sourceFile);
+    if (text.startsWith('process.env')) {
+      this.report(valuePath, `depends on ${text}`, this.getLine(node));
+      return UNRESOLVED;
+    }
+
+    const target = this.evaluateExpression(node.expression, valuePath, scope);
+    if (target === UNRESOLVED) return UNRESOLVED;
+
+    let key: unknown;
+    if (ts.isPropertyAccessExpression(node)) {
+      key = node.name.text;
+    } else {
+      key = this.evaluateExpression(node.argumentExpression, valuePath, scope);
+      if (key === UNRESOLVED) return UNRESOLVED;
+    }
+
+    if (target === null || target === undefined || typeof target !== 'object') {
+      if (typeof target === 'string' && key === 'length') {
+        return target.length;
+      }
+      this.report(valuePath, `cannot read \`${String(key)}\` of a non-object value`, this.getLine(node));
+      return UNRESOLVED;
+    }
+
+    if (Array.isArray(target) && key === 'length') {
+      return target.length;
+    }
+
+    const functions = (target as Record<string | symbol, unknown>)[FUNCTIONS] as Record<string, StaticFunction> | undefined;
+    if (functions && typeof key === 'string' && key in functions) {
+      return functions[key];
+    }
+
+    return (target as Record<string, LiteralValue>)[String(key)];
+  }
+
+  /**
+   * Evaluate a call expression
+   *
+   * Only functions defined in the module and a few pure array methods are supported.
+   */
+  private evaluateCall(node: ts.CallExpression, valuePath: string, scope: Map<string, unknown>): EvaluatedValue {
+    const line = this.getLine(node);
+
+    // require('./data.json')
+    if (ts.isIdentifier(node.expression) && node.expression.text === 'require' && node.arguments.length === 1) {
+      const specifier = this.evaluateExpression(node.arguments[0], valuePath, scope);
+      if (typeof specifier === 'string') {
+        return this.loadJson(specifier, valuePath, line);
+      }
+    }
+
+    // Pure array methods with inline callbacks
+    if (ts.isPropertyAccessExpression(node.expression)) {
+      const method = node.expression.name.text;
+      if (['map', 'filter', 'flatMap', 'concat', 'slice', 'flat'].includes(method)) {
+        const target = this.evaluateExpression(node.expression.expression, valuePath, scope);
+        if (target === UNRESOLVED) return UNRESOLVED;
+        if (Array.isArray(target)) {
+          return this.evaluateArrayMethod(target, method, node, valuePath, scope);
+        }
+      }
+    }
+
+    const callee = this.evaluateExpression(node.expression, valuePath, scope);
+    if (callee instanceof StaticFunction) {
+      const args = node.arguments.map(argument => this.evaluateExpression(argument, valuePath, scope));
+      return this.call(callee, args, valuePath, line);
+    }
+
+    if (callee !== UNRESOLVED) {
+      this.report(valuePath, `call to \`${this.getSnippet(node.expression)}()\` cannot be evaluated statically`, line);
+    }
+    return UNRESOLVED;
+  }
+
+  /**
+   * Evaluate map/filter/flatMap/concat/slice/flat on a resolved array
+   */
+  private evaluateArrayMethod(
+    target: LiteralValue[],
+    method: string,
+    node: ts.CallExpression,
+    valuePath: string,
+    scope: Map<string, unknown>
+  ): EvaluatedValue {
+    const args = node.arguments.map(argument => this.evaluateExpression(argument, valuePath, scope));
+    if (args.some(arg => arg === UNRESOLVED)) return UNRESOLVED;
+
+    switch (method) {
+      case 'concat':
+        return target.concat(...(args as LiteralValue[]));
+      case 'slice':
+        return target.slice(...(args as number[]));
+      case 'flat':
+        return target.flat() as LiteralValue[];
+    }
+
+    const callback = args[0];
+    if (!(callback instanceof StaticFunction)) {
+      this.report(valuePath, `callback of \`${method}()\` cannot be evaluated statically`, this.getLine(node));
+      return UNRESOLVED;
+    }
+
+    const results: EvaluatedValue[] = [];
+    for (let index = 0; index < target.length; index++) {
+      const result = this.call(callback, [target[index], index], valuePath, this.getLine(node));
+      if (result === UNRESOLVED) return UNRESOLVED;
+      results.push(result);
+    }
+
+    if (method === 'map') {
+      return results as LiteralValue[];
+    }
+    if (method === 'flatMap') {
+      return (results as LiteralValue[]).flat() as LiteralValue[];
+    }
+    return target.filter((_, index) => results[index]);
+  }
+
+  /**
+   * Resolve an identifier through the given scope and module declarations
+   */
+  private resolveIdentifier(name: string, valuePath: string, scope: Map<string, unknown>, line: number): EvaluatedValue {
+    if (scope.has(name)) {
+      const value = scope.get(name) as EvaluatedValue;
+      if (value === UNRESOLVED) {
+        this.report(valuePath, `\`${name}\` is not known statically`, line);
+      }
+      return value;
+    }
+    if (name === 'undefined') return undefined;
+    if (name === 'Infinity') return Infinity;
+
+    const declaration = this.declarations.get(name);
+    if (!declaration) {
+      this.report(valuePath, `\`${name}\` is not defined in this module`, line);
+      return UNRESOLVED;
+    }
+
+    if (this.resolving.has(name)) {
+      this.report(valuePath, `\`${name}\` refers to itself`, line);
+      return UNRESOLVED;
+    }
+
+    this.resolving.add(name);
+    try {
+      const value = this.evaluateDeclaration(name, declaration, valuePath, line);
+      this.moduleScope.set(name, value);
+      return value;
+    } finally {
+      this.resolving.delete(name);
+    }
+  }
+
+  /**
+   * Evaluate a module-level declaration
+   */
+  private evaluateDeclaration(name: string, declaration: ts.Node, valuePath: string, line: number): EvaluatedValue {
+    if (ts.isFunctionDeclaration(declaration)) {
+      return new StaticFunction(declaration, this.moduleScope);
+    }
+
+    if (ts.isVariableDeclaration(declaration)) {
+      if ((ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.Const) === 0) {
+        this.report(valuePath, `\`${name}\` is not a const and may be reassigned`, line);
+        return UNRESOLVED;
+      }
+      if (!declaration.initializer) {
+        return undefined;
+      }
+      const specifier = this.getRequireSpecifier(declaration.initializer);
+      if (specifier !== undefined && !specifier.endsWith('.json')) {
+        this.report(valuePath, `\`${name}\` is imported from '${specifier}'`, line);
+        return UNRESOLVED;
+      }
+      if (!ts.isIdentifier(declaration.name)) {
+        const value = this.evaluateExpression(declaration.initializer, valuePath, this.moduleScope);
+        const bound = new Map<string, unknown>();
+        this.bindPattern(declaration.name, value, bound);
+        return bound.has(name) ? bound.get(name) as EvaluatedValue : UNRESOLVED;
+      }
+      return this.evaluateExpression(declaration.initializer, valuePath, this.moduleScope);
+    }
+
+    if (ts.isImportClause(declaration) || ts.isImportSpecifier(declaration) || ts.isNamespaceImport(declaration)) {
+      const importDeclaration = this.findImportDeclaration(declaration);
+      const specifier = importDeclaration && ts.isStringLiteral(importDeclaration.moduleSpecifier)
+        ? importDeclaration.moduleSpecifier.text
+        : undefined;
+
+      // Default imports of local JSON files are plain data
+      if (specifier && ts.isImportClause(declaration) && specifier.endsWith('.json')) {
+        return this.loadJson(specifier, valuePath, line);
+      }
+
+      this.report(valuePath, `\`${name}\` is imported from '${specifier ?? 'unknown'}'`, line);
+      return UNRESOLVED;
+    }
+
+    this.report(valuePath, `\`${name}\` cannot be evaluated statically`, line);
+    return UNRESOLVED;
+  }
+
+  /**
+   * Read a local JSON file relative to the module, within the root directory
+   */
+  private loadJson(specifier: string, valuePath: string, line: number): EvaluatedValue {
+    if (!specifier.startsWith('.') || !specifier.endsWith('.json')) {
+      this.report(valuePath, `'${specifier}' is not a local JSON file`, line);
+      return UNRESOLVED;
+    }
+
+    const filePath = path.resolve(this.baseDir, specifier);
+    const relativePath = path.relative(this.rootDir, filePath);
+    if (relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+      this.report(valuePath, `'${specifier}' is outside the project root`, line);
+      return UNRESOLVED;
+    }
+
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf-8')) as LiteralValue;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.report(valuePath, `could not read '${specifier}': ${errorMessage}`, line);
+      return UNRESOLVED;
+    }
+  }
+
+  /**
+   * Bind a (possibly destructuring) parameter or declaration name to a value
+   */
+  private bindPattern(name: ts.BindingName, value: unknown, scope: Map<string, unknown>): void {
+    if (ts.isIdentifier(name)) {
+      scope.set(name.text, value);
+      return;
+    }
+
+    if (ts.isObjectBindingPattern(name)) {
+      for (const element of name.elements) {
+        const key = element.propertyName
+          ? this.getPropertyName(element.propertyName, scope)
+          : ts.isIdentifier(element.name) ? element.name.text : undefined;
+        const property = value && typeof value === 'object' && key !== undefined
+          ? (value as Record<string, unknown>)[key]
+          : UNRESOLVED;
+        this.bindPattern(element.name, property, scope);
+      }
+      return;
+    }
+
+    name.elements.forEach((element, index) => {
+      if (ts.isBindingElement(element)) {
+        const item = Array.isArray(value) ? value[index] : UNRESOLVED;
+        this.bindPattern(element.name, item, scope);
+      }
+    });
+  }
+
+  /**
+   * Collect module-level declarations, including imports
+   */
+  private collectModuleDeclarations(): Map<string, ts.Node> {
+    const declarations = new Map<string, ts.Node>();
+
+    for (const statement of this.sourceFile.statements) {
+      if (ts.isImportDeclaration(statement) && statement.importClause) {
+        const clause = statement.importClause;
+        if (clause.name) {
+          declarations.set(clause.name.text, clause);
+        }
+        if (clause.namedBindings) {
+          if (ts.isNamespaceImport(clause.namedBindings)) {
+            declarations.set(clause.namedBindings.name.text, clause.namedBindings);
+          } else {
+            for (const element of clause.namedBindings.elements) {
+              declarations.set(element.name.text, element);
+            }
+          }
+        }
+        continue;
+      }
+
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          for (const name of this.getBindingNames(declaration.name)) {
+            declarations.set(name, declaration);
+          }
+        }
+        continue;
+      }
+
+      if (ts.isFunctionDeclaration(statement) && statement.name) {
+        declarations.set(statement.name.text, statement);
+      }
+    }
+
+    return declarations;
+  }
+
+  /**
+   * Get the value node of a declaration
+   */
+  private getDeclarationValue(declaration: ts.Node): ts.Expression | ts.FunctionDeclaration | undefined {
+    if (ts.isVariableDeclaration(declaration)) {
+      return declaration.initializer;
+    }
+    if (ts.isFunctionDeclaration(declaration)) {
+      return declaration;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check whether a module-level declaration is exported
+   */
+  private isExported(declaration: ts.Node): boolean {
+    const statement = ts.isVariableDeclaration(declaration)
+      ? declaration.parent.parent
+      : declaration;
+    return ts.canHaveModifiers(statement) &&
+      (ts.getModifiers(statement)?.some(m => m.kind === ts.SyntaxKind.ExportKeyword) ?? false);
+  }
+
+  /**
+   * Find the import declaration an import binding belongs to
+   */
+  private findImportDeclaration(node: ts.Node): ts.ImportDeclaration | undefined {
+    let current: ts.Node | undefined = node;
+    while (current && !ts.isImportDeclaration(current)) {
+      current = current.parent;
+    }
+    return current;
+  }
+
+  /**
+   * Get all names bound by a binding pattern
+   */
+  private getBindingNames(name: ts.BindingName): string[] {
+    if (ts.isIdentifier(name)) {
+      return [name.text];
+    }
+    return name.elements.flatMap(element =>
+      ts.isBindingElement(element) ? this.getBindingNames(element.name) : []
+    );
+  }
+
+  /**
+   * Get a property name, resolving computed names when possible
+   */
+  private getPropertyName(name: ts.PropertyName, scope: Map<string, unknown>): string | undefined {
+    if (ts.isComputedPropertyName(name)) {
+      const value = this.evaluateExpression(name.expression, '', scope);
+      return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+    }
+    return ExportParser.getPropertyName(name);
+  }
+
+  /**
+   * Strip parentheses, type assertions and `satisfies`
+   */
+  private unwrap(expression: ts.Expression): ts.Expression {
+    let node = expression;
+    while (
+      ts.isParenthesizedExpression(node) ||
+      ts.isAsExpression(node) ||
+      ts.isSatisfiesExpression(node) ||
+      ts.isNonNullExpression(node) ||
+      ts.isTypeAssertionExpression(node)
+    ) {
+      node = node.expression;
+    }
+    return node;
+  }
+
+  /**
+   * Record an unresolved value
+   */
+  private report(valuePath: string, reason: string, line?: number): void {
+    this.unresolved.push({ path: valuePath || '(root)', reason, ...(line && { line }) });
+  }
+
+  /**
+   * Get a short source snippet for messages
+   */
+  private getSnippet(node: ts.Node): string {
+    const text = node.getText(this.sourceFile).replace(/\s+/g, ' ');
+    return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+  }
+
+  /**
+   * Get the 1-based line of a node
+   */
+  private getLine(node: ts.Node): number {
+    return this.sourceFile.getLineAndCharacterOfPosition(node.getStart(this.sourceFile)).line + 1;
+  }
+}
+
+/**
+ * Get a function-valued property of an evaluated object (e.g. `redirects()`)
+ */
+export function getStaticMethod(value: unknown, key: string): unknown {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const functions = (value as Record<string | symbol, unknown>)[FUNCTIONS] as Record<string, unknown> | undefined;
+  return functions?.[key];
+}
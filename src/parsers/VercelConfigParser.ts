@@ -0,0 +1,76 @@
+import path from 'path';
+import type { Redirect, Rewrite, VercelConfig } from '../types.js';
+import { readFileContent } from '../utils.js';
+
+/**
+ * Parser for the routing rules of a `vercel.json`
+ *
+ * Reads the `redirects` and `rewrites` arrays; rules without a source or
+ * destination and the legacy `routes` property are ignored.
+ */
+export class VercelConfigParser {
+  /**
+   * Parse the `vercel.json` in a project root, if there is one
+   */
+  static async findAndParse(projectRoot: string): Promise<VercelConfig | undefined> {
+    const filePath = path.join(projectRoot, 'vercel.json');
+    try {
+      const fs = await import('fs/promises');
+      await fs.access(filePath);
+    } catch {
+      return undefined;
+    }
+    return this.parse(filePath);
+  }
+
+  /**
+   * Parse a `vercel.json` file
+   */
+  static async parse(filePath: string): Promise<VercelConfig | undefined> {
+    const content = await readFileContent(filePath);
+    if (content === null) {
+      return undefined;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`Warning: Could not parse ${filePath}:`, errorMessage);
+      return undefined;
+    }
+
+    const config: VercelConfig = { configFile: path.basename(filePath) };
+    if (this.isObject(raw)) {
+      const redirects = this.getRules<Redirect>(raw.redirects);
+      const rewrites = this.getRules<Rewrite>(raw.rewrites);
+      if (redirects.length > 0) {
+        config.redirects = redirects;
+      }
+      if (rewrites.length > 0) {
+        config.rewrites = rewrites;
+      }
+    }
+    return config;
+  }
+
+  /**
+   * Keep the rules with a string source and destination
+   */
+  private static getRules<T extends Redirect | Rewrite>(value: unknown): T[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.filter(
+      (rule): rule is T => this.isObject(rule) && typeof rule.source === 'string' && typeof rule.destination === 'string'
+    );
+  }
+
+  /**
+   * Check whether a value is a plain object
+   */
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+}
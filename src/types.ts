@@ -41,6 +41,450 @@ export type RoutePattern =
   | "catch-all"
   | "optional-catch-all";
 
+/**
+ * HTTP methods an App Router route handler can export
+ */
+export type HttpMethod =
+  | "GET"
+  | "POST"
+  | "PUT"
+  | "PATCH"
+  | "DELETE"
+  | "HEAD"
+  | "OPTIONS";
+
+/**
+ * Kind of binding behind an export
+ */
+export type ExportKind =
+  | "function"
+  | "class"
+  | "variable"
+  | "type"
+  | "interface"
+  | "enum"
+  | "namespace"
+  | "re-export"
+  | "unknown";
+
+/**
+ * A value that could be resolved statically from source code
+ */
+export type LiteralValue =
+  | string
+  | number
+  | boolean
+  | null
+  | LiteralValue[]
+  | { [key: string]: LiteralValue };
+
+/**
+ * A single export found by the AST-based export analyzer
+ */
+export interface ModuleExport {
+  /** Exported name ('default' for default exports, '*' for `export * from`) */
+  name: string;
+
+  /** Kind of the exported binding */
+  kind: ExportKind;
+
+  /** Local binding name when exported under an alias (`export { x as y }`) */
+  localName?: string;
+
+  /** Whether the exported function is async */
+  isAsync?: boolean;
+
+  /** Whether this is a type-only export */
+  isTypeOnly?: boolean;
+
+  /** Module specifier for re-exports */
+  source?: string;
+
+  /** Literal value, when statically known */
+  value?: LiteralValue;
+
+  /** 1-based line of the export in the source file */
+  line: number;
+}
+
+/**
+ * How a module is pulled in by another module
+ */
+export type ImportKind = "import" | "reexport" | "dynamic" | "require";
+
+/**
+ * A single import found by the AST-based import analyzer
+ */
+export interface ModuleImport {
+  /** Module specifier as written (e.g. `@/lib/db`, `./utils`, `react`) */
+  specifier: string;
+
+  /** Static import, `export ... from`, `import()` or `require()` */
+  kind: ImportKind;
+
+  /**
+   * Bindings taken from the module: the imported (or re-exported) name and
+   * the local (or exported) name. `*` stands for a namespace, `default` for
+   * a default import; empty for side-effect imports.
+   */
+  bindings: Array<{ imported: string; local: string }>;
+
+  /** 1-based line of the import in the source file */
+  line: number;
+}
+
+/**
+ * Request-time API that opts a route into dynamic rendering, or
+ * `useSearchParams` which bails out of prerendering up to the closest
+ * Suspense boundary
+ */
+export type DynamicApi =
+  | "cookies"
+  | "headers"
+  | "draftMode"
+  | "connection"
+  | "unstable_noStore"
+  | "searchParams"
+  | "useSearchParams"
+  | "fetch-no-store";
+
+/**
+ * A dynamic API call or access found in a module
+ */
+export interface DynamicApiUsage {
+  /** API used */
+  api: DynamicApi;
+
+  /** 1-based line of the usage */
+  line: number;
+}
+
+/**
+ * A dynamic API usage found in the files of a route or the local modules
+ * they import
+ */
+export interface RouteDynamicApiUsage extends DynamicApiUsage {
+  /** File the usage is in */
+  filePath: string;
+
+  /** Import chain from the page, handler, layout or template to the file (absent for those files themselves) */
+  via?: string[];
+}
+
+/**
+ * How an internal link is followed: `<Link href>`, `router.push`,
+ * `router.replace`, `router.prefetch`, `redirect()` or `permanentRedirect()`
+ */
+export type LinkKind = "link" | "push" | "replace" | "prefetch" | "redirect" | "permanentRedirect";
+
+/**
+ * A link target found in a module
+ */
+export interface LinkUsage {
+  /** Target as written; template literal substitutions are kept as `${...}` */
+  href: string;
+
+  /** How the link is followed */
+  kind: LinkKind;
+
+  /** 1-based line of the link */
+  line: number;
+}
+
+/**
+ * An internal link found in the project
+ */
+export interface InternalLink extends LinkUsage {
+  /** File the link is in */
+  filePath: string;
+}
+
+/**
+ * An internal link no route, rewrite, redirect or public file serves
+ */
+export interface BrokenLink extends InternalLink {
+  /** Why the link is broken */
+  reason: string;
+}
+
+/**
+ * Internal links checked against the route table
+ */
+export interface LinkValidation {
+  /** Every internal link checked */
+  links: InternalLink[];
+
+  /** Links that do not resolve */
+  broken: BrokenLink[];
+}
+
+/**
+ * Where a route reference was found: a link or navigation call, an `href` in
+ * a navigation config, a sitemap, or a next.config redirect or rewrite
+ */
+export type RouteReferenceSource = "link" | "navigation" | "sitemap" | "config";
+
+/**
+ * A URL pointing to a route
+ */
+export interface RouteReference {
+  /** Target as written; template literal substitutions are kept as `${...}` */
+  href: string;
+
+  /** Where the reference comes from */
+  source: RouteReferenceSource;
+
+  /** File the reference is in */
+  filePath: string;
+
+  /** 1-based line of the reference, when known */
+  line?: number;
+}
+
+/**
+ * A page route nothing points to
+ */
+export interface OrphanRoute {
+  /** Route path */
+  path: string;
+
+  /** Router type */
+  router: "app" | "pages";
+
+  /** Page file of the route */
+  filePath: string;
+}
+
+/**
+ * Page routes checked for references
+ */
+export interface OrphanReport {
+  /** Every reference found */
+  references: RouteReference[];
+
+  /** Routes no reference points to */
+  orphans: OrphanRoute[];
+
+  /** Unreferenced routes allowlisted through `allowOrphan` metadata */
+  allowed: OrphanRoute[];
+}
+
+/**
+ * Phase of a next.config rule applied while matching a URL
+ */
+export type RulePhase = "redirect" | "beforeFiles" | "afterFiles" | "fallback";
+
+/**
+ * A next.config redirect or rewrite applied while matching a URL
+ */
+export interface AppliedRule {
+  /** Redirect, or the rewrite phase the rule belongs to */
+  phase: RulePhase;
+
+  /** Rule source pattern */
+  source: string;
+
+  /** Destination with the captured params filled in */
+  destination: string;
+
+  /** Status code of a redirect (308 permanent, 307 temporary) */
+  statusCode?: number;
+}
+
+/**
+ * The route serving a concrete URL
+ */
+export interface RouteMatch {
+  /** URL as given */
+  url: string;
+
+  /** Pathname the route was matched against (basePath, locale, query, redirects and rewrites applied) */
+  pathname: string;
+
+  /** Locale taken from the first segment (Pages Router i18n) */
+  locale?: string;
+
+  /** Matching route, if any */
+  route?: RouteInfo;
+
+  /** Params extracted from the dynamic segments */
+  params: Record<string, string | string[]>;
+
+  /** Layout files wrapping the route, root first (`_app` for Pages Router pages) */
+  layouts: string[];
+
+  /** Redirects and rewrites applied, in order, across followed redirects */
+  rules: SimulationStep[];
+
+  /** Public file serving the URL */
+  publicFile?: string;
+
+  /** External URL a redirect or rewrite sent the request to */
+  external?: string;
+}
+
+/**
+ * File a redirect or rewrite rule is defined in
+ */
+export type RuleOrigin = "next.config" | "vercel.json";
+
+/**
+ * Request details `has` and `missing` conditions are checked against; the
+ * query comes from the URL
+ */
+export interface SimulatedRequest {
+  /** Request headers; names are case-insensitive */
+  headers?: Record<string, string>;
+
+  /** Request cookies */
+  cookies?: Record<string, string>;
+
+  /** Host name, when the URL has no origin */
+  host?: string;
+}
+
+/**
+ * Options of a request simulation
+ */
+export interface SimulationOptions {
+  /** Headers, cookies and host for `has` / `missing` conditions */
+  request?: SimulatedRequest;
+
+  /** Redirects to follow before giving up (default 10) */
+  maxHops?: number;
+
+  /** Pathnames of the files in `public/` (e.g. `/robots.txt`) */
+  publicFiles?: string[];
+}
+
+/**
+ * Options of a rule set analysis
+ */
+export interface RuleAnalysisOptions {
+  /** Redirects a URL may go through before it is reported as a chain (default 1) */
+  maxChain?: number;
+
+  /** Pathnames of the files in `public/` (e.g. `/robots.txt`) */
+  publicFiles?: string[];
+}
+
+/**
+ * A redirect or rewrite applied during a simulated request
+ */
+export interface SimulationStep extends AppliedRule {
+  /** File the rule is defined in */
+  origin: RuleOrigin;
+}
+
+/**
+ * How a single request ends
+ */
+export type HopOutcome = "redirect" | "route" | "public-file" | "external" | "not-found";
+
+/**
+ * One request of a simulation; a redirect starts the next one
+ */
+export interface SimulationHop {
+  /** URL requested */
+  url: string;
+
+  /** Pathname the rules and routes were matched against (basePath and locale removed) */
+  pathname: string;
+
+  /** Locale taken from the first segment (Pages Router i18n) */
+  locale?: string;
+
+  /** Redirects and rewrites applied, in order */
+  steps: SimulationStep[];
+
+  /** Whether the middleware runs for the request, and the matcher that selected it */
+  middleware?: { matched: boolean; matcher?: string };
+
+  /** How the request ends */
+  outcome: HopOutcome;
+
+  /** Route serving the request */
+  route?: Pick<RouteInfo, "path" | "router" | "filePath">;
+
+  /** Params extracted from the route's dynamic segments */
+  params?: Record<string, string | string[]>;
+
+  /** Public file serving the request */
+  publicFile?: string;
+
+  /** Where the request is redirected or rewritten to (redirect and external outcomes) */
+  location?: string;
+}
+
+/**
+ * How a simulated request ends after following redirects
+ */
+export type SimulationOutcome = Exclude<HopOutcome, "redirect"> | "loop" | "too-many-hops";
+
+/**
+ * Trace of a URL through redirects, rewrites, middleware and routes
+ */
+export interface RouteSimulation {
+  /** URL as given */
+  url: string;
+
+  /** Requests made, one per redirect followed */
+  hops: SimulationHop[];
+
+  /** How the simulation ends */
+  outcome: SimulationOutcome;
+}
+
+/**
+ * Kind of problem found in a rule set
+ */
+export type RuleIssueType = "redirect-loop" | "redirect-chain" | "unmatched-destination";
+
+/**
+ * A redirect or rewrite rule that loops, chains or leads nowhere
+ */
+export interface RuleIssue {
+  /** Issue type */
+  type: RuleIssueType;
+
+  /** File the rule is defined in */
+  origin: RuleOrigin;
+
+  /** Redirect, or the rewrite phase the rule belongs to */
+  phase: RulePhase;
+
+  /** Rule source pattern */
+  source: string;
+
+  /** Rule destination pattern */
+  destination: string;
+
+  /** Human-readable description */
+  message: string;
+
+  /** URLs requested from a sample URL of the source (loops and chains) */
+  chain?: string[];
+}
+
+/**
+ * Result of checking every redirect and rewrite rule
+ */
+export interface RuleAnalysis {
+  /** Number of rules checked */
+  rules: number;
+
+  /** Problems found */
+  issues: RuleIssue[];
+}
+
+/**
+ * What an import specifier resolves to: a local module (project sources or a
+ * workspace package) or an npm package
+ */
+export type ResolvedImport =
+  | { type: "module"; filePath: string }
+  | { type: "package"; name: string };
+
 /**
  * Configuration options for the introspection process
  */
@@ -105,6 +549,9 @@ export interface IntrospectionOptions {
 
     /** Array of prefixes to strip from route paths */
     stripPrefixes?: string[];
+
+    /** Whether to list Pages Router routes once per i18n locale (`/fr/about`) */
+    expandLocales?: boolean;
   };
 
   /** Metadata file options */
@@ -115,6 +562,9 @@ export interface IntrospectionOptions {
     /** Metadata entries keyed by route path */
     entries?: Record<string, RouteMetadata>;
   };
+
+  /** Whether to include the module import graph in the result (detailed and comprehensive modes) */
+  moduleGraph?: boolean;
 }
 
 /**
@@ -136,6 +586,12 @@ export interface ProjectInfo {
   /** Next.js configuration */
   config?: NextConfig;
 
+  /** Middleware file and its matchers */
+  middleware?: MiddlewareInfo;
+
+  /** Redirects and rewrites from vercel.json */
+  vercel?: VercelConfig;
+
   /** Package.json information */
   packageInfo?: PackageInfo;
 
@@ -151,32 +607,44 @@ export interface ProjectInfo {
  * Next.js configuration information
  */
 export interface NextConfig {
+  /** Config file the values were read from */
+  configFile?: string;
+
   /** Base path for the application */
   basePath?: string;
 
+  /** Prefix (path or CDN origin) for `/_next/` assets; page URLs are unaffected */
+  assetPrefix?: string;
+
   /** Distribution directory */
   distDir?: string;
 
+  /** Extensions of page and special files (e.g. `["page.tsx", "mdx"]`) */
+  pageExtensions?: string[];
+
   /** Whether to add trailing slashes to URLs */
   trailingSlash?: boolean;
 
   /** Image domains configuration */
   images?: {
     domains?: string[];
-    remotePatterns?: any[];
+    remotePatterns?: RemotePattern[];
   };
 
   /** Environment variables */
   env?: Record<string, string>;
 
+  /** Internationalized routing configuration */
+  i18n?: I18nConfig;
+
   /** Redirect rules */
-  redirects?: any[];
+  redirects?: Redirect[];
 
-  /** Rewrite rules */
-  rewrites?: any[];
+  /** Rewrite rules, normalized to the three phases Next.js applies them in */
+  rewrites?: NextRewrites;
 
   /** Headers configuration */
-  headers?: any[];
+  headers?: HeaderRule[];
 
   /** Experimental features */
   experimental?: Record<string, any>;
@@ -186,6 +654,216 @@ export interface NextConfig {
 
   /** Has middleware file */
   hasMiddleware?: boolean;
+
+  /** Values that could not be resolved without executing the config */
+  unresolved?: UnresolvedValue[];
+}
+
+/**
+ * Middleware file analysis
+ */
+export interface MiddlewareInfo {
+  /** Middleware file path relative to the project root */
+  filePath: string;
+
+  /** Matchers from `config.matcher`; empty when the middleware runs on every path */
+  matchers: MiddlewareMatcher[];
+
+  /** Matcher values that could not be resolved statically */
+  unresolved?: UnresolvedValue[];
+}
+
+/**
+ * A single middleware matcher
+ */
+export interface MiddlewareMatcher {
+  /** path-to-regexp style source, e.g. `/dashboard/:path*` */
+  source: string;
+
+  /** Only match requests that satisfy all of these conditions */
+  has?: RouteCondition[];
+
+  /** Only match requests that satisfy none of these conditions */
+  missing?: RouteCondition[];
+
+  /** Whether locale prefixes are ignored when matching */
+  locale?: false;
+}
+
+/**
+ * Middleware coverage of a route
+ */
+export interface RouteMiddleware {
+  /** Whether the middleware runs for this route */
+  matched: boolean;
+
+  /** Source of the first matcher covering the route */
+  matcher?: string;
+
+  /** The covering matcher only applies when its has/missing conditions hold */
+  conditional?: boolean;
+
+  /**
+   * The covering matcher only applies to some values of the route's dynamic
+   * segments (e.g. `/blog/:id(\\d+)` for `/blog/[slug]`)
+   */
+  partial?: boolean;
+}
+
+/**
+ * How a route is rendered
+ *
+ * - `static`: prerendered at build time
+ * - `isr`: prerendered and revalidated after an interval
+ * - `dynamic`: rendered on the server per request
+ * - `edge`: rendered per request on the Edge runtime
+ * - `ppr`: static shell with dynamic holes (Partial Prerendering)
+ */
+export type RenderingStrategy = "static" | "isr" | "dynamic" | "edge" | "ppr";
+
+/**
+ * Rendering strategy of a route and what determined it
+ */
+export interface RouteRendering {
+  /** Rendering strategy */
+  strategy: RenderingStrategy;
+
+  /** Revalidation interval in seconds (ISR) */
+  revalidate?: number;
+
+  /** Exports, config and API usages that determined the strategy */
+  reasons: string[];
+}
+
+/**
+ * A value that static analysis could not resolve
+ */
+export interface UnresolvedValue {
+  /** Path of the value, e.g. `redirects[2].destination` */
+  path: string;
+
+  /** Why the value could not be resolved */
+  reason: string;
+
+  /** 1-based source line */
+  line?: number;
+}
+
+/**
+ * Concrete URLs a dynamic route is prerendered at, from its
+ * `generateStaticParams` or `getStaticPaths`
+ */
+export interface PrerenderedUrls {
+  /** Function the params come from */
+  source: "generateStaticParams" | "getStaticPaths";
+
+  /** Whether the function could be evaluated statically */
+  status: "resolved" | "unresolved";
+
+  /** Concrete URLs (empty when unresolved) */
+  urls: string[];
+
+  /** File whose function could not be evaluated */
+  unresolvedFile?: string;
+
+  /** Values that could not be resolved */
+  unresolved?: UnresolvedValue[];
+}
+
+/**
+ * `has` / `missing` condition of a redirect, rewrite or header rule
+ */
+export interface RouteCondition {
+  type: 'header' | 'cookie' | 'query' | 'host';
+  key?: string;
+  value?: string;
+}
+
+/**
+ * Redirect rule from next.config
+ */
+export interface Redirect {
+  source: string;
+  destination: string;
+  permanent?: boolean;
+  statusCode?: number;
+  basePath?: false;
+  locale?: false;
+  has?: RouteCondition[];
+  missing?: RouteCondition[];
+}
+
+/**
+ * Rewrite rule from next.config
+ */
+export interface Rewrite {
+  source: string;
+  destination: string;
+  basePath?: false;
+  locale?: false;
+  has?: RouteCondition[];
+  missing?: RouteCondition[];
+}
+
+/**
+ * Rewrites grouped by phase; a plain array in next.config maps to `afterFiles`
+ */
+export interface NextRewrites {
+  beforeFiles: Rewrite[];
+  afterFiles: Rewrite[];
+  fallback: Rewrite[];
+}
+
+/**
+ * Custom headers rule from next.config
+ */
+export interface HeaderRule {
+  source: string;
+  headers: Array<{ key: string; value: string }>;
+  basePath?: false;
+  locale?: false;
+  has?: RouteCondition[];
+  missing?: RouteCondition[];
+}
+
+/**
+ * Routing rules from vercel.json
+ */
+export interface VercelConfig {
+  /** Config file the rules were read from */
+  configFile: string;
+
+  /** Redirect rules */
+  redirects?: Redirect[];
+
+  /** Rewrite rules */
+  rewrites?: Rewrite[];
+}
+
+/**
+ * Pages Router i18n configuration
+ */
+export interface I18nConfig {
+  locales: string[];
+  defaultLocale: string;
+  localeDetection?: false;
+  domains?: Array<{
+    domain: string;
+    defaultLocale: string;
+    locales?: string[];
+    http?: true;
+  }>;
+}
+
+/**
+ * Allowed remote image source
+ */
+export interface RemotePattern {
+  protocol?: 'http' | 'https';
+  hostname: string;
+  port?: string;
+  pathname?: string;
+  search?: string;
 }
 
 /**
@@ -219,6 +897,52 @@ export interface BaseRoute {
   catchAllSegment?: string;
 }
 
+/**
+ * Route segment config options exported by App Router pages, layouts and route handlers
+ */
+export interface RouteSegmentConfig {
+  /** Dynamic behavior of the segment */
+  dynamic?: "auto" | "force-dynamic" | "error" | "force-static";
+
+  /** Whether params not returned by generateStaticParams are generated on demand */
+  dynamicParams?: boolean;
+
+  /** Revalidation interval in seconds, or false to cache indefinitely */
+  revalidate?: number | false;
+
+  /** Default fetch caching behavior */
+  fetchCache?:
+    | "auto"
+    | "default-cache"
+    | "only-cache"
+    | "force-cache"
+    | "force-no-store"
+    | "default-no-store"
+    | "only-no-store";
+
+  /** Runtime the segment runs on */
+  runtime?: "nodejs" | "edge" | "experimental-edge";
+
+  /** Preferred deployment region(s) */
+  preferredRegion?: "auto" | "global" | "home" | string | string[];
+
+  /** Maximum execution duration in seconds */
+  maxDuration?: number;
+
+  /** Partial Prerendering opt-in */
+  experimental_ppr?: boolean;
+}
+
+/**
+ * Exports of App Router special files (comprehensive mode only)
+ */
+export interface AppRouterExports extends RouteSegmentConfig {
+  metadata?: boolean;
+  generateMetadata?: boolean;
+  generateStaticParams?: boolean;
+  generateViewport?: boolean;
+}
+
 /**
  * App Router specific route information
  */
@@ -258,19 +982,448 @@ export interface AppRouterRoute extends BaseRoute {
     default?: ComponentType;
   };
 
-  /** Exported functions and metadata (comprehensive mode only) */
-  exports?: {
-    metadata?: boolean;
-    generateMetadata?: boolean;
-    generateStaticParams?: boolean;
-    generateViewport?: boolean;
-    revalidate?: number;
+  /** Exported functions, metadata and segment config (comprehensive mode only) */
+  exports?: AppRouterExports;
+
+  /**
+   * Dynamic APIs used by the page (or handler), its layouts and templates and
+   * the local modules they import; `useSearchParams` only when no Suspense
+   * boundary covers it (comprehensive mode only)
+   */
+  dynamicApis?: RouteDynamicApiUsage[];
+
+  /** HTTP methods exported by the route handler (route.ts only) */
+  httpMethods?: HttpMethod[];
+
+  /** Segment directory relative to app/, including route groups and slots (e.g. `/(shop)/cart`) */
+  segmentPath?: string;
+
+  /** Layouts, templates and boundaries wrapping this page, from root to leaf (absent for route handlers) */
+  boundaries?: RouteBoundary[];
+
+  /** Parallel slot the page renders in (e.g. `modal` for `@modal`) */
+  slot?: string;
+
+  /** Interception details, for routes inside a (.), (..), (..)(..) or (...) folder */
+  interception?: {
+    /** Interception convention used */
+    marker: InterceptMarker;
+
+    /** URL of the segment the interception is defined under */
+    fromPath: string;
   };
 
-  /** Child routes */
+  /** Metadata file served by this route (sitemap, robots, icons, OG images, ...) */
+  metadataRoute?: MetadataRoute;
+
+  /** Nested segments (see AppRouterParser.buildRouteHierarchy) */
   children?: AppRouterRoute[];
 }
 
+/**
+ * Metadata file conventions that generate URLs
+ */
+export type MetadataRouteType =
+  | "sitemap"
+  | "robots"
+  | "manifest"
+  | "favicon"
+  | "icon"
+  | "apple-icon"
+  | "opengraph-image"
+  | "twitter-image";
+
+/**
+ * A metadata file route (e.g. `sitemap.ts` served at `/sitemap.xml`)
+ */
+export interface MetadataRoute {
+  /** Metadata file convention */
+  type: MetadataRouteType;
+
+  /** Whether the file is served as-is or generated by code */
+  source: "static" | "generated";
+
+  /** Whether the file exports generateImageMetadata (one URL per image) */
+  generateImageMetadata?: boolean;
+
+  /** Whether the file exports generateSitemaps (one URL per sitemap) */
+  generateSitemaps?: boolean;
+}
+
+/**
+ * Intercepting route convention: same level, one or two levels up, or the app root
+ */
+export type InterceptMarker = "(.)" | "(..)" | "(..)(..)" | "(...)";
+
+/**
+ * A parallel route slot (`@slot` folder)
+ */
+export interface ParallelSlot {
+  /** Slot name without the `@` (the prop name the layout receives) */
+  name: string;
+
+  /** Slot directory relative to app/ (e.g. `/dashboard/@analytics`) */
+  segmentPath: string;
+
+  /** Segment whose layout consumes the slot */
+  layoutSegmentPath: string;
+
+  /** Layout file consuming the slot, if present */
+  layoutFilePath?: string;
+
+  /** Whether the slot has a default.tsx fallback */
+  hasDefault: boolean;
+
+  /** default.tsx file path, if present */
+  defaultFilePath?: string;
+
+  /** URL paths of the pages the slot renders */
+  routes: string[];
+}
+
+/**
+ * An intercepting route and the route it intercepts
+ */
+export interface InterceptingRoute {
+  /** URL path being intercepted */
+  path: string;
+
+  /** Segment directory of the intercepting page relative to app/ */
+  segmentPath: string;
+
+  /** File system path to the intercepting page */
+  filePath: string;
+
+  /** Interception convention used */
+  marker: InterceptMarker;
+
+  /** URL of the segment the interception is defined under */
+  fromPath: string;
+
+  /** Page file of the intercepted route, when it exists in the app */
+  interceptedFilePath?: string;
+
+  /** Parallel slot the intercepting page renders in */
+  slot?: string;
+}
+
+/**
+ * Non-fatal issue found while analyzing routes
+ */
+export interface AnalysisWarning {
+  /** Machine-readable warning code */
+  code: "missing-default";
+
+  /** Human-readable description */
+  message: string;
+
+  /** Segment directory the warning refers to */
+  segmentPath?: string;
+}
+
+/**
+ * Kind of route collision that makes `next build` fail
+ */
+export type RouteConflictType =
+  | "duplicate-route"
+  | "app-pages-collision"
+  | "param-mismatch"
+  | "optional-catch-all-collision";
+
+/**
+ * Two route files that collide
+ */
+export interface RouteConflict {
+  /** Kind of collision */
+  type: RouteConflictType;
+
+  /** URL path (or path prefix, for param mismatches) the files collide on */
+  path: string;
+
+  /** Human-readable description */
+  message: string;
+
+  /** The two colliding files */
+  files: [string, string];
+}
+
+/**
+ * Route as identified in a route diff
+ */
+export interface RouteDiffEntry {
+  /** URL path */
+  path: string;
+
+  /** Router serving the route */
+  router: "app" | "pages";
+
+  /** Route file, relative to the project root when possible */
+  filePath: string;
+}
+
+/**
+ * Kind of change to a route present in both results
+ */
+export type RouteChangeKind = "pattern" | "component-type" | "segment-config";
+
+/**
+ * A single changed field of a route
+ */
+export interface RouteFieldChange {
+  /** Kind of change */
+  kind: RouteChangeKind;
+
+  /** Changed field (e.g. `page` for component types, `revalidate` for segment config) */
+  field: string;
+
+  /** Previous value (undefined when the field was added) */
+  before?: unknown;
+
+  /** New value (undefined when the field was removed) */
+  after?: unknown;
+}
+
+/**
+ * A route present in both results with changed fields
+ */
+export interface RouteChange extends RouteDiffEntry {
+  /** Previous path, when the route was renamed */
+  previousPath?: string;
+
+  /** Changed fields */
+  changes: RouteFieldChange[];
+}
+
+/**
+ * Differences between two introspection results
+ */
+export interface RouteDiffResult {
+  /** Routes only in the new result */
+  added: RouteDiffEntry[];
+
+  /** Routes only in the old result */
+  removed: RouteDiffEntry[];
+
+  /** Routes whose path changed, matched by file or shape */
+  renamed: Array<{ from: RouteDiffEntry; to: RouteDiffEntry }>;
+
+  /** Routes in both results whose pattern, component types or segment config changed */
+  changed: RouteChange[];
+}
+
+/**
+ * Category of route diff results, for CI gating
+ */
+export type RouteDiffKind = keyof RouteDiffResult;
+
+/**
+ * A Server Action (a function running on the server, callable from the client)
+ */
+export interface ServerAction {
+  /** Exported name, or the function name for inline actions */
+  name: string;
+
+  /** File defining the action */
+  filePath: string;
+
+  /** 1-based line of the definition */
+  line: number;
+
+  /** `module` for exports of a 'use server' file, `inline` for functions with their own directive */
+  scope: "module" | "inline";
+
+  /** Files importing the action, directly or through re-exports (empty for inline actions) */
+  importedBy: string[];
+
+  /** Paths of the routes whose modules import the action, directly or through components */
+  routes: string[];
+}
+
+/**
+ * A local module in the import graph
+ */
+export interface ModuleNode {
+  /** Absolute path of the module */
+  filePath: string;
+
+  /** Local modules imported directly (project files and workspace packages) */
+  imports: string[];
+
+  /**
+   * Local modules imported only by `getServerSideProps`, `getStaticProps` or
+   * `getStaticPaths`, which Next.js strips from a Pages Router page's client bundle
+   */
+  dataFetchingImports?: string[];
+
+  /** npm packages imported directly */
+  packages: string[];
+
+  /** Module-level directive; `use client` marks a client boundary */
+  directive?: "use client" | "use server";
+
+  /** Source size in bytes */
+  size: number;
+}
+
+/**
+ * Modules and packages a file or route depends on, directly or transitively
+ */
+export interface ModuleDependencies {
+  /** Local modules, excluding the entry files themselves */
+  modules: string[];
+
+  /** npm packages */
+  packages: string[];
+}
+
+/**
+ * Dependencies of a route, starting from its entry files
+ */
+export interface RouteDependencies extends ModuleDependencies {
+  /** Route path */
+  path: string;
+
+  /** Router type */
+  router: "app" | "pages";
+
+  /** Page or handler file, plus the layouts and boundaries (or `_app`/`_document`) wrapping it */
+  entryFiles: string[];
+}
+
+/**
+ * Modules and routes depending on a module, directly or transitively
+ */
+export interface ModuleDependents {
+  /** Local modules importing the module */
+  modules: string[];
+
+  /** Paths of the routes whose entry files are or import the module */
+  routes: string[];
+}
+
+/**
+ * A route affected by a set of changed files
+ */
+export interface AffectedRoute {
+  /** Route path */
+  path: string;
+
+  /** Router type */
+  router: "app" | "pages";
+
+  /** Public URL of the route (`basePath` and `trailingSlash` applied) */
+  url?: string;
+
+  /** Page or handler file of the route */
+  filePath: string;
+
+  /** Changed files that are, or are imported by, the route's entry files */
+  changedFiles: string[];
+}
+
+/**
+ * A client module imported by server code (or a client entry file), where
+ * the server-to-client boundary sits
+ */
+export interface ClientBoundary {
+  /** Client module */
+  filePath: string;
+
+  /** Server modules importing it (empty when the route entry file is itself a client module) */
+  importedBy: string[];
+}
+
+/**
+ * Kind of problem found in a client module
+ */
+export type ClientIssueType = "server-only-import" | "secret-env";
+
+/**
+ * A client module pulling in server-only code or secrets
+ */
+export interface ClientIssue {
+  /** Issue kind */
+  type: ClientIssueType;
+
+  /** Client module with the problem */
+  filePath: string;
+
+  /** 1-based line */
+  line: number;
+
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Modules of a route that end up in the client bundle
+ */
+export interface RouteClientBundle {
+  /** Route path */
+  path: string;
+
+  /** Router type */
+  router: "app" | "pages";
+
+  /** Where server code hands over to client modules */
+  boundaries: ClientBoundary[];
+
+  /** Local modules in the client bundle */
+  clientModules: string[];
+
+  /** npm packages imported by client modules */
+  clientPackages: string[];
+
+  /** Total source size of the client modules in bytes */
+  clientSize: number;
+
+  /** Server-only imports and secret environment variables in client modules */
+  issues: ClientIssue[];
+}
+
+/**
+ * JSON form of the module import graph
+ */
+export interface ModuleGraphData {
+  /** Every local module reachable from a route entry file */
+  modules: ModuleNode[];
+
+  /** Transitive dependencies of each route */
+  routes: RouteDependencies[];
+}
+
+/**
+ * Parallel and intercepting route model of the App Router
+ */
+export interface AppRoutingModel {
+  parallelSlots: ParallelSlot[];
+  interceptingRoutes: InterceptingRoute[];
+  warnings: AnalysisWarning[];
+}
+
+/**
+ * Kind of file that wraps the routes below its segment
+ */
+export type RouteBoundaryType = "layout" | "template" | "error" | "loading" | "notFound";
+
+/**
+ * A layout, template or boundary file that applies to a route
+ *
+ * Within one segment the order is layout, template, error, loading,
+ * notFound, matching how Next.js nests them; the last boundary of each type
+ * in a chain is the one that applies to the route.
+ */
+export interface RouteBoundary {
+  /** Boundary file type */
+  type: RouteBoundaryType;
+
+  /** Segment directory the file lives in (e.g. `/` or `/(marketing)`) */
+  segmentPath: string;
+
+  /** File system path to the boundary file */
+  filePath: string;
+}
+
 /**
  * Pages Router specific route information
  */
@@ -293,6 +1446,26 @@ export interface PagesRouterRoute extends BaseRoute {
 
   /** Component type */
   componentType?: ComponentType;
+
+  /** URLs of the page per i18n locale (pages only, when next.config sets i18n) */
+  locales?: LocaleVariant[];
+}
+
+/**
+ * The URL a Pages Router page is served at for one locale
+ */
+export interface LocaleVariant {
+  /** Locale code */
+  locale: string;
+
+  /** URL path, prefixed with the locale unless it is the default locale (of the domain) */
+  path: string;
+
+  /** Public URL of the variant (`basePath` and `trailingSlash` applied) */
+  url?: string;
+
+  /** Domain serving the locale (domain routing) */
+  domain?: string;
 }
 
 /**
@@ -308,8 +1481,29 @@ export interface RouteInfo extends BaseRoute {
   /** Pages Router specific data */
   pagesRouter?: Omit<PagesRouterRoute, keyof BaseRoute>;
 
+  /** Public URL the route is served at (`basePath` and `trailingSlash` applied) */
+  url?: string;
+
+  /** Middleware coverage */
+  middleware?: RouteMiddleware;
+
+  /** Rendering strategy (detailed and comprehensive modes) */
+  rendering?: RouteRendering;
+
+  /** Prerendered URLs of a dynamic route (detailed and comprehensive modes) */
+  prerendered?: PrerenderedUrls;
+
+  /** SHA-1 of the route file's content, to recognise moved files (detailed and comprehensive modes) */
+  contentHash?: string;
+
   /** Metadata from external file */
   metadata?: RouteMetadata;
+
+  /** Locale of a route listed once per locale (`expandLocales` output option) */
+  locale?: string;
+
+  /** Domain serving the locale of an expanded route */
+  domain?: string;
 }
 
 /**
@@ -322,6 +1516,24 @@ export interface IntrospectionResult {
   /** All detected routes */
   routes: RouteInfo[] | Record<string, any>;
 
+  /** Parallel route slots (App Router) */
+  parallelSlots?: ParallelSlot[];
+
+  /** Intercepting routes (App Router) */
+  interceptingRoutes?: InterceptingRoute[];
+
+  /** Non-fatal issues found during analysis */
+  warnings?: AnalysisWarning[];
+
+  /** Server Actions and the routes using them (detailed and comprehensive modes) */
+  serverActions?: ServerAction[];
+
+  /** Module import graph of the routes (when requested with the `moduleGraph` option) */
+  moduleGraph?: ModuleGraphData;
+
+  /** Client bundle of each page (detailed and comprehensive modes) */
+  clientBundles?: RouteClientBundle[];
+
   /** Analysis metadata */
   metadata: {
     /** When the analysis was performed */
@@ -379,6 +1591,12 @@ export interface ParserConfig {
 
   /** Maximum depth */
   maxDepth?: number;
+
+  /** Page extensions from next.config (defaults to tsx, ts, jsx and js) */
+  pageExtensions?: string[];
+
+  /** i18n config from next.config (Pages Router locale variants) */
+  i18n?: I18nConfig;
 }
 
 /**
@@ -437,6 +1655,9 @@ export interface RouteSegment {
   /** Whether it's an intercepting route */
   isIntercepting: boolean;
 
+  /** Intercepting convention prefix: (.), (..), (..)(..) or (...) */
+  interceptMarker?: string;
+
   /** Whether it's a parallel route */
   isParallel: boolean;
 
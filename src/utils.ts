@@ -1,5 +1,7 @@
+import { execFile } from 'child_process';
 import { promises as fs, existsSync } from 'fs';
 import path from 'path';
+import { promisify } from 'util';
 import type {
   FileEntry,
   RouteSegment,
@@ -8,8 +10,52 @@ import type {
   PackageInfo,
   IntrospectionOptions,
   RouteInfo,
-  RouteMetadata
+  RouteMetadata,
+  MetadataRoute,
+  MetadataRouteType,
+  NextConfig,
+  RouteCondition
 } from './types.js';
+import { ExportParser } from './parsers/ExportParser.js';
+
+/**
+ * Route segment config export names
+ */
+export const SEGMENT_CONFIG_KEYS = [
+  'dynamic',
+  'dynamicParams',
+  'revalidate',
+  'fetchCache',
+  'runtime',
+  'preferredRegion',
+  'maxDuration',
+  'experimental_ppr'
+];
+
+/**
+ * Extensions of JavaScript and TypeScript source files
+ */
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mts', '.mjs', '.cts', '.cjs'];
+
+/**
+ * Page extensions Next.js uses when next.config sets no `pageExtensions`
+ */
+export const DEFAULT_PAGE_EXTENSIONS = ['tsx', 'ts', 'jsx', 'js'];
+
+/**
+ * Get a file name without its page extension (`about.page.tsx` is `about`
+ * with `pageExtensions: ['page.tsx']`), or undefined if no extension matches.
+ * The longest matching extension wins.
+ */
+export function stripPageExtension(
+  filename: string,
+  pageExtensions: string[] = DEFAULT_PAGE_EXTENSIONS
+): string | undefined {
+  const extension = [...pageExtensions]
+    .sort((a, b) => b.length - a.length)
+    .find(ext => filename.endsWith(`.${ext}`) && filename.length > ext.length + 1);
+  return extension ? filename.slice(0, -(extension.length + 1)) : undefined;
+}
 
 /**
  * Recursively traverse a directory and return all files/directories
@@ -174,29 +220,26 @@ export async function getPackageInfo(
  * Parse a route segment and extract its properties
  */
 export function parseRouteSegment(segment: string): RouteSegment {
-  // Route group: (groupName)
-  if (segment.startsWith('(') && segment.endsWith(')')) {
+  // Intercepting routes: (.)folder (..)folder (..)(..)folder (...)folder
+  const interceptMatch = /^(\(\.\)|(?:\(\.\.\))+|\(\.\.\.\))(.+)$/.exec(segment);
+  if (interceptMatch) {
     return {
+      ...parseRouteSegment(interceptMatch[2]),
       name: segment,
-      isDynamic: false,
-      isCatchAll: false,
-      isOptionalCatchAll: false,
-      isRouteGroup: true,
-      isIntercepting: false,
-      isParallel: false
+      isIntercepting: true,
+      interceptMarker: interceptMatch[1]
     };
   }
 
-  // Intercepting routes: (.) (..) (...) (....)
-  if (segment.startsWith('(') && segment.endsWith(')') &&
-      ['.', '..', '...', '....'].includes(segment.slice(1, -1))) {
+  // Route group: (groupName)
+  if (segment.startsWith('(') && segment.endsWith(')')) {
     return {
       name: segment,
       isDynamic: false,
       isCatchAll: false,
       isOptionalCatchAll: false,
-      isRouteGroup: false,
-      isIntercepting: true,
+      isRouteGroup: true,
+      isIntercepting: false,
       isParallel: false
     };
   }
@@ -301,6 +344,25 @@ export function formatRoutePath(segments: RouteSegment[]): string {
   return `/${urlSegments.filter(s => s !== 'page' && s !== 'route').join('/')}`;
 }
 
+/**
+ * Resolve the public URL a route path is served at: `basePath` is prefixed
+ * and, with `trailingSlash`, a slash is appended unless the last segment is a
+ * file name (`/robots.txt`)
+ */
+export function resolveRouteUrl(
+  routePath: string,
+  config?: Pick<NextConfig, 'basePath' | 'trailingSlash'>
+): string {
+  const basePath = config?.basePath && config.basePath !== '/' ? config.basePath.replace(/\/+$/, '') : '';
+  const url = routePath === '/' ? basePath || '/' : `${basePath}${routePath}`;
+
+  const lastSegment = url.split('/').pop() || '';
+  if (config?.trailingSlash && !url.endsWith('/') && !/\.[^.[\]]+$/.test(lastSegment)) {
+    return `${url}/`;
+  }
+  return url;
+}
+
 /**
  * Detect if a component is a client or server component
  */
@@ -323,30 +385,18 @@ export function detectComponentType(fileContent: string): ComponentType {
 
 /**
  * Extract exports from TypeScript/JavaScript file content
+ *
+ * Backed by the AST-based ExportParser; see ExportParser.parse for the
+ * kind and literal value of each export.
  */
-export function extractExports(fileContent: string): Record<string, boolean> {
+export function extractExports(fileContent: string, fileName?: string): Record<string, boolean> {
   const exports: Record<string, boolean> = {};
 
-  // Named exports: export const/function/class/interface
-  const namedExportRegex = /export\s+(?:const|function|class|interface|type)\s+(\w+)/g;
-  let match;
-  while ((match = namedExportRegex.exec(fileContent)) !== null) {
-    exports[match[1]] = true;
-  }
-
-  // Named exports: export { name }
-  const exportFromRegex = /export\s*{\s*([^}]+)\s*}/g;
-  while ((match = exportFromRegex.exec(fileContent)) !== null) {
-    const exportList = match[1];
-    const exportNames = exportList.split(',').map(name => name.trim().split(' as ')[0].trim());
-    exportNames.forEach(name => {
-      if (name) exports[name] = true;
-    });
-  }
-
-  // Default export
-  if (/export\s+default/.test(fileContent)) {
-    exports.default = true;
+  for (const exported of ExportParser.parse(fileContent, fileName)) {
+    // `export * from` has no name of its own
+    if (exported.name !== '*') {
+      exports[exported.name] = true;
+    }
   }
 
   return exports;
@@ -372,49 +422,91 @@ export function detectRouterType(projectPath: string): RouterType {
 }
 
 /**
- * Check if a file is a special Next.js file
+ * Special file types by base name (App Router files, then Pages Router special pages)
  */
-export function isSpecialNextJsFile(filename: string): boolean {
-  const specialFiles = [
-    'page.tsx', 'page.jsx', 'page.js', 'page.ts',
-    'layout.tsx', 'layout.jsx', 'layout.js', 'layout.ts',
-    'loading.tsx', 'loading.jsx', 'loading.js', 'loading.ts',
-    'error.tsx', 'error.jsx', 'error.js', 'error.ts',
-    'not-found.tsx', 'not-found.jsx', 'not-found.js', 'not-found.ts',
-    'template.tsx', 'template.jsx', 'template.js', 'template.ts',
-    'default.tsx', 'default.jsx', 'default.js', 'default.ts',
-    'route.ts', 'route.js',
-    '_app.tsx', '_app.jsx', '_app.js', '_app.ts',
-    '_document.tsx', '_document.jsx', '_document.js', '_document.ts',
-    '_error.tsx', '_error.jsx', '_error.js', '_error.ts',
-    '404.tsx', '404.jsx', '404.js', '404.ts',
-    '500.tsx', '500.jsx', '500.js', '500.ts'
-  ];
+const SPECIAL_FILE_TYPES: Record<string, string> = {
+  'page': 'page',
+  'layout': 'layout',
+  'loading': 'loading',
+  'error': 'error',
+  'not-found': 'not-found',
+  'template': 'template',
+  'default': 'default',
+  'route': 'route',
+  '_app': 'app',
+  '_document': 'document',
+  '_error': 'error',
+  '404': '404',
+  '500': '500'
+};
 
-  return specialFiles.includes(filename);
+/**
+ * Check if a file is a special Next.js file
+ */
+export function isSpecialNextJsFile(
+  filename: string,
+  pageExtensions: string[] = DEFAULT_PAGE_EXTENSIONS
+): boolean {
+  return getSpecialFileType(filename, pageExtensions) !== undefined;
 }
 
 /**
  * Get special file type from filename
  */
-export function getSpecialFileType(filename: string): string | undefined {
-  const fileMap: Record<string, string> = {
-    'page.tsx': 'page', 'page.jsx': 'page', 'page.js': 'page', 'page.ts': 'page',
-    'layout.tsx': 'layout', 'layout.jsx': 'layout', 'layout.js': 'layout', 'layout.ts': 'layout',
-    'loading.tsx': 'loading', 'loading.jsx': 'loading', 'loading.js': 'loading', 'loading.ts': 'loading',
-    'error.tsx': 'error', 'error.jsx': 'error', 'error.js': 'error', 'error.ts': 'error',
-    'not-found.tsx': 'not-found', 'not-found.jsx': 'not-found', 'not-found.js': 'not-found', 'not-found.ts': 'not-found',
-    'template.tsx': 'template', 'template.jsx': 'template', 'template.js': 'template', 'template.ts': 'template',
-    'default.tsx': 'default', 'default.jsx': 'default', 'default.js': 'default', 'default.ts': 'default',
-    'route.ts': 'route', 'route.js': 'route',
-    '_app.tsx': 'app', '_app.jsx': 'app', '_app.js': 'app', '_app.ts': 'app',
-    '_document.tsx': 'document', '_document.jsx': 'document', '_document.js': 'document', '_document.ts': 'document',
-    '_error.tsx': 'error', '_error.jsx': 'error', '_error.js': 'error', '_error.ts': 'error',
-    '404.tsx': '404', '404.jsx': '404', '404.js': '404', '404.ts': '404',
-    '500.tsx': '500', '500.jsx': '500', '500.js': '500', '500.ts': '500'
-  };
+export function getSpecialFileType(
+  filename: string,
+  pageExtensions: string[] = DEFAULT_PAGE_EXTENSIONS
+): string | undefined {
+  const baseName = stripPageExtension(filename, pageExtensions);
+  const type = baseName !== undefined && Object.hasOwn(SPECIAL_FILE_TYPES, baseName)
+    ? SPECIAL_FILE_TYPES[baseName]
+    : undefined;
+
+  return type ?? getMetadataFileInfo(filename)?.type;
+}
+
+/**
+ * Static file extensions accepted by each metadata file convention
+ */
+const METADATA_STATIC_EXTENSIONS: Record<MetadataRouteType, string[]> = {
+  'sitemap': ['xml'],
+  'robots': ['txt'],
+  'manifest': ['json', 'webmanifest'],
+  'favicon': ['ico'],
+  'icon': ['ico', 'jpg', 'jpeg', 'png', 'svg'],
+  'apple-icon': ['jpg', 'jpeg', 'png'],
+  'opengraph-image': ['jpg', 'jpeg', 'png', 'gif'],
+  'twitter-image': ['jpg', 'jpeg', 'png', 'gif']
+};
+
+/**
+ * Identify a metadata file (e.g. `sitemap.ts`, `icon1.png`, `opengraph-image.tsx`)
+ *
+ * Image conventions accept a numeric suffix for multiple images.
+ */
+export function getMetadataFileInfo(filename: string): Pick<MetadataRoute, 'type' | 'source'> | undefined {
+  const match = /^(sitemap|robots|manifest|favicon|icon|apple-icon|opengraph-image|twitter-image)(\d*)\.([a-z]+)$/.exec(filename);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, name, suffix, extension] = match;
+  const type = name as MetadataRouteType;
+  const isImage = ['icon', 'apple-icon', 'opengraph-image', 'twitter-image'].includes(type);
+  if (suffix && !isImage) {
+    return undefined;
+  }
+
+  if (METADATA_STATIC_EXTENSIONS[type].includes(extension)) {
+    return { type, source: 'static' };
+  }
+
+  // favicon.ico can't be generated
+  if (['js', 'jsx', 'ts', 'tsx'].includes(extension) && type !== 'favicon') {
+    return { type, source: 'generated' };
+  }
 
-  return fileMap[filename];
+  return undefined;
 }
 
 /**
@@ -440,6 +532,280 @@ export function matchesPattern(pathStr: string, patterns: string[]): boolean {
   });
 }
 
+/**
+ * Compile a path-to-regexp style source (as used by middleware matchers,
+ * redirects, rewrites and headers) into a regular expression
+ *
+ * Supports named parameters with `?`, `*` and `+` modifiers, custom
+ * parameter patterns (`:id(\\d+)`) and unnamed groups (`/((?!api).*)`).
+ */
+export function compilePathPattern(source: string): { regexp: RegExp; keys: string[] } {
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  const keys: string[] = [];
+  let pattern = '';
+  let unnamed = 0;
+  let i = 0;
+
+  while (i < source.length) {
+    if (source[i] === '\\') {
+      pattern += escape(source[i + 1] ?? '');
+      i += 2;
+      continue;
+    }
+
+    // A leading "/" belongs to the parameter so optional parameters can drop it
+    const prefix = source[i] === '/' && (source[i + 1] === ':' || source[i + 1] === '(') ? '/' : '';
+    let j = i + prefix.length;
+    if (source[j] !== ':' && source[j] !== '(') {
+      pattern += escape(source[i]);
+      i++;
+      continue;
+    }
+
+    let name = String(unnamed);
+    let group = '[^\\/#\\?]+?';
+    if (source[j] === ':') {
+      const match = /^:(\w+)/.exec(source.slice(j));
+      if (!match) {
+        pattern += escape(source[i]);
+        i++;
+        continue;
+      }
+      name = match[1];
+      j += match[0].length;
+    } else {
+      unnamed++;
+    }
+
+    if (source[j] === '(') {
+      let depth = 1;
+      let end = j + 1;
+      while (end < source.length && depth > 0) {
+        if (source[end] === '\\') {
+          end += 2;
+          continue;
+        }
+        if (source[end] === '(') depth++;
+        if (source[end] === ')') depth--;
+        end++;
+      }
+      group = source.slice(j + 1, end - 1);
+      j = end;
+    }
+
+    const modifier = source[j] === '?' || source[j] === '*' || source[j] === '+' ? source[j] : '';
+    if (modifier) {
+      j++;
+    }
+
+    const escapedPrefix = escape(prefix);
+    keys.push(name);
+    if (modifier === '*' || modifier === '+') {
+      pattern += `(?:${escapedPrefix}((?:${group})(?:${escapedPrefix}(?:${group}))*))${modifier === '*' ? '?' : ''}`;
+    } else {
+      pattern += `(?:${escapedPrefix}(${group}))${modifier}`;
+    }
+    i = j;
+  }
+
+  return { regexp: new RegExp(`^${pattern}[\\/#\\?]?$`, 'i'), keys };
+}
+
+/**
+ * Match a pathname against a path-to-regexp style source
+ *
+ * Returns the captured parameters, or null when the pathname does not match.
+ * Repeated parameters (`*` / `+`) are returned as arrays of segments.
+ */
+export function matchPathPattern(source: string, pathname: string): Record<string, string | string[]> | null {
+  const { regexp, keys } = compilePathPattern(source);
+  const match = regexp.exec(pathname);
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string | string[]> = {};
+  const repeated = new Set(
+    [...source.matchAll(/:(\w+)(?:\([^)]*\))?[*+]/g)].map(m => m[1])
+  );
+  keys.forEach((key, index) => {
+    const value = match[index + 1];
+    if (value !== undefined) {
+      params[key] = repeated.has(key) ? value.split('/') : value;
+    }
+  });
+  return params;
+}
+
+/**
+ * Fill the parameters of a redirect or rewrite destination (`/posts/:slug`,
+ * `/docs/:path*`) with the params captured from its source; optional
+ * parameters (`*` / `?`) that captured nothing are dropped with their `/`,
+ * other unknown parameters are kept as written
+ */
+export function fillPathPattern(destination: string, params: Record<string, string | string[]>): string {
+  const filled = destination.replace(/(\/?):(\w+)(?:\([^)]*\))?([*+?]?)/g, (written, slash: string, name: string, modifier: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      return modifier === '*' || modifier === '?' ? '' : written;
+    }
+    return slash + (Array.isArray(value) ? value.join('/') : value);
+  });
+  return filled || (destination.startsWith('/') ? '/' : filled);
+}
+
+/**
+ * Check the `has` and `missing` conditions of a rule against a request
+ *
+ * Returns the params the conditions capture (named groups of `value`
+ * patterns, or the key itself when there is no `value`), or null when the
+ * request does not satisfy them.
+ */
+export function matchConditions(
+  has: RouteCondition[] | undefined,
+  missing: RouteCondition[] | undefined,
+  request: {
+    headers?: Record<string, string>;
+    cookies?: Record<string, string>;
+    query?: Record<string, string>;
+    host?: string;
+  }
+): Record<string, string> | null {
+  const headers = Object.fromEntries(
+    Object.entries(request.headers || {}).map(([name, value]) => [name.toLowerCase(), value])
+  );
+
+  const check = (condition: RouteCondition): Record<string, string> | null => {
+    const key = condition.key || '';
+    const actual = condition.type === 'host'
+      ? request.host
+      : condition.type === 'header'
+        ? headers[key.toLowerCase()]
+        : condition.type === 'cookie'
+          ? request.cookies?.[key]
+          : request.query?.[key];
+    if (actual === undefined) {
+      return null;
+    }
+
+    if (condition.value === undefined) {
+      return condition.type === 'host' ? {} : { [key.replace(/[^a-zA-Z0-9_]/g, '')]: actual };
+    }
+    try {
+      const match = new RegExp(`^${condition.value}$`).exec(actual);
+      return match ? { ...match.groups } : null;
+    } catch {
+      // Not a valid pattern
+      return null;
+    }
+  };
+
+  const params: Record<string, string> = {};
+  for (const condition of has || []) {
+    const captured = check(condition);
+    if (!captured) {
+      return null;
+    }
+    Object.assign(params, captured);
+  }
+  return (missing || []).some(condition => check(condition) !== null) ? null : params;
+}
+
+/**
+ * Rank of a route segment; lower ranks take precedence
+ */
+const SEGMENT_RANKS = { static: 0, dynamic: 1, 'catch-all': 2, 'optional-catch-all': 3 };
+
+/**
+ * Match a pathname against a route path (`/blog/[slug]`, `/docs/[[...path]]`),
+ * returning the params or null
+ */
+export function matchRoutePath(routePath: string, pathname: string): Record<string, string | string[]> | null {
+  const decode = (value: string) => {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+  const route = routePath.split('/').filter(Boolean);
+  const segments = pathname.split('/').filter(Boolean).map(decode);
+  const params: Record<string, string | string[]> = {};
+
+  for (let i = 0; i < route.length; i++) {
+    const routeSegment = route[i];
+    const catchAll = /^\[(\[)?\.\.\.([^\]]+)\]\]?$/.exec(routeSegment);
+    if (catchAll) {
+      const rest = segments.slice(i);
+      if (rest.length === 0 && !catchAll[1]) {
+        return null;
+      }
+      if (rest.length > 0) {
+        params[catchAll[2]] = rest;
+      }
+      return params;
+    }
+
+    const segment = segments[i];
+    if (segment === undefined) {
+      return null;
+    }
+
+    const dynamic = /^\[([^\]]+)\]$/.exec(routeSegment);
+    if (dynamic) {
+      params[dynamic[1]] = segment;
+    } else if (segment !== routeSegment) {
+      return null;
+    }
+  }
+
+  return segments.length === route.length ? params : null;
+}
+
+/**
+ * Get the routes that serve URLs of their own, sorted so the first match is
+ * the one Next.js serves: static over dynamic over catch-all over optional
+ * catch-all segment by segment, App Router before Pages Router. Parallel
+ * slots, intercepting routes and special pages are left out.
+ */
+export function getServableRoutes(routes: RouteInfo[]): RouteInfo[] {
+  const rank = (segment: string): number => {
+    if (/^\[\[\.\.\..+\]\]$/.test(segment)) return SEGMENT_RANKS['optional-catch-all'];
+    if (/^\[\.\.\..+\]$/.test(segment)) return SEGMENT_RANKS['catch-all'];
+    if (/^\[.+\]$/.test(segment)) return SEGMENT_RANKS.dynamic;
+    return SEGMENT_RANKS.static;
+  };
+
+  return routes
+    .filter(route => !route.appRouter?.slot && !route.appRouter?.isInterceptingRoute && !route.pagesRouter?.isSpecialPage)
+    .sort((a, b) => {
+      const aSegments = a.path.split('/').filter(Boolean);
+      const bSegments = b.path.split('/').filter(Boolean);
+      for (let i = 0; i < Math.max(aSegments.length, bSegments.length); i++) {
+        if (aSegments[i] === undefined || bSegments[i] === undefined) {
+          return aSegments.length - bSegments.length;
+        }
+        const difference = rank(aSegments[i]) - rank(bSegments[i]);
+        if (difference !== 0) {
+          return difference;
+        }
+      }
+      return a.router === b.router ? 0 : a.router === 'app' ? -1 : 1;
+    });
+}
+
+/**
+ * Normalize a route path so paths differing only in param names compare equal
+ */
+export function normalizeRouteParams(routePath: string): string {
+  const normalized = routePath
+    .replace(/\[\[\.\.\.[^\]]+\]\]/g, '[[...]]')
+    .replace(/\[\.\.\.[^\]]+\]/g, '[...]')
+    .replace(/\[[^\].]+\]/g, '[]')
+    .replace(/\/+$/, '');
+  return normalized || '/';
+}
+
 /**
  * Normalize file path for consistent handling
  */
@@ -579,6 +945,28 @@ export function routesToArray(nestedRoutes: Record<string, any>): RouteInfo[] {
   return result;
 }
 
+/**
+ * List Pages Router routes once per locale variant; other routes are kept as they are
+ */
+export function expandLocaleRoutes(routes: RouteInfo[]): RouteInfo[] {
+  return routes.flatMap(route => {
+    const variants = route.pagesRouter?.locales;
+    if (!variants?.length) {
+      return [route];
+    }
+
+    const { locales: _locales, ...pagesRouter } = route.pagesRouter!;
+    return variants.map(variant => ({
+      ...route,
+      path: variant.path,
+      ...(variant.url && { url: variant.url }),
+      pagesRouter,
+      locale: variant.locale,
+      ...(variant.domain && { domain: variant.domain })
+    }));
+  });
+}
+
 /**
  * Recursively filter out excluded fields from objects
  */
@@ -733,3 +1121,37 @@ export function mergeRouteMetadata(
     return route;
   });
 }
+
+/**
+ * List the files changed since a git ref (committed, staged, unstaged and
+ * untracked), compared to its merge base with HEAD. Returns absolute paths.
+ * The ref must name a commit; refs starting with `-` are rejected so they
+ * cannot be read as git options.
+ */
+export async function getChangedFiles(cwd: string, ref: string): Promise<string[]> {
+  const git = async (...args: string[]): Promise<string[]> => {
+    try {
+      const { stdout } = await promisify(execFile)('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+      return stdout.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`git ${args.join(' ')} failed: ${errorMessage}`);
+    }
+  };
+
+  if (ref.startsWith('-')) {
+    throw new Error(`Invalid git ref '${ref}'`);
+  }
+  const [commit] = await git('rev-parse', '--verify', '--quiet', '--end-of-options', `${ref}^{commit}`).catch(() => {
+    throw new Error(`Unknown git ref '${ref}'`);
+  });
+
+  const [topLevel] = await git('rev-parse', '--show-toplevel');
+  const [mergeBase] = await git('merge-base', commit, 'HEAD');
+  const files = [
+    ...await git('diff', '--name-only', mergeBase),
+    ...await git('ls-files', '--others', '--exclude-standard', '--full-name', topLevel)
+  ];
+
+  return [...new Set(files.map(file => path.join(topLevel, file)))].sort();
+}
@@ -1,7 +1,7 @@
-import { beforeAll, afterAll } from 'vitest';
+import { beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
 import { tmpdir } from 'os';
-import { join } from 'path';
-import { mkdir, rm } from 'fs/promises';
+import { dirname, join } from 'path';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
 
 // Create a temporary directory for tests
 let tempDir: string;
@@ -17,4 +17,53 @@ afterAll(async () => {
   }
 });
 
+/**
+ * Temporary project directory, recreated for each test
+ */
+export interface TempProject {
+  /** Absolute path of the project directory */
+  dir: string;
+
+  /** Resolve a path relative to the project directory */
+  file: (relativePath: string) => string;
+
+  /** Write files (relative path → content) under the project directory, or under `baseDir` inside it */
+  writeFiles: (files: Record<string, string>, baseDir?: string) => Promise<void>;
+}
+
+/**
+ * Create a fresh project directory before each test of the enclosing
+ * `describe` and remove it afterwards
+ *
+ * Hooks of one `describe` run in parallel, so files every test needs are
+ * written by `setup` rather than by a sibling `beforeEach`.
+ */
+export function setupTempProject(
+  prefix: string,
+  setup?: (project: TempProject) => Promise<unknown>
+): TempProject {
+  const project: TempProject = {
+    dir: '',
+    file: (relativePath) => join(project.dir, relativePath),
+    writeFiles: async (files, baseDir = '.') => {
+      for (const [relativePath, content] of Object.entries(files)) {
+        const filePath = join(project.dir, baseDir, relativePath);
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, content);
+      }
+    },
+  };
+
+  beforeEach(async () => {
+    project.dir = await mkdtemp(join(tmpdir(), prefix));
+    await setup?.(project);
+  });
+
+  afterEach(async () => {
+    await rm(project.dir, { recursive: true, force: true });
+  });
+
+  return project;
+}
+
 export { tempDir };
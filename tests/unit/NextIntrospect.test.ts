@@ -7,6 +7,9 @@ import type { IntrospectionOptions, ProjectInfo, RouteInfo } from '../../src/typ
 const mockAdapterInstance = {
   getProjectInfo: vi.fn(),
   getRoutes: vi.fn(),
+  getRoutingModel: vi.fn(),
+  getServerActions: vi.fn().mockResolvedValue([]),
+  getModuleGraph: vi.fn().mockResolvedValue(undefined),
 };
 
 vi.mock('../../src/adapters/NextJsAdapter', () => ({
@@ -144,6 +147,101 @@ describe('NextIntrospect', () => {
     });
   });
 
+  describe('getApiRoutes', () => {
+    it('should include App Router route handlers and Pages Router API routes', async () => {
+      vi.spyOn(introspect as any, 'isValidProject').mockResolvedValue(true);
+      mockAdapterInstance.getProjectInfo.mockResolvedValue(mockProjectInfo);
+      mockAdapterInstance.getRoutes.mockResolvedValue([
+        ...mockRoutes,
+        {
+          path: '/api/items',
+          filePath: 'src/app/api/items/route.ts',
+          pattern: 'static',
+          router: 'app',
+          appRouter: {
+            segment: 'items',
+            isRouteGroup: false,
+            isInterceptingRoute: false,
+            isParallelRoute: false,
+            specialFiles: { route: true },
+            componentTypes: {},
+            httpMethods: ['GET', 'POST'],
+          },
+        },
+        {
+          path: '/api/legacy',
+          filePath: 'src/pages/api/legacy.ts',
+          pattern: 'static',
+          router: 'pages',
+          pagesRouter: { isApiRoute: true },
+        },
+      ]);
+
+      await introspect.analyze();
+
+      expect(introspect.getApiRoutes().map(route => route.path)).toEqual(['/api/items', '/api/legacy']);
+    });
+  });
+
+  describe('getRoutesByRendering', () => {
+    it('should filter routes by rendering strategy', async () => {
+      vi.spyOn(introspect as any, 'isValidProject').mockResolvedValue(true);
+      mockAdapterInstance.getProjectInfo.mockResolvedValue(mockProjectInfo);
+      mockAdapterInstance.getRoutes.mockResolvedValue([
+        { ...mockRoutes[0], rendering: { strategy: 'isr', revalidate: 60, reasons: [] } },
+        { ...mockRoutes[1], rendering: { strategy: 'dynamic', reasons: ['POST handler'] } },
+      ]);
+
+      await introspect.analyze();
+
+      expect(introspect.getRoutesByRendering('isr').map(route => route.path)).toEqual(['/']);
+      expect(introspect.getRoutesByRendering('dynamic').map(route => route.path)).toEqual(['/api/users']);
+      expect(introspect.getRoutesByRendering('ppr')).toEqual([]);
+    });
+  });
+
+  describe('getAffectedRoutes', () => {
+    it('should list the routes reaching any changed file', async () => {
+      vi.spyOn(introspect as any, 'isValidProject').mockResolvedValue(true);
+      mockAdapterInstance.getProjectInfo.mockResolvedValue(mockProjectInfo);
+      mockAdapterInstance.getRoutes.mockResolvedValue(mockRoutes);
+      mockAdapterInstance.getModuleGraph.mockResolvedValueOnce({
+        getModule: vi.fn(),
+        getDependents: vi.fn((filePath: string) => ({
+          modules: [],
+          routes: filePath.endsWith('db.ts') ? ['/api/users', '/'] : filePath.endsWith('page.tsx') ? ['/'] : [],
+        })),
+      });
+
+      await introspect.analyze();
+
+      expect(introspect.getAffectedRoutes(['src/lib/db.ts', 'src/app/page.tsx', 'README.md'])).toEqual([
+        {
+          path: '/',
+          router: 'app',
+          filePath: 'src/app/page.tsx',
+          changedFiles: ['/path/to/project/src/app/page.tsx', '/path/to/project/src/lib/db.ts'],
+        },
+        {
+          path: '/api/users',
+          router: 'app',
+          filePath: 'src/app/api/users/route.ts',
+          changedFiles: ['/path/to/project/src/lib/db.ts'],
+        },
+      ]);
+    });
+
+    it('should require the module graph', async () => {
+      vi.spyOn(introspect as any, 'isValidProject').mockResolvedValue(true);
+      mockAdapterInstance.getProjectInfo.mockResolvedValue(mockProjectInfo);
+      mockAdapterInstance.getRoutes.mockResolvedValue(mockRoutes);
+
+      await introspect.analyze();
+
+      expect(() => introspect.getAffectedRoutes(['src/lib/db.ts'])).toThrow('basic mode');
+    });
+  });
+
   describe('getProjectInfo', () => {
     it('should return project info after analysis', async () => {
       const isValidProjectSpy = vi.spyOn(introspect as any, 'isValidProject').mockResolvedValue(true);
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { NextJsAdapter } from '../../../src/adapters/NextJsAdapter';
 import type { ProjectInfo, RouteInfo, RouterType } from '../../../src/types';
+import { setupTempProject } from '../../setup';
 
 // Mock the route parsing methods
 const mockAppRoutes: RouteInfo[] = [
@@ -170,6 +171,147 @@ describe('NextJsAdapter', () => {
     });
   });
 
+  describe('getRoutes with route parsers', () => {
+    const fixturePath = 'tests/__fixtures__/mock-nextjs-project';
+
+    beforeEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should compute patterns and dynamic segments for App Router routes', async () => {
+      const routes = await adapter.getRoutes(fixturePath, 'comprehensive');
+
+      const blogRoute = routes.find(r => r.path === '/blog/[slug]');
+      expect(blogRoute?.pattern).toBe('dynamic');
+      expect(blogRoute?.dynamicSegments).toEqual(['slug']);
+      expect(blogRoute?.appRouter?.specialFiles.page).toBe(true);
+      expect(blogRoute?.appRouter?.componentTypes.page).toBe('server');
+    });
+
+    it('should emit one route per App Router segment', async () => {
+      const routes = await adapter.getRoutes(fixturePath, 'comprehensive');
+
+      const appPaths = routes.filter(r => r.router === 'app').map(r => r.path).sort();
+      expect(appPaths).toEqual(['/', '/api/users', '/blog/[slug]']);
+
+      const apiRoute = routes.find(r => r.path === '/api/users');
+      expect(apiRoute?.filePath).toContain('src/app/api/users/route.ts');
+      expect(apiRoute?.appRouter?.specialFiles.route).toBe(true);
+    });
+
+    it('should parse Pages Router routes', async () => {
+      const routes = await adapter.getRoutes(fixturePath, 'comprehensive');
+
+      const aboutRoute = routes.find(r => r.path === '/about');
+      expect(aboutRoute?.router).toBe('pages');
+      expect(aboutRoute?.pagesRouter?.isApiRoute).toBe(false);
+    });
+
+    it('should honour the analysis mode', async () => {
+      const basicRoutes = await adapter.getRoutes(fixturePath, 'basic');
+      const detailedRoutes = await adapter.getRoutes(fixturePath, 'detailed');
+      const comprehensiveRoutes = await adapter.getRoutes(fixturePath, 'comprehensive');
+
+      const home = (routes: RouteInfo[]) => routes.find(r => r.path === '/')!;
+      expect(home(basicRoutes).appRouter?.componentTypes).toEqual({});
+      expect(home(basicRoutes).appRouter?.exports).toBeUndefined();
+      expect(home(detailedRoutes).appRouter?.componentTypes.page).toBe('server');
+      expect(home(detailedRoutes).appRouter?.exports).toBeUndefined();
+      expect(home(comprehensiveRoutes).appRouter?.exports).toBeDefined();
+    });
+
+    describe('next.config', () => {
+      const project = setupTempProject('next-config-');
+
+      it('should honour pageExtensions from next.config', async () => {
+        await project.writeFiles({
+          'package.json': JSON.stringify({ dependencies: { next: '14.2.0' } }),
+          'next.config.js': `module.exports = { pageExtensions: ['page.tsx', 'api.ts', 'mdx'] };`,
+          'pages/index.page.tsx': 'export default function Home() { return null; }',
+          'pages/_app.page.tsx': 'export default function App() { return null; }',
+          'pages/blog/[slug].page.tsx': 'export default function Post() { return null; }',
+          'pages/blog/PostCard.tsx': 'export default function PostCard() { return null; }',
+          'pages/docs/intro.mdx': '# Intro',
+          'pages/api/health.api.ts': 'export default function handler() {}',
+          'pages/api/helpers.ts': 'export const ok = true;',
+          'app/dashboard/page.page.tsx': 'export default function Dashboard() { return null; }',
+          'app/dashboard/layout.page.tsx': 'export default function Layout({ children }) { return children; }',
+          'app/dashboard/page.tsx': 'export default function Ignored() { return null; }',
+          'app/guide/page.mdx': '# Guide',
+        });
+
+        const routes = await adapter.getRoutes(project.dir, 'basic');
+        const byPath = (routePath: string) => routes.find(r => r.path === routePath);
+
+        expect(routes.filter(r => r.router === 'pages').map(r => r.path).sort()).toEqual(
+          ['/', '/_app', '/api/health', '/blog/[slug]', '/docs/intro'],
+        );
+        expect(byPath('/_app')?.pagesRouter?.specialPageType).toBe('app');
+        expect(byPath('/api/health')?.pagesRouter?.isApiRoute).toBe(true);
+        expect(byPath('/dashboard')?.filePath).toBe(project.file('app/dashboard/page.page.tsx'));
+        expect(byPath('/dashboard')?.appRouter?.specialFiles.layout).toBe(true);
+        expect(byPath('/guide')?.filePath).toBe(project.file('app/guide/page.mdx'));
+      });
+
+      it('should honour pageExtensions set inside a createMDX() wrapper', async () => {
+        await project.writeFiles({
+          'package.json': JSON.stringify({ dependencies: { next: '15.0.0', '@next/mdx': '15.0.0' } }),
+          'next.config.mjs': [
+            "import createMDX from '@next/mdx';",
+            '',
+            "const nextConfig = { pageExtensions: ['js', 'jsx', 'md', 'mdx', 'ts', 'tsx'] };",
+            '',
+            'const withMDX = createMDX({});',
+            '',
+            'export default withMDX(nextConfig);',
+          ].join('\n'),
+          'app/page.tsx': 'export default function Home() { return null; }',
+          'app/docs/page.mdx': '# Docs',
+        });
+
+        const projectInfo = await adapter.getProjectInfo(project.dir);
+        const routes = await adapter.getRoutes(project.dir, 'basic');
+
+        expect(projectInfo.config?.pageExtensions).toEqual(['js', 'jsx', 'md', 'mdx', 'ts', 'tsx']);
+        expect(routes.map(r => r.path).sort()).toEqual(['/', '/docs']);
+        expect(routes.find(r => r.path === '/docs')?.filePath).toBe(project.file('app/docs/page.mdx'));
+      });
+    });
+  });
+
+  describe('getModuleGraph', () => {
+    const project = setupTempProject('adapter-module-graph-', ({ writeFiles }) => writeFiles({
+      'package.json': JSON.stringify({ dependencies: { next: '14.2.0' } }),
+      'app/layout.tsx': `
+        import { Nav } from '../components/Nav';
+        export default function RootLayout({ children }) { return <Nav>{children}</Nav>; }
+      `,
+      'app/page.tsx': `
+        import { db } from '../lib/db';
+        export default async function Home() { return db.users(); }
+      `,
+      'app/api/users/route.ts': `
+        import { db } from '../../../lib/db';
+        export async function GET() { return Response.json(await db.users()); }
+      `,
+      'components/Nav.tsx': 'export function Nav({ children }) { return children; }',
+      'lib/db.ts': 'export const db = { users: async () => [] };',
+    }));
+
+    beforeEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should not report route handlers as affected by a layout change', async () => {
+      const routes = await adapter.getRoutes(project.dir, 'detailed');
+      const graph = (await adapter.getModuleGraph(project.dir, routes, 'detailed'))!;
+
+      expect(graph.getDependents(project.file('app/layout.tsx')).routes).toEqual(['/']);
+      expect(graph.getDependents(project.file('components/Nav.tsx')).routes).toEqual(['/']);
+      expect(graph.getDependents(project.file('lib/db.ts')).routes).toEqual(['/', '/api/users']);
+    });
+  });
+
   describe('route detection edge cases', () => {
     it('should handle nested route groups', async () => {
       // Would need fixture with route groups like (auth), (dashboard), etc.
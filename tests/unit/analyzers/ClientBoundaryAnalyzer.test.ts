@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { AppRouterParser } from '../../../src/parsers/AppRouterParser';
+import { PagesRouterParser } from '../../../src/parsers/PagesRouterParser';
+import { ModuleGraph } from '../../../src/analyzers/ModuleGraph';
+import { ClientBoundaryAnalyzer } from '../../../src/analyzers/ClientBoundaryAnalyzer';
+import type { RouteInfo } from '../../../src/types';
+import { setupTempProject } from '../../setup';
+
+describe('ClientBoundaryAnalyzer', () => {
+  const project = setupTempProject('client-boundary-', ({ writeFiles }) => writeFiles({
+    'app/layout.tsx': `
+      import Nav from '../components/Nav';
+      export default function RootLayout({ children }) { return <><Nav />{children}</>; }
+    `,
+    'app/page.tsx': `
+      import { getPosts } from '../lib/db';
+      import LikeButton from '../components/LikeButton';
+      export default async function Home() { await getPosts(); return <LikeButton />; }
+    `,
+    'app/api/health/route.ts': `export function GET() { return Response.json({ ok: true }); }`,
+    'components/Nav.tsx': `
+      'use client'
+      import clsx from 'clsx';
+      export default function Nav() { return <nav className={clsx('nav')} />; }
+    `,
+    'components/LikeButton.tsx': `
+      "use client";
+      import { like } from '../lib/actions';
+      import { format } from '../lib/format';
+      const key = process.env.NEXT_PUBLIC_ANALYTICS_KEY;
+      const { STRIPE_SECRET_KEY } = process.env;
+      export default function LikeButton() { return <button onClick={() => like(format(key))} />; }
+    `,
+    'lib/actions.ts': `
+      'use server';
+      import { getPosts } from './db';
+      export async function like() {}
+    `,
+    'lib/format.ts': `
+      import 'server-only';
+      export const format = (value: string) => value + process.env['API_TOKEN'] + process.env.NODE_ENV;
+    `,
+    'lib/db.ts': `
+      import 'server-only';
+      export async function getPosts() { return process.env.DATABASE_URL; }
+    `,
+    'pages/_app.tsx': `export default function App({ Component, pageProps }) { return <Component {...pageProps} />; }`,
+    'pages/_document.tsx': `export default function Document() { return null; }`,
+    'pages/legacy.tsx': `export default function Legacy() { return null; }`,
+  }));
+  const { file, writeFiles } = project;
+
+  const analyze = async (publicEnv: string[] = []) => {
+    const config = { rootDir: project.dir, mode: 'detailed' as const, maxDepth: 10 };
+    const routes: RouteInfo[] = [
+      ...(await AppRouterParser.parse(file('app'), config)),
+      ...(await PagesRouterParser.parse(file('pages'), config)),
+    ];
+    const graph = await ModuleGraph.build(project.dir, routes);
+    return ClientBoundaryAnalyzer.analyze(graph, routes, publicEnv);
+  };
+
+  it('should find the server-to-client boundaries and client modules of a page', async () => {
+    const home = (await analyze()).find(bundle => bundle.path === '/')!;
+
+    expect(home.boundaries).toEqual([
+      { filePath: file('components/LikeButton.tsx'), importedBy: [file('app/page.tsx')] },
+      { filePath: file('components/Nav.tsx'), importedBy: [file('app/layout.tsx')] },
+    ]);
+    // Server Actions stay on the server; the server-only database module is never reached from the client
+    expect(home.clientModules).toEqual([
+      file('components/LikeButton.tsx'),
+      file('components/Nav.tsx'),
+      file('lib/format.ts'),
+    ]);
+    expect(home.clientPackages).toEqual(['clsx', 'server-only']);
+    expect(home.clientSize).toBeGreaterThan(0);
+  });
+
+  it('should flag server-only imports and private environment variables in client modules', async () => {
+    const home = (await analyze()).find(bundle => bundle.path === '/')!;
+
+    expect(home.issues.map(({ type, filePath, line }) => ({ type, filePath, line }))).toEqual([
+      { type: 'secret-env', filePath: file('components/LikeButton.tsx'), line: 6 },
+      { type: 'server-only-import', filePath: file('lib/format.ts'), line: 2 },
+      { type: 'secret-env', filePath: file('lib/format.ts'), line: 3 },
+    ]);
+
+    const withConfigEnv = (await analyze(['STRIPE_SECRET_KEY'])).find(bundle => bundle.path === '/')!;
+    expect(withConfigEnv.issues.map(issue => issue.message)).not.toContain(
+      'Client module reads process.env.STRIPE_SECRET_KEY, which is not exposed to the browser',
+    );
+  });
+
+  it('should treat Pages Router pages and _app as client code and skip route handlers', async () => {
+    const bundles = await analyze();
+
+    expect(bundles.map(bundle => bundle.path)).toEqual(['/', '/legacy']);
+    expect(bundles.find(bundle => bundle.path === '/legacy')).toMatchObject({
+      boundaries: [
+        { filePath: file('pages/_app.tsx'), importedBy: [] },
+        { filePath: file('pages/legacy.tsx'), importedBy: [] },
+      ],
+      clientModules: [file('pages/_app.tsx'), file('pages/legacy.tsx')],
+      issues: [],
+    });
+  });
+
+  it('should leave Pages Router data fetching code out of the client bundle', async () => {
+    await writeFiles({
+      'pages/posts.tsx': `
+        import { getPosts } from '../lib/db';
+        import { format } from '../lib/format';
+        import LikeButton from '../components/LikeButton';
+        const loadPosts = async () => ({ posts: await getPosts(), token: process.env.API_TOKEN });
+        export async function getServerSideProps() { return { props: await loadPosts() }; }
+        export default function Posts({ posts }) { return <LikeButton label={format(process.env.PREVIEW_SECRET)} />; }
+      `,
+      'pages/archive.tsx': `
+        export { getStaticProps } from '../lib/db';
+        export default function Archive() { return null; }
+      `,
+    });
+    const bundles = await analyze();
+
+    const posts = bundles.find(bundle => bundle.path === '/posts')!;
+    expect(posts.clientModules).not.toContain(file('lib/db.ts'));
+    expect(posts.clientModules).toContain(file('lib/format.ts'));
+    expect(posts.issues.filter(issue => issue.filePath === file('pages/posts.tsx')).map(issue => issue.message)).toEqual([
+      'Client module reads process.env.PREVIEW_SECRET, which is not exposed to the browser',
+    ]);
+
+    const archive = bundles.find(bundle => bundle.path === '/archive')!;
+    expect(archive.clientModules).toEqual([file('pages/_app.tsx'), file('pages/archive.tsx')]);
+    expect(archive.issues).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { ConflictDetector } from '../../../src/analyzers/ConflictDetector';
+import type { RouteInfo } from '../../../src/types';
+
+describe('ConflictDetector', () => {
+  const appRoute = (path: string, filePath: string, appRouter: Partial<NonNullable<RouteInfo['appRouter']>> = {}): RouteInfo => ({
+    path,
+    filePath,
+    pattern: path.includes('[') ? 'dynamic' : 'static',
+    router: 'app',
+    appRouter: {
+      segment: '',
+      isRouteGroup: false,
+      isInterceptingRoute: false,
+      isParallelRoute: false,
+      specialFiles: { page: true },
+      componentTypes: {},
+      ...appRouter,
+    },
+  });
+
+  const pagesRoute = (path: string, filePath: string): RouteInfo => ({
+    path,
+    filePath,
+    pattern: path.includes('[') ? 'dynamic' : 'static',
+    router: 'pages',
+    pagesRouter: { isApiRoute: path.startsWith('/api'), isSpecialPage: false, componentType: 'unknown' },
+  });
+
+  it('should report route groups resolving to the same URL', () => {
+    const conflicts = ConflictDetector.detect([
+      appRoute('/about', 'app/(marketing)/about/page.tsx'),
+      appRoute('/about', 'app/(shop)/about/page.tsx'),
+      appRoute('/contact', 'app/contact/page.tsx'),
+    ]);
+
+    expect(conflicts).toEqual([
+      {
+        type: 'duplicate-route',
+        path: '/about',
+        message: 'You cannot have two parallel pages that resolve to the same path: /about',
+        files: ['app/(marketing)/about/page.tsx', 'app/(shop)/about/page.tsx'],
+      },
+    ]);
+  });
+
+  it('should report paths defined in both app/ and pages/', () => {
+    const conflicts = ConflictDetector.detect([
+      appRoute('/blog/[slug]', 'app/blog/[slug]/page.tsx'),
+      pagesRoute('/blog/[id]', 'pages/blog/[id].tsx'),
+      pagesRoute('/about', 'pages/about.tsx'),
+    ]);
+
+    expect(conflicts).toEqual([
+      expect.objectContaining({
+        type: 'app-pages-collision',
+        path: '/blog/[id]',
+        files: ['app/blog/[slug]/page.tsx', 'pages/blog/[id].tsx'],
+      }),
+    ]);
+  });
+
+  it('should report sibling dynamic segments with different param names', () => {
+    const conflicts = ConflictDetector.detect([
+      appRoute('/products/[id]', 'app/products/[id]/page.tsx'),
+      appRoute('/products/[id]/reviews', 'app/products/[id]/reviews/page.tsx'),
+      appRoute('/products/[slug]/edit', 'app/(admin)/products/[slug]/edit/page.tsx'),
+      appRoute('/docs/[...path]', 'app/docs/[...path]/page.tsx'),
+      appRoute('/docs/[[...slug]]', 'app/(v2)/docs/[[...slug]]/page.tsx'),
+    ]);
+
+    expect(conflicts).toEqual([
+      {
+        type: 'param-mismatch',
+        path: '/products',
+        message: "You cannot use different slug names for the same dynamic path ('id' !== 'slug')",
+        files: ['app/products/[id]/page.tsx', 'app/(admin)/products/[slug]/edit/page.tsx'],
+      },
+      expect.objectContaining({
+        type: 'param-mismatch',
+        path: '/docs',
+        files: ['app/docs/[...path]/page.tsx', 'app/(v2)/docs/[[...slug]]/page.tsx'],
+      }),
+    ]);
+  });
+
+  it('should report routes with the same specificity as an optional catch-all', () => {
+    const conflicts = ConflictDetector.detect([
+      pagesRoute('/shop', 'pages/shop/index.tsx'),
+      pagesRoute('/shop/[[...filters]]', 'pages/shop/[[...filters]].tsx'),
+    ]);
+
+    expect(conflicts).toEqual([
+      expect.objectContaining({
+        type: 'optional-catch-all-collision',
+        path: '/shop',
+        files: ['pages/shop/index.tsx', 'pages/shop/[[...filters]].tsx'],
+      }),
+    ]);
+  });
+
+  it('should ignore parallel slot pages and intercepting routes', () => {
+    const conflicts = ConflictDetector.detect([
+      appRoute('/dashboard', 'app/dashboard/page.tsx'),
+      appRoute('/dashboard', 'app/dashboard/@analytics/page.tsx', { slot: 'analytics', isParallelRoute: true }),
+      appRoute('/photo/[id]', 'app/photo/[id]/page.tsx'),
+      appRoute('/photo/[id]', 'app/feed/(..)photo/[id]/page.tsx', { isInterceptingRoute: true }),
+    ]);
+
+    expect(conflicts).toEqual([]);
+  });
+});
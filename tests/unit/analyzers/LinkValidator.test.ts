@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { LinkValidator } from '../../../src/analyzers/LinkValidator';
+import type { NextConfig, RouteInfo } from '../../../src/types';
+import { setupTempProject } from '../../setup';
+
+describe('LinkValidator', () => {
+  const project = setupTempProject('links-', ({ writeFiles }) => writeFiles({ 'public/images/logo.png': '' }));
+  const { file, writeFiles } = project;
+
+  const route = (routePath: string, pagesRouter?: RouteInfo['pagesRouter']): RouteInfo => ({
+    path: routePath,
+    filePath: `app${routePath}/page.tsx`,
+    pattern: routePath.includes('[') ? 'dynamic' : 'static',
+    router: pagesRouter ? 'pages' : 'app',
+    ...(pagesRouter && { pagesRouter }),
+  });
+
+  const routes = [
+    route('/'),
+    route('/about'),
+    route('/blog/[slug]'),
+    route('/docs/[[...path]]'),
+    route('/shop/[...categories]'),
+    route('/_app', { isApiRoute: false, isSpecialPage: true, specialPageType: 'app' }),
+  ];
+
+  const validate = async (links: string[], config?: NextConfig) => {
+    const content = [
+      `import Link from 'next/link';`,
+      'export default function Nav({ slug }) {',
+      '  return <>',
+      ...links.map(href => `    <Link href={\`${href}\`} />`),
+      '  </>;',
+      '}',
+    ].join('\n');
+    await writeFiles({ 'components/Nav.tsx': content });
+    return LinkValidator.validate([file('components/Nav.tsx')], routes, project.dir, config);
+  };
+
+  it('should match links against static, dynamic and catch-all routes', async () => {
+    const { links, broken } = await validate([
+      '/',
+      '/about/',
+      '/about?tab=team#history',
+      '/blog/${slug}',
+      '/blog/hello-world',
+      '/docs',
+      '/docs/guides/setup',
+      '/shop/shoes/running',
+      '/images/logo.png',
+      'https://example.com/missing',
+      '#top',
+      '/blog',
+      '/shop',
+      '/_app',
+      '/images/missing.png',
+    ]);
+
+    expect(links).toHaveLength(13);
+    expect(broken.map(link => [link.href, link.line, link.reason])).toEqual([
+      ['/blog', 15, 'no route matches /blog'],
+      ['/shop', 16, 'no route matches /shop'],
+      ['/_app', 17, 'no route matches /_app'],
+      ['/images/missing.png', 18, 'no route matches /images/missing.png'],
+    ]);
+    expect(broken[0]).toMatchObject({ kind: 'link', filePath: file('components/Nav.tsx') });
+  });
+
+  it('should take basePath, i18n locales, redirects and rewrites into account', async () => {
+    const { broken } = await validate(
+      ['/fr/about', '/${locale}/blog/post', '/base/about', '/legacy/about', '/proxy/api/users', '/de/missing'],
+      {
+        basePath: '/base',
+        i18n: { locales: ['en', 'fr', 'de'], defaultLocale: 'en' },
+        redirects: [{ source: '/legacy/:path*', destination: '/:path*', permanent: true }],
+        rewrites: {
+          beforeFiles: [],
+          afterFiles: [{ source: '/proxy/:path*', destination: 'https://api.example.com/:path*' }],
+          fallback: [],
+        },
+      },
+    );
+
+    expect(broken.map(link => [link.href, link.reason])).toEqual([
+      ['/base/about', '/base/about includes basePath /base, which is added automatically'],
+      ['/de/missing', 'no route matches /missing'],
+    ]);
+  });
+
+  it('should let template literal substitutions stand for any segment', async () => {
+    const { links, broken } = await validate([
+      '/blog/${slug}/',
+      '/blog/${slug}?tab=${tab}',
+      '/${page}',
+      '/shop/${category}/${subcategory}',
+      '/docs/${section}',
+      '/blog/${slug}/comments',
+      '${origin}/about',
+    ]);
+
+    // Hrefs starting with a substitution may be external and are not checked
+    expect(links.map(link => link.href)).not.toContain('${origin}/about');
+    expect(broken.map(link => [link.href, link.reason])).toEqual([
+      ['/blog/${slug}/comments', 'no route matches /blog/*/comments'],
+    ]);
+  });
+
+  it('should require a segment for catch-all routes but not for optional catch-all routes', async () => {
+    const { broken } = await validate(['/shop', '/shop/shoes', '/shop/a/b/c', '/docs', '/docs/a/b', '/blog/a/b']);
+
+    expect(broken.map(link => link.href)).toEqual(['/shop', '/blog/a/b']);
+  });
+
+  it('should only blame basePath when the link resolves without it', async () => {
+    const { broken } = await validate(['/base', '/base/blog/hello', '/base/nowhere', '/about', '/images/logo.png'], {
+      basePath: '/base',
+    });
+
+    expect(broken.map(link => [link.href, link.reason])).toEqual([
+      ['/base', '/base includes basePath /base, which is added automatically'],
+      ['/base/blog/hello', '/base/blog/hello includes basePath /base, which is added automatically'],
+      ['/base/nowhere', 'no route matches /base/nowhere'],
+    ]);
+  });
+
+  it('should ignore a leading locale segment only for configured locales', async () => {
+    const { broken } = await validate(['/fr', '/en/blog/post', '/${locale}', '/${locale}/docs/intro', '/es/about'], {
+      i18n: { locales: ['en', 'fr'], defaultLocale: 'en' },
+    });
+
+    expect(broken.map(link => [link.href, link.reason])).toEqual([['/es/about', 'no route matches /es/about']]);
+  });
+});
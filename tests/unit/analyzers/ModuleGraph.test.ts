@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { AppRouterParser } from '../../../src/parsers/AppRouterParser';
+import { ModuleGraph } from '../../../src/analyzers/ModuleGraph';
+import { setupTempProject } from '../../setup';
+
+describe('ModuleGraph', () => {
+  let graph: ModuleGraph;
+
+  const { file } = setupTempProject('module-graph-', async ({ file, writeFiles }) => {
+    await writeFiles({
+      'pnpm-workspace.yaml': `packages:\n  - 'apps/*'\n  - 'packages/*'\n`,
+      'packages/ui/package.json': JSON.stringify({
+        name: '@acme/ui',
+        exports: { '.': './src/index.ts', './button': './src/Button.tsx' },
+      }),
+      'packages/ui/src/index.ts': `export { Button } from './Button';`,
+      'packages/ui/src/Button.tsx': `
+        import clsx from 'clsx';
+        export function Button() { return <button className={clsx('btn')} />; }
+      `,
+      'apps/web/tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['./*'] } } }),
+      'apps/web/app/layout.tsx': `
+        import { Analytics } from '@vercel/analytics/react';
+        export default function RootLayout({ children }) { return children; }
+      `,
+      'apps/web/app/page.tsx': `
+        import fs from 'node:fs';
+        import path from 'path';
+        import { format } from 'date-fns/format';
+        import type { Metadata } from 'next';
+        import { Button } from '@acme/ui';
+        import { db } from '@/lib/db';
+        export default function Home() { return <Button />; }
+      `,
+      'apps/web/app/settings/page.tsx': `
+        import { Button } from '@acme/ui/button';
+        const Chart = dynamic(() => import('../../components/Chart'));
+        export default function Settings() { return <Button />; }
+      `,
+      'apps/web/app/api/users/route.ts': `
+        import { db } from '@/lib/db';
+        export async function GET() { return Response.json(await db.users()); }
+      `,
+      'apps/web/components/Chart.tsx': `export default function Chart() { return null; }`,
+      'apps/web/lib/db.ts': `
+        const postgres = require('postgres');
+        export const db = postgres();
+      `,
+    });
+
+    const projectDir = file('apps/web');
+    const routes = await AppRouterParser.parse(file('apps/web/app'), {
+      rootDir: projectDir,
+      mode: 'detailed',
+      maxDepth: 10,
+    });
+    graph = await ModuleGraph.build(projectDir, routes);
+  });
+
+  it('should collect the modules and packages of a route through aliases and workspace packages', () => {
+    expect(graph.getRouteDependencies('/')).toEqual({
+      path: '/',
+      router: 'app',
+      entryFiles: [file('apps/web/app/page.tsx'), file('apps/web/app/layout.tsx')],
+      modules: [
+        file('apps/web/lib/db.ts'),
+        file('packages/ui/src/Button.tsx'),
+        file('packages/ui/src/index.ts'),
+      ],
+      packages: ['@vercel/analytics', 'clsx', 'date-fns', 'postgres'],
+    });
+
+    expect(graph.getRouteDependencies('/settings')?.modules).toEqual([
+      file('apps/web/components/Chart.tsx'),
+      file('packages/ui/src/Button.tsx'),
+    ]);
+    expect(graph.getRouteDependencies('/missing')).toBeUndefined();
+  });
+
+  it('should find the modules and routes depending on a module', () => {
+    expect(graph.getDependents(file('packages/ui/src/Button.tsx'))).toEqual({
+      modules: [
+        file('apps/web/app/page.tsx'),
+        file('apps/web/app/settings/page.tsx'),
+        file('packages/ui/src/index.ts'),
+      ],
+      routes: ['/', '/settings'],
+    });
+
+    expect(graph.getDependents(file('apps/web/app/layout.tsx'))).toEqual({
+      modules: [],
+      routes: ['/', '/settings'],
+    });
+  });
+
+  it('should not count layouts as dependencies of route handlers', () => {
+    expect(graph.getRouteDependencies('/api/users')).toEqual({
+      path: '/api/users',
+      router: 'app',
+      entryFiles: [file('apps/web/app/api/users/route.ts')],
+      modules: [file('apps/web/lib/db.ts')],
+      packages: ['postgres'],
+    });
+    expect(graph.getDependents(file('apps/web/lib/db.ts')).routes).toEqual(['/', '/api/users']);
+  });
+
+  it('should export the graph as JSON', () => {
+    const data = JSON.parse(JSON.stringify(graph));
+
+    expect(data.modules).toContainEqual({
+      filePath: file('apps/web/lib/db.ts'),
+      imports: [],
+      packages: ['postgres'],
+      size: expect.any(Number),
+    });
+    expect(data.routes.map((route: { path: string }) => route.path).sort()).toEqual(['/', '/api/users', '/settings']);
+  });
+});
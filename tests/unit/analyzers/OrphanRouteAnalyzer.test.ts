@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { OrphanRouteAnalyzer } from '../../../src/analyzers/OrphanRouteAnalyzer';
+import type { NextConfig, RouteInfo } from '../../../src/types';
+import { setupTempProject } from '../../setup';
+
+describe('OrphanRouteAnalyzer', () => {
+  const project = setupTempProject('orphans-');
+  const { file, writeFiles } = project;
+
+  const route = (routePath: string, extra: Partial<RouteInfo> = {}): RouteInfo => ({
+    path: routePath,
+    filePath: `app${routePath}/page.tsx`,
+    pattern: routePath.includes('[') ? 'dynamic' : 'static',
+    router: 'app',
+    ...extra,
+  });
+
+  const orphanPaths = async (routes: RouteInfo[], config?: NextConfig, files: string[] = []) => {
+    const report = await OrphanRouteAnalyzer.analyze(files, routes, project.dir, config);
+    return { orphans: report.orphans.map(orphan => orphan.path), allowed: report.allowed.map(orphan => orphan.path) };
+  };
+
+  it('should report page routes no link, navigation config, sitemap or redirect points to', async () => {
+    await writeFiles({
+      'components/Nav.tsx': [
+        `import Link from 'next/link';`,
+        `import { useRouter } from 'next/navigation';`,
+        'export default function Nav({ post }) {',
+        '  const router = useRouter();',
+        '  return <>',
+        '    <Link href="/about">About</Link>',
+        '    <Link href={`/fr/blog/${post.slug}`}>Post</Link>',
+        `    <button onClick={() => router.push('/login')} />`,
+        '  </>;',
+        '}',
+      ].join('\n'),
+      'components/nav-config.ts': `export const nav = [{ label: 'Pricing', href: '/pricing' }];`,
+      'app/sitemap.ts': [
+        'export default function sitemap() {',
+        '  return [{ url: `${process.env.SITE_URL}/careers` }];',
+        '}',
+      ].join('\n'),
+      'public/sitemap-0.xml': '<urlset><url><loc>https://example.com/press</loc></url></urlset>',
+    });
+
+    const routes = [
+      route('/'),
+      route('/about'),
+      route('/blog/[slug]'),
+      route('/login'),
+      route('/pricing'),
+      route('/careers'),
+      route('/press'),
+      route('/docs/[...path]'),
+      route('/summer-sale'),
+      route('/spring-sale', { metadata: { allowOrphan: true } }),
+      route('/forgotten'),
+      route('/sitemap.xml', {
+        filePath: file('app/sitemap.ts'),
+        appRouter: { metadataRoute: { type: 'sitemap', source: 'generated' } } as RouteInfo['appRouter'],
+      }),
+      route('/api/health', { appRouter: { specialFiles: { route: true } } as RouteInfo['appRouter'] }),
+      route('/404', {
+        router: 'pages',
+        filePath: 'pages/404.tsx',
+        pagesRouter: { isApiRoute: false, isSpecialPage: true, specialPageType: '404' },
+      }),
+    ];
+    const config: NextConfig = {
+      configFile: 'next.config.js',
+      i18n: { locales: ['en', 'fr'], defaultLocale: 'en' },
+      redirects: [
+        { source: '/old-docs/:path*', destination: '/docs/:path*', permanent: true },
+        { source: '/promo', destination: '/summer-sale', permanent: false },
+        { source: '/twitter', destination: 'https://twitter.com/example', permanent: false },
+      ],
+    };
+
+    const report = await OrphanRouteAnalyzer.analyze(
+      [file('components/Nav.tsx'), file('components/nav-config.ts')],
+      routes,
+      project.dir,
+      config,
+    );
+
+    expect(report.orphans).toEqual([{ path: '/forgotten', router: 'app', filePath: 'app/forgotten/page.tsx' }]);
+    expect(report.allowed.map(orphan => orphan.path)).toEqual(['/spring-sale']);
+    expect(report.references.map(reference => [reference.source, reference.href])).toEqual([
+      ['link', '/about'],
+      ['link', '/fr/blog/${post.slug}'],
+      ['link', '/login'],
+      ['navigation', '/pricing'],
+      ['sitemap', '/careers'],
+      ['sitemap', '/press'],
+      ['config', '/docs/${:path*}'],
+      ['config', '/summer-sale'],
+    ]);
+    expect(report.references.at(-1)).toMatchObject({ filePath: file('next.config.js') });
+  });
+
+  it('should only set aside unreferenced routes that opt in with allowOrphan: true', async () => {
+    const routes = [
+      route('/campaign', { metadata: { allowOrphan: true } }),
+      route('/preview', { metadata: { allowOrphan: false } }),
+      route('/beta', { metadata: { allowOrphan: 'yes' } }),
+      route('/linked', { metadata: { allowOrphan: true } }),
+    ];
+    const config: NextConfig = { redirects: [{ source: '/go', destination: '/linked', permanent: false }] };
+
+    expect(await orphanPaths(routes, config)).toEqual({ orphans: ['/beta', '/preview'], allowed: ['/campaign'] });
+  });
+
+  it('should read App Router sitemap files and public sitemap*.xml files only', async () => {
+    await writeFiles({
+      'app/sitemap.xml': '<urlset><url><loc>https://example.com/team/</loc></url></urlset>',
+      'public/sitemap.xml': '<sitemapindex><sitemap><loc>https://example.com/jobs?page=2</loc></sitemap></sitemapindex>',
+      'public/feeds/sitemap-posts.xml': '<urlset><url><loc>https://example.com/hidden</loc></url></urlset>',
+      'public/rss.xml': '<urlset><url><loc>https://example.com/news</loc></url></urlset>',
+    });
+    const routes = [
+      route('/team'),
+      route('/jobs'),
+      route('/hidden'),
+      route('/news'),
+      route('/sitemap.xml', {
+        filePath: file('app/sitemap.xml'),
+        appRouter: { metadataRoute: { type: 'sitemap', source: 'static' } } as RouteInfo['appRouter'],
+      }),
+    ];
+
+    expect((await orphanPaths(routes)).orphans).toEqual(['/hidden', '/news']);
+  });
+
+  it('should count internal redirect and rewrite destinations as references', async () => {
+    const routes = [
+      route('/pricing'),
+      route('/[locale]/guides/[slug]'),
+      route('/search'),
+      route('/status'),
+      route('/maintenance'),
+      route('/legacy'),
+    ];
+    const config: NextConfig = {
+      configFile: 'next.config.mjs',
+      redirects: [{ source: '/plans', destination: '/pricing', permanent: true }],
+      rewrites: {
+        beforeFiles: [{ source: '/:lang/docs/:slug', destination: '/:lang/guides/:slug' }],
+        afterFiles: [{ source: '/find', destination: '/search?q=:q' }],
+        fallback: [
+          { source: '/:path*', destination: '/maintenance' },
+          { source: '/health', destination: 'https://status.example.com/legacy' },
+        ],
+      },
+    };
+
+    const { orphans } = await orphanPaths(routes, config);
+    expect(orphans).toEqual(['/legacy', '/status']);
+
+    const report = await OrphanRouteAnalyzer.analyze([], routes, project.dir, config);
+    expect(report.references.every(reference => reference.filePath === file('next.config.mjs'))).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { mkdir } from 'fs/promises';
+import { AppRouterParser } from '../../../src/parsers/AppRouterParser';
+import { PagesRouterParser } from '../../../src/parsers/PagesRouterParser';
+import { PrerenderAnalyzer } from '../../../src/analyzers/PrerenderAnalyzer';
+import type { RouteInfo } from '../../../src/types';
+import { setupTempProject } from '../../setup';
+
+describe('PrerenderAnalyzer', () => {
+  const project = setupTempProject('prerender-', ({ file }) => Promise.all([mkdir(file('app')), mkdir(file('pages'))]));
+  const { file, writeFiles } = project;
+
+  const analyze = async () => {
+    const config = { rootDir: project.dir, mode: 'detailed' as const, maxDepth: 10 };
+    const routes: RouteInfo[] = [
+      ...(await AppRouterParser.parse(file('app'), config)),
+      ...(await PagesRouterParser.parse(file('pages'), config)),
+    ];
+    const annotated = await PrerenderAnalyzer.annotateRoutes(routes, project.dir);
+    return Object.fromEntries(annotated.map(route => [route.path, route.prerendered]));
+  };
+
+  it('should resolve generateStaticParams from literals, JSON imports and parent layouts', async () => {
+    await writeFiles({
+      'data/posts.json': JSON.stringify([{ slug: 'hello' }, { slug: 'good news' }]),
+      'app/page.tsx': `export default function Home() { return null; }`,
+      'app/blog/[slug]/page.tsx': `
+        import posts from '../../../data/posts.json';
+        export async function generateStaticParams() {
+          return posts.map((post) => ({ slug: post.slug }));
+        }
+        export default function Post() { return null; }
+      `,
+      'app/docs/[[...path]]/page.tsx': `
+        export const generateStaticParams = () => [{ path: ['guides', 'setup'] }, { path: [] }, {}];
+        export default function Docs() { return null; }
+      `,
+      'app/[lang]/layout.tsx': `
+        const LOCALES = ['en', 'fr'];
+        export function generateStaticParams() { return LOCALES.map(lang => ({ lang })); }
+        export default function Layout({ children }) { return children; }
+      `,
+      'app/[lang]/[page]/page.tsx': `
+        export function generateStaticParams({ params: { lang } }) {
+          return [{ page: lang === 'fr' ? 'a-propos' : 'about' }];
+        }
+        export default function Page() { return null; }
+      `,
+      'app/users/[id]/page.tsx': `export default function User() { return null; }`,
+    });
+
+    const prerendered = await analyze();
+
+    expect(prerendered['/']).toBeUndefined();
+    expect(prerendered['/users/[id]']).toBeUndefined();
+    expect(prerendered['/blog/[slug]']).toEqual({
+      source: 'generateStaticParams',
+      status: 'resolved',
+      urls: ['/blog/hello', '/blog/good%20news'],
+    });
+    expect(prerendered['/docs/[[...path]]']).toEqual({
+      source: 'generateStaticParams',
+      status: 'resolved',
+      urls: ['/docs/guides/setup', '/docs'],
+    });
+    expect(prerendered['/[lang]/[page]']).toEqual({
+      source: 'generateStaticParams',
+      status: 'resolved',
+      urls: ['/en/about', '/fr/a-propos'],
+    });
+  });
+
+  it('should mark params that depend on runtime data as unresolved', async () => {
+    await writeFiles({
+      'app/products/[id]/page.tsx': `
+        import { getProducts } from '@/lib/products';
+        export async function generateStaticParams() {
+          const products = await getProducts();
+          return products.map(product => ({ id: product.id }));
+        }
+        export default function Product() { return null; }
+      `,
+      'app/tags/[tag]/page.tsx': `
+        export function generateStaticParams() { return [{ slug: 'wrong-key' }]; }
+        export default function Tag() { return null; }
+      `,
+      'app/pages/[n]/page.tsx': `
+        const pages = (n) => [{ n: 'page-' + n }, ...pages(n + 1)];
+        export function generateStaticParams() { return pages(1); }
+        export default function Page() { return null; }
+      `,
+    });
+
+    const prerendered = await analyze();
+
+    expect(prerendered['/products/[id]']).toMatchObject({
+      source: 'generateStaticParams',
+      status: 'unresolved',
+      urls: [],
+      unresolvedFile: 'app/products/[id]/page.tsx',
+    });
+    expect(prerendered['/products/[id]']?.unresolved?.[0]).toMatchObject({ line: 4 });
+    expect(prerendered['/tags/[tag]']).toMatchObject({ status: 'unresolved', urls: [] });
+    expect(prerendered['/pages/[n]']).toMatchObject({ status: 'unresolved', urls: [] });
+    expect(prerendered['/pages/[n]']?.unresolved?.[0].reason).toContain('calls nest deeper than');
+  });
+
+  it('should resolve getStaticPaths paths given as params or URLs', async () => {
+    await writeFiles({
+      'pages/posts/[id].tsx': `
+        const ids = ['1', '2'];
+        export async function getStaticPaths() {
+          return { paths: [...ids.map(id => ({ params: { id } })), '/posts/3'], fallback: false };
+        }
+        export async function getStaticProps() { return { props: {} }; }
+        export default function Post() { return null; }
+      `,
+      'pages/shop/[...slug].tsx': `
+        export async function getStaticPaths() {
+          const res = await fetch('https://example.com/api/slugs');
+          return { paths: await res.json(), fallback: 'blocking' };
+        }
+        export default function Shop() { return null; }
+      `,
+    });
+
+    const prerendered = await analyze();
+
+    expect(prerendered['/posts/[id]']).toEqual({
+      source: 'getStaticPaths',
+      status: 'resolved',
+      urls: ['/posts/1', '/posts/2', '/posts/3'],
+    });
+    expect(prerendered['/shop/[...slug]']).toMatchObject({
+      source: 'getStaticPaths',
+      status: 'unresolved',
+      unresolvedFile: 'pages/shop/[...slug].tsx',
+    });
+  });
+});
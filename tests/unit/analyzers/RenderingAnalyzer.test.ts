@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import { mkdir } from 'fs/promises';
+import { AppRouterParser } from '../../../src/parsers/AppRouterParser';
+import { PagesRouterParser } from '../../../src/parsers/PagesRouterParser';
+import { RenderingAnalyzer } from '../../../src/analyzers/RenderingAnalyzer';
+import type { NextConfig, RouteInfo } from '../../../src/types';
+import { setupTempProject } from '../../setup';
+
+describe('RenderingAnalyzer', () => {
+  const project = setupTempProject('rendering-', ({ file }) => Promise.all([mkdir(file('app')), mkdir(file('pages'))]));
+  const { file, writeFiles } = project;
+
+  const analyze = async (version: string = '15.1.0', config?: NextConfig) => {
+    const parserConfig = { rootDir: project.dir, mode: 'detailed' as const, maxDepth: 10 };
+    const routes: RouteInfo[] = [
+      ...(await AppRouterParser.parse(file('app'), parserConfig)),
+      ...(await PagesRouterParser.parse(file('pages'), parserConfig)),
+    ];
+    const annotated = await RenderingAnalyzer.annotateRoutes(routes, {
+      framework: 'nextjs',
+      version,
+      router: 'both',
+      rootDir: project.dir,
+      config,
+      sourceDirs: { app: file('app'), pages: file('pages') },
+    });
+    return Object.fromEntries(annotated.map(route => [route.filePath.slice(project.dir.length + 1), route.rendering]));
+  };
+
+  it('should classify App Router pages and route handlers', async () => {
+    await writeFiles({
+      'app/layout.tsx': `
+        export const revalidate = 3600;
+        export default function RootLayout({ children }) { return children; }
+      `,
+      'app/page.tsx': `export default function Home() { return null; }`,
+      'app/news/page.tsx': `
+        export const revalidate = 60;
+        export default function News() { return null; }
+      `,
+      'app/account/page.tsx': `
+        import { cookies } from 'next/headers';
+        export default async function Account() {
+          return (await cookies()).get('session')?.value;
+        }
+      `,
+      'app/blog/[slug]/page.tsx': `
+        export async function generateStaticParams() { return []; }
+        export default function Post() { return null; }
+      `,
+      'app/users/[id]/page.tsx': `export default function User() { return null; }`,
+      'app/search/page.tsx': `
+        export const dynamic = 'force-static';
+        export default function Search({ searchParams }) { return null; }
+      `,
+      'app/edge/page.tsx': `
+        export const runtime = 'edge';
+        export default function Edge() { return null; }
+      `,
+      'app/api/items/route.ts': `
+        export function GET() { return Response.json([]); }
+        export function POST() { return Response.json({}); }
+      `,
+      'app/api/health/route.ts': `export function GET() { return Response.json({ ok: true }); }`,
+      'app/robots.txt': 'User-agent: *',
+    });
+
+    const rendering = await analyze();
+
+    expect(rendering['app/page.tsx']).toEqual({
+      strategy: 'isr',
+      revalidate: 3600,
+      reasons: ['revalidate = 3600 (app/layout.tsx:2)'],
+    });
+    expect(rendering['app/news/page.tsx']).toEqual({
+      strategy: 'isr',
+      revalidate: 60,
+      reasons: ['revalidate = 60 (app/news/page.tsx:2)'],
+    });
+    expect(rendering['app/account/page.tsx']).toEqual({
+      strategy: 'dynamic',
+      reasons: ['cookies() (app/account/page.tsx:4)'],
+    });
+    expect(rendering['app/blog/[slug]/page.tsx']).toMatchObject({ strategy: 'isr', revalidate: 3600 });
+    expect(rendering['app/users/[id]/page.tsx']).toEqual({
+      strategy: 'dynamic',
+      reasons: ['dynamic segments without generateStaticParams'],
+    });
+    expect(rendering['app/search/page.tsx']).toEqual({
+      strategy: 'isr',
+      revalidate: 3600,
+      reasons: ["dynamic = 'force-static' (app/search/page.tsx:2)", 'revalidate = 3600 (app/layout.tsx:2)'],
+    });
+    expect(rendering['app/edge/page.tsx']).toEqual({
+      strategy: 'edge',
+      reasons: ["runtime = 'edge' (app/edge/page.tsx:2)"],
+    });
+    expect(rendering['app/api/items/route.ts']).toEqual({
+      strategy: 'dynamic',
+      reasons: ['POST handler (app/api/items/route.ts:3)', 'GET handlers are not cached by default since Next.js 15'],
+    });
+    expect(rendering['app/api/health/route.ts']).toMatchObject({ strategy: 'dynamic' });
+    expect(rendering['app/robots.txt']).toEqual({ strategy: 'static', reasons: ['static metadata file'] });
+
+    const legacy = await analyze('14.2.3');
+    expect(legacy['app/api/health/route.ts']).toEqual({ strategy: 'static', reasons: [] });
+  });
+
+  it('should classify dynamic routes as PPR when it is enabled', async () => {
+    await writeFiles({
+      'app/layout.tsx': `export default function RootLayout({ children }) { return children; }`,
+      'app/cart/page.tsx': `
+        import { headers } from 'next/headers';
+        export const experimental_ppr = true;
+        export default async function Cart() { await headers(); return null; }
+      `,
+      'app/orders/page.tsx': `
+        export const dynamic = 'force-dynamic';
+        export default function Orders() { return null; }
+      `,
+    });
+
+    const incremental = await analyze('15.1.0', { experimental: { ppr: 'incremental' } });
+    expect(incremental['app/cart/page.tsx']).toEqual({
+      strategy: 'ppr',
+      reasons: ['experimental_ppr = true (app/cart/page.tsx:3)', 'headers() (app/cart/page.tsx:4)'],
+    });
+    expect(incremental['app/orders/page.tsx']).toMatchObject({ strategy: 'dynamic' });
+
+    const everywhere = await analyze('15.1.0', { experimental: { ppr: true } });
+    expect(everywhere['app/orders/page.tsx']).toEqual({
+      strategy: 'ppr',
+      reasons: ['experimental.ppr = true (next.config)', "dynamic = 'force-dynamic' (app/orders/page.tsx:2)"],
+    });
+
+    const disabled = await analyze();
+    expect(disabled['app/cart/page.tsx']).toMatchObject({ strategy: 'dynamic' });
+  });
+
+  it('should classify Pages Router pages by their data fetching', async () => {
+    await writeFiles({
+      'pages/_app.tsx': `export default function App({ Component, pageProps }) { return <Component {...pageProps} />; }`,
+      'pages/index.tsx': `export default function Home() { return null; }`,
+      'pages/feed.tsx': `
+        export async function getStaticProps() {
+          return { props: {}, revalidate: 30 };
+        }
+        export default function Feed() { return null; }
+      `,
+      'pages/about.tsx': `
+        export const getStaticProps = async () => ({ props: {} });
+        export default function About() { return null; }
+      `,
+      'pages/profile.tsx': `
+        export async function getServerSideProps() { return { props: {} }; }
+        export default function Profile() { return null; }
+      `,
+      'pages/legacy.tsx': `
+        function Legacy() { return null; }
+        Legacy.getInitialProps = async () => ({});
+        export default Legacy;
+      `,
+      'pages/api/hello.ts': `export default function handler(req, res) { res.json({}); }`,
+      'pages/api/edge.ts': `
+        export const config = { runtime: 'edge' };
+        export default function handler() { return new Response('ok'); }
+      `,
+    });
+
+    const rendering = await analyze();
+
+    expect(rendering['pages/_app.tsx']).toBeUndefined();
+    expect(rendering['pages/index.tsx']).toEqual({ strategy: 'static', reasons: [] });
+    expect(rendering['pages/feed.tsx']).toEqual({
+      strategy: 'isr',
+      revalidate: 30,
+      reasons: ['getStaticProps with revalidate: 30 (pages/feed.tsx:3)'],
+    });
+    expect(rendering['pages/about.tsx']).toEqual({ strategy: 'static', reasons: ['getStaticProps (pages/about.tsx:2)'] });
+    expect(rendering['pages/profile.tsx']).toEqual({ strategy: 'dynamic', reasons: ['getServerSideProps (pages/profile.tsx:2)'] });
+    expect(rendering['pages/legacy.tsx']).toEqual({ strategy: 'dynamic', reasons: ['getInitialProps (pages/legacy.tsx:3)'] });
+    expect(rendering['pages/api/hello.ts']).toEqual({ strategy: 'dynamic', reasons: ['API route'] });
+    expect(rendering['pages/api/edge.ts']).toEqual({
+      strategy: 'edge',
+      reasons: ["config.runtime = 'edge' (pages/api/edge.ts:2)"],
+    });
+
+    await writeFiles({
+      'pages/_app.tsx': `
+        import App from 'next/app';
+        export default function MyApp({ Component, pageProps }) { return <Component {...pageProps} />; }
+        MyApp.getInitialProps = async (context) => App.getInitialProps(context);
+      `,
+    });
+    const withAppProps = await analyze();
+    expect(withAppProps['pages/index.tsx']).toEqual({
+      strategy: 'dynamic',
+      reasons: ['getInitialProps in _app (pages/_app.tsx:4)'],
+    });
+    expect(withAppProps['pages/about.tsx']).toMatchObject({ strategy: 'static' });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { RouteDiff } from '../../../src/analyzers/RouteDiff';
+import { routesToNested } from '../../../src/utils';
+import type { IntrospectionResult, RouteInfo } from '../../../src/types';
+
+describe('RouteDiff', () => {
+  const result = (rootDir: string, routes: RouteInfo[]): IntrospectionResult => ({
+    project: {
+      framework: 'nextjs',
+      version: '15.0.0',
+      router: 'app',
+      rootDir,
+      sourceDirs: { app: `${rootDir}/app` },
+    },
+    routes,
+    metadata: { analyzedAt: new Date(), duration: 0, filesProcessed: routes.length, mode: 'comprehensive' },
+  });
+
+  const appRoute = (path: string, filePath: string, appRouter: Partial<NonNullable<RouteInfo['appRouter']>> = {}): RouteInfo => ({
+    path,
+    filePath,
+    pattern: path.includes('[') ? 'dynamic' : 'static',
+    router: 'app',
+    appRouter: {
+      segment: '',
+      isRouteGroup: false,
+      isInterceptingRoute: false,
+      isParallelRoute: false,
+      specialFiles: { page: true },
+      componentTypes: { page: 'server' },
+      ...appRouter,
+    },
+  });
+
+  it('should report added and removed routes', () => {
+    const diff = RouteDiff.diff(
+      result('/old', [
+        appRoute('/', '/old/app/page.tsx'),
+        appRoute('/pricing', '/old/app/pricing/page.tsx'),
+        appRoute('/team/members', '/old/app/team/members/page.tsx'),
+      ]),
+      result('/new', [
+        appRoute('/', '/new/app/page.tsx'),
+        appRoute('/team/members', '/new/app/team/members/page.tsx'),
+        appRoute('/api/health', '/new/app/api/health/route.ts'),
+      ])
+    );
+
+    expect(diff).toEqual({
+      added: [{ path: '/api/health', router: 'app', filePath: 'app/api/health/route.ts' }],
+      removed: [{ path: '/pricing', router: 'app', filePath: 'app/pricing/page.tsx' }],
+      renamed: [],
+      changed: [],
+    });
+  });
+
+  it('should detect renamed routes and params', () => {
+    const withHash = (route: RouteInfo, contentHash: string): RouteInfo => ({ ...route, contentHash });
+    const diff = RouteDiff.diff(
+      result('/repo', [
+        withHash(appRoute('/blog', '/repo/app/blog/page.tsx'), 'a1'),
+        withHash(appRoute('/blog/[id]', '/repo/app/blog/[id]/page.tsx'), 'b2'),
+        appRoute('/users/[id]', '/repo/app/users/[id]/page.tsx'),
+        appRoute('/contact/form/legacy', '/repo/app/contact/form/legacy/page.tsx'),
+      ]),
+      result('/repo', [
+        withHash(appRoute('/posts', '/repo/app/posts/page.tsx'), 'a1'),
+        withHash(appRoute('/posts/[id]', '/repo/app/posts/[id]/page.tsx'), 'b2'),
+        appRoute('/users/[userId]', '/repo/app/users/[userId]/page.tsx'),
+        appRoute('/help', '/repo/app/help/page.tsx'),
+      ])
+    );
+
+    expect(diff.renamed.map(({ from, to }) => [from.path, to.path])).toEqual([
+      ['/blog', '/posts'],
+      ['/blog/[id]', '/posts/[id]'],
+      ['/users/[id]', '/users/[userId]'],
+    ]);
+    expect(diff.removed.map(route => route.path)).toEqual(['/contact/form/legacy']);
+    expect(diff.added.map(route => route.path)).toEqual(['/help']);
+  });
+
+  it('should not pair unrelated routes that differ in one segment', () => {
+    const diff = RouteDiff.diff(
+      result('/repo', [
+        { ...appRoute('/about', '/repo/app/about/page.tsx'), contentHash: 'c3' },
+        appRoute('/docs/intro', '/repo/app/docs/intro/page.tsx'),
+      ]),
+      result('/repo', [
+        { ...appRoute('/contact', '/repo/app/contact/page.tsx'), contentHash: 'd4' },
+        appRoute('/docs/setup', '/repo/app/docs/setup/page.tsx'),
+      ])
+    );
+
+    expect(diff.renamed).toEqual([]);
+    expect(diff.removed.map(route => route.path)).toEqual(['/about', '/docs/intro']);
+    expect(diff.added.map(route => route.path)).toEqual(['/contact', '/docs/setup']);
+    expect(RouteDiff.hasChanges(diff, ['removed'])).toBe(true);
+  });
+
+  it('should report pattern, component type and segment config changes', () => {
+    const diff = RouteDiff.diff(
+      result('/repo', [
+        appRoute('/dashboard', '/repo/app/dashboard/page.tsx', {
+          componentTypes: { page: 'server', layout: 'server' },
+          exports: { revalidate: 60, dynamic: 'auto' },
+        }),
+        appRoute('/shop/[id]', '/repo/app/shop/[id]/page.tsx'),
+      ]),
+      result('/repo', [
+        appRoute('/dashboard', '/repo/app/dashboard/page.tsx', {
+          componentTypes: { page: 'client', layout: 'server', loading: 'server' },
+          exports: { revalidate: false, runtime: 'edge' },
+        }),
+        appRoute('/shop/[slug]', '/repo/app/shop/[slug]/page.tsx', {
+          componentTypes: { page: 'client' },
+        }),
+      ])
+    );
+
+    expect(diff.changed).toEqual([
+      {
+        path: '/dashboard',
+        router: 'app',
+        filePath: 'app/dashboard/page.tsx',
+        changes: [
+          { kind: 'component-type', field: 'page', before: 'server', after: 'client' },
+          { kind: 'segment-config', field: 'dynamic', before: 'auto' },
+          { kind: 'segment-config', field: 'revalidate', before: 60, after: false },
+          { kind: 'segment-config', field: 'runtime', after: 'edge' },
+        ],
+      },
+      {
+        path: '/shop/[slug]',
+        router: 'app',
+        filePath: 'app/shop/[slug]/page.tsx',
+        previousPath: '/shop/[id]',
+        changes: [{ kind: 'component-type', field: 'page', before: 'server', after: 'client' }],
+      },
+    ]);
+  });
+
+  it('should accept nested route output', () => {
+    const routes = [appRoute('/', '/repo/app/page.tsx'), appRoute('/docs', '/repo/app/docs/page.tsx')];
+    const nested = { ...result('/repo', []), routes: routesToNested(routes) };
+
+    expect(RouteDiff.hasChanges(RouteDiff.diff(result('/repo', routes), nested))).toBe(false);
+  });
+
+  it('should check only the requested kinds of changes', () => {
+    const diff = RouteDiff.diff(
+      result('/repo', [appRoute('/', '/repo/app/page.tsx')]),
+      result('/repo', [appRoute('/', '/repo/app/page.tsx'), appRoute('/new', '/repo/app/new/page.tsx')])
+    );
+
+    expect(RouteDiff.hasChanges(diff)).toBe(true);
+    expect(RouteDiff.hasChanges(diff, ['removed', 'renamed'])).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { RouteMatcher } from '../../../src/analyzers/RouteMatcher';
+import { RouteSimulator } from '../../../src/analyzers/RouteSimulator';
+import type { NextConfig, RouteInfo } from '../../../src/types';
+
+describe('RouteMatcher', () => {
+  const appRoute = (path: string, filePath: string, layouts: string[] = []): RouteInfo => ({
+    path,
+    filePath,
+    pattern: path.includes('[') ? 'dynamic' : 'static',
+    router: 'app',
+    appRouter: {
+      segment: '',
+      isRouteGroup: false,
+      isInterceptingRoute: false,
+      isParallelRoute: false,
+      specialFiles: { page: true },
+      componentTypes: {},
+      boundaries: layouts.map(filePath => ({ type: 'layout', segmentPath: '/', filePath })),
+    },
+  });
+
+  const routes: RouteInfo[] = [
+    appRoute('/blog/[year]/[slug]', 'app/blog/[year]/[slug]/page.tsx', ['app/layout.tsx', 'app/blog/layout.tsx']),
+    appRoute('/blog/2024/[slug]', 'app/blog/2024/[slug]/page.tsx'),
+    appRoute('/blog/2024/featured', 'app/blog/2024/featured/page.tsx'),
+    appRoute('/docs/[[...slug]]', 'app/docs/[[...slug]]/page.tsx'),
+    appRoute('/about', 'app/(marketing)/about/page.tsx'),
+  ];
+
+  const config: NextConfig = {
+    basePath: '/app',
+    redirects: [{ source: '/old/:slug', destination: '/blog/2020/:slug', permanent: true }],
+    rewrites: {
+      beforeFiles: [],
+      afterFiles: [
+        { source: '/about', destination: '/blog/2024/shadowed' },
+        { source: '/news/:path*', destination: '/blog/:path*' },
+      ],
+      fallback: [{ source: '/:path*', destination: 'https://legacy.example.com/:path*' }],
+    },
+  };
+  const project = { config };
+
+  it('should apply route precedence and extract params', () => {
+    expect(RouteMatcher.match('/app/blog/2024/featured/', routes, project).route?.filePath).toBe('app/blog/2024/featured/page.tsx');
+
+    const dynamic = RouteMatcher.match('/app/blog/2024/hello?x=1', routes, project);
+    expect(dynamic.route?.filePath).toBe('app/blog/2024/[slug]/page.tsx');
+    expect(dynamic.params).toEqual({ slug: 'hello' });
+
+    const nested = RouteMatcher.match('https://example.com/app/blog/2023/hello', routes, project);
+    expect(nested.route?.path).toBe('/blog/[year]/[slug]');
+    expect(nested.params).toEqual({ year: '2023', slug: 'hello' });
+    expect(nested.layouts).toEqual(['app/layout.tsx', 'app/blog/layout.tsx']);
+
+    expect(RouteMatcher.match('/app/docs', routes, project).params).toEqual({});
+    expect(RouteMatcher.match('/app/docs/a/b', routes, project).params).toEqual({ slug: ['a', 'b'] });
+  });
+
+  it('should apply redirects and rewrites in order', () => {
+    const redirected = RouteMatcher.match('/app/old/hello', routes, project);
+    expect(redirected.rules).toEqual([
+      { phase: 'redirect', origin: 'next.config', source: '/old/:slug', destination: '/blog/2020/hello', statusCode: 308 },
+    ]);
+    expect(redirected.params).toEqual({ year: '2020', slug: 'hello' });
+
+    // afterFiles rewrites run after static routes
+    expect(RouteMatcher.match('/app/about', routes, project).route?.path).toBe('/about');
+
+    const rewritten = RouteMatcher.match('/app/news/2023/hello', routes, project);
+    expect(rewritten.pathname).toBe('/blog/2023/hello');
+    expect(rewritten.route?.path).toBe('/blog/[year]/[slug]');
+
+    const external = RouteMatcher.match('/app/missing', routes, project);
+    expect(external.route).toBeUndefined();
+    expect(external.external).toBe('https://legacy.example.com/missing');
+  });
+
+  it('should resolve URLs exactly as the simulator does', () => {
+    const conditional = {
+      config: {
+        basePath: '/docs',
+        redirects: [
+          { source: '/old', has: [{ type: 'query' as const, key: 'x' }], destination: '/about', permanent: false },
+        ],
+      },
+      vercel: { configFile: 'vercel.json', rewrites: [{ source: '/team', destination: '/about' }] },
+    };
+
+    const redirected = RouteMatcher.match('/docs/old?x=1', routes, conditional);
+    expect(redirected.route?.path).toBe('/about');
+    expect(redirected.rules.map(rule => rule.statusCode)).toEqual([307]);
+    expect(RouteMatcher.match('/docs/old', routes, conditional).route).toBeUndefined();
+
+    for (const url of ['/docs/old?x=1', '/docs/team', '/docs/robots.txt', '/about']) {
+      const match = RouteMatcher.match(url, routes, conditional, { publicFiles: ['/robots.txt'] });
+      const simulation = RouteSimulator.simulate(url, routes, conditional, { publicFiles: ['/robots.txt'] });
+      const hop = simulation.hops[simulation.hops.length - 1];
+      expect([match.route?.filePath, match.publicFile]).toEqual([hop.route?.filePath, hop.publicFile]);
+    }
+  });
+
+  it('should not match URLs outside basePath', () => {
+    const outside = RouteMatcher.match('/about', routes, project);
+    expect(outside.route).toBeUndefined();
+    expect(outside.pathname).toBe('/about');
+    expect(outside.rules).toEqual([]);
+    expect(RouteMatcher.match('/application/about', routes, project).route).toBeUndefined();
+    expect(RouteMatcher.match('/app', routes, project).pathname).toBe('/');
+  });
+
+  it('should break precedence ties by segment kind, length and router', () => {
+    const pagesRoute = (path: string): RouteInfo => ({
+      path,
+      filePath: `pages${path}.tsx`,
+      pattern: path.includes('[') ? 'dynamic' : 'static',
+      router: 'pages',
+      pagesRouter: { isApiRoute: false, isSpecialPage: false },
+    });
+    const tied = [
+      pagesRoute('/pricing'),
+      appRoute('/pricing', 'app/pricing/page.tsx'),
+      appRoute('/[lang]/about', 'app/[lang]/about/page.tsx'),
+      appRoute('/blog/[slug]', 'app/blog/[slug]/page.tsx'),
+      appRoute('/shop/[...path]', 'app/shop/[...path]/page.tsx'),
+      appRoute('/shop/[id]', 'app/shop/[id]/page.tsx'),
+      appRoute('/docs/[[...slug]]', 'app/docs/[[...slug]]/page.tsx'),
+      appRoute('/docs', 'app/docs/page.tsx'),
+    ];
+    const resolve = (url: string) => RouteMatcher.match(url, tied);
+
+    expect(resolve('/pricing').route?.filePath).toBe('app/pricing/page.tsx');
+    expect(resolve('/blog/about').route?.path).toBe('/blog/[slug]');
+    expect(resolve('/en/about').params).toEqual({ lang: 'en' });
+    expect(resolve('/shop/1').route?.path).toBe('/shop/[id]');
+    expect(resolve('/shop/1/2').params).toEqual({ path: ['1', '2'] });
+    expect(resolve('/docs').route?.path).toBe('/docs');
+    expect(resolve('/docs/a').route?.path).toBe('/docs/[[...slug]]');
+  });
+
+  it('should match optional catch-all routes with and without segments', () => {
+    expect(RouteMatcher.match('/app/docs/', routes, project)).toMatchObject({ pathname: '/docs', params: {} });
+    expect(RouteMatcher.match('/app/docs/getting%20started/setup', routes, project).params).toEqual({
+      slug: ['getting started', 'setup'],
+    });
+  });
+
+  it('should honour has and missing conditions on rewrites', () => {
+    const conditional = {
+      config: {
+        rewrites: {
+          beforeFiles: [],
+          afterFiles: [
+            { source: '/news/:slug', has: [{ type: 'query' as const, key: 'lang', value: 'en|fr' }], destination: '/blog/2024/:slug' },
+            { source: '/news/:slug', missing: [{ type: 'cookie' as const, key: 'session' }], destination: '/about' },
+          ],
+          fallback: [],
+        },
+      },
+    };
+
+    const localized = RouteMatcher.match('/news/hello?lang=fr', routes, conditional);
+    expect(localized.route?.path).toBe('/blog/2024/[slug]');
+    expect(localized.params).toEqual({ slug: 'hello' });
+    expect(RouteMatcher.match('/news/hello', routes, conditional).route?.path).toBe('/about');
+    expect(
+      RouteMatcher.match('/news/hello', routes, conditional, { request: { cookies: { session: '1' } } }).route,
+    ).toBeUndefined();
+  });
+});
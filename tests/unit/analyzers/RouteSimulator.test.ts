@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { RouteSimulator } from '../../../src/analyzers/RouteSimulator';
+import type { ProjectInfo, RouteInfo } from '../../../src/types';
+
+describe('RouteSimulator', () => {
+  const appRoute = (path: string, filePath: string): RouteInfo => ({
+    path,
+    filePath,
+    pattern: path.includes('[') ? 'dynamic' : 'static',
+    router: 'app',
+    appRouter: {
+      segment: '',
+      isRouteGroup: false,
+      isInterceptingRoute: false,
+      isParallelRoute: false,
+      specialFiles: { page: true },
+      componentTypes: {},
+    },
+  });
+
+  const routes: RouteInfo[] = [
+    appRoute('/blog/[slug]', 'app/blog/[slug]/page.tsx'),
+    appRoute('/beta', 'app/beta/page.tsx'),
+    appRoute('/about', 'app/about/page.tsx'),
+  ];
+
+  const project: Pick<ProjectInfo, 'config' | 'middleware' | 'vercel'> = {
+    config: {
+      basePath: '/docs',
+      redirects: [
+        { source: '/old/:slug', destination: '/posts/:slug', permanent: true },
+        { source: '/posts/:slug', destination: '/blog/:slug', permanent: false },
+        { source: '/a', destination: '/b', permanent: false },
+        { source: '/b', destination: '/a', permanent: false },
+        { source: '/about', has: [{ type: 'cookie', key: 'beta', value: '(?<variant>on)' }], destination: '/beta?v=:variant' },
+      ],
+      rewrites: {
+        beforeFiles: [],
+        afterFiles: [{ source: '/news/:path*', destination: '/articles/:path*' }],
+        fallback: [],
+      },
+    },
+    middleware: { filePath: 'middleware.ts', matchers: [{ source: '/blog/:path*' }] },
+    vercel: {
+      configFile: 'vercel.json',
+      rewrites: [{ source: '/v/:slug', destination: '/blog/:slug' }],
+    },
+  };
+
+  it('should trace redirects, rewrites and conditions hop by hop', () => {
+    const simulation = RouteSimulator.simulate('/docs/old/hello?x=1', routes, project);
+
+    expect(simulation.outcome).toBe('route');
+    expect(simulation.hops.map(hop => [hop.url, hop.outcome, hop.location])).toEqual([
+      ['/docs/old/hello?x=1', 'redirect', '/docs/posts/hello'],
+      ['/docs/posts/hello', 'redirect', '/docs/blog/hello'],
+      ['/docs/blog/hello', 'route', undefined],
+    ]);
+    expect(simulation.hops[0].steps).toEqual([
+      { phase: 'redirect', origin: 'next.config', source: '/old/:slug', destination: '/posts/hello', statusCode: 308 },
+    ]);
+    expect(simulation.hops[2].middleware).toEqual({ matched: true, matcher: '/blog/:path*' });
+    expect(simulation.hops[2].params).toEqual({ slug: 'hello' });
+
+    const rewritten = RouteSimulator.simulate('/docs/v/hi', routes, project);
+    expect(rewritten.hops[0].steps[0]).toMatchObject({ phase: 'afterFiles', origin: 'vercel.json', destination: '/blog/hi' });
+    expect(rewritten.hops[0].route?.path).toBe('/blog/[slug]');
+
+    expect(RouteSimulator.simulate('/docs/about', routes, project).hops[0].route?.path).toBe('/about');
+    const beta = RouteSimulator.simulate('/docs/about', routes, project, { request: { cookies: { beta: 'on' } } });
+    expect(beta.hops[0].location).toBe('/docs/beta?v=on');
+    expect(beta.hops[1].route?.path).toBe('/beta');
+
+    expect(RouteSimulator.simulate('/docs/a', routes, project).outcome).toBe('loop');
+  });
+
+  it('should report loops, chains and unmatched destinations', () => {
+    const analysis = RouteSimulator.analyzeRules(routes, project);
+
+    expect(analysis.rules).toBe(7);
+    expect(analysis.issues.map(issue => [issue.type, issue.source])).toEqual([
+      ['redirect-chain', '/old/:slug'],
+      ['redirect-loop', '/a'],
+      ['redirect-loop', '/b'],
+      ['unmatched-destination', '/news/:path*'],
+    ]);
+    expect(analysis.issues[1].chain).toEqual(['/docs/a', '/docs/b', '/docs/a']);
+    expect(RouteSimulator.analyzeRules(routes, project, { maxChain: 2 }).issues[0].type).toBe('redirect-loop');
+  });
+
+  it('should only apply basePath: false rules to URLs outside basePath', () => {
+    const outside = RouteSimulator.simulate('/blog/hello', routes, project);
+    expect(outside.outcome).toBe('not-found');
+    expect(outside.hops[0]).toMatchObject({ pathname: '/blog/hello', steps: [] });
+
+    const legacy: Pick<ProjectInfo, 'config'> = {
+      config: {
+        basePath: '/docs',
+        redirects: [{ source: '/wiki/:slug', destination: '/docs/blog/:slug', basePath: false, permanent: true }],
+      },
+    };
+    const redirected = RouteSimulator.simulate('/wiki/hello', routes, legacy);
+    expect(redirected.hops.map(hop => [hop.url, hop.outcome])).toEqual([
+      ['/wiki/hello', 'redirect'],
+      ['/docs/blog/hello', 'route'],
+    ]);
+    expect(RouteSimulator.simulate('/docs/wiki/hello', routes, legacy).outcome).toBe('not-found');
+  });
+
+  it('should check missing conditions and stop at the hop limit', () => {
+    const guarded: Pick<ProjectInfo, 'config'> = {
+      config: {
+        redirects: [
+          { source: '/about', missing: [{ type: 'header', key: 'x-preview' }], destination: '/beta', permanent: false },
+          { source: '/one', destination: '/two', permanent: false },
+          { source: '/two', destination: '/three', permanent: false },
+          { source: '/three', destination: '/about', permanent: false },
+        ],
+      },
+    };
+
+    expect(RouteSimulator.simulate('/about', routes, guarded).hops.at(-1)?.route?.path).toBe('/beta');
+    const preview = RouteSimulator.simulate('/about', routes, guarded, { request: { headers: { 'X-Preview': '1' } } });
+    expect(preview.hops.map(hop => hop.route?.path)).toEqual(['/about']);
+
+    expect(RouteSimulator.simulate('/one', routes, guarded).hops.map(hop => hop.url)).toEqual([
+      '/one', '/two', '/three', '/about', '/beta',
+    ]);
+    const limited = RouteSimulator.simulate('/one', routes, guarded, { maxHops: 3 });
+    expect(limited.outcome).toBe('too-many-hops');
+    expect(limited.hops).toHaveLength(3);
+  });
+
+  it('should report chains against maxChain and loops through conditional rules', () => {
+    const rules: Pick<ProjectInfo, 'config'> = {
+      config: {
+        redirects: [
+          { source: '/start', destination: '/middle', permanent: false },
+          { source: '/middle', destination: '/about', permanent: false },
+          { source: '/ping', has: [{ type: 'cookie', key: 'loop' }], destination: '/pong', permanent: false },
+          { source: '/pong', destination: '/ping', permanent: false },
+        ],
+      },
+    };
+
+    const analysis = RouteSimulator.analyzeRules(routes, rules);
+    expect(analysis.issues.map(issue => [issue.type, issue.source])).toEqual([
+      ['redirect-chain', '/start'],
+      ['redirect-loop', '/ping'],
+      // Without the cookie /ping does not redirect, and no route serves it
+      ['unmatched-destination', '/pong'],
+    ]);
+    expect(analysis.issues[0].chain).toEqual(['/start', '/middle', '/about']);
+    expect(RouteSimulator.analyzeRules(routes, rules, { maxChain: 2 }).issues.map(issue => issue.type)).toEqual([
+      'redirect-loop',
+      'unmatched-destination',
+    ]);
+  });
+
+  it('should resolve precedence ties and optional catch-alls after rewrites', () => {
+    const shop: RouteInfo[] = [
+      appRoute('/shop/[[...path]]', 'app/shop/[[...path]]/page.tsx'),
+      appRoute('/shop/[id]', 'app/shop/[id]/page.tsx'),
+      appRoute('/shop/sale', 'app/shop/sale/page.tsx'),
+      { ...appRoute('/shop/[id]', 'pages/shop/[id].tsx'), router: 'pages', appRouter: undefined },
+    ];
+    const store: Pick<ProjectInfo, 'config'> = {
+      config: {
+        rewrites: { beforeFiles: [], afterFiles: [{ source: '/store/:path*', destination: '/shop/:path*' }], fallback: [] },
+      },
+    };
+    const resolve = (url: string) => RouteSimulator.simulate(url, shop, store).hops.at(-1)!;
+
+    expect(resolve('/store/sale').route?.filePath).toBe('app/shop/sale/page.tsx');
+    expect(resolve('/store/42')).toMatchObject({ route: { filePath: 'app/shop/[id]/page.tsx' }, params: { id: '42' } });
+    expect(resolve('/store/a/b')).toMatchObject({ route: { path: '/shop/[[...path]]' }, params: { path: ['a', 'b'] } });
+    expect(resolve('/store')).toMatchObject({ pathname: '/shop', route: { path: '/shop/[[...path]]' } });
+  });
+});
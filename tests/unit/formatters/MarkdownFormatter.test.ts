@@ -152,6 +152,217 @@ describe('MarkdownFormatter', () => {
     });
   });
 
+  describe('segment config', () => {
+    it('should show segment config separately from exports', () => {
+      const result = formatter.format({
+        ...mockResult,
+        routes: [
+          {
+            path: '/dashboard',
+            filePath: 'src/app/dashboard/page.tsx',
+            pattern: 'static',
+            router: 'app',
+            appRouter: {
+              segment: 'dashboard',
+              isRouteGroup: false,
+              isInterceptingRoute: false,
+              isParallelRoute: false,
+              specialFiles: { page: true },
+              componentTypes: { page: 'server' },
+              exports: {
+                metadata: true,
+                dynamic: 'force-dynamic',
+                runtime: 'edge',
+                revalidate: false,
+                preferredRegion: ['iad1', 'cdg1'],
+              },
+            },
+          },
+        ],
+      });
+
+      expect(result).toContain('- **Exports**: `metadata`');
+      expect(result).toContain(
+        '- **Segment Config**: `dynamic: force-dynamic`, `runtime: edge`, `revalidate: false`, `preferredRegion: iad1, cdg1`',
+      );
+    });
+  });
+
+  describe('server actions', () => {
+    it('should list each action with its importers and routes', () => {
+      const result = formatter.format({
+        ...mockResult,
+        serverActions: [
+          {
+            name: 'createPost',
+            filePath: '/path/to/project/src/lib/actions.ts',
+            line: 4,
+            scope: 'module',
+            importedBy: ['/path/to/project/src/components/PostForm.tsx'],
+            routes: ['/posts/new'],
+          },
+          {
+            name: 'publish',
+            filePath: '/path/to/project/src/app/admin/page.tsx',
+            line: 12,
+            scope: 'inline',
+            importedBy: [],
+            routes: [],
+          },
+        ],
+      });
+
+      expect(result).toContain('## Server Actions');
+      expect(result).toContain("- **Defined In**: `src/lib/actions.ts:4` ('use server' module)");
+      expect(result).toContain('- **Imported By**: `src/components/PostForm.tsx`');
+      expect(result).toContain('- **Routes**: `/posts/new`');
+      expect(result).toContain('- **Defined In**: `src/app/admin/page.tsx:12` (inline)');
+      expect(result).toContain('- **Routes**: None');
+    });
+  });
+
+  describe('client bundles', () => {
+    it('should list the client modules, boundaries and issues of each page', () => {
+      const result = formatter.format({
+        ...mockResult,
+        clientBundles: [
+          {
+            path: '/',
+            router: 'app',
+            boundaries: [
+              { filePath: '/path/to/project/src/components/Nav.tsx', importedBy: ['/path/to/project/src/app/layout.tsx'] },
+            ],
+            clientModules: ['/path/to/project/src/components/Nav.tsx', '/path/to/project/src/lib/env.ts'],
+            clientPackages: ['clsx'],
+            clientSize: 2560,
+            issues: [
+              {
+                type: 'secret-env',
+                filePath: '/path/to/project/src/lib/env.ts',
+                line: 3,
+                message: 'Client module reads process.env.API_TOKEN, which is not exposed to the browser',
+              },
+            ],
+          },
+          {
+            path: '/about',
+            router: 'app',
+            boundaries: [],
+            clientModules: [],
+            clientPackages: [],
+            clientSize: 0,
+            issues: [],
+          },
+        ],
+      });
+
+      expect(result).toContain('## Client Bundles');
+      expect(result).toContain('- **Client Modules**: 2 (2.5 KB)');
+      expect(result).toContain('- **Client Boundaries**: `src/components/Nav.tsx` (from `src/app/layout.tsx`)');
+      expect(result).toContain('- **Client Packages**: `clsx`');
+      expect(result).toContain(
+        '  - `src/lib/env.ts:3`: Client module reads process.env.API_TOKEN, which is not exposed to the browser',
+      );
+      // Fully server-rendered pages are left out
+      expect(result.split('## Client Bundles')[1]).not.toContain('### `/about`');
+    });
+  });
+
+  describe('rendering', () => {
+    it('should show each route\'s rendering strategy and its reasons', () => {
+      const result = formatter.format({
+        ...mockResult,
+        routes: [
+          {
+            ...mockRoutes[0],
+            rendering: { strategy: 'isr', revalidate: 60, reasons: ['revalidate = 60 (src/app/page.tsx:1)'] },
+          },
+          {
+            ...mockRoutes[2],
+            rendering: {
+              strategy: 'dynamic',
+              reasons: ['cookies() (src/app/blog/[slug]/page.tsx:4)', 'dynamic segments without generateStaticParams'],
+            },
+          },
+          { ...mockRoutes[3], rendering: { strategy: 'static', reasons: [] } },
+        ],
+      });
+
+      expect(result).toContain('- **Rendering**: ISR (60s) — revalidate = 60 (src/app/page.tsx:1)');
+      expect(result).toContain(
+        '- **Rendering**: Dynamic — cookies() (src/app/blog/[slug]/page.tsx:4); dynamic segments without generateStaticParams',
+      );
+      expect(result).toContain('- **Rendering**: Static\n');
+    });
+  });
+
+  describe('prerendered URLs', () => {
+    it('should list resolved URLs and explain unresolved ones', () => {
+      const result = formatter.format({
+        ...mockResult,
+        routes: [
+          {
+            ...mockRoutes[2],
+            prerendered: { source: 'generateStaticParams', status: 'resolved', urls: ['/blog/a', '/blog/b'] },
+          },
+          {
+            ...mockRoutes[3],
+            prerendered: {
+              source: 'generateStaticParams',
+              status: 'unresolved',
+              urls: [],
+              unresolvedFile: 'src/app/catch/[...slug]/page.tsx',
+              unresolved: [{ path: 'generateStaticParams', reason: '`getPages` is imported from \'@/lib/cms\'', line: 3 }],
+            },
+          },
+        ],
+      });
+
+      expect(result).toContain('- **Prerendered URLs**: `/blog/a`, `/blog/b`');
+      expect(result).toContain(
+        '- **Prerendered URLs**: unresolved (`generateStaticParams` in `src/app/catch/[...slug]/page.tsx:3`: `getPages` is imported from \'@/lib/cms\')',
+      );
+    });
+  });
+
+  describe('locales', () => {
+    it('should list the locale variants of pages and the locale of expanded routes', () => {
+      const page: RouteInfo = {
+        path: '/about',
+        filePath: 'pages/about.tsx',
+        pattern: 'static',
+        router: 'pages',
+        pagesRouter: {
+          isApiRoute: false,
+          locales: [
+            { locale: 'en', path: '/about' },
+            { locale: 'fr', path: '/fr/about' },
+            { locale: 'nl', path: '/about', domain: 'example.nl' },
+          ],
+        },
+      };
+      const result = formatter.format({
+        ...mockResult,
+        project: {
+          ...mockResult.project,
+          config: { i18n: { locales: ['en', 'fr', 'nl'], defaultLocale: 'en' } },
+        },
+        routes: [
+          page,
+          { ...page, path: '/fr/contact', pagesRouter: { isApiRoute: false }, locale: 'fr' },
+          { ...page, path: '/contact', pagesRouter: { isApiRoute: false }, locale: 'nl', domain: 'example.nl' },
+        ],
+      });
+
+      expect(result).toContain('- **Locales**: `en` (default), `fr`, `nl`');
+      expect(result).toContain(
+        '- **Locales**: en (`/about`), fr (`/fr/about`), nl (`/about` on example.nl)',
+      );
+      expect(result).toContain('### `/fr/contact`\n\n- **Pattern**: Static\n- **Locale**: `fr`\n');
+      expect(result).toContain('- **Locale**: `nl` on example.nl');
+    });
+  });
+
   describe('metadata integration', () => {
     it('should include route metadata when available', () => {
       const routesWithMetadata: RouteInfo[] = [
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RouteDiffFormatter } from '../../../src/formatters/RouteDiffFormatter';
+import type { RouteDiffResult } from '../../../src/types';
+
+describe('RouteDiffFormatter', () => {
+  let formatter: RouteDiffFormatter;
+
+  const diff: RouteDiffResult = {
+    added: [{ path: '/api/health', router: 'app', filePath: 'app/api/health/route.ts' }],
+    removed: [{ path: '/legacy', router: 'pages', filePath: 'pages/legacy.tsx' }],
+    renamed: [
+      {
+        from: { path: '/blog/[id]', router: 'app', filePath: 'app/blog/[id]/page.tsx' },
+        to: { path: '/blog/[slug]', router: 'app', filePath: 'app/blog/[slug]/page.tsx' },
+      },
+    ],
+    changed: [
+      {
+        path: '/dashboard',
+        router: 'app',
+        filePath: 'app/dashboard/page.tsx',
+        changes: [
+          { kind: 'component-type', field: 'page', before: 'server', after: 'client' },
+          { kind: 'segment-config', field: 'revalidate', before: 60, after: false },
+        ],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    formatter = new RouteDiffFormatter();
+  });
+
+  it('should format a plain text summary', () => {
+    const output = formatter.formatText(diff);
+
+    expect(output).toContain('Route changes: 1 added, 1 removed, 1 renamed, 1 changed');
+    expect(output).toContain('  + /api/health (app, app/api/health/route.ts)');
+    expect(output).toContain('  - /legacy (pages, pages/legacy.tsx)');
+    expect(output).toContain('  ~ /blog/[id] → /blog/[slug] (app, app/blog/[slug]/page.tsx)');
+    expect(output).toContain('      Component type (page): server → client');
+    expect(output).toContain('      Segment config revalidate: 60 → false');
+  });
+
+  it('should format Markdown sections', () => {
+    const output = formatter.formatMarkdown(diff);
+
+    expect(output).toContain('## Added Routes');
+    expect(output).toContain('- `/legacy` (Pages Router) — `pages/legacy.tsx`');
+    expect(output).toContain('### `/dashboard` (App Router)');
+    expect(output).toContain('- Segment config revalidate: `60` → `false`');
+  });
+
+  it('should report when there are no changes', () => {
+    const empty: RouteDiffResult = { added: [], removed: [], renamed: [], changed: [] };
+
+    expect(formatter.formatText(empty)).toBe('No route changes');
+    expect(formatter.formatMarkdown(empty)).toContain('No route changes.');
+  });
+});
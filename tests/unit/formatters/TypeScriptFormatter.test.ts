@@ -142,6 +142,38 @@ describe("TypeScriptFormatter", () => {
 
       expect(result).toContain("export const routes = {} as const;");
     });
+
+    it("should generate basePath-relative URLs with a trailing slash", () => {
+      const result = formatter.format({
+        ...mockResult,
+        project: {
+          ...mockProjectInfo,
+          config: { basePath: "/app", trailingSlash: true },
+        },
+      });
+
+      // <Link>, router.push() and redirect() add basePath themselves
+      expect(result).toContain(" * Base path: /app (added by <Link>, router.push() and redirect();");
+      expect(result).toContain('export const index = "/";');
+      expect(result).toContain(
+        "const func = ({ slug }: { slug: string }): string => `/blog/${slug}/`;",
+      );
+      expect(result).toContain('export const BASE_PATH = "/app";');
+      expect(result).toContain("export const withBasePath = (url: string): string => `${BASE_PATH}${url}`;");
+    });
+
+    it("should generate a withBasePath helper for full URLs", () => {
+      const result = formatter.format({
+        ...mockResult,
+        project: { ...mockProjectInfo, config: { basePath: "/app/" } },
+      });
+
+      expect(result).toContain('export const BASE_PATH = "/app";');
+      expect(result).toContain(
+        'export const withBasePath = (url: string): string => (url === "/" ? BASE_PATH : `${BASE_PATH}${url}`);',
+      );
+      expect(formatter.format(mockResult)).not.toContain("withBasePath");
+    });
   });
 
   describe("namespace option", () => {
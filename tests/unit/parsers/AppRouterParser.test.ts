@@ -0,0 +1,396 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdir } from 'fs/promises';
+import path from 'path';
+import { AppRouterParser } from '../../../src/parsers/AppRouterParser';
+import type { ParserConfig, RouteInfo } from '../../../src/types';
+import { setupTempProject } from '../../setup';
+
+describe('AppRouterParser', () => {
+  const project = setupTempProject('app-router-parser-', ({ file }) => mkdir(file('app')));
+  const appDir = () => project.file('app');
+
+  const config: ParserConfig = { rootDir: '', mode: 'comprehensive', maxDepth: 10 };
+
+  // Paths are relative to the app directory
+  const writeFiles = (files: Record<string, string>) => project.writeFiles(files, 'app');
+
+  const findRoute = (routes: RouteInfo[], routePath: string) =>
+    routes.find(route => route.path === routePath)!;
+
+  describe('segment config', () => {
+    it('should capture all segment config exports with typed values', async () => {
+      await writeFiles({
+        'dashboard/page.tsx': `
+          export const dynamic = 'force-dynamic';
+          export const dynamicParams = false;
+          export const revalidate = false;
+          export const fetchCache = 'force-no-store';
+          export const runtime = 'edge';
+          export const preferredRegion = ['iad1', 'cdg1'];
+          export const maxDuration = 60;
+          export const experimental_ppr = true;
+          export default function Page() { return null; }
+        `,
+      });
+
+      const routes = await AppRouterParser.parse(appDir(), config);
+
+      expect(findRoute(routes, '/dashboard').appRouter?.exports).toEqual({
+        dynamic: 'force-dynamic',
+        dynamicParams: false,
+        revalidate: false,
+        fetchCache: 'force-no-store',
+        runtime: 'edge',
+        preferredRegion: ['iad1', 'cdg1'],
+        maxDuration: 60,
+        experimental_ppr: true,
+      });
+    });
+
+    it('should let the page override the layout config', async () => {
+      await writeFiles({
+        'blog/layout.tsx': `
+          export const revalidate = 3600;
+          export const runtime = 'edge';
+          export default function Layout({ children }) { return children; }
+        `,
+        'blog/page.tsx': `
+          export const revalidate = 60;
+          export default function Page() { return null; }
+        `,
+      });
+
+      const routes = await AppRouterParser.parse(appDir(), config);
+
+      expect(findRoute(routes, '/blog').appRouter?.exports).toMatchObject({
+        revalidate: 60,
+        runtime: 'edge',
+      });
+    });
+
+    it('should ignore values of the wrong type', async () => {
+      await writeFiles({
+        'page.tsx': `
+          export const dynamic = 'sometimes';
+          export const revalidate = getRevalidate();
+          export default function Page() { return null; }
+        `,
+      });
+
+      const routes = await AppRouterParser.parse(appDir(), config);
+
+      expect(findRoute(routes, '/').appRouter?.exports).toEqual({});
+    });
+  });
+
+  describe('route handlers', () => {
+    it('should list exported HTTP methods', async () => {
+      await writeFiles({
+        'api/items/route.ts': `
+          export async function GET() { return Response.json([]); }
+          export const POST = async (request: Request) => Response.json(await request.json());
+          export { handler as DELETE } from './handler';
+          // export function PUT() {}
+          export const runtime = 'edge';
+        `,
+      });
+
+      const routes = await AppRouterParser.parse(appDir(), config);
+      const route = findRoute(routes, '/api/items');
+
+      expect(route.appRouter?.httpMethods).toEqual(['GET', 'POST', 'DELETE']);
+      expect(route.appRouter?.exports?.runtime).toBe('edge');
+      expect(route.appRouter?.componentTypes).toEqual({});
+    });
+  });
+
+  describe('layout chain', () => {
+    beforeEach(async () => {
+      await writeFiles({
+        'layout.tsx': 'export default function RootLayout() { return null; }',
+        'not-found.tsx': 'export default function NotFound() { return null; }',
+        'loading.tsx': 'export default function Loading() { return null; }',
+        '(shop)/layout.tsx': 'export default function ShopLayout() { return null; }',
+        '(shop)/error.tsx': "'use client';\nexport default function ShopError() { return null; }",
+        '(shop)/cart/template.tsx': 'export default function Template() { return null; }',
+        '(shop)/cart/page.tsx': 'export default function Cart() { return null; }',
+        'about/page.tsx': 'export default function About() { return null; }',
+      });
+    });
+
+    it('should resolve boundaries from root to leaf through route groups', async () => {
+      const routes = await AppRouterParser.parse(appDir(), config);
+      const cart = findRoute(routes, '/cart');
+
+      expect(cart.appRouter?.segmentPath).toBe('/(shop)/cart');
+      expect(cart.appRouter?.boundaries?.map(b => [b.type, b.segmentPath])).toEqual([
+        ['layout', '/'],
+        ['loading', '/'],
+        ['notFound', '/'],
+        ['layout', '/(shop)'],
+        ['error', '/(shop)'],
+        ['template', '/(shop)/cart'],
+      ]);
+      expect(cart.appRouter?.boundaries?.[0].filePath).toBe(path.join(appDir(), 'layout.tsx'));
+
+      expect(findRoute(routes, '/about').appRouter?.boundaries?.map(b => b.type)).toEqual([
+        'layout',
+        'loading',
+        'notFound',
+      ]);
+    });
+
+    it('should nest routes under their layouts in the route hierarchy', async () => {
+      const routes = await AppRouterParser.parse(appDir(), config);
+      const [root] = AppRouterParser.buildRouteHierarchy(routes);
+
+      expect(root.segmentPath).toBe('/');
+      expect(root.specialFiles).toEqual({ layout: true, loading: true, notFound: true });
+      expect(root.children?.map(child => child.segmentPath).sort()).toEqual(['/(shop)', '/about']);
+
+      const shop = root.children!.find(child => child.segmentPath === '/(shop)')!;
+      expect(shop).toMatchObject({ path: '/', isRouteGroup: true, filePath: path.join(appDir(), '(shop)/layout.tsx') });
+      expect(shop.children?.[0]).toMatchObject({
+        path: '/cart',
+        segmentPath: '/(shop)/cart',
+        filePath: path.join(appDir(), '(shop)/cart/page.tsx'),
+      });
+    });
+
+    it('should not wrap route handlers in layouts or boundaries', async () => {
+      await writeFiles({
+        'api/x/route.ts': 'export async function GET() { return Response.json({}); }',
+      });
+
+      const routes = await AppRouterParser.parse(appDir(), config);
+      const handler = findRoute(routes, '/api/x');
+      expect(handler.appRouter?.specialFiles.route).toBe(true);
+      expect(handler.appRouter?.boundaries).toBeUndefined();
+      expect(handler.appRouter?.dynamicApis).toEqual([]);
+
+      // Segments first reached through the handler still get their layouts from the pages
+      const [root] = AppRouterParser.buildRouteHierarchy([handler, ...routes.filter(route => route !== handler)]);
+      expect(root).toMatchObject({ filePath: path.join(appDir(), 'layout.tsx'), specialFiles: { layout: true, loading: true, notFound: true } });
+      expect(root.children?.map(child => child.segmentPath).sort()).toEqual(['/(shop)', '/about', '/api']);
+    });
+  });
+
+  describe('dynamic APIs', () => {
+    it('should follow local imports and skip useSearchParams inside Suspense', async () => {
+      const projectDir = project.dir;
+      await writeFiles({
+        'layout.tsx': "import { headers } from 'next/headers';\nexport default async function RootLayout() { await headers(); return null; }",
+        'shop/page.tsx': "import { Header } from '../../components/header';\nexport default function Shop() { return <Header />; }",
+        'search/page.tsx': [
+          "import { Suspense } from 'react';",
+          "import { Filters } from '../../components/filters';",
+          'export default function Search({ searchParams }) { return <Suspense><Filters /></Suspense>; }',
+        ].join('\n'),
+        '../components/header.tsx': [
+          "import { getSession } from '../lib/session';",
+          "import { Filters } from './filters';",
+          'export async function Header() { await getSession(); return <Filters />; }',
+        ].join('\n'),
+        '../components/filters.tsx': "'use client';\nimport { useSearchParams } from 'next/navigation';\nexport function Filters() { return useSearchParams().get('q'); }",
+        '../lib/session.ts': "import { cookies } from 'next/headers';\nexport const getSession = async () => (await cookies()).get('session');",
+      });
+
+      const routes = await AppRouterParser.parse(appDir(), { ...config, rootDir: projectDir });
+      const file = (name: string) => path.join(projectDir, name);
+
+      expect(findRoute(routes, '/shop').appRouter?.dynamicApis).toEqual([
+        { api: 'headers', line: 2, filePath: file('app/layout.tsx') },
+        { api: 'cookies', line: 2, filePath: file('lib/session.ts'), via: [file('app/shop/page.tsx'), file('components/header.tsx')] },
+        { api: 'useSearchParams', line: 3, filePath: file('components/filters.tsx'), via: [file('app/shop/page.tsx'), file('components/header.tsx')] },
+      ]);
+      expect(findRoute(routes, '/search').appRouter?.dynamicApis).toEqual([
+        { api: 'headers', line: 2, filePath: file('app/layout.tsx') },
+        { api: 'searchParams', line: 3, filePath: file('app/search/page.tsx') },
+      ]);
+
+      await writeFiles({ 'shop/loading.tsx': 'export default function Loading() { return null; }' });
+      const withLoading = await AppRouterParser.parse(appDir(), { ...config, rootDir: projectDir });
+      expect(findRoute(withLoading, '/shop').appRouter?.dynamicApis?.map(usage => usage.api)).toEqual(['headers', 'cookies']);
+    });
+
+    it('should report useSearchParams reached outside Suspense after a suspended import, and searchParams only for pages', async () => {
+      const projectDir = project.dir;
+      await writeFiles({
+        'reports/layout.tsx': 'export default function ReportsLayout({ children, searchParams }) { return searchParams.tab; }',
+        'reports/page.tsx': [
+          "import { Suspense } from 'react';",
+          "import { Filters } from '../../components/filters';",
+          "import { Toolbar } from '../../components/toolbar';",
+          'export default function Reports() { return <><Suspense><Filters /></Suspense><Toolbar /></>; }',
+        ].join('\n'),
+        '../components/toolbar.tsx': "import { Filters } from './filters';\nexport function Toolbar() { return <Filters />; }",
+        '../components/filters.tsx': "'use client';\nimport { useSearchParams } from 'next/navigation';\nexport function Filters() { return useSearchParams().get('q'); }",
+      });
+
+      const routes = await AppRouterParser.parse(appDir(), { ...config, rootDir: projectDir });
+      const file = (name: string) => path.join(projectDir, name);
+
+      expect(findRoute(routes, '/reports').appRouter?.dynamicApis).toEqual([
+        { api: 'useSearchParams', line: 3, filePath: file('components/filters.tsx'), via: [file('app/reports/page.tsx'), file('components/toolbar.tsx')] },
+      ]);
+    });
+  });
+
+  describe('parallel and intercepting routes', () => {
+    beforeEach(async () => {
+      await writeFiles({
+        'layout.tsx': 'export default function RootLayout() { return null; }',
+        'feed/page.tsx': 'export default function Feed() { return null; }',
+        'photo/[id]/page.tsx': 'export default function Photo() { return null; }',
+        'dashboard/layout.tsx': 'export default function DashboardLayout() { return null; }',
+        'dashboard/page.tsx': 'export default function Dashboard() { return null; }',
+        'dashboard/@analytics/page.tsx': 'export default function Analytics() { return null; }',
+        'dashboard/@analytics/default.tsx': 'export default function Default() { return null; }',
+        'dashboard/@team/settings/page.tsx': 'export default function TeamSettings() { return null; }',
+        '@modal/default.tsx': 'export default function Default() { return null; }',
+        '@modal/(.)feed/page.tsx': 'export default function FeedModal() { return null; }',
+        'feed/(..)photo/[id]/page.tsx': 'export default function PhotoModal() { return null; }',
+        'dashboard/(shop)/cart/(...)login/page.tsx': 'export default function LoginModal() { return null; }',
+        'a/b/(..)(..)c/page.tsx': 'export default function C() { return null; }',
+      });
+    });
+
+    it('should resolve the URL an intercepting route serves', async () => {
+      const routes = await AppRouterParser.parse(appDir(), config);
+      const intercepting = routes.filter(route => route.appRouter?.isInterceptingRoute);
+
+      expect(intercepting.map(route => route.path).sort()).toEqual(['/c', '/feed', '/login', '/photo/[id]']);
+
+      const photoModal = intercepting.find(route => route.path === '/photo/[id]')!;
+      expect(photoModal.dynamicSegments).toEqual(['id']);
+      expect(photoModal.appRouter?.interception).toEqual({ marker: '(..)', fromPath: '/feed' });
+      expect(intercepting.find(route => route.path === '/feed')?.appRouter?.slot).toBe('modal');
+    });
+
+    it('should model slots, their layouts and defaults', async () => {
+      const model = await AppRouterParser.parseRoutingModel(appDir(), config);
+
+      expect(model.parallelSlots).toEqual([
+        {
+          name: 'modal',
+          segmentPath: '/@modal',
+          layoutSegmentPath: '/',
+          layoutFilePath: path.join(appDir(), 'layout.tsx'),
+          hasDefault: true,
+          defaultFilePath: path.join(appDir(), '@modal/default.tsx'),
+          routes: ['/feed'],
+        },
+        {
+          name: 'analytics',
+          segmentPath: '/dashboard/@analytics',
+          layoutSegmentPath: '/dashboard',
+          layoutFilePath: path.join(appDir(), 'dashboard/layout.tsx'),
+          hasDefault: true,
+          defaultFilePath: path.join(appDir(), 'dashboard/@analytics/default.tsx'),
+          routes: ['/dashboard'],
+        },
+        {
+          name: 'team',
+          segmentPath: '/dashboard/@team',
+          layoutSegmentPath: '/dashboard',
+          layoutFilePath: path.join(appDir(), 'dashboard/layout.tsx'),
+          hasDefault: false,
+          defaultFilePath: undefined,
+          routes: ['/dashboard/settings'],
+        },
+      ]);
+      expect(model.warnings).toEqual([
+        expect.objectContaining({ code: 'missing-default', segmentPath: '/dashboard/@team' }),
+      ]);
+    });
+
+    it('should resolve the routes intercepted by each convention', async () => {
+      const model = await AppRouterParser.parseRoutingModel(appDir(), config);
+      const byPath = Object.fromEntries(model.interceptingRoutes.map(route => [route.path, route]));
+
+      expect(byPath['/photo/[id]']).toMatchObject({
+        marker: '(..)',
+        fromPath: '/feed',
+        interceptedFilePath: path.join(appDir(), 'photo/[id]/page.tsx'),
+      });
+      expect(byPath['/feed']).toMatchObject({
+        marker: '(.)',
+        fromPath: '/',
+        slot: 'modal',
+        interceptedFilePath: path.join(appDir(), 'feed/page.tsx'),
+      });
+      expect(byPath['/login']).toMatchObject({ marker: '(...)', fromPath: '/dashboard/cart' });
+      expect(byPath['/login'].interceptedFilePath).toBeUndefined();
+      expect(byPath['/c']).toMatchObject({ marker: '(..)(..)', fromPath: '/a/b' });
+    });
+  });
+
+  describe('metadata routes', () => {
+    beforeEach(async () => {
+      await writeFiles({
+        'page.tsx': 'export default function Home() { return null; }',
+        'favicon.ico': '',
+        'robots.ts': 'export default function robots() { return { rules: [] }; }',
+        'manifest.json': '{}',
+        'sitemap.ts': `
+          export async function generateSitemaps() { return [{ id: 0 }, { id: 1 }]; }
+          export default function sitemap({ id }) { return []; }
+        `,
+        '(marketing)/blog/[slug]/page.tsx': 'export default function Post() { return null; }',
+        '(marketing)/blog/[slug]/opengraph-image.tsx': `
+          export const runtime = 'edge';
+          export default function Image() { return null; }
+        `,
+        '(marketing)/blog/[slug]/opengraph-image.alt.txt': 'Post cover',
+        'dashboard/icon.tsx': `
+          export function generateImageMetadata() { return [{ id: 'small' }, { id: 'large' }]; }
+          export default function Icon() { return null; }
+        `,
+        'dashboard/apple-icon1.png': '',
+        'dashboard/robots.txt': '',
+      });
+    });
+
+    it('should model metadata files as routes with their generated URLs', async () => {
+      const routes = await AppRouterParser.parse(appDir(), config);
+      const metadataRoutes = Object.fromEntries(
+        routes.filter(route => route.appRouter?.metadataRoute).map(route => [route.path, route])
+      );
+
+      expect(Object.keys(metadataRoutes).sort()).toEqual([
+        '/blog/[slug]/opengraph-image',
+        '/dashboard/apple-icon1.png',
+        '/dashboard/icon/[id]',
+        '/favicon.ico',
+        '/manifest.json',
+        '/robots.txt',
+        '/sitemap/[id].xml',
+      ]);
+      expect(metadataRoutes['/robots.txt'].appRouter?.metadataRoute).toEqual({ type: 'robots', source: 'generated' });
+      expect(metadataRoutes['/manifest.json'].appRouter?.metadataRoute).toEqual({ type: 'manifest', source: 'static' });
+      expect(metadataRoutes['/sitemap/[id].xml'].appRouter?.metadataRoute).toEqual({
+        type: 'sitemap',
+        source: 'generated',
+        generateSitemaps: true,
+      });
+      expect(metadataRoutes['/dashboard/icon/[id]']).toMatchObject({
+        pattern: 'dynamic',
+        dynamicSegments: ['id'],
+        appRouter: { metadataRoute: { type: 'icon', source: 'generated', generateImageMetadata: true } },
+      });
+      expect(metadataRoutes['/blog/[slug]/opengraph-image']).toMatchObject({
+        pattern: 'dynamic',
+        filePath: path.join(appDir(), '(marketing)/blog/[slug]/opengraph-image.tsx'),
+        appRouter: { exports: { runtime: 'edge' }, metadataRoute: { type: 'opengraph-image', source: 'generated' } },
+      });
+    });
+
+    it('should keep metadata routes out of the segment tree', async () => {
+      const routes = await AppRouterParser.parse(appDir(), config);
+      const [root] = AppRouterParser.buildRouteHierarchy(routes);
+
+      expect(root.filePath).toBe(path.join(appDir(), 'page.tsx'));
+      expect(root.metadataRoute).toBeUndefined();
+    });
+  });
+});
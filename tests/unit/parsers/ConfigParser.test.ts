@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { ConfigParser } from '../../../src/parsers/ConfigParser';
+import { setupTempProject } from '../../setup';
+
+describe('ConfigParser', () => {
+  const { file, writeFiles } = setupTempProject('config-parser-');
+
+  const parseConfig = async (content: string, fileName = 'next.config.js') => {
+    await writeFiles({ [fileName]: content });
+    return (await ConfigParser.parse(file(fileName)))!;
+  };
+
+  it('should resolve object literals, constants and spreads', async () => {
+    const config = await parseConfig(`
+      const base = '/docs';
+      const shared = { trailingSlash: true };
+      module.exports = {
+        ...shared,
+        basePath: base,
+        assetPrefix: 'https://cdn.example.com',
+        pageExtensions: ['page.tsx', '.mdx'],
+        images: { remotePatterns: [{ protocol: 'https', hostname: 'cdn.example.com' }] },
+        i18n: { locales: ['en', 'fr'], defaultLocale: 'en' },
+      };
+    `);
+
+    expect(config.basePath).toBe('/docs');
+    expect(config.assetPrefix).toBe('https://cdn.example.com');
+    expect(config.trailingSlash).toBe(true);
+    expect(config.pageExtensions).toEqual(['page.tsx', 'mdx']);
+    expect(config.images?.remotePatterns).toEqual([{ protocol: 'https', hostname: 'cdn.example.com' }]);
+    expect(config.i18n).toEqual({ locales: ['en', 'fr'], defaultLocale: 'en' });
+    expect(config.unresolved).toBeUndefined();
+  });
+
+  it('should evaluate async redirects, rewrites and headers functions', async () => {
+    const config = await parseConfig(`
+      import type { NextConfig } from 'next';
+
+      const legacy = ['/old-a', '/old-b'];
+
+      const nextConfig: NextConfig = {
+        async redirects() {
+          return legacy.map(source => ({ source, destination: '/new', permanent: true }));
+        },
+        rewrites: async () => ({
+          beforeFiles: [{ source: '/blog/:slug', destination: '/posts/:slug' }],
+          fallback: [{ source: '/:path*', destination: 'https://legacy.example.com/:path*' }],
+        }),
+        async headers() {
+          const securityHeaders = [{ key: 'X-Frame-Options', value: 'DENY' }];
+          return [{ source: '/(.*)', headers: securityHeaders }];
+        },
+      };
+
+      export default nextConfig;
+    `, 'next.config.ts');
+
+    expect(config.redirects).toEqual([
+      { source: '/old-a', destination: '/new', permanent: true },
+      { source: '/old-b', destination: '/new', permanent: true },
+    ]);
+    expect(config.rewrites).toEqual({
+      beforeFiles: [{ source: '/blog/:slug', destination: '/posts/:slug' }],
+      afterFiles: [],
+      fallback: [{ source: '/:path*', destination: 'https://legacy.example.com/:path*' }],
+    });
+    expect(config.headers).toEqual([
+      { source: '/(.*)', headers: [{ key: 'X-Frame-Options', value: 'DENY' }] },
+    ]);
+  });
+
+  it('should treat a plain rewrites array as afterFiles', async () => {
+    const config = await parseConfig(`
+      module.exports = {
+        async rewrites() {
+          return [{ source: '/a', destination: '/b' }];
+        },
+      };
+    `);
+
+    expect(config.rewrites).toEqual({
+      beforeFiles: [],
+      afterFiles: [{ source: '/a', destination: '/b' }],
+      fallback: [],
+    });
+  });
+
+  it('should unwrap plugin wrappers and report them', async () => {
+    const config = await parseConfig(`
+      const withBundleAnalyzer = require('@next/bundle-analyzer')({ enabled: false });
+      const withMDX = require('@next/mdx')();
+
+      const nextConfig = { basePath: '/app' };
+
+      module.exports = withBundleAnalyzer(withMDX(nextConfig));
+    `);
+
+    expect(config.basePath).toBe('/app');
+    expect(config.unresolved).toEqual([
+      expect.objectContaining({ path: '(root)', reason: expect.stringContaining('withBundleAnalyzer()') }),
+      expect.objectContaining({ path: '(root)', reason: expect.stringContaining('withMDX()') }),
+    ]);
+  });
+
+  it('should unwrap wrappers created by an imported plugin factory', async () => {
+    const config = await parseConfig(`
+      import createMDX from '@next/mdx';
+      import createNextIntlPlugin from 'next-intl/plugin';
+
+      const withMDX = createMDX({ options: { remarkPlugins: [] } });
+      const withNextIntl = createNextIntlPlugin();
+
+      const nextConfig = {
+        basePath: '/docs',
+        pageExtensions: ['ts', 'tsx', 'md', 'mdx'],
+        async redirects() {
+          return [{ source: '/old', destination: '/new', permanent: true }];
+        },
+      };
+
+      export default withNextIntl(withMDX(nextConfig));
+    `, 'next.config.mjs');
+
+    expect(config.basePath).toBe('/docs');
+    expect(config.pageExtensions).toEqual(['ts', 'tsx', 'md', 'mdx']);
+    expect(config.redirects).toEqual([{ source: '/old', destination: '/new', permanent: true }]);
+    expect(config.unresolved?.map(entry => entry.reason)).toEqual([
+      'wrapped by withNextIntl(); changes made by the plugin are not evaluated',
+      'wrapped by withMDX(); changes made by the plugin are not evaluated',
+    ]);
+  });
+
+  it('should evaluate config functions', async () => {
+    const config = await parseConfig(`
+      module.exports = (phase, { defaultConfig }) => {
+        return { distDir: 'build' };
+      };
+    `);
+
+    expect(config.distDir).toBe('build');
+  });
+
+  it('should report values it cannot resolve without executing code', async () => {
+    const config = await parseConfig(`
+      const { getRedirects } = require('./redirects');
+
+      export default {
+        basePath: process.env.BASE_PATH,
+        trailingSlash: true,
+        async redirects() {
+          return getRedirects();
+        },
+        async headers() {
+          return [
+            { source: '/a', headers: [] },
+            { source: '/b', destination: process.env.TARGET },
+          ];
+        },
+      };
+    `, 'next.config.mjs');
+
+    expect(config.basePath).toBeUndefined();
+    expect(config.trailingSlash).toBe(true);
+    expect(config.redirects).toBeUndefined();
+    expect(config.headers).toEqual([{ source: '/a', headers: [] }]);
+    expect(config.unresolved).toEqual([
+      { path: 'basePath', reason: 'depends on process.env.BASE_PATH', line: 5 },
+      { path: 'redirects', reason: "`getRedirects` is imported from './redirects'", line: 8 },
+      { path: 'headers[1].destination', reason: 'depends on process.env.TARGET', line: 13 },
+    ]);
+  });
+
+  it('should stop at runaway recursion and JSON files outside the project', async () => {
+    const config = await parseConfig(`
+      const secrets = require('../secrets.json');
+      const prefix = (depth) => prefix(depth + 1);
+
+      module.exports = {
+        basePath: prefix(0),
+        env: { TOKEN: secrets.token },
+        trailingSlash: true,
+      };
+    `);
+
+    expect(config.basePath).toBeUndefined();
+    expect(config.trailingSlash).toBe(true);
+    expect(config.unresolved?.map(entry => [entry.path, entry.reason])).toEqual([
+      ['basePath', 'calls nest deeper than 50 levels'],
+      ['env.TOKEN', "'../secrets.json' is outside the project root"],
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+import { DynamicApiParser } from '../../../src/parsers/DynamicApiParser';
+
+describe('DynamicApiParser', () => {
+  it('should find request-time functions through their imports', () => {
+    const usages = DynamicApiParser.parse(`
+      import { cookies, headers as requestHeaders } from 'next/headers';
+      import { unstable_noStore as noStore } from 'next/cache';
+      import { draftMode } from './local';
+      export default async function Page() {
+        noStore();
+        const session = (await cookies()).get('session');
+        const agent = (await requestHeaders()).get('user-agent');
+        draftMode();
+        const posts = await fetch('https://api.example.com', { cache: 'no-store' });
+        const stats = await fetch('https://api.example.com', { next: { revalidate: 0 } });
+        const cached = await fetch('https://api.example.com', { next: { revalidate: 60 } });
+      }
+    `);
+
+    expect(usages).toEqual([
+      { api: 'unstable_noStore', line: 6 },
+      { api: 'cookies', line: 7 },
+      { api: 'headers', line: 8 },
+      { api: 'fetch-no-store', line: 10 },
+      { api: 'fetch-no-store', line: 11 },
+    ]);
+  });
+
+  it('should find searchParams read from page props', () => {
+    expect(DynamicApiParser.parse(`
+      export default async function Page({ params, searchParams }) {
+        return (await searchParams).q;
+      }
+    `)).toEqual([{ api: 'searchParams', line: 2 }]);
+
+    expect(DynamicApiParser.parse(`
+      export async function generateMetadata(props) {
+        return { title: (await props.searchParams).q };
+      }
+      function Page({ params }) { return params.slug; }
+      export default Page;
+    `)).toEqual([{ api: 'searchParams', line: 3 }]);
+
+    expect(DynamicApiParser.parse(`
+      function Search({ searchParams }) { return searchParams.q; }
+      export default function Page() { return null; }
+    `)).toEqual([]);
+  });
+
+  it('should find useSearchParams calls and components rendered inside Suspense', () => {
+    expect(DynamicApiParser.parse(`
+      'use client';
+      import { useSearchParams as useQuery } from 'next/navigation';
+      export function Filters() {
+        return useQuery().get('q');
+      }
+    `)).toEqual([{ api: 'useSearchParams', line: 5 }]);
+
+    const sourceFile = ts.createSourceFile('page.tsx', `
+      import React, { Suspense as Boundary } from 'react';
+      import { Filters } from './filters';
+      import * as Nav from './nav';
+      import { Footer } from './footer';
+      export default function Page() {
+        return (
+          <main>
+            <Boundary fallback={<Footer />}><Filters /></Boundary>
+            <React.Suspense><Nav.Menu /></React.Suspense>
+            <Footer />
+          </main>
+        );
+      }
+    `, ts.ScriptTarget.Latest, true);
+    expect([...DynamicApiParser.getSuspendedComponents(sourceFile)]).toEqual(['Filters', 'Nav']);
+  });
+});
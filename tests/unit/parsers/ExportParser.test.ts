@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { ExportParser } from '../../../src/parsers/ExportParser';
+import { extractExports } from '../../../src/utils';
+
+describe('ExportParser', () => {
+  const byName = (content: string, fileName?: string) =>
+    Object.fromEntries(ExportParser.parse(content, fileName).map(e => [e.name, e]));
+
+  describe('parse', () => {
+    it('should detect async function exports', () => {
+      const exports = byName(`
+        export async function generateMetadata() {
+          return { title: 'Hello' };
+        }
+      `);
+
+      expect(exports.generateMetadata).toMatchObject({ kind: 'function', isAsync: true });
+    });
+
+    it('should resolve literal values of variable exports', () => {
+      const exports = byName(`
+        export const revalidate = false;
+        export const dynamic = 'force-dynamic';
+        export const maxDuration = 30;
+        export const preferredRegion = ['iad1', 'sfo1'];
+        export const metadata = { title: 'Home', robots: { index: true } };
+      `);
+
+      expect(exports.revalidate.value).toBe(false);
+      expect(exports.dynamic.value).toBe('force-dynamic');
+      expect(exports.maxDuration.value).toBe(30);
+      expect(exports.preferredRegion.value).toEqual(['iad1', 'sfo1']);
+      expect(exports.metadata.value).toEqual({ title: 'Home', robots: { index: true } });
+    });
+
+    it('should resolve aliased exports through local declarations', () => {
+      const exports = byName(`
+        const pageMetadata = { title: 'About' } as const;
+        const seconds = 3600;
+        export { pageMetadata as metadata, seconds as revalidate };
+      `);
+
+      expect(exports.metadata).toMatchObject({
+        kind: 'variable',
+        localName: 'pageMetadata',
+        value: { title: 'About' },
+      });
+      expect(exports.revalidate.value).toBe(3600);
+    });
+
+    it('should record re-exports with their source', () => {
+      const exports = ExportParser.parse(`
+        export * from './shared';
+        export * as helpers from './helpers';
+        export { GET, POST as PUT } from './handlers';
+      `);
+
+      expect(exports).toEqual([
+        { name: '*', kind: 're-export', source: './shared', line: 2 },
+        { name: 'helpers', kind: 're-export', source: './helpers', line: 3 },
+        { name: 'GET', kind: 're-export', source: './handlers', line: 4 },
+        { name: 'PUT', kind: 're-export', localName: 'POST', source: './handlers', line: 4 },
+      ]);
+    });
+
+    it('should ignore exports inside comments and strings', () => {
+      const exports = byName(`
+        // export const revalidate = 10;
+        /* export function getServerSideProps() {} */
+        const text = "export const dynamic = 'force-static'";
+        export default function Page() { return text; }
+      `);
+
+      expect(Object.keys(exports)).toEqual(['default']);
+      expect(exports.default).toMatchObject({ kind: 'function', localName: 'Page' });
+    });
+
+    it('should detect arrow function and type exports', () => {
+      const exports = byName(`
+        export const GET = async (request: Request) => new Response('ok');
+        export type Props = { id: string };
+        export interface Params { slug: string }
+      `, 'route.ts');
+
+      expect(exports.GET).toMatchObject({ kind: 'function', isAsync: true });
+      expect(exports.Props).toMatchObject({ kind: 'type', isTypeOnly: true });
+      expect(exports.Params).toMatchObject({ kind: 'interface', isTypeOnly: true });
+    });
+  });
+
+  describe('extractExports', () => {
+    it('should return a name map backed by the AST', () => {
+      const exports = extractExports(`
+        export async function getServerSideProps() { return { props: {} }; }
+        // export async function getStaticProps() {}
+        export default function Page() { return null; }
+      `);
+
+      expect(exports).toEqual({ getServerSideProps: true, default: true });
+    });
+  });
+});
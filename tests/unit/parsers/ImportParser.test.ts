@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import ts from 'typescript';
+import { ImportParser } from '../../../src/parsers/ImportParser';
+
+describe('ImportParser', () => {
+  it('should find static imports with their bindings', () => {
+    const imports = ImportParser.parse(`
+      import React, { useState as useLocalState } from 'react';
+      import * as db from '@/lib/db';
+      import './globals.css';
+      import type { Metadata } from 'next';
+      import { type User, getUser } from '../users';
+    `);
+
+    expect(imports).toEqual([
+      {
+        specifier: 'react',
+        kind: 'import',
+        bindings: [{ imported: 'default', local: 'React' }, { imported: 'useState', local: 'useLocalState' }],
+        line: 2,
+      },
+      { specifier: '@/lib/db', kind: 'import', bindings: [{ imported: '*', local: 'db' }], line: 3 },
+      { specifier: './globals.css', kind: 'import', bindings: [], line: 4 },
+      { specifier: '../users', kind: 'import', bindings: [{ imported: 'getUser', local: 'getUser' }], line: 6 },
+    ]);
+  });
+
+  it('should find re-exports, dynamic imports and require calls', () => {
+    const imports = ImportParser.parse(`
+      export * from './a';
+      export * as b from './b';
+      export { default as Button, type ButtonProps } from './Button';
+      export type { Theme } from './theme';
+      const Chart = dynamic(() => import('./Chart'));
+      const legacy = require('legacy-lib');
+      // import('./commented-out')
+    `);
+
+    expect(imports.map(({ specifier, kind, bindings }) => ({ specifier, kind, bindings }))).toEqual([
+      { specifier: './a', kind: 'reexport', bindings: [{ imported: '*', local: '*' }] },
+      { specifier: './b', kind: 'reexport', bindings: [{ imported: '*', local: 'b' }] },
+      { specifier: './Button', kind: 'reexport', bindings: [{ imported: 'default', local: 'Button' }] },
+      { specifier: './Chart', kind: 'dynamic', bindings: [{ imported: '*', local: '*' }] },
+      { specifier: 'legacy-lib', kind: 'require', bindings: [{ imported: '*', local: '*' }] },
+    ]);
+  });
+
+  it('should leave out the imports only used by Pages Router data fetching', () => {
+    const sourceFile = ts.createSourceFile('page.tsx', `
+      import { db } from '../lib/db';
+      import { format, parse } from '../lib/format';
+      import Card from '../components/Card';
+      const query = () => db.posts(parse(require('../lib/query')));
+      export const getStaticProps = async () => ({ props: { posts: await query() } });
+      export { loadPaths as getStaticPaths };
+      function loadPaths() { return import('../lib/paths'); }
+      export default function Page({ posts }) { return <Card title={format(posts)} />; }
+    `, ts.ScriptTarget.Latest, true);
+
+    const imports = ImportParser.parseSourceFile(sourceFile, ImportParser.getDataFetchingCode(sourceFile));
+    expect(imports.map(entry => entry.specifier)).toEqual(['../lib/format', '../components/Card']);
+  });
+});
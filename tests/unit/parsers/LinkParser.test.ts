@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { LinkParser } from '../../../src/parsers/LinkParser';
+
+describe('LinkParser', () => {
+  it('should find next/link hrefs and router navigation', () => {
+    const links = LinkParser.parse(`
+      import NextLink from 'next/link';
+      import { useRouter } from 'next/navigation';
+      import Router from 'next/router';
+      export default function Nav({ post }) {
+        const router = useRouter();
+        const { replace: navigate } = useRouter();
+        return (
+          <nav>
+            <NextLink href="/about">About</NextLink>
+            <NextLink href={\`/blog/\${post.slug}?ref=nav\`} />
+            <NextLink href={{ pathname: '/posts/[id]', query: { id: post.id } }} />
+            <NextLink href={post.url} />
+            <a href="/not-a-link" />
+            <button onClick={() => router.push('/search')} />
+            <button onClick={() => navigate('/login')} />
+            <button onClick={() => Router.replace('/home')} />
+            <button onClick={() => useRouter().prefetch('/dashboard')} />
+            <button onClick={() => history.push('/ignored')} />
+          </nav>
+        );
+      }
+    `);
+
+    expect(links).toEqual([
+      { href: '/about', kind: 'link', line: 10 },
+      { href: '/blog/${post.slug}?ref=nav', kind: 'link', line: 11 },
+      { href: '/posts/[id]', kind: 'link', line: 12 },
+      { href: '/search', kind: 'push', line: 15 },
+      { href: '/login', kind: 'replace', line: 16 },
+      { href: '/home', kind: 'replace', line: 17 },
+      { href: '/dashboard', kind: 'prefetch', line: 18 },
+    ]);
+  });
+
+  it('should find redirects imported from next/navigation', () => {
+    const links = LinkParser.parse(`
+      import { redirect, permanentRedirect as moved } from 'next/navigation';
+      import { redirect as localRedirect } from './redirect';
+      export default async function Page({ params }) {
+        if (!params.id) redirect('/');
+        if (params.id === 'old') moved(\`/items/\${params.id}\`);
+        localRedirect('/ignored');
+      }
+    `);
+
+    expect(links).toEqual([
+      { href: '/', kind: 'redirect', line: 5 },
+      { href: '/items/${params.id}', kind: 'permanentRedirect', line: 6 },
+    ]);
+  });
+
+  it('should find navigation config hrefs and sitemap paths', () => {
+    const hrefs = LinkParser.parseHrefs(`
+      export const nav = [
+        { label: 'Pricing', href: '/pricing' },
+        { label: 'Docs', href: \`/docs/\${version}\` },
+        { label: 'GitHub', url: '/ignored' },
+      ];
+      export const Footer = () => <a href="/legal">Legal</a>;
+    `);
+    expect(hrefs).toEqual([
+      { href: '/pricing', line: 3 },
+      { href: '/docs/${version}', line: 4 },
+      { href: '/legal', line: 7 },
+    ]);
+
+    const paths = LinkParser.parseSitemap(`
+      import { posts } from './posts';
+      const base = process.env.SITE_URL;
+      export default function sitemap() {
+        return [
+          { url: 'https://example.com', changeFrequency: 'weekly' },
+          { url: \`\${base}/blog/\${posts[0].slug}\` },
+          ...['/about', '/careers'].map(path => ({ url: base + path })),
+        ];
+      }
+    `);
+    expect(paths.map(target => target.href)).toEqual(['/', '/blog/${posts[0].slug}', '/about', '/careers']);
+
+    const locs = LinkParser.parseSitemapXml(
+      '<urlset>\n  <url><loc>https://example.com/pricing?a=1&amp;b=2</loc></url>\n  <url><loc> /team </loc></url>\n</urlset>',
+    );
+    expect(locs).toEqual([
+      { href: '/pricing?a=1&b=2', line: 2 },
+      { href: '/team', line: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { MiddlewareParser } from '../../../src/parsers/MiddlewareParser';
+import type { MiddlewareInfo } from '../../../src/types';
+import { setupTempProject } from '../../setup';
+
+describe('MiddlewareParser', () => {
+  const project = setupTempProject('middleware-parser-');
+
+  const parseMiddleware = async (content: string, file = 'middleware.ts') => {
+    await project.writeFiles({ [file]: content });
+    return (await MiddlewareParser.findAndParse(project.dir))!;
+  };
+
+  describe('parse', () => {
+    it('should read string and object matchers with conditions', async () => {
+      const middleware = await parseMiddleware(`
+        import { NextResponse } from 'next/server';
+
+        export function middleware() {
+          return NextResponse.next();
+        }
+
+        export const config = {
+          matcher: [
+            '/dashboard/:path*',
+            {
+              source: '/((?!api|_next/static|_next/image|favicon.ico).*)',
+              missing: [{ type: 'header', key: 'next-router-prefetch' }],
+            },
+          ],
+        };
+      `, 'src/middleware.ts');
+
+      expect(middleware).toEqual({
+        filePath: 'src/middleware.ts',
+        matchers: [
+          { source: '/dashboard/:path*' },
+          {
+            source: '/((?!api|_next/static|_next/image|favicon.ico).*)',
+            missing: [{ type: 'header', key: 'next-router-prefetch' }],
+          },
+        ],
+      });
+    });
+
+    it('should accept a single string matcher', async () => {
+      const middleware = await parseMiddleware(`
+        export default function middleware() {}
+        export const config = { matcher: '/admin/:path+' };
+      `);
+
+      expect(middleware.matchers).toEqual([{ source: '/admin/:path+' }]);
+    });
+
+    it('should return undefined when there is no middleware file', async () => {
+      expect(await MiddlewareParser.findAndParse(project.dir)).toBeUndefined();
+    });
+  });
+
+  describe('matchRoute', () => {
+    const middleware: MiddlewareInfo = {
+      filePath: 'middleware.ts',
+      matchers: [
+        { source: '/dashboard/:path*' },
+        { source: '/account/:id(\\d+)', has: [{ type: 'cookie', key: 'session' }] },
+      ],
+    };
+
+    it('should map routes onto the first covering matcher', () => {
+      expect(MiddlewareParser.matchRoute('/dashboard', middleware)).toEqual({
+        matched: true,
+        matcher: '/dashboard/:path*',
+      });
+      expect(MiddlewareParser.matchRoute('/dashboard/[team]/settings', middleware)).toEqual({
+        matched: true,
+        matcher: '/dashboard/:path*',
+      });
+      expect(MiddlewareParser.matchRoute('/blog/[slug]', middleware)).toEqual({ matched: false });
+    });
+
+    it('should flag matchers with has/missing conditions as conditional', () => {
+      expect(MiddlewareParser.matchRoute('/account/42', middleware)).toEqual({
+        matched: true,
+        matcher: '/account/:id(\\d+)',
+        conditional: true,
+      });
+    });
+
+    it('should flag matchers covering only some values of a dynamic segment as partial', () => {
+      const constrained: MiddlewareInfo = {
+        filePath: 'middleware.ts',
+        matchers: [
+          { source: '/blog/:id(\\d+)' },
+          { source: '/:section(shop|store)/:id' },
+          { source: '/docs/:page' },
+          { source: '/guides/:path+' },
+        ],
+      };
+
+      expect(MiddlewareParser.matchRoute('/blog/[slug]', constrained)).toEqual({
+        matched: true,
+        matcher: '/blog/:id(\\d+)',
+        partial: true,
+      });
+      expect(MiddlewareParser.matchRoute('/blog/42', constrained)).toEqual({ matched: true, matcher: '/blog/:id(\\d+)' });
+      expect(MiddlewareParser.matchRoute('/blog/latest', constrained)).toEqual({ matched: false });
+      // The constraint still applies to static segments
+      expect(MiddlewareParser.matchRoute('/news/[slug]', constrained)).toEqual({ matched: false });
+      expect(MiddlewareParser.matchRoute('/shop/[slug]', constrained)).toEqual({
+        matched: true,
+        matcher: '/:section(shop|store)/:id',
+      });
+      // Catch-all routes also serve URLs with several segments, optional ones the bare path
+      expect(MiddlewareParser.matchRoute('/docs/[...slug]', constrained)).toMatchObject({ matched: true, partial: true });
+      expect(MiddlewareParser.matchRoute('/guides/[...slug]', constrained)).toEqual({ matched: true, matcher: '/guides/:path+' });
+      expect(MiddlewareParser.matchRoute('/guides/[[...slug]]', constrained)).toMatchObject({ matched: true, partial: true });
+    });
+
+    it('should respect negative lookahead matchers', () => {
+      const exclusive: MiddlewareInfo = {
+        filePath: 'middleware.ts',
+        matchers: [{ source: '/((?!api|_next/static|favicon.ico).*)' }],
+      };
+
+      expect(MiddlewareParser.matchRoute('/', exclusive)?.matched).toBe(true);
+      expect(MiddlewareParser.matchRoute('/about', exclusive)?.matched).toBe(true);
+      expect(MiddlewareParser.matchRoute('/api/users', exclusive)?.matched).toBe(false);
+    });
+
+    it('should match every route when no matcher is configured', () => {
+      const everywhere: MiddlewareInfo = { filePath: 'middleware.ts', matchers: [] };
+
+      expect(MiddlewareParser.matchRoute('/api/users', everywhere)).toEqual({ matched: true });
+    });
+
+    it('should leave coverage unknown when the matcher is unresolved', () => {
+      const unresolved: MiddlewareInfo = {
+        filePath: 'middleware.ts',
+        matchers: [],
+        unresolved: [{ path: 'config.matcher', reason: '`matchers` is imported from \'./matchers\'' }],
+      };
+
+      expect(MiddlewareParser.matchRoute('/about', unresolved)).toBeUndefined();
+    });
+  });
+});
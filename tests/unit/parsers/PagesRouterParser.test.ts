@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { PagesRouterParser } from '../../../src/parsers/PagesRouterParser';
+
+describe('PagesRouterParser', () => {
+  describe('getLocaleVariants', () => {
+    it('should prefix every locale but the default one', () => {
+      const i18n = { locales: ['en', 'fr', 'de'], defaultLocale: 'en' };
+
+      expect(PagesRouterParser.getLocaleVariants('/about', i18n)).toEqual([
+        { locale: 'en', path: '/about' },
+        { locale: 'fr', path: '/fr/about' },
+        { locale: 'de', path: '/de/about' },
+      ]);
+      expect(PagesRouterParser.getLocaleVariants('/', i18n).map(variant => variant.path)).toEqual(['/', '/fr', '/de']);
+    });
+
+    it('should serve domain locales unprefixed on the domain they are the default of', () => {
+      const variants = PagesRouterParser.getLocaleVariants('/blog/[slug]', {
+        locales: ['en', 'fr', 'nl', 'nl-BE'],
+        defaultLocale: 'en',
+        domains: [
+          { domain: 'example.com', defaultLocale: 'en' },
+          { domain: 'example.fr', defaultLocale: 'fr', http: true },
+          { domain: 'example.nl', defaultLocale: 'nl', locales: ['nl-BE'] },
+        ],
+      });
+
+      expect(variants).toEqual([
+        { locale: 'en', path: '/blog/[slug]', domain: 'example.com' },
+        { locale: 'fr', path: '/blog/[slug]', domain: 'example.fr' },
+        { locale: 'nl', path: '/blog/[slug]', domain: 'example.nl' },
+        { locale: 'nl-BE', path: '/nl-BE/blog/[slug]', domain: 'example.nl' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { AppRouterParser } from '../../../src/parsers/AppRouterParser';
+import { ServerActionParser } from '../../../src/parsers/ServerActionParser';
+import { setupTempProject } from '../../setup';
+
+describe('ServerActionParser', () => {
+  const project = setupTempProject('server-action-parser-', ({ writeFiles }) => writeFiles({
+    'tsconfig.json': `{
+      // Comments are allowed in tsconfig.json
+      "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["./src/*"] } }
+    }`,
+    'src/app/layout.tsx': 'export default function RootLayout({ children }) { return children; }',
+    'src/app/posts/new/page.tsx': `
+      import PostForm from '@/components/PostForm';
+      export default function NewPost() { return <PostForm />; }
+    `,
+    'src/app/posts/[id]/page.tsx': `
+      import { deletePost } from '../../../lib/actions/posts';
+      export default function Post() { return <form action={deletePost} />; }
+    `,
+    'src/components/PostForm.tsx': `
+      'use client';
+      import { createPost } from '@/lib/actions';
+      export default function PostForm() { return <form action={createPost} />; }
+    `,
+    'src/lib/actions/index.ts': `export { createPost, deletePost } from './posts';`,
+    'src/lib/actions/posts.ts': `
+      'use server';
+
+      export type PostInput = { title: string };
+
+      export async function createPost(formData: FormData) {}
+
+      export async function deletePost(id: string) {}
+    `,
+  }));
+  const { file, writeFiles } = project;
+
+  const parseActions = async () => {
+    const routes = await AppRouterParser.parse(file('src/app'), {
+      rootDir: project.dir,
+      mode: 'detailed',
+      maxDepth: 10,
+    });
+    return ServerActionParser.parse(project.dir, routes);
+  };
+
+  it('should list the exports of use server modules with their importers and routes', async () => {
+    const actions = await parseActions();
+
+    expect(actions).toEqual([
+      {
+        name: 'createPost',
+        filePath: file('src/lib/actions/posts.ts'),
+        line: 6,
+        scope: 'module',
+        importedBy: [file('src/components/PostForm.tsx')],
+        routes: ['/posts/new'],
+      },
+      {
+        name: 'deletePost',
+        filePath: file('src/lib/actions/posts.ts'),
+        line: 8,
+        scope: 'module',
+        importedBy: [file('src/app/posts/[id]/page.tsx')],
+        routes: ['/posts/[id]'],
+      },
+    ]);
+  });
+
+  it('should find inline actions', async () => {
+    await writeFiles({
+      'src/app/admin/page.tsx': `
+        export default function Admin() {
+          async function publish() {
+            'use server';
+          }
+
+          return (
+            <form action={async () => {
+              'use server';
+            }}>
+              <button formAction={publish} />
+            </form>
+          );
+        }
+      `,
+    });
+
+    const actions = await parseActions();
+    const inline = actions.filter(action => action.scope === 'inline');
+
+    expect(inline).toEqual([
+      { name: 'publish', filePath: file('src/app/admin/page.tsx'), line: 3, scope: 'inline', importedBy: [], routes: ['/admin'] },
+      { name: '(action prop)', filePath: file('src/app/admin/page.tsx'), line: 8, scope: 'inline', importedBy: [], routes: ['/admin'] },
+    ]);
+  });
+
+  it('should attribute actions imported by a layout to every route below it', async () => {
+    await writeFiles({
+      'src/app/layout.tsx': `
+        import * as actions from '@/lib/actions/posts';
+        export default function RootLayout({ children }) { return children; }
+      `,
+    });
+
+    const actions = await parseActions();
+
+    expect(actions.find(action => action.name === 'createPost')?.routes).toEqual(['/posts/[id]', '/posts/new']);
+  });
+
+  it('should not attribute actions imported by a layout to route handlers', async () => {
+    await writeFiles({
+      'src/app/layout.tsx': `
+        import { createPost } from '@/lib/actions/posts';
+        export default function RootLayout({ children }) { return children; }
+      `,
+      'src/app/api/posts/route.ts': `
+        import { deletePost } from '@/lib/actions/posts';
+        export async function DELETE(request: Request) { await deletePost(await request.text()); }
+      `,
+    });
+
+    const actions = await parseActions();
+
+    expect(actions.map(action => [action.name, action.routes])).toEqual([
+      ['createPost', ['/posts/[id]', '/posts/new']],
+      ['deletePost', ['/api/posts', '/posts/[id]']],
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { VercelConfigParser } from '../../../src/parsers/VercelConfigParser';
+import { setupTempProject } from '../../setup';
+
+describe('VercelConfigParser', () => {
+  const project = setupTempProject('vercel-config-');
+
+  it('should read redirects and rewrites with a source and destination', async () => {
+    expect(await VercelConfigParser.findAndParse(project.dir)).toBeUndefined();
+
+    await project.writeFiles({ 'vercel.json': JSON.stringify({
+      redirects: [
+        { source: '/old', destination: '/new', permanent: true },
+        { source: '/broken' },
+      ],
+      rewrites: [{ source: '/api/:path*', destination: 'https://api.example.com/:path*' }],
+      routes: [{ src: '/legacy', dest: '/' }],
+    }) });
+
+    expect(await VercelConfigParser.findAndParse(project.dir)).toEqual({
+      configFile: 'vercel.json',
+      redirects: [{ source: '/old', destination: '/new', permanent: true }],
+      rewrites: [{ source: '/api/:path*', destination: 'https://api.example.com/:path*' }],
+    });
+  });
+});
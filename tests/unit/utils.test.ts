@@ -1,4 +1,8 @@
 import { describe, it, expect, vi } from "vitest";
+import { execFileSync } from "child_process";
+import { mkdtemp, mkdir, realpath, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
 import {
   isNextJsProject,
   detectRouterType,
@@ -11,6 +15,13 @@ import {
   parseMetadataFile,
   mergeRouteMetadata,
   filterExcludedFields,
+  matchPathPattern,
+  fillPathPattern,
+  getMetadataFileInfo,
+  getSpecialFileType,
+  getChangedFiles,
+  expandLocaleRoutes,
+  resolveRouteUrl,
 } from "../../src/utils";
 import type { RouteInfo, RouterType } from "../../src/types";
 
@@ -124,6 +135,28 @@ describe("Utility Functions", () => {
         isParallel: false,
       });
     });
+
+    it("should parse intercepting segments", () => {
+      expect(parseRouteSegment("(..)photo")).toEqual({
+        name: "(..)photo",
+        isDynamic: false,
+        isCatchAll: false,
+        isOptionalCatchAll: false,
+        isRouteGroup: false,
+        isIntercepting: true,
+        isParallel: false,
+        interceptMarker: "(..)",
+      });
+      expect(parseRouteSegment("(.)[id]")).toMatchObject({
+        isIntercepting: true,
+        isDynamic: true,
+        paramName: "id",
+        interceptMarker: "(.)",
+      });
+      expect(parseRouteSegment("(..)(..)settings").interceptMarker).toBe("(..)(..)");
+      expect(parseRouteSegment("(...)login").interceptMarker).toBe("(...)");
+      expect(parseRouteSegment("(marketing)").isRouteGroup).toBe(true);
+    });
   });
 
   describe("formatRoutePath", () => {
@@ -453,6 +486,58 @@ describe("Utility Functions", () => {
     });
   });
 
+  describe("expandLocaleRoutes", () => {
+    it("should list pages once per locale variant", () => {
+      const routes: RouteInfo[] = [
+        {
+          path: "/about",
+          pattern: "static",
+          router: "pages",
+          filePath: "pages/about.tsx",
+          pagesRouter: {
+            isApiRoute: false,
+            locales: [
+              { locale: "en", path: "/about" },
+              { locale: "fr", path: "/fr/about" },
+              { locale: "nl", path: "/about", domain: "example.nl" },
+            ],
+          },
+        },
+        {
+          path: "/api/hello",
+          pattern: "static",
+          router: "pages",
+          filePath: "pages/api/hello.ts",
+          pagesRouter: { isApiRoute: true },
+        },
+      ];
+
+      const expanded = expandLocaleRoutes(routes);
+
+      expect(expanded.map((route) => [route.path, route.locale, route.domain])).toEqual([
+        ["/about", "en", undefined],
+        ["/fr/about", "fr", undefined],
+        ["/about", "nl", "example.nl"],
+        ["/api/hello", undefined, undefined],
+      ]);
+      expect(expanded[1].pagesRouter).toEqual({ isApiRoute: false });
+      expect(expanded[3]).toBe(routes[1]);
+    });
+  });
+
+  describe("resolveRouteUrl", () => {
+    it("should apply basePath and trailingSlash", () => {
+      const config = { basePath: "/app", trailingSlash: true };
+
+      expect(resolveRouteUrl("/", config)).toBe("/app/");
+      expect(resolveRouteUrl("/blog/[slug]", config)).toBe("/app/blog/[slug]/");
+      expect(resolveRouteUrl("/robots.txt", config)).toBe("/app/robots.txt");
+      expect(resolveRouteUrl("/", { basePath: "/app" })).toBe("/app");
+      expect(resolveRouteUrl("/about", { trailingSlash: true })).toBe("/about/");
+      expect(resolveRouteUrl("/about")).toBe("/about");
+    });
+  });
+
   describe("routesToArray", () => {
     it("should convert nested routes back to array", () => {
       // First create routes and convert to nested
@@ -706,4 +791,101 @@ describe("Utility Functions", () => {
       expect(result[0].path).toBe("/blog");
     });
   });
+
+  describe("matchPathPattern", () => {
+    it("should match named parameters and modifiers", () => {
+      expect(matchPathPattern("/blog/:slug", "/blog/hello")).toEqual({ slug: "hello" });
+      expect(matchPathPattern("/docs/:path*", "/docs")).toEqual({});
+      expect(matchPathPattern("/docs/:path*", "/docs/a/b")).toEqual({ path: ["a", "b"] });
+      expect(matchPathPattern("/docs/:path+", "/docs")).toBeNull();
+      expect(matchPathPattern("/:locale?/shop", "/fr/shop")).toEqual({ locale: "fr" });
+    });
+
+    it("should support custom parameter patterns and unnamed groups", () => {
+      expect(matchPathPattern("/post/:id(\\d+)", "/post/12")).toEqual({ id: "12" });
+      expect(matchPathPattern("/post/:id(\\d+)", "/post/abc")).toBeNull();
+      expect(matchPathPattern("/((?!api|_next).*)", "/api/users")).toBeNull();
+      expect(matchPathPattern("/((?!api|_next).*)", "/about")).toEqual({ 0: "about" });
+    });
+  });
+
+  describe("fillPathPattern", () => {
+    it("should fill captured parameters and drop empty optional ones", () => {
+      expect(fillPathPattern("/blog/:slug", { slug: "hello" })).toBe("/blog/hello");
+      expect(fillPathPattern("/docs/:path*", { path: ["a", "b"] })).toBe("/docs/a/b");
+      expect(fillPathPattern("/docs/:path*", {})).toBe("/docs");
+      expect(fillPathPattern("/:locale?/shop", {})).toBe("/shop");
+      expect(fillPathPattern("/:path*", {})).toBe("/");
+      expect(fillPathPattern("/post/:id(\\d+)", { id: "12" })).toBe("/post/12");
+      expect(fillPathPattern("/blog/:slug", {})).toBe("/blog/:slug");
+    });
+  });
+
+  describe("getSpecialFileType", () => {
+    it("should only accept the configured page extensions", () => {
+      expect(getSpecialFileType("page.tsx")).toBe("page");
+      expect(getSpecialFileType("page.mdx")).toBeUndefined();
+      expect(getSpecialFileType("page.mdx", ["tsx", "mdx"])).toBe("page");
+      expect(getSpecialFileType("layout.page.tsx", ["page.tsx"])).toBe("layout");
+      expect(getSpecialFileType("layout.tsx", ["page.tsx"])).toBeUndefined();
+      expect(getSpecialFileType("_app.page.tsx", ["page.tsx"])).toBe("app");
+    });
+  });
+
+  describe("getMetadataFileInfo", () => {
+    it("should recognize static and generated metadata files", () => {
+      expect(getMetadataFileInfo("sitemap.xml")).toEqual({ type: "sitemap", source: "static" });
+      expect(getMetadataFileInfo("sitemap.ts")).toEqual({ type: "sitemap", source: "generated" });
+      expect(getMetadataFileInfo("robots.txt")).toEqual({ type: "robots", source: "static" });
+      expect(getMetadataFileInfo("manifest.webmanifest")).toEqual({ type: "manifest", source: "static" });
+      expect(getMetadataFileInfo("opengraph-image2.jpg")).toEqual({ type: "opengraph-image", source: "static" });
+      expect(getMetadataFileInfo("twitter-image.tsx")).toEqual({ type: "twitter-image", source: "generated" });
+      expect(getSpecialFileType("apple-icon.png")).toBe("apple-icon");
+    });
+
+    it("should reject unsupported extensions and alt text files", () => {
+      expect(getMetadataFileInfo("opengraph-image.alt.txt")).toBeUndefined();
+      expect(getMetadataFileInfo("favicon.tsx")).toBeUndefined();
+      expect(getMetadataFileInfo("robots1.txt")).toBeUndefined();
+      expect(getMetadataFileInfo("apple-icon.svg")).toBeUndefined();
+    });
+  });
+
+  describe("getChangedFiles", () => {
+    it("should list committed, modified and untracked files since a ref", async () => {
+      const repoDir = await realpath(await mkdtemp(path.join(tmpdir(), "changed-files-")));
+      const git = (...args: string[]) =>
+        execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+          cwd: repoDir,
+        });
+
+      try {
+        await mkdir(path.join(repoDir, "apps/web/app"), { recursive: true });
+        await writeFile(path.join(repoDir, "apps/web/app/page.tsx"), "export default 1;");
+        await writeFile(path.join(repoDir, "README.md"), "# Test");
+        git("init", "-q", "-b", "main");
+        git("add", "-A");
+        git("commit", "-q", "-m", "initial");
+
+        git("checkout", "-q", "-b", "feature");
+        await writeFile(path.join(repoDir, "lib.ts"), "export const a = 1;");
+        git("add", "lib.ts");
+        git("commit", "-q", "-m", "add lib");
+        await writeFile(path.join(repoDir, "apps/web/app/page.tsx"), "export default 2;");
+        await writeFile(path.join(repoDir, "apps/web/app/new.tsx"), "export default 3;");
+
+        const changed = await getChangedFiles(path.join(repoDir, "apps/web"), "main");
+        const relative = changed.map((file) => path.relative(repoDir, file));
+
+        expect(relative).toEqual(["apps/web/app/new.tsx", "apps/web/app/page.tsx", "lib.ts"]);
+      } finally {
+        await rm(repoDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should reject unknown refs and refs read as options", async () => {
+      await expect(getChangedFiles(process.cwd(), "no-such-ref-xyz")).rejects.toThrow("Unknown git ref 'no-such-ref-xyz'");
+      await expect(getChangedFiles(process.cwd(), "--output=/tmp/changed.txt")).rejects.toThrow("Invalid git ref");
+    });
+  });
 });